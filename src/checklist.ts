@@ -0,0 +1,106 @@
+import type { ChecklistItem, ChecklistStatus, ChecklistUpdate, MemberId, Plan, TaskSpec } from "./types.js";
+
+// Drivers report progress and navigators judge it; a driver cannot dispute its own work.
+const ALLOWED_STATUSES: Record<"driver" | "navigator", ReadonlySet<ChecklistStatus>> = {
+	driver: new Set(["pending", "in_progress", "done"]),
+	navigator: new Set(["pending", "done", "disputed"]),
+};
+
+export interface ChecklistChange {
+	id: number;
+	from: ChecklistStatus;
+	to: ChecklistStatus;
+	note?: string;
+}
+
+/**
+ * Numbered checklist built from the agreed plan plus the task's acceptance criteria. Driver reports and navigator
+ * reviews move items between statuses; the orchestrator renders it into every driver and navigator prompt.
+ */
+export class Checklist {
+	private items: ChecklistItem[];
+
+	constructor(items: ChecklistItem[] = []) {
+		this.items = structuredClone(items);
+	}
+
+	/** Plan steps keep their plan ids, so "step 3" and checklist item 3 are the same thing; criteria follow. */
+	static fromPlan(plan: Plan, task: TaskSpec): Checklist {
+		const steps: ChecklistItem[] = plan.steps.map((step) => ({
+			id: step.id,
+			text: step.description,
+			kind: "step",
+			status: "pending",
+		}));
+		const criteria: ChecklistItem[] = task.acceptanceCriteria.map((text, index) => ({
+			id: steps.length + index + 1,
+			text,
+			kind: "criterion",
+			status: "pending",
+		}));
+		return new Checklist([...steps, ...criteria]);
+	}
+
+	get isEmpty(): boolean {
+		return this.items.length === 0;
+	}
+
+	/** First plan step that is not done yet, in plan order. Disputed steps count as open. */
+	nextOpenStep(): ChecklistItem | undefined {
+		const step = this.items.find((item) => item.kind === "step" && item.status !== "done");
+		return step ? structuredClone(step) : undefined;
+	}
+
+	/** Applies updates from one report. Unknown ids and statuses the role may not set are returned as ignored. */
+	apply(
+		updates: ChecklistUpdate[],
+		context: { role: "driver" | "navigator"; driver: MemberId; round: number },
+	): { changes: ChecklistChange[]; ignored: ChecklistUpdate[] } {
+		const changes: ChecklistChange[] = [];
+		const ignored: ChecklistUpdate[] = [];
+		for (const update of updates) {
+			const item = this.items.find((candidate) => candidate.id === update.id);
+			if (!item || !ALLOWED_STATUSES[context.role].has(update.status)) {
+				ignored.push(update);
+				continue;
+			}
+			if (item.status === update.status && update.note === undefined) {
+				continue;
+			}
+			changes.push({ id: item.id, from: item.status, to: update.status, ...(update.note ? { note: update.note } : {}) });
+			item.status = update.status;
+			if (update.note) {
+				item.note = update.note;
+			} else {
+				delete item.note;
+			}
+			if (update.status === "done") {
+				item.completedBy = context.driver;
+				item.completedRound = context.round;
+			} else {
+				delete item.completedBy;
+				delete item.completedRound;
+			}
+		}
+		return { changes, ignored };
+	}
+
+	format(): string {
+		return this.items
+			.map((item) => {
+				const label = item.kind === "criterion" ? " (acceptance criterion)" : "";
+				const owner = item.completedBy ? ` - done by ${item.completedBy} in round ${item.completedRound}` : "";
+				const note = item.note ? ` - ${item.note}` : "";
+				return `${item.id}. [${item.status}] ${item.text}${label}${owner}${note}`;
+			})
+			.join("\n");
+	}
+
+	exportState(): ChecklistItem[] {
+		return structuredClone(this.items);
+	}
+
+	restore(items: ChecklistItem[]): void {
+		this.items = structuredClone(items);
+	}
+}
@@ -1,13 +1,28 @@
 #!/usr/bin/env node
 
 import "dotenv/config";
-import { writeFile } from "node:fs/promises";
+import { access, writeFile } from "node:fs/promises";
 import { extname, basename, dirname, join, resolve } from "node:path";
-import { parseCli, type CliConfig } from "./config.js";
+import { createInterface } from "node:readline/promises";
+import { defaultPairConfig, parseMemoryCli, type CliConfig, type MemoryCommand } from "./config.js";
+import { loadCliConfig } from "./config-file.js";
+import { MemoryStore } from "./memory-store.js";
+import { memberEntries, MOB_MEMBER_IDS } from "./mob.js";
 import { SessionObserver } from "./observability.js";
 import { PairProgrammingOrchestrator } from "./pair-orchestrator.js";
+import { sessionBranchName } from "./git-committer.js";
+import { SessionStore } from "./session-store.js";
+import { formatTokenUsage } from "./usage.js";
 import { prepareWorkspaceSession } from "./workspace-session.js";
-import type { ExecutionMode, PairAgentConfig, PairRunResult, WorkspaceMode } from "./types.js";
+import type {
+	ExecutionMode,
+	ModelSpec,
+	ObservabilitySummary,
+	PairAgentConfig,
+	PairRunResult,
+	SessionCheckpoint,
+	WorkspaceMode,
+} from "./types.js";
 
 interface StrategyRunArtifacts {
 	mode: ExecutionMode;
@@ -17,6 +32,16 @@ interface StrategyRunArtifacts {
 	eventLogFile?: string;
 }
 
+/** What a cancelled run writes to --output: its progress as of the last session checkpoint. */
+interface CancelledRunArtifact
+	extends Partial<Pick<SessionCheckpoint, "phase" | "agreedPlan" | "plan" | "rounds" | "checklist" | "sharedJournal">> {
+	status: "cancelled";
+	reason: string;
+	sessionId: string;
+	task: string;
+	observability?: ObservabilitySummary;
+}
+
 interface StrategyComparisonReport {
 	task: string;
 	generatedAt: string;
@@ -37,6 +62,8 @@ interface StrategyComparisonReport {
 		toolExecutionDelta?: number;
 		toolExecutionErrorDelta?: number;
 		durationMsDelta?: number;
+		tokenDelta?: number;
+		costUsdDelta?: number;
 	};
 }
 
@@ -57,22 +84,65 @@ function suffixedPath(path: string | undefined, suffix: string, fallbackExt: str
 
 function printRunDetails(result: PairRunResult): void {
 	printSection("Agreed Plan", result.agreedPlan);
+	if (result.planNegotiation) {
+		const negotiation = result.planNegotiation;
+		printSection(
+			"Plan Negotiation",
+			[
+				`Mode: ${negotiation.mode}`,
+				`Reviews by B: ${negotiation.iterations} of ${negotiation.maxIterations}`,
+				`Signed off: ${negotiation.signedOff ? "yes" : "no"}`,
+				...negotiation.openRisks.map((risk) => `Open risk: ${risk}`),
+			].join("\n"),
+		);
+	}
 
 	for (const round of result.rounds) {
 		printSection(
-			`Round ${round.round} (${round.driver} driver, ${round.navigator} navigator)`,
+			round.navigatorReviews
+				? `Round ${round.round} (${round.driver} driver, navigators ${round.navigatorReviews.map((review) => review.navigator).join(", ")})`
+				: `Round ${round.round} (${round.driver} driver, ${round.navigator} navigator)`,
 			[
 				`Pause triggered: ${round.pauseTriggered}`,
 				`Checkpoint count in round: ${round.checkpointCount}`,
+				...(round.focusStep !== undefined ? [`Focus step: ${round.focusStep}`] : []),
 				`Driver status: ${round.driverReport.status}`,
 				`Edit/write calls (successful): ${round.editWriteCallCount}`,
 				`Estimated written bytes: ${round.estimatedWrittenBytes}`,
+				`Tool errors: ${round.toolErrorCount ?? 0}`,
+				`Files changed: ${
+					round.fileChanges.length > 0
+						? round.fileChanges.map((change) => `${change.path} (+${change.linesAdded}/-${change.linesRemoved})`).join(", ")
+						: "none"
+				}`,
 				`Driver summary: ${round.driverReport.summary}`,
 				`Navigator feedback: ${round.navigatorReview.hasFeedback ? round.navigatorReview.publicFeedback : "NONE"}`,
 				`Navigator recommendation: ${round.navigatorReview.driverRecommendation}`,
+				...(round.checkpointReviews ?? []).map(
+					(review) =>
+						`Checkpoint review ${review.checkpoint} (${review.phase}): ${review.hasFeedback ? review.feedback : "NONE"}`,
+				),
+				...(round.interimReviews ?? []).map(
+					(review) =>
+						`Interim review (checkpoint ${review.checkpoint}): ${review.error ? `failed (${review.error})` : review.hasFeedback ? `${review.feedback}${review.steered ? " [steered]" : " [after turn]"}` : "NONE"}`,
+				),
+				...(round.reverted ? ["Reverted: yes (round changes discarded)"] : []),
 				round.driverDecision
 					? `Driver decision: ${round.driverDecision.decision} (${round.driverDecision.justification})`
 					: "Driver decision: n/a",
+				...(round.verifications ?? []).map(
+					(verification) =>
+						`Verification (${verification.stage}): ${verification.passed ? "PASSED" : "FAILED"} (exit ${verification.exitCode ?? "n/a"}, ${verification.durationMs} ms)`,
+				),
+				...(round.commits ?? []).map((commit) => `Commit (${commit.trigger}): ${commit.sha.slice(0, 12)} ${commit.subject}`),
+				...(round.dispute
+					? [
+							`Dispute (${round.dispute.subject}): ${round.dispute.outcome}, decided by ${round.dispute.decidedBy}${round.dispute.ruling ? ` (${round.dispute.ruling})` : ""}`,
+						]
+					: []),
+				...(round.tieBreak
+					? [`Tie-break by ${round.tieBreak.decidedBy}: ${round.tieBreak.decision} (${round.tieBreak.reason}). ${round.tieBreak.resolution}`]
+					: []),
 			].join("\n"),
 		);
 	}
@@ -81,23 +151,57 @@ function printRunDetails(result: PairRunResult): void {
 		"Final Joint Review",
 		[
 			`Verdict: ${result.finalReview.jointVerdict}`,
+			...(result.finalReview.decidedBy ? [`Decided by: ${result.finalReview.decidedBy === "arbiter" ? "arbiter" : `Model ${result.finalReview.decidedBy}`}`] : []),
 			`Rationale: ${result.finalReview.rationale}`,
 			`Next steps: ${result.finalReview.nextSteps}`,
+			...(result.finalReview.acceptance ?? []).map(
+				(check, index) => `Criterion ${index + 1} [${check.met ? "met" : "unmet"}]: ${check.criterion} (${check.note})`,
+			),
 		].join("\n"),
 	);
 
+	if (result.checklist.length > 0) {
+		printSection(
+			"Checklist",
+			result.checklist
+				.map(
+					(item) =>
+						`${item.id}. [${item.status}] ${item.text}${item.completedBy ? ` (done by ${item.completedBy} in round ${item.completedRound})` : ""}`,
+				)
+				.join("\n"),
+		);
+	}
+
 	printSection(
 		"Run Summary",
 		[
 			`Total checkpoints: ${result.summary.checkpointCount}`,
 			`Total driver swaps: ${result.summary.swapCount}`,
 			`Total estimated written bytes: ${result.summary.totalEstimatedWrittenBytes}`,
-			`Model A rough code share: ${result.summary.contributions.A.roughCodeSharePercent}% (${result.summary.contributions.A.estimatedWrittenBytes} bytes, ${result.summary.contributions.A.editWriteCallCount} edit/write calls)`,
-			`Model B rough code share: ${result.summary.contributions.B.roughCodeSharePercent}% (${result.summary.contributions.B.estimatedWrittenBytes} bytes, ${result.summary.contributions.B.editWriteCallCount} edit/write calls)`,
+			`Total lines changed: +${result.summary.totalLinesAdded}/-${result.summary.totalLinesRemoved}`,
+			result.summary.budgetExhausted
+				? `Budget exhausted: ${result.summary.budgetExhausted.limit} (used ${result.summary.budgetExhausted.used}, cap ${result.summary.budgetExhausted.cap})`
+				: "Budget exhausted: no",
+			`Provider retries: ${result.summary.providerRetries}`,
+			...(result.summary.failovers.length > 0
+				? result.summary.failovers.map(
+						(failover) => `Failover: ${failover.worker} ${failover.from} -> ${failover.to} after ${failover.failures} failures (${failover.error})`,
+					)
+				: ["Failovers: none"]),
+			`Context compactions: ${result.summary.compactions.length}`,
+			...memberEntries(result.summary.contributions).map(([agent, contribution]) => {
+				return [
+					`Model ${agent} code share: ${contribution.roughCodeSharePercent}%`,
+					`(+${contribution.linesAdded}/-${contribution.linesRemoved} lines, ${contribution.filesTouched.length} files,`,
+					`${contribution.survivingLines} surviving lines, ${contribution.estimatedWrittenBytes} bytes,`,
+					`${contribution.editWriteCallCount} edit/write calls)`,
+				].join(" ");
+			}),
 		].join("\n"),
 	);
 
 	if (result.observability) {
+		const usage = result.observability.usage;
 		printSection(
 			"Observability",
 			[
@@ -112,12 +216,104 @@ function printRunDetails(result: PairRunResult): void {
 				`Tool executions: ${result.observability.toolExecutionCount}`,
 				`Tool execution errors: ${result.observability.toolExecutionErrorCount}`,
 				`Duration: ${result.observability.durationMs} ms`,
+				`Usage: ${formatTokenUsage(usage.total)}`,
+				...memberEntries(usage.byAgent).map(([agent, agentUsage]) => `Usage Model ${agent}: ${formatTokenUsage(agentUsage)}`),
+				...(usage.arbiter ? [`Usage arbiter: ${formatTokenUsage(usage.arbiter)}`] : []),
+				...Object.entries(usage.byPhase).map(([phase, phaseUsage]) => `Usage phase ${phase}: ${formatTokenUsage(phaseUsage)}`),
+				...Object.entries(usage.byRound).map(([round, roundUsage]) => `Usage round ${round}: ${formatTokenUsage(roundUsage)}`),
 			].join("\n"),
 		);
 	}
 }
 
+function describeModel(spec: ModelSpec): string {
+	const fallback = spec.fallback ? `, falls back to ${spec.fallback.provider}/${spec.fallback.modelId}` : "";
+	return `${spec.provider}/${spec.modelId} (${spec.thinkingLevel})${fallback}`;
+}
+
+function describeBudget(pair: PairAgentConfig): string {
+	const budget = pair.budget;
+	if (!budget) {
+		return "unlimited";
+	}
+	const caps = [
+		budget.maxCostUsd !== undefined ? `$${budget.maxCostUsd}` : undefined,
+		budget.maxTokens !== undefined ? `${budget.maxTokens} tokens` : undefined,
+		budget.maxWallTimeMs !== undefined ? `${budget.maxWallTimeMs / 1000}s wall time` : undefined,
+	].filter((cap): cap is string => cap !== undefined);
+	const downgrade = budget.navigatorDowngrade
+		? `; navigator thinking -> ${budget.navigatorDowngrade.thinkingLevel} at ${budget.navigatorDowngrade.atFraction * 100}%`
+		: "";
+	return `${caps.join(", ")}${downgrade}`;
+}
+
+function describeConfigSources(parsed: CliConfig): string[] {
+	const sources = parsed.configSources;
+	if (!sources) {
+		return ["Config file: none", "Config precedence: defaults < CLI flags"];
+	}
+	const list = (items: string[]) => (items.length > 0 ? items.join(", ") : "none");
+	return [
+		`Config file: ${sources.file}`,
+		`Config profile: ${sources.profile ?? "none"}`,
+		"Config precedence: defaults < file < profile < CLI flags",
+		`From file: ${list(sources.fromFile)}`,
+		...(sources.profile ? [`From profile ${sources.profile}: ${list(sources.fromProfile)}`] : []),
+		`From CLI: ${list(sources.fromCli)}`,
+	];
+}
+
 let activeObserver: SessionObserver | undefined;
+let activeSessionStore: SessionStore | undefined;
+const cancellation = new AbortController();
+
+/** The first SIGINT or SIGTERM cancels the run cleanly; a second one exits at once. */
+function cancelRun(signal: NodeJS.Signals): void {
+	if (cancellation.signal.aborted) {
+		process.exit(130);
+	}
+	console.error(`\nReceived ${signal}: cancelling the run. Press Ctrl-C again to exit immediately.`);
+	cancellation.abort(new Error(`Run cancelled by ${signal}.`));
+}
+
+async function askOnTerminal(question: string): Promise<string> {
+	const terminal = createInterface({ input: process.stdin, output: process.stdout });
+	// While the prompt is open, Ctrl-C reaches readline instead of the process.
+	terminal.on("SIGINT", () => cancelRun("SIGINT"));
+	try {
+		return await terminal.question(`\n${question}`, { signal: cancellation.signal });
+	} finally {
+		terminal.close();
+	}
+}
+
+async function writeCancelledArtifact(outputPath: string, task: string, reason: string): Promise<void> {
+	const store = activeSessionStore;
+	if (!store) {
+		return;
+	}
+	// Cancelled before planning finished means there is no checkpoint yet; the artifact then only names the task.
+	const checkpoint = await store.load().catch(() => undefined);
+	const artifact: CancelledRunArtifact = {
+		status: "cancelled",
+		reason,
+		sessionId: store.sessionId,
+		task,
+		...(checkpoint
+			? {
+					phase: checkpoint.phase,
+					agreedPlan: checkpoint.agreedPlan,
+					...(checkpoint.plan ? { plan: checkpoint.plan } : {}),
+					rounds: checkpoint.rounds,
+					...(checkpoint.checklist ? { checklist: checkpoint.checklist } : {}),
+					sharedJournal: checkpoint.sharedJournal,
+				}
+			: {}),
+		...(activeObserver ? { observability: await activeObserver.flush("cancelled", reason) } : {}),
+	};
+	await writeFile(outputPath, JSON.stringify(artifact, null, 2), "utf-8");
+	console.error(`Wrote partial run artifact: ${outputPath}`);
+}
 
 async function runStrategy(options: {
 	parsed: CliConfig;
@@ -128,18 +324,26 @@ async function runStrategy(options: {
 	eventLogFile?: string;
 	outputPath?: string;
 	quiet?: boolean;
+	resumeFrom?: { store: SessionStore; checkpoint: SessionCheckpoint };
 }): Promise<StrategyRunArtifacts> {
-	const pair: PairAgentConfig = {
-		...options.parsed.pair,
-		executionMode: options.mode,
-		cwd: options.baseCwd,
-	};
+	const checkpoint = options.resumeFrom?.checkpoint;
+	const task = checkpoint?.task ?? options.parsed.task;
+	// Checkpoints written by older versions may lack settings added since; those fall back to the defaults.
+	const pair: PairAgentConfig = checkpoint
+		? { ...defaultPairConfig(checkpoint.config.cwd), ...checkpoint.config }
+		: {
+				...options.parsed.pair,
+				executionMode: options.mode,
+				cwd: options.baseCwd,
+			};
+	// A resumed session keeps editing the workspace it was checkpointed against.
 	const workspace = await prepareWorkspaceSession({
-		baseCwd: options.baseCwd,
-		mode: options.workspaceMode,
+		baseCwd: checkpoint ? checkpoint.config.cwd : options.baseCwd,
+		mode: checkpoint ? "direct" : options.workspaceMode,
 		keepWorkspace: options.parsed.keepWorkspace,
 	});
 	pair.cwd = workspace.runtimeCwd;
+	activeSessionStore = options.resumeFrom?.store ?? new SessionStore({ cwd: options.baseCwd });
 
 	activeObserver = new SessionObserver({
 		cwd: options.baseCwd,
@@ -152,15 +356,23 @@ async function runStrategy(options: {
 		name: "cli_start",
 		actor: "system",
 		details: {
-			taskLength: options.parsed.task.length,
+			sessionId: activeSessionStore.sessionId,
+			...(checkpoint ? { resumedPhase: checkpoint.phase } : {}),
+			taskLength: task.length,
 			maxRounds: pair.maxRounds,
 			executionMode: options.mode,
 			turnPolicy: pair.turnPolicy.mode,
 			pausePolicy: pair.pauseStrategy.mode,
+			...(pair.verification ? { verifyCommand: pair.verification.command } : {}),
+			...(pair.commits ? { commitMode: pair.commits.mode } : {}),
+			...(pair.parallelReview ? { parallelReview: true } : {}),
+			...(pair.budget ? { budget: pair.budget } : {}),
 			baseCwd: options.baseCwd,
 			runtimeCwd: pair.cwd,
 			workspaceMode: options.workspaceMode,
 			keepWorkspace: options.parsed.keepWorkspace,
+			...(options.parsed.configSources ? { configFile: options.parsed.configSources.file } : {}),
+			...(options.parsed.configSources?.profile ? { configProfile: options.parsed.configSources.profile } : {}),
 		},
 	});
 
@@ -168,31 +380,77 @@ async function runStrategy(options: {
 		printSection(
 			"Run Configuration",
 			[
-				`Task: ${options.parsed.task}`,
+				`Task: ${task}`,
+				...(options.parsed.taskFile && !checkpoint
+					? [
+							`Task file: ${options.parsed.taskFile}`,
+							`Acceptance criteria: ${options.parsed.taskSpec?.acceptanceCriteria.length ?? 0}`,
+						]
+					: []),
+				`Session: ${activeSessionStore.sessionId}`,
+				checkpoint
+					? `Resumed from: ${checkpoint.phase} (next round ${checkpoint.execution.nextRound}, ${checkpoint.rounds.length} rounds completed)`
+					: "Resumed from: n/a (new session)",
 				`Execution mode: ${options.mode}`,
 				`Base CWD: ${options.baseCwd}`,
 				`Runtime CWD: ${pair.cwd}`,
 				`Workspace mode: ${options.workspaceMode}`,
 				`Keep workspace: ${options.parsed.keepWorkspace}`,
 				`Max rounds: ${pair.maxRounds}`,
+				`Planning mode: ${options.mode === "solo_driver_then_reviewer" ? "n/a (solo plan)" : pair.planningMode}`,
+				`Max plan iterations: ${pair.maxPlanIterations}`,
 				`Driver starts: ${pair.driverStartsAs}`,
-				`Turn policy: ${pair.turnPolicy.mode}`,
-				pair.turnPolicy.mode === "same_driver_until_navigator_signoff"
-					? `Safety cap: ${pair.turnPolicy.maxConsecutiveRounds} rounds or ${pair.turnPolicy.maxConsecutiveCheckpoints} checkpoints`
-					: "Safety cap: n/a",
+				`Turn policy: ${options.mode === "mob" ? `n/a (mob rotation ${pair.mob?.rotation ?? "round_robin"})` : pair.turnPolicy.mode}`,
+				`Parallel review: ${pair.parallelReview && options.mode === "paired_turns" ? "on" : "off"}`,
+				`Dispute arbiter: ${pair.disputes.arbiter === "off" ? "off" : `${pair.disputes.arbiter} (rule ${pair.disputes.rule})`}`,
+				pair.turnPolicy.mode === "alternate_each_round"
+					? "Safety cap: n/a"
+					: `Safety cap: ${pair.turnPolicy.maxConsecutiveRounds} rounds or ${pair.turnPolicy.maxConsecutiveCheckpoints} checkpoints`,
+				...(pair.turnPolicy.mode === "adaptive"
+					? [
+							`Stuck limits: ${pair.turnPolicy.maxRejectedFeedback} rejected reviews, ${pair.turnPolicy.maxRepeatedFeedback} repeated feedback, ${pair.turnPolicy.maxVerificationFailures} verification failures, ${pair.turnPolicy.maxToolErrors} tool errors`,
+						]
+					: []),
+				`Verify command: ${pair.verification ? `${pair.verification.command} (timeout ${pair.verification.timeoutMs / 1000}s)` : "disabled"}`,
+				`Budget: ${describeBudget(pair)}`,
+				`Commit mode: ${
+					pair.commits
+						? `${pair.commits.mode}${pair.commits.sessionBranch ? ` on ${sessionBranchName(activeSessionStore.sessionId)}` : " on current branch"}`
+						: "disabled"
+				}`,
 				`Log file: ${activeObserver.logFile}`,
 				`Event stream: ${activeObserver.eventLogFile ?? "disabled"}`,
 				`Event stream mode: ${options.parsed.eventStreamMode}`,
-				`Model A: ${pair.modelA.provider}/${pair.modelA.modelId} (${pair.modelA.thinkingLevel})`,
-				`Model B: ${pair.modelB.provider}/${pair.modelB.modelId} (${pair.modelB.thinkingLevel})`,
+				`Model A: ${describeModel(pair.modelA)}`,
+				`Model B: ${describeModel(pair.modelB)}`,
+				...(options.mode === "mob"
+					? (pair.mob?.members ?? []).map((member, index) => `Model ${MOB_MEMBER_IDS[index] ?? "?"}: ${describeModel(member)}`)
+					: []),
+				...(pair.arbiter ? [`Arbiter: ${describeModel(pair.arbiter)}`] : []),
+				`Provider retries: up to ${pair.retry.maxAttempts} attempts, backoff ${pair.retry.baseDelayMs / 1000}s to ${pair.retry.maxDelayMs / 1000}s, fallback after ${pair.retry.failoverAfter} failures`,
+				pair.compaction.mode === "off"
+					? "Context compaction: off"
+					: `Context compaction: at ${pair.compaction.thresholdPercent}% of the context window, keeping ${pair.compaction.keepRecentMessages} recent messages, summarized by ${pair.compaction.model ? describeModel(pair.compaction.model) : "each worker's own model"}`,
+				pair.memory.mode === "off"
+					? "Memory: off"
+					: `Memory: newest ${pair.memory.maxLessons} notes per model from ${new MemoryStore({ cwd: options.baseCwd }).directory}`,
+				...describeConfigSources(options.parsed),
 			].join("\n"),
 		);
 	}
 
 	let cleanupPrinted = false;
 	try {
-		const orchestrator = new PairProgrammingOrchestrator(pair, { observer: activeObserver });
-		const result = await orchestrator.run(options.parsed.task);
+		const orchestrator = new PairProgrammingOrchestrator(pair, {
+			observer: activeObserver,
+			sessionStore: activeSessionStore,
+			// Memory lives with the project, not in an ephemeral workspace copy.
+			memoryStore: new MemoryStore({ cwd: options.baseCwd }),
+			// Without a terminal to ask, the human arbiter falls back to --dispute-rule.
+			...(pair.disputes.arbiter === "human" && process.stdin.isTTY ? { humanArbiter: askOnTerminal } : {}),
+			signal: cancellation.signal,
+		});
+		const result = checkpoint ? await orchestrator.resume(checkpoint) : await orchestrator.run(options.parsed.taskSpec ?? task);
 
 		if (!options.quiet) {
 			printRunDetails(result);
@@ -212,6 +470,20 @@ async function runStrategy(options: {
 			logFile: activeObserver.logFile,
 			...(activeObserver.eventLogFile ? { eventLogFile: activeObserver.eventLogFile } : {}),
 		};
+	} catch (error) {
+		const reason = error instanceof Error ? error.message : String(error);
+		// A run that got as far as the orchestrator has already logged session_cancelled or session_error and flushed
+		// the log, so this only lands for failures before that. It must come before the cancelled artifact's flush.
+		activeObserver.record({
+			category: "session",
+			name: cancellation.signal.aborted ? "cli_cancelled" : "cli_error",
+			actor: "system",
+			details: { message: reason },
+		});
+		if (cancellation.signal.aborted && options.outputPath) {
+			await writeCancelledArtifact(options.outputPath, task, reason);
+		}
+		throw error;
 	} finally {
 		try {
 			const cleanup = await workspace.cleanup();
@@ -258,6 +530,8 @@ function buildComparisonReport(task: string, paired: StrategyRunArtifacts, solo:
 			...(pairedObs && soloObs ? { toolExecutionDelta: pairedObs.toolExecutionCount - soloObs.toolExecutionCount } : {}),
 			...(pairedObs && soloObs ? { toolExecutionErrorDelta: pairedObs.toolExecutionErrorCount - soloObs.toolExecutionErrorCount } : {}),
 			...(pairedObs && soloObs ? { durationMsDelta: pairedObs.durationMs - soloObs.durationMs } : {}),
+			...(pairedObs && soloObs ? { tokenDelta: pairedObs.usage.total.totalTokens - soloObs.usage.total.totalTokens } : {}),
+			...(pairedObs && soloObs ? { costUsdDelta: pairedObs.usage.total.costUsd - soloObs.usage.total.costUsd } : {}),
 		},
 	};
 }
@@ -325,6 +599,8 @@ async function runComparison(parsed: CliConfig): Promise<void> {
 				? `Tool execution error delta (paired - solo): ${report.comparison.toolExecutionErrorDelta}`
 				: "",
 			report.comparison.durationMsDelta !== undefined ? `Duration delta ms (paired - solo): ${report.comparison.durationMsDelta}` : "",
+			report.comparison.tokenDelta !== undefined ? `Token delta (paired - solo): ${report.comparison.tokenDelta}` : "",
+			report.comparison.costUsdDelta !== undefined ? `Cost delta USD (paired - solo): ${report.comparison.costUsdDelta.toFixed(4)}` : "",
 			`paired_turns log: ${paired.logFile}`,
 			`solo_driver_then_reviewer log: ${solo.logFile}`,
 		]
@@ -344,8 +620,74 @@ async function runComparison(parsed: CliConfig): Promise<void> {
 	}
 }
 
+async function resumeSession(parsed: CliConfig, sessionId: string): Promise<void> {
+	const store = new SessionStore({ cwd: parsed.pair.cwd, sessionId });
+	const checkpoint = await store.load();
+	try {
+		await access(checkpoint.config.cwd);
+	} catch {
+		throw new Error(
+			`Workspace for session ${sessionId} no longer exists: ${checkpoint.config.cwd}. Ephemeral sessions can only be resumed when run with --keep-workspace.`,
+		);
+	}
+
+	await runStrategy({
+		parsed,
+		baseCwd: parsed.pair.cwd,
+		mode: checkpoint.config.executionMode,
+		workspaceMode: "direct",
+		...(parsed.logFile ? { logFile: parsed.logFile } : {}),
+		...(parsed.eventLogFile ? { eventLogFile: parsed.eventLogFile } : {}),
+		...(parsed.outputPath ? { outputPath: parsed.outputPath } : {}),
+		resumeFrom: { store, checkpoint },
+	});
+}
+
+async function runMemoryCommand(command: MemoryCommand): Promise<void> {
+	const store = new MemoryStore({ cwd: command.cwd });
+	if (command.action === "list") {
+		const memories = (await store.list()).filter((memory) => !command.model || memory.model === command.model);
+		if (memories.length === 0) {
+			console.log(`No memories in ${store.directory}${command.model ? ` for ${command.model}` : ""}.`);
+			return;
+		}
+		for (const memory of memories) {
+			printSection(
+				`${memory.model} (${memory.entries.length} notes)`,
+				memory.entries
+					.map((entry) => {
+						const text = entry.content.replace(/\s+/g, " ");
+						return `${entry.createdAt.slice(0, 19)} ${entry.source} [${entry.sessionId}] ${text.length > 160 ? `${text.slice(0, 160)}...` : text}`;
+					})
+					.join("\n"),
+			);
+		}
+		return;
+	}
+	const removed =
+		command.action === "prune"
+			? await store.prune({
+					...(command.model ? { model: command.model } : {}),
+					...(command.keep !== undefined ? { keep: command.keep } : {}),
+					...(command.olderThanDays !== undefined ? { olderThanDays: command.olderThanDays } : {}),
+				})
+			: await store.clear(command.model);
+	console.log(`Removed ${removed} notes from ${store.directory}${command.model ? ` for ${command.model}` : ""}.`);
+}
+
 async function main(): Promise<void> {
-	const parsed = parseCli(process.argv.slice(2));
+	const argv = process.argv.slice(2);
+	if (argv[0] === "memory") {
+		await runMemoryCommand(parseMemoryCli(argv.slice(1)));
+		return;
+	}
+	const parsed = await loadCliConfig(argv);
+	process.on("SIGINT", cancelRun);
+	process.on("SIGTERM", cancelRun);
+	if (parsed.resumeSessionId) {
+		await resumeSession(parsed, parsed.resumeSessionId);
+		return;
+	}
 	if (parsed.compareStrategies) {
 		await runComparison(parsed);
 		return;
@@ -364,19 +706,19 @@ async function main(): Promise<void> {
 
 main().catch(async (error: unknown) => {
 	const message = error instanceof Error ? error.message : String(error);
-	console.error(`\nError: ${message}`);
+	const cancelled = cancellation.signal.aborted;
+	console.error(cancelled ? `\nCancelled: ${message}` : `\nError: ${message}`);
 	if (activeObserver) {
-		activeObserver.record({
-			category: "session",
-			name: "cli_error",
-			actor: "system",
-			details: { message },
-		});
-		await activeObserver.flush("failed", message);
+		// runStrategy already recorded the failure; flushing again is a no-op once the run or the artifact flushed.
+		await activeObserver.flush(cancelled ? "cancelled" : "failed", message);
 		console.error(`Observability log: ${activeObserver.logFile}`);
 		if (activeObserver.eventLogFile) {
 			console.error(`Observability event stream: ${activeObserver.eventLogFile}`);
 		}
 	}
-	process.exitCode = 1;
+	if (activeSessionStore) {
+		console.error(`Session checkpoint: ${activeSessionStore.checkpointFile}`);
+		console.error(`Resume with: --resume ${activeSessionStore.sessionId}`);
+	}
+	process.exitCode = cancelled ? 130 : 1;
 });
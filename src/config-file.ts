@@ -0,0 +1,429 @@
+import { access, readFile } from "node:fs/promises";
+import { dirname, join, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { parseCli, type CliConfig, type ConfigSources } from "./config.js";
+import { loadTaskFile } from "./task-spec.js";
+import { defaultVerificationConfig } from "./verification.js";
+
+export const CONFIG_FILE_NAMES = ["pairing-bots.config.json", "pairing-bots.config.ts"] as const;
+
+/** Every setting a config file may hold. Each key is the camelCase form of the CLI flag it stands in for. */
+export interface ConfigSettings {
+	maxRounds?: number;
+	maxPlanIterations?: number;
+	planningMode?: "handshake" | "independent_then_merge";
+	driverStart?: "A" | "B";
+	executionMode?: "paired_turns" | "solo_driver_then_reviewer" | "mob";
+	/** Comma-separated `<provider>/<model-id>` refs. */
+	mobModels?: string;
+	/** Comma-separated fixture paths, one per mob model. */
+	mobFixtures?: string;
+	mobThinking?: string;
+	mobRotation?: "round_robin" | "least_contributed";
+	turnPolicy?: "alternate_each_round" | "same_driver_until_navigator_signoff" | "adaptive";
+	maxConsecutiveRounds?: number;
+	maxConsecutiveCheckpoints?: number;
+	maxRejectedFeedback?: number;
+	maxRepeatedFeedback?: number;
+	maxVerificationFailures?: number;
+	maxToolErrors?: number;
+	/** `none`, one trigger, or a comma-separated list of triggers. */
+	pauseMode?: string;
+	editsPerPause?: number;
+	linesPerPause?: number;
+	filesPerPause?: number;
+	secondsPerPause?: number;
+	driverTurnTimeout?: number;
+	reviewTimeout?: number;
+	compaction?: "auto" | "off";
+	compactAt?: number;
+	compactKeepMessages?: number;
+	compactionModel?: string;
+	compactionModelFixture?: string;
+	memory?: "on" | "off";
+	memoryLessons?: number;
+	verifyCommand?: string;
+	verifyTimeout?: number;
+	maxCostUsd?: number;
+	maxTokens?: number;
+	maxWallTime?: number;
+	downgradeNavigatorAt?: number;
+	downgradeNavigatorThinking?: string;
+	commitMode?: "per_round" | "per_checkpoint";
+	commitBranch?: boolean;
+	parallelReview?: boolean;
+	disputeArbiter?: "off" | "rule" | "human" | "model";
+	disputeRule?: "driver_wins" | "navigator_wins" | "verification";
+	modelAProvider?: string;
+	modelAId?: string;
+	modelAThinking?: string;
+	modelAFixture?: string;
+	modelBProvider?: string;
+	modelBId?: string;
+	modelBThinking?: string;
+	modelBFixture?: string;
+	modelAFallback?: string;
+	modelAFallbackFixture?: string;
+	modelBFallback?: string;
+	modelBFallbackFixture?: string;
+	maxProviderAttempts?: number;
+	retryDelay?: number;
+	retryMaxDelay?: number;
+	failoverAfter?: number;
+	arbiterProvider?: string;
+	arbiterId?: string;
+	arbiterThinking?: string;
+	arbiterFixture?: string;
+	output?: string;
+	logFile?: string;
+	eventLogFile?: string;
+	eventStreamMode?: "compact" | "full";
+	workspaceMode?: "direct" | "ephemeral_copy";
+	keepWorkspace?: boolean;
+	compareStrategies?: boolean;
+}
+
+export interface ConfigFileContents extends ConfigSettings {
+	profiles?: Record<string, ConfigSettings>;
+}
+
+export interface LoadedConfigFile {
+	path: string;
+	settings: ConfigSettings;
+	profiles: Record<string, ConfigSettings>;
+}
+
+interface SettingSchema {
+	type: "string" | "path" | "integer" | "number" | "boolean";
+	values?: readonly string[];
+	/** The value is a comma-separated list: of `values` when given, or of paths. */
+	list?: boolean;
+}
+
+const THINKING_LEVELS = ["off", "minimal", "low", "medium", "high", "xhigh"] as const;
+
+// Mode settings come before the settings they refine: the CLI parser switches modes when it sees e.g.
+// --max-consecutive-rounds, so the emitted flag order has to match how a person would write them.
+const CONFIG_SCHEMA: Record<keyof ConfigSettings, SettingSchema> = {
+	maxRounds: { type: "integer" },
+	maxPlanIterations: { type: "integer" },
+	planningMode: { type: "string", values: ["handshake", "independent_then_merge"] },
+	driverStart: { type: "string", values: ["A", "B"] },
+	executionMode: { type: "string", values: ["paired_turns", "solo_driver_then_reviewer", "mob"] },
+	mobModels: { type: "string" },
+	mobFixtures: { type: "path", list: true },
+	mobThinking: { type: "string", values: THINKING_LEVELS },
+	mobRotation: { type: "string", values: ["round_robin", "least_contributed"] },
+	turnPolicy: { type: "string", values: ["alternate_each_round", "same_driver_until_navigator_signoff", "adaptive"] },
+	maxConsecutiveRounds: { type: "integer" },
+	maxConsecutiveCheckpoints: { type: "integer" },
+	maxRejectedFeedback: { type: "integer" },
+	maxRepeatedFeedback: { type: "integer" },
+	maxVerificationFailures: { type: "integer" },
+	maxToolErrors: { type: "integer" },
+	pauseMode: {
+		type: "string",
+		values: ["none", "every_n_file_edits", "every_n_changed_lines", "every_n_distinct_files", "every_n_seconds", "on_bash_failure"],
+		list: true,
+	},
+	editsPerPause: { type: "integer" },
+	linesPerPause: { type: "integer" },
+	filesPerPause: { type: "integer" },
+	secondsPerPause: { type: "integer" },
+	driverTurnTimeout: { type: "integer" },
+	reviewTimeout: { type: "integer" },
+	compaction: { type: "string", values: ["auto", "off"] },
+	compactAt: { type: "integer" },
+	compactKeepMessages: { type: "integer" },
+	compactionModel: { type: "string" },
+	compactionModelFixture: { type: "path" },
+	memory: { type: "string", values: ["on", "off"] },
+	memoryLessons: { type: "integer" },
+	verifyCommand: { type: "string" },
+	verifyTimeout: { type: "integer" },
+	maxCostUsd: { type: "number" },
+	maxTokens: { type: "integer" },
+	maxWallTime: { type: "integer" },
+	downgradeNavigatorAt: { type: "number" },
+	downgradeNavigatorThinking: { type: "string", values: THINKING_LEVELS },
+	commitMode: { type: "string", values: ["per_round", "per_checkpoint"] },
+	commitBranch: { type: "boolean" },
+	parallelReview: { type: "boolean" },
+	disputeArbiter: { type: "string", values: ["off", "rule", "human", "model"] },
+	disputeRule: { type: "string", values: ["driver_wins", "navigator_wins", "verification"] },
+	modelAProvider: { type: "string" },
+	modelAId: { type: "string" },
+	modelAThinking: { type: "string", values: THINKING_LEVELS },
+	modelAFixture: { type: "path" },
+	modelBProvider: { type: "string" },
+	modelBId: { type: "string" },
+	modelBThinking: { type: "string", values: THINKING_LEVELS },
+	modelBFixture: { type: "path" },
+	modelAFallback: { type: "string" },
+	modelAFallbackFixture: { type: "path" },
+	modelBFallback: { type: "string" },
+	modelBFallbackFixture: { type: "path" },
+	maxProviderAttempts: { type: "integer" },
+	retryDelay: { type: "number" },
+	retryMaxDelay: { type: "number" },
+	failoverAfter: { type: "integer" },
+	arbiterProvider: { type: "string" },
+	arbiterId: { type: "string" },
+	arbiterThinking: { type: "string", values: THINKING_LEVELS },
+	arbiterFixture: { type: "path" },
+	output: { type: "path" },
+	logFile: { type: "path" },
+	eventLogFile: { type: "path" },
+	eventStreamMode: { type: "string", values: ["compact", "full"] },
+	workspaceMode: { type: "string", values: ["direct", "ephemeral_copy"] },
+	keepWorkspace: { type: "boolean" },
+	compareStrategies: { type: "boolean" },
+};
+
+const SETTING_KEYS = Object.keys(CONFIG_SCHEMA) as Array<keyof ConfigSettings>;
+
+function isSettingKey(key: string): key is keyof ConfigSettings {
+	return Object.hasOwn(CONFIG_SCHEMA, key);
+}
+
+function settingFlag(key: keyof ConfigSettings): string {
+	return `--${key.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`)}`;
+}
+
+function validateValue(key: keyof ConfigSettings, value: unknown): string | undefined {
+	const schema = CONFIG_SCHEMA[key];
+	const received = JSON.stringify(value);
+	switch (schema.type) {
+		case "boolean":
+			return typeof value === "boolean" ? undefined : `must be true or false (received ${received})`;
+		case "integer":
+			return typeof value === "number" && Number.isInteger(value) && value > 0
+				? undefined
+				: `must be a positive integer (received ${received})`;
+		case "number":
+			return typeof value === "number" && Number.isFinite(value) && value > 0
+				? undefined
+				: `must be a positive number (received ${received})`;
+		case "string":
+		case "path":
+			if (typeof value !== "string" || value.trim() === "") {
+				return `must be a non-empty string (received ${received})`;
+			}
+			if (schema.values) {
+				const allowed = schema.values;
+				const entries = schema.list ? value.split(",").map((entry) => entry.trim()) : [value];
+				if (!entries.every((entry) => allowed.includes(entry))) {
+					return `must be ${schema.list ? "a comma-separated list of" : "one of"} ${allowed.join(", ")} (received ${received})`;
+				}
+			}
+			return undefined;
+	}
+}
+
+function validateSettings(raw: Record<string, unknown>, prefix: string, errors: string[]): ConfigSettings {
+	const settings: Record<string, unknown> = {};
+	for (const [key, value] of Object.entries(raw)) {
+		if (!isSettingKey(key)) {
+			errors.push(`${prefix}${key} is not a known setting. Known settings: ${SETTING_KEYS.join(", ")}.`);
+			continue;
+		}
+		const problem = validateValue(key, value);
+		if (problem) {
+			errors.push(`${prefix}${key} ${problem}.`);
+			continue;
+		}
+		settings[key] = value;
+	}
+	return settings as ConfigSettings;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Checks a parsed config file against the schema and reports every problem at once, each with its key path. */
+export function validateConfigFile(raw: unknown, path: string): LoadedConfigFile {
+	if (!isRecord(raw)) {
+		throw new Error(`Invalid config file ${path}: expected an object of settings.`);
+	}
+	const errors: string[] = [];
+	const { profiles: rawProfiles, ...rawSettings } = raw;
+	const settings = validateSettings(rawSettings, "", errors);
+	const profiles: Record<string, ConfigSettings> = {};
+	if (rawProfiles !== undefined) {
+		if (!isRecord(rawProfiles)) {
+			errors.push("profiles must be an object mapping profile names to settings.");
+		} else {
+			for (const [name, profile] of Object.entries(rawProfiles)) {
+				if (!isRecord(profile)) {
+					errors.push(`profiles.${name} must be an object of settings.`);
+					continue;
+				}
+				profiles[name] = validateSettings(profile, `profiles.${name}.`, errors);
+			}
+		}
+	}
+	if (errors.length > 0) {
+		throw new Error(`Invalid config file ${path}:\n${errors.map((error) => `  - ${error}`).join("\n")}`);
+	}
+	return { path, settings, profiles };
+}
+
+async function exists(path: string): Promise<boolean> {
+	try {
+		await access(path);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+export async function findConfigFile(cwd: string): Promise<string | undefined> {
+	const found: string[] = [];
+	for (const name of CONFIG_FILE_NAMES) {
+		if (await exists(join(cwd, name))) {
+			found.push(join(cwd, name));
+		}
+	}
+	if (found.length > 1) {
+		throw new Error(`Found more than one config file in ${cwd}: ${found.join(", ")}. Keep only one.`);
+	}
+	return found[0];
+}
+
+export async function loadConfigFile(path: string): Promise<LoadedConfigFile> {
+	let raw: unknown;
+	if (path.endsWith(".ts")) {
+		try {
+			const module = (await import(pathToFileURL(path).href)) as { default?: unknown };
+			raw = module.default;
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			throw new Error(`Could not load config file ${path}: ${message}. TypeScript config files need a TypeScript-aware runtime such as tsx.`);
+		}
+		if (raw === undefined) {
+			throw new Error(`Config file ${path} must default-export its settings.`);
+		}
+	} else {
+		let text: string;
+		try {
+			text = await readFile(path, "utf-8");
+		} catch {
+			throw new Error(`Config file not found: ${path}`);
+		}
+		try {
+			raw = JSON.parse(text);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			throw new Error(`Config file ${path} is not valid JSON: ${message}`);
+		}
+	}
+	return validateConfigFile(raw, path);
+}
+
+/** Turns settings back into CLI flags so the file goes through exactly the same parsing and checks as the command line. */
+export function settingsToArgv(settings: ConfigSettings, baseDir: string): string[] {
+	const argv: string[] = [];
+	for (const key of SETTING_KEYS) {
+		const value = settings[key];
+		if (value === undefined) {
+			continue;
+		}
+		const flag = settingFlag(key);
+		if (typeof value === "boolean") {
+			argv.push(value ? flag : `--no-${flag.slice(2)}`);
+		} else if (CONFIG_SCHEMA[key].type === "path") {
+			const paths = CONFIG_SCHEMA[key].list ? String(value).split(",") : [String(value)];
+			argv.push(flag, paths.map((path) => resolve(baseDir, path.trim())).join(","));
+		} else {
+			argv.push(flag, String(value));
+		}
+	}
+	return argv;
+}
+
+function flagValue(argv: string[], flag: string): string | undefined {
+	const index = argv.lastIndexOf(flag);
+	if (index === -1) {
+		return undefined;
+	}
+	const value = argv[index + 1];
+	if (!value || value.startsWith("--")) {
+		throw new Error(`Missing value for ${flag}`);
+	}
+	return value;
+}
+
+function withoutFlags(argv: string[], flags: string[]): string[] {
+	const kept: string[] = [];
+	for (let i = 0; i < argv.length; i += 1) {
+		const arg = argv[i];
+		if (arg !== undefined && flags.includes(arg)) {
+			i += 1;
+			continue;
+		}
+		if (arg !== undefined) {
+			kept.push(arg);
+		}
+	}
+	return kept;
+}
+
+/** Reads `--task-file`. Its verify command only applies when no layer set `--verify-command`. */
+async function withTaskFile(parsed: CliConfig): Promise<CliConfig> {
+	if (!parsed.taskFile) {
+		return parsed;
+	}
+	const taskSpec = await loadTaskFile(parsed.taskFile);
+	const pair =
+		taskSpec.verifyCommand && !parsed.pair.verification
+			? { ...parsed.pair, verification: defaultVerificationConfig(taskSpec.verifyCommand) }
+			: parsed.pair;
+	return { ...parsed, task: taskSpec.title ?? taskSpec.description, taskSpec, pair };
+}
+
+/**
+ * Parses the command line on top of the project config file and reads `--task-file`. Layers apply as defaults < file < profile < CLI flags:
+ * file and profile settings are emitted as flags ahead of the real argv, and the parser keeps the last value it sees.
+ */
+export async function loadCliConfig(argv: string[], processCwd = process.cwd()): Promise<CliConfig> {
+	const explicitPath = flagValue(argv, "--config");
+	const profileName = flagValue(argv, "--profile");
+	const cliArgv = withoutFlags(argv, ["--config", "--profile"]);
+	const cwd = resolve(processCwd, flagValue(cliArgv, "--cwd") ?? ".");
+	const path = explicitPath ? resolve(processCwd, explicitPath) : await findConfigFile(cwd);
+
+	if (!path) {
+		if (profileName) {
+			throw new Error(
+				`--profile ${profileName} needs a config file, but none of ${CONFIG_FILE_NAMES.join(", ")} exists in ${cwd}.`,
+			);
+		}
+		return await withTaskFile(parseCli(cliArgv, processCwd));
+	}
+
+	const file = await loadConfigFile(path);
+	let profile: ConfigSettings = {};
+	if (profileName) {
+		const selected = file.profiles[profileName];
+		if (!selected) {
+			const available = Object.keys(file.profiles);
+			throw new Error(
+				`Unknown profile "${profileName}" in ${path}. Available profiles: ${available.length > 0 ? available.join(", ") : "none"}.`,
+			);
+		}
+		profile = selected;
+	}
+
+	const baseDir = dirname(path);
+	const merged: ConfigSettings = { ...file.settings, ...profile };
+	const parsed = parseCli([...settingsToArgv(merged, baseDir), ...cliArgv], processCwd);
+	const configSources: ConfigSources = {
+		file: path,
+		...(profileName ? { profile: profileName } : {}),
+		fromFile: Object.keys(file.settings),
+		fromProfile: Object.keys(profile),
+		fromCli: cliArgv.filter((arg) => arg.startsWith("--")),
+	};
+	return await withTaskFile({ ...parsed, configSources });
+}
@@ -1,18 +1,36 @@
 import { resolve } from "node:path";
 import type { ThinkingLevel as AgentThinkingLevel } from "@mariozechner/pi-agent-core";
-import type { KnownProvider } from "@mariozechner/pi-ai";
 import type {
 	AgentId,
+	BudgetConfig,
+	CommitMode,
+	CompactionMode,
+	DisputeArbiter,
+	DisputeRule,
 	EventStreamMode,
 	ExecutionMode,
+	MemoryMode,
+	MobRotation,
+	ModelSpec,
 	PairAgentConfig,
 	PauseStrategy,
+	PauseTrigger,
+	PauseTriggerMode,
+	PlanningMode,
+	TaskSpec,
 	TurnPolicy,
 	WorkspaceMode,
 } from "./types.js";
+import { defaultCompactionConfig } from "./context-compaction.js";
+import { defaultMemoryConfig } from "./memory-store.js";
+import { defaultRetryConfig } from "./provider-retry.js";
+import { defaultVerificationConfig } from "./verification.js";
 
 export interface CliConfig {
 	task: string;
+	/** Resolved `--task-file` path; `loadCliConfig` reads it into `taskSpec`. */
+	taskFile?: string;
+	taskSpec?: TaskSpec;
 	outputPath?: string;
 	logFile?: string;
 	eventLogFile?: string;
@@ -20,9 +38,26 @@ export interface CliConfig {
 	workspaceMode: WorkspaceMode;
 	keepWorkspace: boolean;
 	compareStrategies: boolean;
+	resumeSessionId?: string;
+	configSources?: ConfigSources;
 	pair: PairAgentConfig;
 }
 
+/** `memory list|prune|clear`: inspects and trims the private notes kept across runs. */
+export type MemoryCommand =
+	| { action: "list"; cwd: string; model?: string }
+	| { action: "prune"; cwd: string; model?: string; keep?: number; olderThanDays?: number }
+	| { action: "clear"; cwd: string; model?: string };
+
+/** Where the effective settings came from, for the Run Configuration report. Filled in by `loadCliConfig`. */
+export interface ConfigSources {
+	file: string;
+	profile?: string;
+	fromFile: string[];
+	fromProfile: string[];
+	fromCli: string[];
+}
+
 const ALLOWED_THINKING: Set<AgentThinkingLevel> = new Set(["off", "minimal", "low", "medium", "high", "xhigh"]);
 
 function parseThinking(value: string): AgentThinkingLevel {
@@ -47,6 +82,23 @@ function parsePositiveInteger(name: string, value: string): number {
 	return parsed;
 }
 
+function parsePositiveNumber(name: string, value: string): number {
+	const parsed = Number(value);
+	if (!Number.isFinite(parsed) || parsed <= 0) {
+		throw new Error(`${name} must be a positive number. Received: ${value}`);
+	}
+	return parsed;
+}
+
+/** `<provider>/<model-id>`; the id may itself contain slashes, as OpenRouter ids do. */
+function parseModelRef(name: string, value: string): Pick<ModelSpec, "provider" | "modelId"> {
+	const slash = value.indexOf("/");
+	if (slash <= 0 || slash === value.length - 1) {
+		throw new Error(`${name} must look like <provider>/<model-id>. Received: ${value}`);
+	}
+	return { provider: value.slice(0, slash) as ModelSpec["provider"], modelId: value.slice(slash + 1) };
+}
+
 function parseWorkspaceMode(value: string): WorkspaceMode {
 	if (value === "direct" || value === "ephemeral_copy") {
 		return value;
@@ -54,6 +106,13 @@ function parseWorkspaceMode(value: string): WorkspaceMode {
 	throw new Error(`Invalid --workspace-mode: ${value}`);
 }
 
+function parseCommitMode(value: string): CommitMode {
+	if (value === "per_round" || value === "per_checkpoint") {
+		return value;
+	}
+	throw new Error(`Invalid --commit-mode: ${value}`);
+}
+
 function parseEventStreamMode(value: string): EventStreamMode {
 	if (value === "compact" || value === "full") {
 		return value;
@@ -62,26 +121,118 @@ function parseEventStreamMode(value: string): EventStreamMode {
 }
 
 function parseExecutionMode(value: string): ExecutionMode {
-	if (value === "paired_turns" || value === "solo_driver_then_reviewer") {
+	if (value === "paired_turns" || value === "solo_driver_then_reviewer" || value === "mob") {
 		return value;
 	}
 	throw new Error(`Invalid --execution-mode: ${value}`);
 }
 
-function defaultPauseStrategy(): PauseStrategy {
-	return {
-		mode: "every_n_file_edits",
-		editsPerPause: 3,
-		countedTools: ["edit", "write"],
-	};
+function parseMobRotation(value: string): MobRotation {
+	if (value === "round_robin" || value === "least_contributed") {
+		return value;
+	}
+	throw new Error(`Invalid --mob-rotation: ${value}`);
 }
 
-function defaultEveryNFileEditsPause(): Extract<PauseStrategy, { mode: "every_n_file_edits" }> {
-	return {
-		mode: "every_n_file_edits",
-		editsPerPause: 3,
-		countedTools: ["edit", "write"],
-	};
+function parseDisputeArbiter(value: string): DisputeArbiter {
+	if (value === "off" || value === "rule" || value === "human" || value === "model") {
+		return value;
+	}
+	throw new Error(`Invalid --dispute-arbiter: ${value}`);
+}
+
+function parseCompactionMode(value: string): CompactionMode {
+	if (value === "auto" || value === "off") {
+		return value;
+	}
+	throw new Error(`Invalid --compaction: ${value}`);
+}
+
+function parseMemoryMode(value: string): MemoryMode {
+	if (value === "on" || value === "off") {
+		return value;
+	}
+	throw new Error(`Invalid --memory: ${value}`);
+}
+
+function parseDisputeRule(value: string): DisputeRule {
+	if (value === "driver_wins" || value === "navigator_wins" || value === "verification") {
+		return value;
+	}
+	throw new Error(`Invalid --dispute-rule: ${value}`);
+}
+
+function parsePlanningMode(value: string): PlanningMode {
+	if (value === "handshake" || value === "independent_then_merge") {
+		return value;
+	}
+	throw new Error(`Invalid --planning-mode: ${value}`);
+}
+
+const PAUSE_TRIGGER_MODES: readonly PauseTriggerMode[] = [
+	"every_n_file_edits",
+	"every_n_changed_lines",
+	"every_n_distinct_files",
+	"every_n_seconds",
+	"on_bash_failure",
+];
+
+interface PauseThresholds {
+	editsPerPause: number;
+	linesPerPause: number;
+	filesPerPause: number;
+	secondsPerPause: number;
+}
+
+function defaultPauseThresholds(): PauseThresholds {
+	return { editsPerPause: 3, linesPerPause: 60, filesPerPause: 3, secondsPerPause: 300 };
+}
+
+/** `none`, one trigger, or a comma-separated list of triggers that becomes an `any_of` strategy. */
+function parsePauseModes(value: string): PauseTriggerMode[] | "none" {
+	const modes = value.split(",").map((entry) => entry.trim());
+	if (modes.length === 1 && modes[0] === "none") {
+		return "none";
+	}
+	const triggers: PauseTriggerMode[] = [];
+	for (const mode of modes) {
+		const trigger = PAUSE_TRIGGER_MODES.find((candidate) => candidate === mode);
+		if (!trigger) {
+			throw new Error(`Invalid --pause-mode: ${value}`);
+		}
+		if (!triggers.includes(trigger)) {
+			triggers.push(trigger);
+		}
+	}
+	return triggers;
+}
+
+function pauseTrigger(mode: PauseTriggerMode, thresholds: PauseThresholds): PauseTrigger {
+	switch (mode) {
+		case "every_n_file_edits":
+			return { mode, editsPerPause: thresholds.editsPerPause, countedTools: ["edit", "write"] };
+		case "every_n_changed_lines":
+			return { mode, linesPerPause: thresholds.linesPerPause };
+		case "every_n_distinct_files":
+			return { mode, filesPerPause: thresholds.filesPerPause };
+		case "every_n_seconds":
+			return { mode, secondsPerPause: thresholds.secondsPerPause };
+		case "on_bash_failure":
+			return { mode };
+	}
+}
+
+function buildPauseStrategy(modes: PauseTriggerMode[], thresholds: PauseThresholds): PauseStrategy {
+	const triggers = modes.map((mode) => pauseTrigger(mode, thresholds));
+	const [only] = triggers;
+	if (only && triggers.length === 1) {
+		return only;
+	}
+	return triggers.length === 0 ? { mode: "none" } : { mode: "any_of", strategies: triggers };
+}
+
+function defaultPauseStrategy(): PauseStrategy {
+	return buildPauseStrategy(["every_n_file_edits"], defaultPauseThresholds());
 }
 
 function defaultTurnPolicy(): TurnPolicy {
@@ -100,14 +251,45 @@ function defaultStickyTurnPolicy(): Extract<TurnPolicy, { mode: "same_driver_unt
 	};
 }
 
+function defaultAdaptiveTurnPolicy(): Extract<TurnPolicy, { mode: "adaptive" }> {
+	return {
+		mode: "adaptive",
+		maxConsecutiveRounds: 3,
+		maxConsecutiveCheckpoints: 4,
+		maxRejectedFeedback: 2,
+		maxRepeatedFeedback: 2,
+		maxVerificationFailures: 2,
+		maxToolErrors: 6,
+	};
+}
+
+/** Switches to the adaptive policy, keeping safety caps that were already set. */
+function adaptiveTurnPolicy(current: TurnPolicy): Extract<TurnPolicy, { mode: "adaptive" }> {
+	if (current.mode === "adaptive") {
+		return current;
+	}
+	const policy = defaultAdaptiveTurnPolicy();
+	if (current.mode === "same_driver_until_navigator_signoff") {
+		policy.maxConsecutiveRounds = current.maxConsecutiveRounds;
+		policy.maxConsecutiveCheckpoints = current.maxConsecutiveCheckpoints;
+	}
+	return policy;
+}
+
 export function defaultPairConfig(cwd: string): PairAgentConfig {
 	return {
 		cwd,
 		maxRounds: 8,
+		maxPlanIterations: 3,
+		planningMode: "handshake",
 		driverStartsAs: "A",
 		executionMode: "paired_turns",
 		pauseStrategy: defaultPauseStrategy(),
 		turnPolicy: defaultTurnPolicy(),
+		disputes: { arbiter: "rule", rule: "verification" },
+		retry: defaultRetryConfig(),
+		compaction: defaultCompactionConfig(),
+		memory: defaultMemoryConfig(),
 		modelA: {
 			provider: "anthropic",
 			modelId: "claude-opus-4-6",
@@ -126,38 +308,149 @@ export function helpText(): string {
 		"Pairing Bots CLI",
 		"",
 		"Required:",
-		"  --task \"<task description>\"",
+		"  --task \"<task description>\" or --task-file <markdown-path> (unless --resume is used)",
 		"",
 		"Optional:",
 		"  --cwd <path>",
+		"  --config <path> (default: pairing-bots.config.json or .ts in --cwd)",
+		"  --profile <name>",
 		"  --max-rounds <n>",
+		"  --max-plan-iterations <n> (default 3)",
+		"  --planning-mode handshake|independent_then_merge (paired_turns and mob)",
 		"  --driver-start A|B",
-		"  --execution-mode paired_turns|solo_driver_then_reviewer",
-		"  --turn-policy alternate_each_round|same_driver_until_navigator_signoff",
+		"  --execution-mode paired_turns|solo_driver_then_reviewer|mob",
+		"  --mob-models <provider>/<model-id>[,...] (mob only; 1-4 members joining A and B as C, D, ...)",
+		"  --mob-fixtures <json-path>[,...] (one per scripted mob member, in --mob-models order)",
+		"  --mob-thinking off|minimal|low|medium|high|xhigh (mob members, default high)",
+		"  --mob-rotation round_robin|least_contributed (default round_robin)",
+		"  --turn-policy alternate_each_round|same_driver_until_navigator_signoff|adaptive",
 		"  --max-consecutive-rounds <n>",
 		"  --max-consecutive-checkpoints <n>",
-		"  --pause-mode none|every_n_file_edits",
-		"  --edits-per-pause <n>",
+		"  --max-rejected-feedback <n> (adaptive, default 2)",
+		"  --max-repeated-feedback <n> (adaptive, default 2)",
+		"  --max-verification-failures <n> (adaptive, default 2)",
+		"  --max-tool-errors <n> (adaptive, default 6)",
+		"  --pause-mode none|<trigger>[,<trigger>...] (triggers: every_n_file_edits, every_n_changed_lines,",
+		"               every_n_distinct_files, every_n_seconds, on_bash_failure; a list pauses on whichever fires first)",
+		"  --edits-per-pause <n> (default 3)",
+		"  --lines-per-pause <n> (default 60)",
+		"  --files-per-pause <n> (default 3)",
+		"  --seconds-per-pause <n> (default 300)",
+		"  --driver-turn-timeout <seconds> (per driver prompt; default none)",
+		"  --review-timeout <seconds> (per planning, review or verdict prompt; default none)",
+		"  --compaction auto|off (default auto)",
+		"  --compact-at <percent-of-context-window> (default 75)",
+		"  --compact-keep-messages <n> (recent messages kept verbatim, default 12)",
+		"  --compaction-model <provider>/<model-id> (writes the summaries; default: each worker's own model)",
+		"  --compaction-model-fixture <json-path> (required with a scripted compaction model)",
+		"  --memory on|off (private notes kept across runs in .pairing-bots/memory/, default on)",
+		"  --memory-lessons <n> (newest notes loaded per model at session start, default 10)",
+		"  --verify-command \"<shell command>\"",
+		"  --verify-timeout <seconds>",
+		"  --max-cost-usd <usd>",
+		"  --max-tokens <n>",
+		"  --max-wall-time <seconds>",
+		"  --downgrade-navigator-at <percent-of-budget>",
+		"  --downgrade-navigator-thinking off|minimal|low|medium|high|xhigh (default minimal)",
+		"  --commit-mode per_round|per_checkpoint (direct workspace mode only)",
+		"  --commit-branch | --no-commit-branch",
+		"  --parallel-review | --no-parallel-review (needs a --pause-mode other than none)",
+		"  --dispute-arbiter off|rule|human|model (default rule; model needs --arbiter-provider and --arbiter-id)",
+		"  --dispute-rule driver_wins|navigator_wins|verification (default verification)",
 		"  --model-a-provider <provider>",
 		"  --model-a-id <model-id>",
 		"  --model-a-thinking off|minimal|low|medium|high|xhigh",
+		"  --model-a-fixture <json-path> (required with --model-a-provider scripted)",
 		"  --model-b-provider <provider>",
 		"  --model-b-id <model-id>",
 		"  --model-b-thinking off|minimal|low|medium|high|xhigh",
+		"  --model-b-fixture <json-path> (required with --model-b-provider scripted)",
+		"  --model-a-fallback <provider>/<model-id> (switched in after repeated provider failures)",
+		"  --model-a-fallback-fixture <json-path> (required with a scripted fallback)",
+		"  --model-b-fallback <provider>/<model-id>",
+		"  --model-b-fallback-fixture <json-path>",
+		"  --max-provider-attempts <n> (per failure streak, default 4; 1 disables retries)",
+		"  --retry-delay <seconds> (first backoff, default 2)",
+		"  --retry-max-delay <seconds> (default 30)",
+		"  --failover-after <n> (consecutive failures before using the fallback, default 2)",
+		"  --arbiter-provider <provider> (with --arbiter-id; a third model decides the final verdict, paired_turns and mob)",
+		"  --arbiter-id <model-id>",
+		"  --arbiter-thinking off|minimal|low|medium|high|xhigh (default high)",
+		"  --arbiter-fixture <json-path> (required with --arbiter-provider scripted)",
 		"  --output <json-path>",
 		"  --log-file <json-path>",
 		"  --event-log-file <jsonl-path>",
 		"  --event-stream-mode compact|full",
 		"  --workspace-mode direct|ephemeral_copy",
-		"  --keep-workspace",
-		"  --compare-strategies",
+		"  --keep-workspace | --no-keep-workspace",
+		"  --compare-strategies | --no-compare-strategies",
+		"  --resume <session-id>",
 		"  --help",
+		"",
+		"Subcommands:",
+		"  memory list [--cwd <path>] [--model <provider>/<model-id>]",
+		"  memory prune --keep <n> | --older-than <days> [--cwd <path>] [--model <provider>/<model-id>]",
+		"  memory clear [--cwd <path>] [--model <provider>/<model-id>]",
 	].join("\n");
 }
 
+export function parseMemoryCli(argv: string[], processCwd = process.cwd()): MemoryCommand {
+	const action = argv[0];
+	if (action !== "list" && action !== "prune" && action !== "clear") {
+		throw new Error(`Unknown memory command: ${action ?? "(none)"}. Use list, prune or clear.`);
+	}
+	let cwd = resolve(processCwd);
+	let model: string | undefined;
+	let keep: number | undefined;
+	let olderThanDays: number | undefined;
+	for (let i = 1; i < argv.length; i += 1) {
+		const arg = argv[i];
+		const next = argv[i + 1];
+		if (!next) {
+			throw new Error(`Missing value for ${arg}`);
+		}
+		switch (arg) {
+			case "--cwd":
+				cwd = resolve(next);
+				break;
+			case "--model": {
+				const ref = parseModelRef("--model", next);
+				model = `${ref.provider}/${ref.modelId}`;
+				break;
+			}
+			case "--keep":
+				keep = parsePositiveInteger("--keep", next);
+				break;
+			case "--older-than":
+				olderThanDays = parsePositiveNumber("--older-than", next);
+				break;
+			default:
+				throw new Error(`Unknown argument for memory ${action}: ${arg}`);
+		}
+		i += 1;
+	}
+	if (action !== "prune") {
+		if (keep !== undefined || olderThanDays !== undefined) {
+			throw new Error("--keep and --older-than only apply to memory prune.");
+		}
+		return { action, cwd, ...(model ? { model } : {}) };
+	}
+	if (keep === undefined && olderThanDays === undefined) {
+		throw new Error("memory prune needs --keep <n> or --older-than <days>.");
+	}
+	return {
+		action,
+		cwd,
+		...(model ? { model } : {}),
+		...(keep !== undefined ? { keep } : {}),
+		...(olderThanDays !== undefined ? { olderThanDays } : {}),
+	};
+}
+
 export function parseCli(argv: string[], processCwd = process.cwd()): CliConfig {
 	const pair = defaultPairConfig(resolve(processCwd));
 	let task = "";
+	let taskFile: string | undefined;
 	let outputPath: string | undefined;
 	let logFile: string | undefined;
 	let eventLogFile: string | undefined;
@@ -165,6 +458,33 @@ export function parseCli(argv: string[], processCwd = process.cwd()): CliConfig
 	let workspaceMode: WorkspaceMode = "direct";
 	let keepWorkspace = false;
 	let compareStrategies = false;
+	let resumeSessionId: string | undefined;
+	let verifyCommand: string | undefined;
+	let verifyTimeoutSeconds: number | undefined;
+	let commitMode: CommitMode | undefined;
+	let commitBranch = false;
+	let parallelReview = false;
+	let pauseModes: PauseTriggerMode[] | "none" | undefined;
+	const pauseThresholds = defaultPauseThresholds();
+	// Threshold flags given after the last --pause-mode; with no mode (or none) they pick the triggers themselves.
+	const tunedPauseModes: PauseTriggerMode[] = [];
+	const tunePause = (mode: PauseTriggerMode): void => {
+		if (!tunedPauseModes.includes(mode)) {
+			tunedPauseModes.push(mode);
+		}
+	};
+	const budget: BudgetConfig = {};
+	// Filled in piece by piece; only becomes pair.arbiter once provider and id are both known.
+	const arbiter: Partial<ModelSpec> = {};
+	// Fallbacks take the primary model's thinking level, which may be set after the fallback flag.
+	const fallbacks: Partial<Record<AgentId, Partial<ModelSpec>>> = {};
+	const compactionModel: Partial<ModelSpec> = {};
+	let mobModels: Array<Pick<ModelSpec, "provider" | "modelId">> | undefined;
+	let mobFixtures: string[] | undefined;
+	let mobThinking: AgentThinkingLevel | undefined;
+	let mobRotation: MobRotation | undefined;
+	let downgradeNavigatorAtPercent: number | undefined;
+	let downgradeNavigatorThinking: AgentThinkingLevel | undefined;
 
 	for (let i = 0; i < argv.length; i += 1) {
 		const arg = argv[i];
@@ -175,12 +495,20 @@ export function parseCli(argv: string[], processCwd = process.cwd()): CliConfig
 		if (arg === "--help" || arg === "-h") {
 			throw new Error(helpText());
 		}
-		if (arg === "--keep-workspace") {
-			keepWorkspace = true;
+		if (arg === "--keep-workspace" || arg === "--no-keep-workspace") {
+			keepWorkspace = arg === "--keep-workspace";
+			continue;
+		}
+		if (arg === "--compare-strategies" || arg === "--no-compare-strategies") {
+			compareStrategies = arg === "--compare-strategies";
 			continue;
 		}
-		if (arg === "--compare-strategies") {
-			compareStrategies = true;
+		if (arg === "--commit-branch" || arg === "--no-commit-branch") {
+			commitBranch = arg === "--commit-branch";
+			continue;
+		}
+		if (arg === "--parallel-review" || arg === "--no-parallel-review") {
+			parallelReview = arg === "--parallel-review";
 			continue;
 		}
 		if (!arg.startsWith("--")) {
@@ -195,6 +523,10 @@ export function parseCli(argv: string[], processCwd = process.cwd()): CliConfig
 				task = next.trim();
 				i += 1;
 				break;
+			case "--task-file":
+				taskFile = resolve(next);
+				i += 1;
+				break;
 			case "--cwd":
 				pair.cwd = resolve(next);
 				i += 1;
@@ -203,6 +535,14 @@ export function parseCli(argv: string[], processCwd = process.cwd()): CliConfig
 				pair.maxRounds = parsePositiveInteger("--max-rounds", next);
 				i += 1;
 				break;
+			case "--max-plan-iterations":
+				pair.maxPlanIterations = parsePositiveInteger("--max-plan-iterations", next);
+				i += 1;
+				break;
+			case "--planning-mode":
+				pair.planningMode = parsePlanningMode(next);
+				i += 1;
+				break;
 			case "--driver-start":
 				pair.driverStartsAs = parseAgentId(next);
 				i += 1;
@@ -215,15 +555,14 @@ export function parseCli(argv: string[], processCwd = process.cwd()): CliConfig
 				if (next === "alternate_each_round") {
 					pair.turnPolicy = { mode: "alternate_each_round" };
 				} else if (next === "same_driver_until_navigator_signoff") {
-					const previous =
-						pair.turnPolicy.mode === "same_driver_until_navigator_signoff"
-							? pair.turnPolicy
-							: defaultStickyTurnPolicy();
+					const previous = pair.turnPolicy.mode === "alternate_each_round" ? defaultStickyTurnPolicy() : pair.turnPolicy;
 					pair.turnPolicy = {
 						mode: "same_driver_until_navigator_signoff",
 						maxConsecutiveRounds: previous.maxConsecutiveRounds,
 						maxConsecutiveCheckpoints: previous.maxConsecutiveCheckpoints,
 					};
+				} else if (next === "adaptive") {
+					pair.turnPolicy = adaptiveTurnPolicy(pair.turnPolicy);
 				} else {
 					throw new Error(`Invalid --turn-policy: ${next}`);
 				}
@@ -233,48 +572,126 @@ export function parseCli(argv: string[], processCwd = process.cwd()): CliConfig
 				if (pair.turnPolicy.mode === "alternate_each_round") {
 					pair.turnPolicy = defaultStickyTurnPolicy();
 				}
-				if (pair.turnPolicy.mode === "same_driver_until_navigator_signoff") {
-					pair.turnPolicy.maxConsecutiveRounds = parsePositiveInteger("--max-consecutive-rounds", next);
-				}
+				pair.turnPolicy.maxConsecutiveRounds = parsePositiveInteger("--max-consecutive-rounds", next);
 				i += 1;
 				break;
 			case "--max-consecutive-checkpoints":
 				if (pair.turnPolicy.mode === "alternate_each_round") {
 					pair.turnPolicy = defaultStickyTurnPolicy();
 				}
-				if (pair.turnPolicy.mode === "same_driver_until_navigator_signoff") {
-					pair.turnPolicy.maxConsecutiveCheckpoints = parsePositiveInteger("--max-consecutive-checkpoints", next);
-				}
+				pair.turnPolicy.maxConsecutiveCheckpoints = parsePositiveInteger("--max-consecutive-checkpoints", next);
 				i += 1;
 				break;
-			case "--pause-mode": {
-				if (next === "none") {
-					pair.pauseStrategy = { mode: "none" };
-				} else if (next === "every_n_file_edits") {
-					const previous =
-						pair.pauseStrategy.mode === "every_n_file_edits" ? pair.pauseStrategy : defaultEveryNFileEditsPause();
-					pair.pauseStrategy = {
-						mode: "every_n_file_edits",
-						editsPerPause: previous.editsPerPause,
-						countedTools: previous.countedTools,
-					};
-				} else {
-					throw new Error(`Invalid --pause-mode: ${next}`);
-				}
+			case "--max-rejected-feedback": {
+				const policy = adaptiveTurnPolicy(pair.turnPolicy);
+				policy.maxRejectedFeedback = parsePositiveInteger("--max-rejected-feedback", next);
+				pair.turnPolicy = policy;
+				i += 1;
+				break;
+			}
+			case "--max-repeated-feedback": {
+				const policy = adaptiveTurnPolicy(pair.turnPolicy);
+				policy.maxRepeatedFeedback = parsePositiveInteger("--max-repeated-feedback", next);
+				pair.turnPolicy = policy;
 				i += 1;
 				break;
 			}
+			case "--max-verification-failures": {
+				const policy = adaptiveTurnPolicy(pair.turnPolicy);
+				policy.maxVerificationFailures = parsePositiveInteger("--max-verification-failures", next);
+				pair.turnPolicy = policy;
+				i += 1;
+				break;
+			}
+			case "--max-tool-errors": {
+				const policy = adaptiveTurnPolicy(pair.turnPolicy);
+				policy.maxToolErrors = parsePositiveInteger("--max-tool-errors", next);
+				pair.turnPolicy = policy;
+				i += 1;
+				break;
+			}
+			case "--dispute-arbiter":
+				pair.disputes.arbiter = parseDisputeArbiter(next);
+				i += 1;
+				break;
+			case "--dispute-rule":
+				pair.disputes.rule = parseDisputeRule(next);
+				i += 1;
+				break;
+			case "--pause-mode":
+				pauseModes = parsePauseModes(next);
+				tunedPauseModes.length = 0;
+				i += 1;
+				break;
 			case "--edits-per-pause":
-				if (pair.pauseStrategy.mode === "none") {
-					pair.pauseStrategy = defaultEveryNFileEditsPause();
-				}
-				if (pair.pauseStrategy.mode === "every_n_file_edits") {
-					pair.pauseStrategy.editsPerPause = parsePositiveInteger("--edits-per-pause", next);
+				pauseThresholds.editsPerPause = parsePositiveInteger("--edits-per-pause", next);
+				tunePause("every_n_file_edits");
+				i += 1;
+				break;
+			case "--lines-per-pause":
+				pauseThresholds.linesPerPause = parsePositiveInteger("--lines-per-pause", next);
+				tunePause("every_n_changed_lines");
+				i += 1;
+				break;
+			case "--files-per-pause":
+				pauseThresholds.filesPerPause = parsePositiveInteger("--files-per-pause", next);
+				tunePause("every_n_distinct_files");
+				i += 1;
+				break;
+			case "--seconds-per-pause":
+				pauseThresholds.secondsPerPause = parsePositiveInteger("--seconds-per-pause", next);
+				tunePause("every_n_seconds");
+				i += 1;
+				break;
+			case "--verify-command":
+				verifyCommand = next.trim();
+				i += 1;
+				break;
+			case "--driver-turn-timeout":
+				pair.timeouts = { ...pair.timeouts, driverTurnMs: parsePositiveInteger("--driver-turn-timeout", next) * 1000 };
+				i += 1;
+				break;
+			case "--review-timeout":
+				pair.timeouts = { ...pair.timeouts, reviewMs: parsePositiveInteger("--review-timeout", next) * 1000 };
+				i += 1;
+				break;
+			case "--compaction":
+				pair.compaction.mode = parseCompactionMode(next);
+				i += 1;
+				break;
+			case "--compact-at":
+				pair.compaction.thresholdPercent = parsePositiveInteger("--compact-at", next);
+				if (pair.compaction.thresholdPercent > 100) {
+					throw new Error(`--compact-at must be at most 100. Received: ${next}`);
 				}
 				i += 1;
 				break;
+			case "--compact-keep-messages":
+				pair.compaction.keepRecentMessages = parsePositiveInteger("--compact-keep-messages", next);
+				i += 1;
+				break;
+			case "--compaction-model":
+				Object.assign(compactionModel, parseModelRef("--compaction-model", next));
+				i += 1;
+				break;
+			case "--compaction-model-fixture":
+				compactionModel.fixtureFile = resolve(next);
+				i += 1;
+				break;
+			case "--memory":
+				pair.memory.mode = parseMemoryMode(next);
+				i += 1;
+				break;
+			case "--memory-lessons":
+				pair.memory.maxLessons = parsePositiveInteger("--memory-lessons", next);
+				i += 1;
+				break;
+			case "--verify-timeout":
+				verifyTimeoutSeconds = parsePositiveInteger("--verify-timeout", next);
+				i += 1;
+				break;
 			case "--model-a-provider":
-				pair.modelA.provider = next as KnownProvider;
+				pair.modelA.provider = next as ModelSpec["provider"];
 				i += 1;
 				break;
 			case "--model-a-id":
@@ -285,8 +702,12 @@ export function parseCli(argv: string[], processCwd = process.cwd()): CliConfig
 				pair.modelA.thinkingLevel = parseThinking(next);
 				i += 1;
 				break;
+			case "--model-a-fixture":
+				pair.modelA.fixtureFile = resolve(next);
+				i += 1;
+				break;
 			case "--model-b-provider":
-				pair.modelB.provider = next as KnownProvider;
+				pair.modelB.provider = next as ModelSpec["provider"];
 				i += 1;
 				break;
 			case "--model-b-id":
@@ -297,6 +718,74 @@ export function parseCli(argv: string[], processCwd = process.cwd()): CliConfig
 				pair.modelB.thinkingLevel = parseThinking(next);
 				i += 1;
 				break;
+			case "--model-b-fixture":
+				pair.modelB.fixtureFile = resolve(next);
+				i += 1;
+				break;
+			case "--model-a-fallback":
+				fallbacks.A = { ...fallbacks.A, ...parseModelRef("--model-a-fallback", next) };
+				i += 1;
+				break;
+			case "--model-a-fallback-fixture":
+				fallbacks.A = { ...fallbacks.A, fixtureFile: resolve(next) };
+				i += 1;
+				break;
+			case "--model-b-fallback":
+				fallbacks.B = { ...fallbacks.B, ...parseModelRef("--model-b-fallback", next) };
+				i += 1;
+				break;
+			case "--model-b-fallback-fixture":
+				fallbacks.B = { ...fallbacks.B, fixtureFile: resolve(next) };
+				i += 1;
+				break;
+			case "--max-provider-attempts":
+				pair.retry.maxAttempts = parsePositiveInteger("--max-provider-attempts", next);
+				i += 1;
+				break;
+			case "--retry-delay":
+				pair.retry.baseDelayMs = Math.round(parsePositiveNumber("--retry-delay", next) * 1000);
+				i += 1;
+				break;
+			case "--retry-max-delay":
+				pair.retry.maxDelayMs = Math.round(parsePositiveNumber("--retry-max-delay", next) * 1000);
+				i += 1;
+				break;
+			case "--failover-after":
+				pair.retry.failoverAfter = parsePositiveInteger("--failover-after", next);
+				i += 1;
+				break;
+			case "--mob-models":
+				mobModels = next.split(",").map((ref) => parseModelRef("--mob-models", ref.trim()));
+				i += 1;
+				break;
+			case "--mob-fixtures":
+				mobFixtures = next.split(",").map((file) => resolve(file.trim()));
+				i += 1;
+				break;
+			case "--mob-thinking":
+				mobThinking = parseThinking(next);
+				i += 1;
+				break;
+			case "--mob-rotation":
+				mobRotation = parseMobRotation(next);
+				i += 1;
+				break;
+			case "--arbiter-provider":
+				arbiter.provider = next as ModelSpec["provider"];
+				i += 1;
+				break;
+			case "--arbiter-id":
+				arbiter.modelId = next;
+				i += 1;
+				break;
+			case "--arbiter-thinking":
+				arbiter.thinkingLevel = parseThinking(next);
+				i += 1;
+				break;
+			case "--arbiter-fixture":
+				arbiter.fixtureFile = resolve(next);
+				i += 1;
+				break;
 			case "--output":
 				outputPath = resolve(next);
 				i += 1;
@@ -313,18 +802,194 @@ export function parseCli(argv: string[], processCwd = process.cwd()): CliConfig
 				eventStreamMode = parseEventStreamMode(next);
 				i += 1;
 				break;
+			case "--max-cost-usd":
+				budget.maxCostUsd = parsePositiveNumber("--max-cost-usd", next);
+				i += 1;
+				break;
+			case "--max-tokens":
+				budget.maxTokens = parsePositiveInteger("--max-tokens", next);
+				i += 1;
+				break;
+			case "--max-wall-time":
+				budget.maxWallTimeMs = parsePositiveInteger("--max-wall-time", next) * 1000;
+				i += 1;
+				break;
+			case "--downgrade-navigator-at":
+				downgradeNavigatorAtPercent = parsePositiveNumber("--downgrade-navigator-at", next);
+				if (downgradeNavigatorAtPercent > 100) {
+					throw new Error(`--downgrade-navigator-at must be at most 100. Received: ${next}`);
+				}
+				i += 1;
+				break;
+			case "--downgrade-navigator-thinking":
+				downgradeNavigatorThinking = parseThinking(next);
+				i += 1;
+				break;
+			case "--commit-mode":
+				commitMode = parseCommitMode(next);
+				i += 1;
+				break;
 			case "--workspace-mode":
 				workspaceMode = parseWorkspaceMode(next);
 				i += 1;
 				break;
+			case "--resume":
+				resumeSessionId = next.trim();
+				i += 1;
+				break;
 			default:
 				throw new Error(`Unknown argument: ${arg}`);
 		}
 	}
 
-	if (!task) {
+	if (task && taskFile) {
+		throw new Error("Use either --task or --task-file, not both.");
+	}
+	if (!task && !taskFile && !resumeSessionId) {
 		throw new Error(`Missing required --task argument.\n\n${helpText()}`);
 	}
+	if (verifyTimeoutSeconds !== undefined && !verifyCommand) {
+		throw new Error("--verify-timeout requires --verify-command.");
+	}
+	if (verifyCommand) {
+		pair.verification = defaultVerificationConfig(verifyCommand);
+		if (verifyTimeoutSeconds !== undefined) {
+			pair.verification.timeoutMs = verifyTimeoutSeconds * 1000;
+		}
+	}
+	const hasBudgetCap = budget.maxCostUsd !== undefined || budget.maxTokens !== undefined || budget.maxWallTimeMs !== undefined;
+	if (downgradeNavigatorThinking && downgradeNavigatorAtPercent === undefined) {
+		throw new Error("--downgrade-navigator-thinking requires --downgrade-navigator-at.");
+	}
+	if (downgradeNavigatorAtPercent !== undefined) {
+		if (!hasBudgetCap) {
+			throw new Error("--downgrade-navigator-at requires --max-cost-usd, --max-tokens or --max-wall-time.");
+		}
+		budget.navigatorDowngrade = {
+			atFraction: downgradeNavigatorAtPercent / 100,
+			thinkingLevel: downgradeNavigatorThinking ?? "minimal",
+		};
+	}
+	if (hasBudgetCap) {
+		pair.budget = budget;
+	}
+	if (commitBranch && !commitMode) {
+		throw new Error("--commit-branch requires --commit-mode.");
+	}
+	if (commitMode) {
+		// Ephemeral copies leave out .git, so there is no repository to commit into.
+		if (workspaceMode !== "direct" || compareStrategies) {
+			throw new Error("--commit-mode requires --workspace-mode direct and cannot be combined with --compare-strategies.");
+		}
+		pair.commits = { mode: commitMode, sessionBranch: commitBranch };
+	}
+	if (Array.isArray(pauseModes)) {
+		pair.pauseStrategy = buildPauseStrategy(pauseModes, pauseThresholds);
+	} else if (tunedPauseModes.length > 0) {
+		pair.pauseStrategy = buildPauseStrategy(tunedPauseModes, pauseThresholds);
+	} else if (pauseModes === "none") {
+		pair.pauseStrategy = { mode: "none" };
+	}
+	if (parallelReview) {
+		if (pair.pauseStrategy.mode === "none") {
+			throw new Error("--parallel-review needs checkpoints to start reviews; use a --pause-mode other than none.");
+		}
+		pair.parallelReview = true;
+	}
+	if (pair.modelA.provider === "scripted" && !pair.modelA.fixtureFile) {
+		throw new Error("--model-a-provider scripted requires --model-a-fixture <json-path>.");
+	}
+	if (pair.modelB.provider === "scripted" && !pair.modelB.fixtureFile) {
+		throw new Error("--model-b-provider scripted requires --model-b-fixture <json-path>.");
+	}
+	for (const agent of ["A", "B"] as const) {
+		const fallback = fallbacks[agent];
+		if (!fallback) {
+			continue;
+		}
+		const flag = `--model-${agent.toLowerCase()}-fallback`;
+		if (!fallback.provider || !fallback.modelId) {
+			throw new Error(`${flag}-fixture needs ${flag} <provider>/<model-id>.`);
+		}
+		if (fallback.provider === "scripted" && !fallback.fixtureFile) {
+			throw new Error(`${flag} scripted/<id> requires ${flag}-fixture <json-path>.`);
+		}
+		const primary = agent === "A" ? pair.modelA : pair.modelB;
+		primary.fallback = {
+			provider: fallback.provider,
+			modelId: fallback.modelId,
+			thinkingLevel: primary.thinkingLevel,
+			...(fallback.fixtureFile ? { fixtureFile: fallback.fixtureFile } : {}),
+		};
+	}
+	if (Object.keys(compactionModel).length > 0) {
+		if (!compactionModel.provider || !compactionModel.modelId) {
+			throw new Error("--compaction-model-fixture needs --compaction-model <provider>/<model-id>.");
+		}
+		if (compactionModel.provider === "scripted" && !compactionModel.fixtureFile) {
+			throw new Error("--compaction-model scripted/<id> requires --compaction-model-fixture <json-path>.");
+		}
+		// Summaries are plain condensation; thinking would only add cost.
+		pair.compaction.model = {
+			provider: compactionModel.provider,
+			modelId: compactionModel.modelId,
+			thinkingLevel: "off",
+			...(compactionModel.fixtureFile ? { fixtureFile: compactionModel.fixtureFile } : {}),
+		};
+	}
+	if (pair.retry.maxDelayMs < pair.retry.baseDelayMs) {
+		throw new Error("--retry-max-delay cannot be shorter than --retry-delay.");
+	}
+	if (Object.keys(arbiter).length > 0) {
+		if (!arbiter.provider || !arbiter.modelId) {
+			throw new Error("An arbiter needs both --arbiter-provider and --arbiter-id.");
+		}
+		if (arbiter.provider === "scripted" && !arbiter.fixtureFile) {
+			throw new Error("--arbiter-provider scripted requires --arbiter-fixture <json-path>.");
+		}
+		pair.arbiter = {
+			provider: arbiter.provider,
+			modelId: arbiter.modelId,
+			thinkingLevel: arbiter.thinkingLevel ?? "high",
+			...(arbiter.fixtureFile ? { fixtureFile: arbiter.fixtureFile } : {}),
+		};
+	}
+	if (pair.disputes.arbiter === "model" && !pair.arbiter) {
+		throw new Error("--dispute-arbiter model needs an arbiter model: pass --arbiter-provider and --arbiter-id.");
+	}
+	if (pair.executionMode === "mob") {
+		if (!mobModels) {
+			throw new Error("--execution-mode mob requires --mob-models <provider>/<model-id>[,...].");
+		}
+		if (mobModels.length > 4) {
+			throw new Error(`--mob-models takes at most 4 models. Received: ${mobModels.length}`);
+		}
+		if (mobFixtures && mobFixtures.length !== mobModels.length) {
+			throw new Error("--mob-fixtures needs one path per --mob-models entry.");
+		}
+		// Mob rounds have no checkpoint reviews to run alongside the driver.
+		if (parallelReview) {
+			throw new Error("--parallel-review cannot be combined with --execution-mode mob.");
+		}
+		if (compareStrategies) {
+			throw new Error("--compare-strategies cannot be combined with --execution-mode mob.");
+		}
+		pair.mob = {
+			members: mobModels.map((model, index) => {
+				const fixtureFile = mobFixtures?.[index];
+				if (model.provider === "scripted" && !fixtureFile) {
+					throw new Error(`Mob member ${model.provider}/${model.modelId} is scripted and requires --mob-fixtures <json-path>[,...].`);
+				}
+				return { ...model, thinkingLevel: mobThinking ?? "high", ...(fixtureFile ? { fixtureFile } : {}) };
+			}),
+			rotation: mobRotation ?? "round_robin",
+		};
+	} else if (mobModels || mobFixtures || mobThinking || mobRotation) {
+		throw new Error("--mob-models, --mob-fixtures, --mob-thinking and --mob-rotation require --execution-mode mob.");
+	}
+	if (resumeSessionId && compareStrategies) {
+		throw new Error("--resume cannot be combined with --compare-strategies.");
+	}
 
 	pair.cwd = resolve(pair.cwd);
 	return {
@@ -334,8 +999,10 @@ export function parseCli(argv: string[], processCwd = process.cwd()): CliConfig
 		workspaceMode,
 		keepWorkspace,
 		compareStrategies,
+		...(taskFile ? { taskFile } : {}),
 		...(outputPath ? { outputPath } : {}),
 		...(logFile ? { logFile } : {}),
 		...(eventLogFile ? { eventLogFile } : {}),
+		...(resumeSessionId ? { resumeSessionId } : {}),
 	};
 }
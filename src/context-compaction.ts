@@ -0,0 +1,109 @@
+import type { AgentMessage } from "@mariozechner/pi-agent-core";
+import type { CompactionConfig } from "./types.js";
+
+// Rough chars-per-token ratio for English text and code; close enough to decide when to compact.
+const CHARS_PER_TOKEN = 4;
+// Images are billed by size, not by their base64 length; a flat estimate avoids counting megabytes of data.
+const IMAGE_TOKENS = 1200;
+// Longest text kept from a single message in the transcript sent to the summarizer.
+const TRANSCRIPT_MESSAGE_CHARS = 4000;
+
+const PRIVATE_MEMORY_PREFIX = "[PRIVATE MEMORY";
+
+export function defaultCompactionConfig(): CompactionConfig {
+	return {
+		mode: "auto",
+		thresholdPercent: 75,
+		keepRecentMessages: 12,
+	};
+}
+
+export function estimateTextTokens(text: string): number {
+	return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function messageParts(message: AgentMessage): string[] {
+	if (message.role === "user") {
+		return typeof message.content === "string"
+			? [message.content]
+			: message.content.map((part) => (part.type === "text" ? part.text : ""));
+	}
+	if (message.role === "assistant") {
+		return message.content.map((part) => {
+			if (part.type === "text") {
+				return part.text;
+			}
+			if (part.type === "thinking") {
+				return part.thinking;
+			}
+			return `${part.name} ${JSON.stringify(part.arguments)}`;
+		});
+	}
+	if (message.role === "toolResult") {
+		return message.content.map((part) => (part.type === "text" ? part.text : ""));
+	}
+	return [JSON.stringify(message)];
+}
+
+function imageCount(message: AgentMessage): number {
+	if ((message.role === "user" || message.role === "toolResult") && typeof message.content !== "string") {
+		return message.content.filter((part) => part.type === "image").length;
+	}
+	return 0;
+}
+
+/** Estimated tokens the system prompt and messages take up in the model's context. */
+export function estimateContextTokens(systemPrompt: string, messages: readonly AgentMessage[]): number {
+	return messages.reduce(
+		(total, message) => total + estimateTextTokens(messageParts(message).join("\n")) + imageCount(message) * IMAGE_TOKENS,
+		estimateTextTokens(systemPrompt),
+	);
+}
+
+/**
+ * Index of the first message to keep verbatim: at least `keepRecent` messages back, moved earlier to a user message
+ * so a tool call is never separated from its result. Zero means there is nothing older to compact.
+ */
+export function compactionCutIndex(messages: readonly AgentMessage[], keepRecent: number): number {
+	const start = Math.max(0, messages.length - keepRecent);
+	for (let i = start; i > 0; i -= 1) {
+		if (messages[i]?.role === "user") {
+			return i;
+		}
+	}
+	// No user message in the older part: fall forward so one long tool-using turn can still be compacted.
+	for (let i = start + 1; i < messages.length; i += 1) {
+		if (messages[i]?.role === "user") {
+			return i;
+		}
+	}
+	return 0;
+}
+
+export function isPrivateMemory(message: AgentMessage): boolean {
+	return message.role === "user" && messageParts(message).join("").startsWith(PRIVATE_MEMORY_PREFIX);
+}
+
+function truncate(text: string): string {
+	return text.length > TRANSCRIPT_MESSAGE_CHARS
+		? `${text.slice(0, TRANSCRIPT_MESSAGE_CHARS)}\n[... ${text.length - TRANSCRIPT_MESSAGE_CHARS} more characters]`
+		: text;
+}
+
+function messageLabel(message: AgentMessage): string {
+	if (message.role === "toolResult") {
+		return `tool result: ${message.toolName}${message.isError ? " (error)" : ""}`;
+	}
+	if (message.role === "assistant") {
+		const tools = message.content.filter((part) => part.type === "toolCall").map((part) => part.name);
+		return tools.length > 0 ? `you (calling ${tools.join(", ")})` : "you";
+	}
+	return message.role === "user" ? "user" : String(message.role);
+}
+
+/** Plain-text rendering of the messages being compacted, with each message cut to a bounded length. */
+export function formatCompactionTranscript(messages: readonly AgentMessage[]): string {
+	return messages
+		.map((message) => `[${messageLabel(message)}]\n${truncate(messageParts(message).filter(Boolean).join("\n").trim())}`)
+		.join("\n\n");
+}
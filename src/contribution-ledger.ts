@@ -0,0 +1,349 @@
+import { lstat, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { memberEntries } from "./mob.js";
+import { EXCLUDED_COPY_ENTRIES, listWorkspaceFiles, workspaceRelativePath } from "./workspace-session.js";
+import type { FileLineChange, LedgerState, LineAttribution, MemberId, MemberRecord } from "./types.js";
+
+const MAX_TRACKED_FILE_BYTES = 1024 * 1024;
+const MAX_LCS_CELLS = 4_000_000;
+
+type Owner = MemberId | null;
+type DiffOp = "=" | "+" | "-";
+
+interface SnapshotEntry {
+	content: string;
+	mtimeMs: number;
+	size: number;
+}
+
+type Snapshot = Map<string, SnapshotEntry>;
+
+function splitLines(content: string): string[] {
+	if (content === "") {
+		return [];
+	}
+	return (content.endsWith("\n") ? content.slice(0, -1) : content).split("\n");
+}
+
+/**
+ * Line-level edit script between two versions. Common prefix/suffix are trimmed first; the middle uses an LCS
+ * table when small enough and otherwise degrades to "remove all, add all".
+ */
+export function diffLines(before: string[], after: string[]): DiffOp[] {
+	let prefix = 0;
+	while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+		prefix += 1;
+	}
+	let suffix = 0;
+	while (
+		suffix < before.length - prefix &&
+		suffix < after.length - prefix &&
+		before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+	) {
+		suffix += 1;
+	}
+
+	const oldMiddle = before.slice(prefix, before.length - suffix);
+	const newMiddle = after.slice(prefix, after.length - suffix);
+	const ops: DiffOp[] = new Array<DiffOp>(prefix).fill("=");
+
+	const n = oldMiddle.length;
+	const m = newMiddle.length;
+	if ((n + 1) * (m + 1) > MAX_LCS_CELLS) {
+		ops.push(...new Array<DiffOp>(n).fill("-"), ...new Array<DiffOp>(m).fill("+"));
+	} else {
+		const width = m + 1;
+		const table = new Uint32Array((n + 1) * width);
+		for (let i = n - 1; i >= 0; i -= 1) {
+			for (let j = m - 1; j >= 0; j -= 1) {
+				table[i * width + j] =
+					oldMiddle[i] === newMiddle[j]
+						? (table[(i + 1) * width + j + 1] ?? 0) + 1
+						: Math.max(table[(i + 1) * width + j] ?? 0, table[i * width + j + 1] ?? 0);
+			}
+		}
+		let i = 0;
+		let j = 0;
+		while (i < n && j < m) {
+			if (oldMiddle[i] === newMiddle[j]) {
+				ops.push("=");
+				i += 1;
+				j += 1;
+			} else if ((table[(i + 1) * width + j] ?? 0) >= (table[i * width + j + 1] ?? 0)) {
+				ops.push("-");
+				i += 1;
+			} else {
+				ops.push("+");
+				j += 1;
+			}
+		}
+		ops.push(...new Array<DiffOp>(n - i).fill("-"), ...new Array<DiffOp>(m - j).fill("+"));
+	}
+
+	ops.push(...new Array<DiffOp>(suffix).fill("="));
+	return ops;
+}
+
+function encodeOwners(owners: Owner[]): [Owner, number][] {
+	const runs: [Owner, number][] = [];
+	for (const owner of owners) {
+		const last = runs[runs.length - 1];
+		if (last && last[0] === owner) {
+			last[1] += 1;
+		} else {
+			runs.push([owner, 1]);
+		}
+	}
+	return runs;
+}
+
+function decodeOwners(runs: [Owner, number][]): Owner[] {
+	return runs.flatMap(([owner, count]) => new Array<Owner>(count).fill(owner));
+}
+
+/**
+ * Reads the files git shows (so .gitignore'd build output is skipped) plus `extraPaths`; outside a git work tree
+ * it walks the whole workspace. Files whose size and mtime match `previous` are not read again.
+ */
+async function captureSnapshot(cwd: string, previous: Snapshot | undefined, extraPaths: Iterable<string>): Promise<Snapshot> {
+	const snapshot: Snapshot = new Map();
+	const paths = new Set([...(await listWorkspaceFiles(cwd)), ...extraPaths]);
+	for (const path of paths) {
+		if (path.split("/").some((segment) => EXCLUDED_COPY_ENTRIES.has(segment))) {
+			continue;
+		}
+		const absolute = join(cwd, path);
+		let info;
+		try {
+			info = await lstat(absolute);
+		} catch {
+			continue;
+		}
+		if (!info.isFile() || info.size > MAX_TRACKED_FILE_BYTES) {
+			continue;
+		}
+		const cached = previous?.get(path);
+		if (cached && cached.mtimeMs === info.mtimeMs && cached.size === info.size) {
+			snapshot.set(path, cached);
+			continue;
+		}
+		let buffer;
+		try {
+			buffer = await readFile(absolute);
+		} catch {
+			continue;
+		}
+		if (buffer.includes(0)) {
+			continue;
+		}
+		snapshot.set(path, { content: buffer.toString("utf-8"), mtimeMs: info.mtimeMs, size: info.size });
+	}
+	return snapshot;
+}
+
+interface AgentTotals {
+	linesAdded: number;
+	linesRemoved: number;
+	filesTouched: Set<string>;
+}
+
+function emptyAgentTotals(): AgentTotals {
+	return { linesAdded: 0, linesRemoved: 0, filesTouched: new Set() };
+}
+
+function emptyTotals(): MemberRecord<AgentTotals> {
+	return { A: emptyAgentTotals(), B: emptyAgentTotals() };
+}
+
+/**
+ * Attributes workspace line changes to agents by snapshotting text files at driver turn boundaries.
+ * Changes observed between boundaries (verification output, manual edits) are absorbed as "system" so they
+ * never count toward either model.
+ */
+export class ContributionLedger {
+	private readonly cwd: string;
+	private snapshot: Snapshot | undefined;
+	private readonly owners = new Map<string, Owner[]>();
+	private totals = emptyTotals();
+	private lastDiff: string[] = [];
+
+	constructor(cwd: string) {
+		this.cwd = cwd;
+	}
+
+	/**
+	 * `touchedPaths` are the edit/write targets of the turn, so edits to files git ignores are still seen. Files
+	 * already in the snapshot keep being checked.
+	 */
+	async capture(actor: MemberId | "system", touchedPaths: Iterable<string> = []): Promise<FileLineChange[]> {
+		const previous = this.snapshot;
+		const extraPaths = [...(previous?.keys() ?? []), ...this.owners.keys()];
+		for (const path of touchedPaths) {
+			const inside = workspaceRelativePath(this.cwd, path);
+			if (inside) {
+				extraPaths.push(inside);
+			}
+		}
+		const next = await captureSnapshot(this.cwd, previous, extraPaths);
+		this.snapshot = next;
+		this.lastDiff = [];
+		if (!previous) {
+			return [];
+		}
+
+		const changes: FileLineChange[] = [];
+		const paths = new Set([...previous.keys(), ...next.keys()]);
+		for (const path of [...paths].sort()) {
+			const before = previous.get(path);
+			const after = next.get(path);
+			if (before === after || before?.content === after?.content) {
+				continue;
+			}
+			const change = this.applyDiff(path, before?.content ?? "", after?.content ?? "", actor);
+			if (change && actor !== "system") {
+				changes.push(change);
+			}
+		}
+		return changes;
+	}
+
+	private applyDiff(path: string, before: string, after: string, actor: MemberId | "system"): FileLineChange | undefined {
+		const oldLines = splitLines(before);
+		const newLines = splitLines(after);
+		const ops = diffLines(oldLines, newLines);
+		const oldOwners = this.owners.get(path) ?? new Array<Owner>(oldLines.length).fill(null);
+		const newOwners: Owner[] = [];
+		const changedLines: string[] = [];
+		let cursor = 0;
+		let added = 0;
+		let removed = 0;
+		for (const op of ops) {
+			if (op === "=") {
+				newOwners.push(oldOwners[cursor] ?? null);
+				cursor += 1;
+			} else if (op === "-") {
+				changedLines.push(`- ${oldLines[cursor] ?? ""}`);
+				cursor += 1;
+				removed += 1;
+			} else {
+				changedLines.push(`+ ${newLines[newOwners.length] ?? ""}`);
+				newOwners.push(actor === "system" ? null : actor);
+				added += 1;
+			}
+		}
+
+		if (newOwners.some((owner) => owner !== null)) {
+			this.owners.set(path, newOwners);
+		} else {
+			this.owners.delete(path);
+		}
+
+		if (actor === "system" || (added === 0 && removed === 0)) {
+			return undefined;
+		}
+		// Mob members only get totals once they change something.
+		const totals = (this.totals[actor] ??= emptyAgentTotals());
+		totals.linesAdded += added;
+		totals.linesRemoved += removed;
+		totals.filesTouched.add(path);
+		this.lastDiff.push(`--- ${path} (+${added}/-${removed})`, ...changedLines);
+		return { path, linesAdded: added, linesRemoved: removed };
+	}
+
+	/** Added and removed lines from the latest agent capture, without context lines, cut off after `maxLines`. */
+	lastCaptureDiff(maxLines = 200): string {
+		if (this.lastDiff.length <= maxLines) {
+			return this.lastDiff.join("\n");
+		}
+		return [...this.lastDiff.slice(0, maxLines), `... ${this.lastDiff.length - maxLines} more diff lines not shown`].join("\n");
+	}
+
+	/** Always has A and B; other members appear once they have changed a line. */
+	attribution(): MemberRecord<LineAttribution> {
+		const surviving: Partial<Record<MemberId, number>> = {};
+		for (const owners of this.owners.values()) {
+			for (const owner of owners) {
+				if (owner) {
+					surviving[owner] = (surviving[owner] ?? 0) + 1;
+				}
+			}
+		}
+		const render = (totals: AgentTotals, agent: MemberId): LineAttribution => ({
+			linesAdded: totals.linesAdded,
+			linesRemoved: totals.linesRemoved,
+			filesTouched: [...totals.filesTouched].sort(),
+			survivingLines: surviving[agent] ?? 0,
+		});
+		const attribution: MemberRecord<LineAttribution> = { A: render(this.totals.A, "A"), B: render(this.totals.B, "B") };
+		for (const [agent, totals] of memberEntries(this.totals)) {
+			attribution[agent] = render(totals, agent);
+		}
+		return attribution;
+	}
+
+	exportState(): LedgerState {
+		const files: LedgerState["files"] = {};
+		for (const [path, owners] of this.owners) {
+			files[path] = { content: this.snapshot?.get(path)?.content ?? "", owners: encodeOwners(owners) };
+		}
+		const totals = (line: LineAttribution): Omit<LineAttribution, "survivingLines"> => ({
+			linesAdded: line.linesAdded,
+			linesRemoved: line.linesRemoved,
+			filesTouched: line.filesTouched,
+		});
+		const attribution = this.attribution();
+		const stamps: NonNullable<LedgerState["stamps"]> = {};
+		for (const [path, entry] of this.snapshot ?? []) {
+			stamps[path] = [entry.size, entry.mtimeMs];
+		}
+		const state: LedgerState = { files, totals: { A: totals(attribution.A), B: totals(attribution.B) }, stamps };
+		for (const [agent, line] of memberEntries(attribution)) {
+			state.totals[agent] = totals(line);
+		}
+		return state;
+	}
+
+	/**
+	 * Rebuilds ownership from a checkpoint. Owned files are diffed from their checkpointed content to what is on
+	 * disk now, so edits made by an interrupted turn are absorbed as "system" instead of corrupting ownership.
+	 * Returns the paths added, changed or deleted since the state was exported.
+	 */
+	async restore(state: LedgerState): Promise<string[]> {
+		this.owners.clear();
+		this.totals = emptyTotals();
+		for (const [agent, totals] of memberEntries(state.totals)) {
+			this.totals[agent] = {
+				linesAdded: totals.linesAdded,
+				linesRemoved: totals.linesRemoved,
+				filesTouched: new Set(totals.filesTouched),
+			};
+		}
+
+		this.snapshot = await captureSnapshot(this.cwd, undefined, [...Object.keys(state.files), ...Object.keys(state.stamps ?? {})]);
+		for (const [path, file] of Object.entries(state.files)) {
+			this.owners.set(path, decodeOwners(file.owners));
+			const current = this.snapshot.get(path)?.content ?? "";
+			if (current !== file.content) {
+				this.applyDiff(path, file.content, current, "system");
+			}
+		}
+
+		// Checkpoints written before stamps existed cannot tell.
+		if (!state.stamps) {
+			return [];
+		}
+		const changed = new Set<string>();
+		for (const [path, [size, mtimeMs]] of Object.entries(state.stamps)) {
+			const entry = this.snapshot.get(path);
+			if (!entry || entry.size !== size || entry.mtimeMs !== mtimeMs) {
+				changed.add(path);
+			}
+		}
+		for (const path of this.snapshot.keys()) {
+			if (!(path in state.stamps)) {
+				changed.add(path);
+			}
+		}
+		return [...changed].sort();
+	}
+}
@@ -0,0 +1,91 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import type { MemberId, ModelSpec } from "./types.js";
+
+const execFileAsync = promisify(execFile);
+
+// Session logs and checkpoints live inside the workspace but must never be committed with the pair's work.
+const EXCLUDED_PATHSPEC = ":(exclude).pairing-bots";
+
+export function sessionBranchName(sessionId: string): string {
+	return `pairing-bots/${sessionId}`;
+}
+
+export class GitCommitter {
+	readonly cwd: string;
+	private readonly identityArgs: string[];
+
+	private constructor(cwd: string, identityArgs: string[]) {
+		this.cwd = cwd;
+		this.identityArgs = identityArgs;
+	}
+
+	static async open(cwd: string): Promise<GitCommitter> {
+		try {
+			await execFileAsync("git", ["rev-parse", "--is-inside-work-tree"], { cwd });
+		} catch {
+			throw new Error(`--commit-mode requires a git repository, but ${cwd} is not inside one.`);
+		}
+
+		// Fall back to a neutral committer identity so commits do not fail on machines without git config.
+		let identityArgs: string[] = [];
+		try {
+			await execFileAsync("git", ["config", "user.email"], { cwd });
+		} catch {
+			identityArgs = ["-c", "user.name=pairing-bots", "-c", "user.email=pairing-bots@localhost"];
+		}
+		return new GitCommitter(cwd, identityArgs);
+	}
+
+	private async git(args: string[]): Promise<string> {
+		const { stdout } = await execFileAsync("git", [...this.identityArgs, ...args], {
+			cwd: this.cwd,
+			maxBuffer: 16 * 1024 * 1024,
+		});
+		return stdout.trim();
+	}
+
+	async currentBranch(): Promise<string> {
+		return await this.git(["rev-parse", "--abbrev-ref", "HEAD"]);
+	}
+
+	async checkoutBranch(branch: string): Promise<void> {
+		try {
+			await this.git(["rev-parse", "--verify", "--quiet", `refs/heads/${branch}`]);
+			await this.git(["checkout", branch]);
+		} catch {
+			await this.git(["checkout", "-b", branch]);
+		}
+	}
+
+	/**
+	 * Refuses to start a session over uncommitted changes: every commit stages the whole tree, so the user's own edits
+	 * would land in the first round's commit under the driver's name.
+	 */
+	async assertClean(): Promise<void> {
+		const status = await this.git(["status", "--porcelain", "--untracked-files=all", "--", ".", EXCLUDED_PATHSPEC]);
+		if (status === "") {
+			return;
+		}
+		const paths = status.split("\n").map((line) => line.slice(3));
+		const listed = paths.slice(0, 5).join(", ");
+		throw new Error(
+			`--commit-mode needs a clean working tree, but ${this.cwd} has ${paths.length} uncommitted path(s): ${listed}${paths.length > 5 ? ", ..." : ""}. Commit or stash them first.`,
+		);
+	}
+
+	/** Stages every workspace change and commits it with the given agent as author. Returns undefined when clean. */
+	async commitAll(params: { author: { agent: MemberId; model: ModelSpec }; message: string }): Promise<string | undefined> {
+		await this.git(["add", "-A", "--", ".", EXCLUDED_PATHSPEC]);
+		try {
+			await this.git(["diff", "--cached", "--quiet"]);
+			return undefined;
+		} catch {
+			// Non-zero exit means there are staged changes to commit.
+		}
+
+		const author = `Model ${params.author.agent} (${params.author.model.provider}/${params.author.model.modelId}) <pairing-bots+${params.author.agent.toLowerCase()}@localhost>`;
+		await this.git(["commit", "--no-verify", "--author", author, "-m", params.message]);
+		return await this.git(["rev-parse", "HEAD"]);
+	}
+}
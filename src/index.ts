@@ -1,22 +1,138 @@
-export { defaultPairConfig, helpText, parseCli } from "./config.js";
+export { Checklist } from "./checklist.js";
+export {
+	defaultPairConfig,
+	helpText,
+	parseCli,
+	parseMemoryCli,
+	type CliConfig,
+	type ConfigSources,
+	type MemoryCommand,
+} from "./config.js";
+export {
+	CONFIG_FILE_NAMES,
+	findConfigFile,
+	loadCliConfig,
+	loadConfigFile,
+	validateConfigFile,
+	type ConfigFileContents,
+	type ConfigSettings,
+	type LoadedConfigFile,
+} from "./config-file.js";
+export {
+	compactionCutIndex,
+	defaultCompactionConfig,
+	estimateContextTokens,
+	formatCompactionTranscript,
+} from "./context-compaction.js";
+export { ContributionLedger, diffLines } from "./contribution-ledger.js";
+export { GitCommitter, sessionBranchName } from "./git-committer.js";
+export { defaultMemoryConfig, formatLessons, memoryModelKey, MemoryStore, type PruneOptions } from "./memory-store.js";
+export {
+	isMobMember,
+	memberEntries,
+	memberModel,
+	mergeNavigatorReviews,
+	MOB_MEMBER_IDS,
+	mobNavigators,
+	mobRoster,
+	nextMobDriver,
+} from "./mob.js";
 export { PairProgrammingOrchestrator } from "./pair-orchestrator.js";
+export {
+	createScriptedStreamFn,
+	loadScriptedFixture,
+	parseScriptedFixture,
+	SCRIPTED_PROVIDER,
+	type ScriptedFixture,
+	type ScriptedResponse,
+	type ScriptedToolCall,
+	type ScriptedUsage,
+} from "./scripted-provider.js";
+export { defaultRetryConfig, isRetryableProviderError, retryDelayMs } from "./provider-retry.js";
+export { defaultVerificationConfig, formatVerificationResult, runVerificationCommand } from "./verification.js";
+export { createSessionId, SessionStore } from "./session-store.js";
+export { loadTaskFile, parseTaskMarkdown, taskSpecFromText } from "./task-spec.js";
+export { emptyDriverSignals, isRepeatedFeedback, stuckReason } from "./turn-signals.js";
+export { addTokenUsage, emptyTokenUsage, formatTokenUsage, usageFromMessage } from "./usage.js";
+export { WorkspaceSnapshot } from "./workspace-snapshot.js";
 export type {
+	AcceptanceCheck,
+	AdaptiveTurnState,
 	AgentId,
+	BudgetConfig,
+	BudgetExhaustion,
+	BudgetLimit,
+	CheckpointReview,
+	ChecklistItem,
+	ChecklistStatus,
+	ChecklistUpdate,
+	CommitConfig,
+	CommitMode,
+	CompactionConfig,
+	CompactionMode,
+	ContextCompaction,
 	ContributionSummary,
+	Dispute,
+	DisputeArbiter,
+	DisputeConfig,
+	DisputeOutcome,
+	DisputeRule,
 	DriverDecision,
 	DriverReport,
+	DriverSignals,
 	EventStreamMode,
 	ExecutionMode,
+	ExecutionState,
+	FileLineChange,
 	FinalReview,
+	InterimReview,
+	LedgerState,
+	LineAttribution,
+	MemberId,
+	MemberRecord,
+	MemoryConfig,
+	MemoryEntry,
+	MemoryMode,
+	MobConfig,
+	MobMemberId,
+	MobNavigatorReview,
+	MobRotation,
+	MemorySource,
+	ModelFailover,
+	ModelMemory,
 	ModelSpec,
 	NavigatorReview,
 	ObservabilitySummary,
 	PairAgentConfig,
 	PairRunResult,
 	PauseStrategy,
+	PauseTrigger,
+	PauseTriggerMode,
+	Plan,
+	PlanNegotiation,
+	PlanReview,
+	PlanSignoff,
+	PlanStepSource,
+	PlanningMode,
+	PlanStep,
+	ProviderRetry,
+	RetryConfig,
+	RoundCommit,
 	RoundResult,
 	RunSummary,
+	SessionCheckpoint,
+	SessionPhase,
 	SharedEntry,
+	TaskSpec,
+	TieBreak,
+	TokenUsage,
 	TurnPolicy,
+	UsageBreakdown,
+	UsagePhase,
+	VerificationConfig,
+	VerificationResult,
+	VerificationStage,
+	WorkerId,
+	WorkerSnapshot,
 	WorkspaceMode,
 } from "./types.js";
@@ -0,0 +1,169 @@
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { MemoryConfig, MemoryEntry, ModelMemory, ModelSpec } from "./types.js";
+
+export const MEMORY_VERSION = 1;
+
+// Oldest notes are dropped past this many per model, so memory files stay small without manual pruning.
+const MAX_STORED_ENTRIES = 200;
+// Longest note shown in the lessons block; the stored note keeps its full text.
+const LESSON_CHARS = 600;
+
+export interface MemoryStoreOptions {
+	cwd: string;
+}
+
+export interface PruneOptions {
+	/** Limits pruning to one `provider/model-id`. */
+	model?: string;
+	/** Keeps only the newest notes per model. */
+	keep?: number;
+	/** Drops notes created more than this many days before `now`. */
+	olderThanDays?: number;
+	now?: number;
+}
+
+export function defaultMemoryConfig(): MemoryConfig {
+	return {
+		mode: "on",
+		maxLessons: 10,
+	};
+}
+
+export function memoryRoot(cwd: string): string {
+	return join(cwd, ".pairing-bots", "memory");
+}
+
+export function memoryModelKey(spec: ModelSpec): string {
+	return `${spec.provider}/${spec.modelId}`;
+}
+
+function memoryFileName(model: string): string {
+	return `${model.replace(/[^A-Za-z0-9._-]+/g, "__")}.json`;
+}
+
+/**
+ * The newest `limit` notes as a private block for the start of a session, or undefined when there are none. Long
+ * notes are cut so the block stays small next to the task and plan.
+ */
+export function formatLessons(entries: MemoryEntry[], limit: number): string | undefined {
+	const recent = entries.slice(-limit);
+	if (recent.length === 0) {
+		return undefined;
+	}
+	return [
+		"Lessons from your previous sessions in this project (your own private notes, oldest first).",
+		"Use them where they still apply; the code may have changed since.",
+		...recent.map((entry) => {
+			const text = entry.content.length > LESSON_CHARS ? `${entry.content.slice(0, LESSON_CHARS)}...` : entry.content;
+			return `- [${entry.createdAt.slice(0, 10)}, ${entry.source.replace("_", " ")}] ${text}`;
+		}),
+	].join("\n");
+}
+
+export class MemoryStore {
+	readonly directory: string;
+
+	constructor(options: MemoryStoreOptions) {
+		this.directory = memoryRoot(options.cwd);
+	}
+
+	fileFor(model: string): string {
+		return join(this.directory, memoryFileName(model));
+	}
+
+	async load(model: string): Promise<MemoryEntry[]> {
+		return (await this.read(this.fileFor(model)))?.entries ?? [];
+	}
+
+	async append(model: string, entries: MemoryEntry[]): Promise<void> {
+		if (entries.length === 0) {
+			return;
+		}
+		const existing = await this.load(model);
+		await this.write({ version: MEMORY_VERSION, model, entries: [...existing, ...entries].slice(-MAX_STORED_ENTRIES) });
+	}
+
+	async list(): Promise<ModelMemory[]> {
+		let files: string[];
+		try {
+			files = await readdir(this.directory);
+		} catch {
+			return [];
+		}
+		const memories: ModelMemory[] = [];
+		for (const file of files.filter((name) => name.endsWith(".json")).sort()) {
+			const memory = await this.read(join(this.directory, file));
+			if (memory) {
+				memories.push(memory);
+			}
+		}
+		return memories;
+	}
+
+	/** Returns how many notes were removed. */
+	async prune(options: PruneOptions): Promise<number> {
+		const cutoff =
+			options.olderThanDays !== undefined ? (options.now ?? Date.now()) - options.olderThanDays * 24 * 60 * 60 * 1000 : undefined;
+		let removed = 0;
+		for (const memory of await this.list()) {
+			if (options.model && memory.model !== options.model) {
+				continue;
+			}
+			let entries = memory.entries;
+			if (cutoff !== undefined) {
+				entries = entries.filter((entry) => Date.parse(entry.createdAt) >= cutoff);
+			}
+			if (options.keep !== undefined) {
+				entries = entries.slice(-options.keep);
+			}
+			if (entries.length < memory.entries.length) {
+				removed += memory.entries.length - entries.length;
+				await this.write({ ...memory, entries });
+			}
+		}
+		return removed;
+	}
+
+	/** Deletes every memory file, or only one model's. Returns how many notes were removed. */
+	async clear(model?: string): Promise<number> {
+		let removed = 0;
+		for (const memory of await this.list()) {
+			if (model && memory.model !== model) {
+				continue;
+			}
+			removed += memory.entries.length;
+			await rm(this.fileFor(memory.model), { force: true });
+		}
+		return removed;
+	}
+
+	private async read(file: string): Promise<ModelMemory | undefined> {
+		let raw: string;
+		try {
+			raw = await readFile(file, "utf-8");
+		} catch {
+			return undefined;
+		}
+		let memory: ModelMemory;
+		try {
+			memory = JSON.parse(raw) as ModelMemory;
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			throw new Error(`Memory file ${file} is not valid JSON: ${message}`);
+		}
+		if (memory.version !== MEMORY_VERSION) {
+			throw new Error(`Unsupported memory file version in ${file}: ${String(memory.version)} (expected ${MEMORY_VERSION}).`);
+		}
+		return memory;
+	}
+
+	private async write(memory: ModelMemory): Promise<void> {
+		await mkdir(this.directory, { recursive: true });
+		const file = this.fileFor(memory.model);
+		// Write-then-rename, as for session checkpoints, so an interrupted write never truncates the notes.
+		const pending = `${file}.tmp`;
+		await writeFile(pending, JSON.stringify(memory, null, 2), "utf-8");
+		await rename(pending, file);
+	}
+}
@@ -0,0 +1,101 @@
+import type {
+	AgentId,
+	ContributionSummary,
+	LineAttribution,
+	MemberId,
+	MemberRecord,
+	MobMemberId,
+	MobNavigatorReview,
+	MobRotation,
+	ModelSpec,
+	NavigatorReview,
+	PairAgentConfig,
+} from "./types.js";
+
+export const MOB_MEMBER_IDS: readonly MobMemberId[] = ["C", "D", "E", "F"];
+const MEMBER_IDS: readonly MemberId[] = ["A", "B", ...MOB_MEMBER_IDS];
+
+/** The entries a per-member record holds, in roster order. */
+export function memberEntries<T>(record: MemberRecord<T>): Array<[MemberId, T]> {
+	return MEMBER_IDS.flatMap((id): Array<[MemberId, T]> => {
+		const value = record[id];
+		return value === undefined ? [] : [[id, value]];
+	});
+}
+
+export function isMobMember(id: MemberId): id is MobMemberId {
+	return id !== "A" && id !== "B";
+}
+
+/** A and B, followed by one id per configured mob member. Outside `mob` mode this is just the pair. */
+export function mobRoster(config: Pick<PairAgentConfig, "executionMode" | "mob">): MemberId[] {
+	const extra = config.executionMode === "mob" ? (config.mob?.members.length ?? 0) : 0;
+	return MEMBER_IDS.slice(0, 2 + extra);
+}
+
+export function memberModel(config: Pick<PairAgentConfig, "modelA" | "modelB" | "mob">, id: MemberId): ModelSpec {
+	if (id === "A") {
+		return config.modelA;
+	}
+	if (id === "B") {
+		return config.modelB;
+	}
+	const spec = config.mob?.members[MOB_MEMBER_IDS.indexOf(id)];
+	if (!spec) {
+		throw new Error(`Model ${id} is not in the mob roster.`);
+	}
+	return spec;
+}
+
+/**
+ * Driver for `round`. Round robin walks the roster from `firstDriver`, so the order survives a resume without extra
+ * state. Least contributed picks the member with the fewest changed lines so far, then the fewest rounds driven; ties
+ * go to whoever comes first in rotation order.
+ */
+export function nextMobDriver(params: {
+	roster: readonly MemberId[];
+	rotation: MobRotation;
+	round: number;
+	firstDriver: AgentId;
+	attribution: MemberRecord<LineAttribution>;
+	contributions: MemberRecord<ContributionSummary>;
+}): MemberId {
+	const start = Math.max(0, params.roster.indexOf(params.firstDriver));
+	const order = [...params.roster.slice(start), ...params.roster.slice(0, start)];
+	if (params.rotation === "round_robin") {
+		return order[(params.round - 1) % order.length] ?? params.firstDriver;
+	}
+	const churn = (id: MemberId): number => (params.attribution[id]?.linesAdded ?? 0) + (params.attribution[id]?.linesRemoved ?? 0);
+	const driven = (id: MemberId): number => params.contributions[id]?.roundsDriven ?? 0;
+	return order.reduce((best, id) => {
+		const byChurn = churn(id) - churn(best);
+		return byChurn < 0 || (byChurn === 0 && driven(id) < driven(best)) ? id : best;
+	}, order[0] ?? params.firstDriver);
+}
+
+/** Every navigator that is not driving, in roster order starting after the driver. */
+export function mobNavigators(roster: readonly MemberId[], driver: MemberId): MemberId[] {
+	const index = roster.indexOf(driver);
+	return [...roster.slice(index + 1), ...roster.slice(0, Math.max(0, index))];
+}
+
+/**
+ * One review for the driver from all of the navigators'. Feedback is kept per model so the driver can answer each
+ * point; a revert needs a strict majority. Handoff votes are dropped because the rotation picks the next driver, and
+ * private reflections stay with the navigator that wrote them.
+ */
+export function mergeNavigatorReviews(reviews: readonly MobNavigatorReview[]): NavigatorReview {
+	const withFeedback = reviews.filter(({ review }) => review.hasFeedback);
+	const revertVotes = reviews.filter(({ review }) => review.driverRecommendation === "revert").length;
+	return {
+		privateReflection: "",
+		publicFeedback:
+			withFeedback.length > 0
+				? withFeedback.map(({ navigator, review }) => `Model ${navigator}:\n${review.publicFeedback}`).join("\n\n")
+				: "NONE",
+		hasFeedback: withFeedback.length > 0,
+		driverRecommendation: revertVotes * 2 > reviews.length ? "revert" : "continue",
+		checklistUpdates: [],
+		raw: reviews.map(({ navigator, review }) => `[Model ${navigator}]\n${review.raw}`).join("\n\n"),
+	};
+}
@@ -1,25 +1,94 @@
-import { Agent, type AgentEvent, type AgentMessage } from "@mariozechner/pi-agent-core";
-import { getModels, type AssistantMessage, type Model } from "@mariozechner/pi-ai";
+import { Agent, type AgentEvent, type AgentMessage, type ThinkingLevel } from "@mariozechner/pi-agent-core";
+import { getModels, streamSimple, type AssistantMessage, type Model } from "@mariozechner/pi-ai";
 import { createCodingTools, createReadOnlyTools } from "@mariozechner/pi-coding-agent";
 import { hasApiKeySourceForProvider, resolveApiKeyForProvider } from "./credentials.js";
-import { buildSystemPrompt } from "./prompts.js";
-import type { AgentId, ModelSpec, PairRole } from "./types.js";
+import {
+	compactionCutIndex,
+	defaultCompactionConfig,
+	estimateContextTokens,
+	estimateTextTokens,
+	formatCompactionTranscript,
+	isPrivateMemory,
+} from "./context-compaction.js";
+import { extractTag } from "./parsing.js";
+import { buildArbiterSystemPrompt, buildCompactionPrompt, buildCompactionSystemPrompt, buildSystemPrompt } from "./prompts.js";
+import { defaultRetryConfig, isRetryableProviderError, retryDelayMs } from "./provider-retry.js";
+import { createScriptedStreamFn, loadScriptedFixture, SCRIPTED_PROVIDER, scriptedModel } from "./scripted-provider.js";
+import type {
+	CompactionConfig,
+	ContextCompaction,
+	MemberId,
+	ModelFailover,
+	ModelSpec,
+	PairRole,
+	ProviderRetry,
+	RetryConfig,
+	WorkerId,
+	WorkerSnapshot,
+} from "./types.js";
 
 export interface RunPromptOptions {
 	onEvent?: (event: AgentEvent) => void;
+	/** Aborts the running prompt; `runPrompt` then rejects with the signal's reason. */
+	signal?: AbortSignal;
+	onRetry?: (retry: ProviderRetry) => void;
+	onFailover?: (failover: ModelFailover) => void;
+	onCompaction?: (compaction: ContextCompaction) => void;
+	/** The summarizer failed; the prompt still runs on the uncompacted context. */
+	onCompactionError?: (error: string) => void;
 }
 
 function resolveModel(spec: ModelSpec): Model<any> {
-	const model = getModels(spec.provider).find((candidate) => candidate.id === spec.modelId);
+	if (spec.provider === SCRIPTED_PROVIDER) {
+		return scriptedModel(spec.modelId);
+	}
+	const provider = spec.provider;
+	const model = getModels(provider).find((candidate) => candidate.id === spec.modelId);
 	if (model) {
 		return model;
 	}
-	const available = getModels(spec.provider).map((candidate) => candidate.id).slice(0, 20).join(", ");
+	const available = getModels(provider).map((candidate) => candidate.id).slice(0, 20).join(", ");
 	throw new Error(
 		`Model not found: ${spec.provider}/${spec.modelId}. Available examples for provider: ${available || "(none)"}`,
 	);
 }
 
+function modelLabel(spec: ModelSpec): string {
+	return `${spec.provider}/${spec.modelId}`;
+}
+
+/** Resolves early, without an error, when the signal aborts. */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolvePromise) => {
+		const done = (): void => {
+			clearTimeout(timer);
+			signal?.removeEventListener("abort", done);
+			resolvePromise();
+		};
+		const timer = setTimeout(done, ms);
+		signal?.addEventListener("abort", done, { once: true });
+	});
+}
+
+function abortReason(signal: AbortSignal): Error {
+	return signal.reason instanceof Error ? signal.reason : new Error(String(signal.reason ?? "Prompt aborted."));
+}
+
+/** Resolves the model up front so a misconfigured spec (or fallback) fails at startup, not mid-run. */
+function checkedModel(id: WorkerId, spec: ModelSpec): Model<any> {
+	const model = resolveModel(spec);
+	const scripted = spec.provider === SCRIPTED_PROVIDER;
+	if (scripted && !spec.fixtureFile) {
+		throw new Error(`Scripted model ${id} requires a fixture file.`);
+	}
+	if (!scripted && !hasApiKeySourceForProvider(model.provider)) {
+		throw new Error(
+			`Missing credentials for provider "${model.provider}". Set an API key env var or configure a 1Password reference.`,
+		);
+	}
+	return model;
+}
+
 function assistantText(message: AssistantMessage): string {
 	return message.content
 		.filter((part): part is Extract<(typeof message.content)[number], { type: "text" }> => part.type === "text")
@@ -29,31 +98,52 @@ function assistantText(message: AssistantMessage): string {
 }
 
 export class ModelWorker {
-	readonly id: AgentId;
+	readonly id: WorkerId;
 	readonly modelSpec: ModelSpec;
 	readonly agent: Agent;
+	private readonly retry: RetryConfig;
+	private readonly compaction: CompactionConfig;
+	private readonly fallbackModel: Model<any> | undefined;
+	private readonly compactionModel: Model<any> | undefined;
+	private readonly compactionStreamFn;
+	private activeSpec: ModelSpec;
+	// Retryable failures since the last successful call, across prompts; reaching failoverAfter switches models.
+	private consecutiveFailures = 0;
 
 	private readonly codingTools;
 	private readonly readOnlyTools;
+	private readonly privateMemory: string[] = [];
+	private navigatorThinkingLevel: ThinkingLevel | undefined;
+	private role: PairRole;
 
-	constructor(id: AgentId, modelSpec: ModelSpec, cwd: string) {
+	/** The arbiter starts, and stays, on read-only tools. */
+	constructor(
+		id: WorkerId,
+		modelSpec: ModelSpec,
+		cwd: string,
+		retry: RetryConfig = defaultRetryConfig(),
+		compaction: CompactionConfig = defaultCompactionConfig(),
+	) {
 		this.id = id;
 		this.modelSpec = modelSpec;
+		this.activeSpec = modelSpec;
+		this.retry = retry;
+		this.compaction = compaction;
 		this.codingTools = createCodingTools(cwd);
 		this.readOnlyTools = createReadOnlyTools(cwd);
+		this.role = id === "arbiter" ? "navigator" : "driver";
 
-		const model = resolveModel(modelSpec);
-		if (!hasApiKeySourceForProvider(model.provider)) {
-			throw new Error(
-				`Missing credentials for provider "${model.provider}". Set an API key env var or configure a 1Password reference.`,
-			);
-		}
+		const model = checkedModel(id, modelSpec);
+		this.fallbackModel = modelSpec.fallback ? checkedModel(id, modelSpec.fallback) : undefined;
+		this.compactionModel = compaction.model ? checkedModel(id, compaction.model) : undefined;
+		this.compactionStreamFn = compaction.model ? this.streamFnFor(compaction.model) : undefined;
 		this.agent = new Agent({
+			streamFn: this.streamFnFor(modelSpec),
 			initialState: {
-				systemPrompt: buildSystemPrompt(id),
+				systemPrompt: id === "arbiter" ? buildArbiterSystemPrompt() : buildSystemPrompt(id),
 				model,
 				thinkingLevel: modelSpec.thinkingLevel,
-				tools: this.codingTools,
+				tools: this.role === "driver" ? this.codingTools : this.readOnlyTools,
 			},
 			getApiKey: async (provider) => {
 				return await resolveApiKeyForProvider(provider);
@@ -61,14 +151,44 @@ export class ModelWorker {
 		});
 	}
 
+	/** The model currently answering prompts: the configured one, or its fallback after a failover. */
+	get currentModel(): ModelSpec {
+		return this.activeSpec;
+	}
+
+	private streamFnFor(spec: ModelSpec) {
+		return spec.provider === SCRIPTED_PROVIDER && spec.fixtureFile
+			? createScriptedStreamFn(loadScriptedFixture(spec.fixtureFile))
+			: streamSimple;
+	}
+
 	setRole(role: PairRole): void {
+		if (role === "driver" && this.id === "arbiter") {
+			throw new Error("The arbiter model never drives; it only reviews.");
+		}
+		this.role = role;
 		if (role === "driver") {
+			this.agent.setThinkingLevel(this.activeSpec.thinkingLevel);
 			this.agent.setTools(this.codingTools);
 			return;
 		}
+		this.agent.setThinkingLevel(this.navigatorThinkingLevel ?? this.activeSpec.thinkingLevel);
 		this.agent.setTools(this.readOnlyTools);
 	}
 
+	/** Overrides the thinking level used while navigating, including the current turn if already navigating. */
+	setNavigatorThinkingLevel(level: ThinkingLevel | undefined): void {
+		this.navigatorThinkingLevel = level;
+		if (this.role === "navigator") {
+			this.agent.setThinkingLevel(level ?? this.activeSpec.thinkingLevel);
+		}
+	}
+
+	/** Switches the system prompt to the mob's, which names every model in `roster`. */
+	joinMob(roster: readonly MemberId[]): void {
+		this.agent.setSystemPrompt(this.id === "arbiter" ? buildArbiterSystemPrompt(roster) : buildSystemPrompt(this.id, roster));
+	}
+
 	appendSharedContext(content: string): void {
 		this.agent.appendMessage({
 			role: "user",
@@ -78,6 +198,7 @@ export class ModelWorker {
 	}
 
 	appendPrivateMemory(content: string): void {
+		this.privateMemory.push(content);
 		this.agent.appendMessage({
 			role: "user",
 			content: [{ type: "text", text: `[PRIVATE MEMORY - MODEL ${this.id} ONLY]\n${content}` }],
@@ -85,16 +206,52 @@ export class ModelWorker {
 		});
 	}
 
+	/** Notes saved by earlier runs. Private like `appendPrivateMemory`, but not kept as this session's memory. */
+	appendPreviousLessons(lessons: string): void {
+		this.agent.appendMessage({
+			role: "user",
+			content: [{ type: "text", text: `[PRIVATE MEMORY - MODEL ${this.id} ONLY]\n${lessons}` }],
+			timestamp: Date.now(),
+		});
+	}
+
+	snapshot(): WorkerSnapshot {
+		return {
+			messages: structuredClone(this.agent.state.messages),
+			privateMemory: [...this.privateMemory],
+		};
+	}
+
+	restore(snapshot: WorkerSnapshot): void {
+		this.agent.replaceMessages(structuredClone(snapshot.messages));
+		this.privateMemory.splice(0, this.privateMemory.length, ...snapshot.privateMemory);
+	}
+
 	async runPrompt(prompt: string, options?: RunPromptOptions): Promise<string> {
+		const signal = options?.signal;
+		if (signal?.aborted) {
+			throw abortReason(signal);
+		}
 		let unsubscribe: (() => void) | undefined;
 		if (options?.onEvent) {
 			unsubscribe = this.agent.subscribe(options.onEvent);
 		}
+		const abort = (): void => this.agent.abort();
+		signal?.addEventListener("abort", abort, { once: true });
 		try {
+			await this.compactIfNeeded(prompt, options);
+			if (signal?.aborted) {
+				throw abortReason(signal);
+			}
 			await this.agent.prompt(prompt);
+			await this.retryFailedCalls(options);
 		} finally {
+			signal?.removeEventListener("abort", abort);
 			unsubscribe?.();
 		}
+		if (signal?.aborted) {
+			throw abortReason(signal);
+		}
 
 		const message = this.lastAssistantMessage();
 		if (!message) {
@@ -102,11 +259,146 @@ export class ModelWorker {
 		}
 		if (message.stopReason === "error" || message.stopReason === "aborted") {
 			const reason = message.errorMessage?.trim() || "unknown provider error";
-			throw new Error(`Model ${this.id} (${this.modelSpec.provider}/${this.modelSpec.modelId}) failed: ${reason}`);
+			throw new Error(`Model ${this.id} (${modelLabel(this.activeSpec)}) failed: ${reason}`);
 		}
 		return assistantText(message);
 	}
 
+	/**
+	 * Drops a retryable error reply and continues the agent loop from the message before it, so a failure in the
+	 * middle of a tool-using turn resumes that turn instead of repeating the prompt. A worker with a fallback switches
+	 * to it after `failoverAfter` consecutive failures, or sooner if its attempts run out first. Non-retryable errors
+	 * and exhausted attempts are left for `runPrompt` to throw.
+	 */
+	private async retryFailedCalls(options: RunPromptOptions | undefined): Promise<void> {
+		let attempt = 0;
+		for (;;) {
+			const message = this.lastAssistantMessage();
+			if (message?.stopReason !== "error") {
+				this.consecutiveFailures = 0;
+				return;
+			}
+			const error = message.errorMessage?.trim() || "unknown provider error";
+			if (!isRetryableProviderError(error)) {
+				return;
+			}
+			this.consecutiveFailures += 1;
+			attempt += 1;
+			const canFailOver = this.fallbackModel !== undefined && this.activeSpec === this.modelSpec;
+			const failOver = canFailOver && (this.consecutiveFailures >= this.retry.failoverAfter || attempt >= this.retry.maxAttempts);
+			if (!failOver && attempt >= this.retry.maxAttempts) {
+				return;
+			}
+			this.agent.replaceMessages(this.agent.state.messages.filter((candidate) => candidate !== message));
+			if (failOver) {
+				this.failOver(error, options);
+				attempt = 0;
+			} else {
+				const delayMs = retryDelayMs(attempt, this.retry);
+				options?.onRetry?.({ worker: this.id, model: modelLabel(this.activeSpec), attempt, delayMs, error });
+				await sleep(delayMs, options?.signal);
+			}
+			if (options?.signal?.aborted) {
+				return;
+			}
+			await this.agent.continue();
+		}
+	}
+
+	/**
+	 * Replaces the messages before the most recent `keepRecentMessages` with a summary once the estimated context,
+	 * counting the prompt about to be sent, passes the threshold. Runs between prompts only, so a single long
+	 * tool-using turn is never cut short. The summary is written by the compaction model, or by this worker's own model
+	 * in a separate conversation so the summarizing exchange itself never enters the history.
+	 */
+	private async compactIfNeeded(prompt: string, options: RunPromptOptions | undefined): Promise<void> {
+		if (this.compaction.mode === "off") {
+			return;
+		}
+		const messages = this.agent.state.messages;
+		const contextWindow = this.agent.state.model.contextWindow;
+		const tokensBefore = estimateContextTokens(this.agent.state.systemPrompt, messages) + estimateTextTokens(prompt);
+		if (tokensBefore < (contextWindow * this.compaction.thresholdPercent) / 100) {
+			return;
+		}
+		const cut = compactionCutIndex(messages, this.compaction.keepRecentMessages);
+		if (cut === 0) {
+			return;
+		}
+		const older = messages.slice(0, cut);
+		const privateMemories = older.filter(isPrivateMemory).length;
+		const summarizerSpec = this.compaction.model ?? this.activeSpec;
+		const summarizer = new Agent({
+			streamFn: this.compactionStreamFn ?? this.agent.streamFn,
+			initialState: {
+				systemPrompt: buildCompactionSystemPrompt(),
+				model: this.compactionModel ?? this.agent.state.model,
+				thinkingLevel: summarizerSpec.thinkingLevel,
+				tools: [],
+			},
+			getApiKey: async (provider) => {
+				return await resolveApiKeyForProvider(provider);
+			},
+		});
+		const unsubscribe = options?.onEvent ? summarizer.subscribe(options.onEvent) : undefined;
+		const abort = (): void => summarizer.abort();
+		options?.signal?.addEventListener("abort", abort, { once: true });
+		try {
+			await summarizer.prompt(buildCompactionPrompt(this.id, formatCompactionTranscript(older), privateMemories > 0));
+		} finally {
+			options?.signal?.removeEventListener("abort", abort);
+			unsubscribe?.();
+		}
+		const reply = summarizer.state.messages.at(-1);
+		if (reply?.role !== "assistant" || reply.stopReason === "error" || reply.stopReason === "aborted") {
+			if (!options?.signal?.aborted) {
+				const reason = reply?.role === "assistant" ? reply.errorMessage?.trim() : undefined;
+				options?.onCompactionError?.(`${modelLabel(summarizerSpec)} failed: ${reason || "unknown provider error"}`);
+			}
+			return;
+		}
+		const text = assistantText(reply);
+		const summary = extractTag(text, "summary") ?? text;
+		this.agent.replaceMessages([
+			{
+				role: "user",
+				content: [{ type: "text", text: `[COMPACTED CONTEXT - summary of ${older.length} earlier messages]\n${summary}` }],
+				timestamp: Date.now(),
+			},
+			...messages.slice(cut),
+		]);
+		options?.onCompaction?.({
+			worker: this.id,
+			summarizer: modelLabel(summarizerSpec),
+			messagesCompacted: older.length,
+			privateMemoriesCompacted: privateMemories,
+			tokensBefore,
+			tokensAfter: estimateContextTokens(this.agent.state.systemPrompt, this.agent.state.messages) + estimateTextTokens(prompt),
+			contextWindow,
+		});
+	}
+
+	private failOver(error: string, options: RunPromptOptions | undefined): void {
+		const fallback = this.modelSpec.fallback;
+		if (!fallback || !this.fallbackModel) {
+			throw new Error(`Model ${this.id} has no fallback model to fail over to.`);
+		}
+		options?.onFailover?.({
+			worker: this.id,
+			from: modelLabel(this.activeSpec),
+			to: modelLabel(fallback),
+			failures: this.consecutiveFailures,
+			error,
+		});
+		this.activeSpec = fallback;
+		this.consecutiveFailures = 0;
+		this.agent.setModel(this.fallbackModel);
+		this.agent.streamFn = this.streamFnFor(fallback);
+		this.agent.setThinkingLevel(
+			this.role === "navigator" ? (this.navigatorThinkingLevel ?? fallback.thinkingLevel) : fallback.thinkingLevel,
+		);
+	}
+
 	private lastAssistantMessage(): AssistantMessage | undefined {
 		for (let i = this.agent.state.messages.length - 1; i >= 0; i -= 1) {
 			const message: AgentMessage | undefined = this.agent.state.messages[i];
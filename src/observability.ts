@@ -3,7 +3,8 @@ import { createHash } from "node:crypto";
 import { dirname, join } from "node:path";
 import type { AgentEvent } from "@mariozechner/pi-agent-core";
 import type { AssistantMessage } from "@mariozechner/pi-ai";
-import type { AgentId, EventStreamMode, ObservabilitySummary } from "./types.js";
+import { emptyUsageBreakdown, recordUsage, usageFromMessage } from "./usage.js";
+import type { EventStreamMode, ObservabilitySummary, WorkerId } from "./types.js";
 
 export interface SessionObserverOptions {
 	cwd: string;
@@ -13,12 +14,15 @@ export interface SessionObserverOptions {
 	eventStreamMode?: EventStreamMode;
 }
 
+/** How a session ended; `cancelled` means it was stopped on purpose, for example with Ctrl-C. */
+export type SessionStatus = "completed" | "failed" | "cancelled";
+
 export interface LogEvent {
 	index: number;
 	timestamp: number;
 	category: "session" | "prompt" | "agent_event" | "orchestrator";
 	name: string;
-	actor?: AgentId | "system";
+	actor?: WorkerId | "system";
 	round?: number;
 	phase?: string;
 	details?: Record<string, unknown>;
@@ -94,6 +98,7 @@ export class SessionObserver {
 	private readonly events: LogEvent[] = [];
 	private readonly eventStreamMode: EventStreamMode;
 	private eventIndex = 0;
+	private readonly usage = emptyUsageBreakdown();
 	private flushedSummary: ObservabilitySummary | undefined;
 
 	private eventStreamInitialized = false;
@@ -168,7 +173,7 @@ export class SessionObserver {
 	}
 
 	recordPromptStart(params: {
-		actor: AgentId;
+		actor: WorkerId;
 		round?: number;
 		phase: string;
 		promptKind: string;
@@ -189,7 +194,7 @@ export class SessionObserver {
 	}
 
 	recordPromptEnd(params: {
-		actor: AgentId;
+		actor: WorkerId;
 		round?: number;
 		phase: string;
 		promptKind: string;
@@ -210,7 +215,7 @@ export class SessionObserver {
 	}
 
 	recordAgentEvent(params: {
-		actor: AgentId;
+		actor: WorkerId;
 		round?: number;
 		phase: string;
 		event: AgentEvent;
@@ -274,6 +279,23 @@ export class SessionObserver {
 				if (assistant.errorMessage) {
 					details.errorMessage = assistant.errorMessage;
 				}
+				// message_start carries a partial message; usage is only final on message_end.
+				if (event.type === "message_end" && !this.flushedSummary) {
+					const usage = usageFromMessage(assistant);
+					recordUsage(this.usage, {
+						actor: params.actor,
+						phase: params.phase,
+						usage,
+						...(params.round !== undefined ? { round: params.round } : {}),
+					});
+					details.usage = {
+						input: usage.input,
+						output: usage.output,
+						cacheRead: usage.cacheRead,
+						cacheWrite: usage.cacheWrite,
+						costUsd: usage.costUsd,
+					};
+				}
 			}
 			this.record({
 				category: "agent_event",
@@ -317,7 +339,7 @@ export class SessionObserver {
 		});
 	}
 
-	async flush(status: "completed" | "failed", errorMessage?: string): Promise<ObservabilitySummary> {
+	async flush(status: SessionStatus, errorMessage?: string): Promise<ObservabilitySummary> {
 		if (this.flushedSummary) {
 			return this.flushedSummary;
 		}
@@ -342,6 +364,8 @@ export class SessionObserver {
 				toolExecutionErrorCount,
 				durationMs,
 				eventStreamMode: this.eventStreamMode,
+				totalTokens: this.usage.total.totalTokens,
+				costUsd: this.usage.total.costUsd,
 			},
 		});
 
@@ -357,6 +381,7 @@ export class SessionObserver {
 			toolExecutionCount,
 			toolExecutionErrorCount,
 			durationMs,
+			usage: structuredClone(this.usage),
 		};
 
 		const payload = {
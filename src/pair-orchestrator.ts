@@ -1,36 +1,127 @@
 import type { AgentEvent } from "@mariozechner/pi-agent-core";
+import type { AssistantMessage } from "@mariozechner/pi-ai";
 import {
+	buildBudgetFinalReviewPrompt,
+	buildCheckpointResumePrompt,
+	buildCheckpointReviewPrompt,
 	buildDriverDecisionPrompt,
+	buildDisputeArbitrationPrompt,
+	buildDisputeResponsePrompt,
+	buildDisputeRulingPrompt,
 	buildDriverTurnPrompt,
 	buildFinalReviewPrompt,
+	buildHumanDisputeQuestion,
 	buildJointSynthesisPrompt,
+	buildMobDriverDecisionPrompt,
+	buildMobDriverTurnPrompt,
+	buildMobNavigatorReviewPrompt,
 	buildNavigatorReviewPrompt,
 	buildPauseInterruptionPrompt,
+	buildIndependentPlanDraftPrompt,
+	buildInterimFeedbackSteer,
+	buildInterimReviewPrompt,
 	buildPlanCritiquePrompt,
 	buildPlanDraftPrompt,
+	buildPlanMergePrompt,
+	buildPlanRepairPrompt,
+	buildPlanReReviewPrompt,
 	buildPlanRevisionPrompt,
+	buildRebuttalPrompt,
 	buildSoloDriverTurnPrompt,
 	buildSoloNavigatorReviewPrompt,
 	buildSoloPlanPrompt,
+	buildTieBreakPrompt,
+	describeDisputeArbiter,
+	describeMobRotation,
 	describePauseStrategy,
 	describeTurnPolicy,
+	formatPlan,
+	formatTask,
 } from "./prompts.js";
-import { parseDriverDecision, parseDriverReport, parseJointVerdict, parseNavigatorReview } from "./parsing.js";
+import {
+	extractTag,
+	parseAcceptanceCheck,
+	parseArbiterRuling,
+	parseCheckpointFeedback,
+	parseDriverDecision,
+	parseDriverReport,
+	parseHumanRuling,
+	parseJointVerdict,
+	parseNavigatorReview,
+	parsePlan,
+	parsePlanReview,
+	parseRebuttal,
+	parseTieBreak,
+} from "./parsing.js";
+import { Checklist } from "./checklist.js";
+import { ContributionLedger, diffLines } from "./contribution-ledger.js";
+import { GitCommitter, sessionBranchName } from "./git-committer.js";
+import { formatLessons, memoryModelKey, type MemoryStore } from "./memory-store.js";
+import { memberEntries, memberModel, mergeNavigatorReviews, mobNavigators, mobRoster, nextMobDriver } from "./mob.js";
 import { ModelWorker } from "./model-worker.js";
-import { SessionObserver } from "./observability.js";
+import { SessionObserver, type SessionStatus } from "./observability.js";
+import { CHECKPOINT_VERSION, createSessionId, type SessionStore } from "./session-store.js";
+import { formatVerificationResult, runVerificationCommand } from "./verification.js";
+import { addTokenUsage, emptyTokenUsage, usageFromMessage } from "./usage.js";
+import { taskSpecFromText } from "./task-spec.js";
+import { emptyAdaptiveTurnState, emptyDriverSignals, formatDriverSignals, isRepeatedFeedback, stuckReason } from "./turn-signals.js";
+import { WorkspaceSnapshot } from "./workspace-snapshot.js";
 import type {
+	AcceptanceCheck,
 	AgentId,
+	BudgetExhaustion,
+	CheckpointReview,
+	ChecklistItem,
+	ChecklistUpdate,
+	ContextCompaction,
 	ContributionSummary,
+	Dispute,
 	DriverDecision,
+	ExecutionState,
+	FileLineChange,
 	FinalReview,
+	InterimReview,
+	LedgerState,
+	MemberId,
+	MemberRecord,
+	MemoryEntry,
+	MemorySource,
+	MobMemberId,
+	MobNavigatorReview,
+	ModelFailover,
+	NavigatorReview,
 	PairAgentConfig,
 	PairRunResult,
 	PauseStrategy,
+	PauseTrigger,
+	Plan,
+	PlanNegotiation,
+	PlanReview,
+	RoundCommit,
 	RoundResult,
 	RunSummary,
+	SessionCheckpoint,
+	SessionPhase,
 	SharedEntry,
+	TaskSpec,
+	TieBreak,
+	VerificationResult,
+	VerificationStage,
+	WorkerId,
+	WorkerSnapshot,
 } from "./types.js";
 
+// Malformed plans get this many corrective re-prompts before the orchestrator continues with a best-effort parse.
+const PLAN_REPAIR_ATTEMPTS = 2;
+// A driver still hitting checkpoints after this many mini-reviews in one round is stopped for the full review instead.
+const MAX_CHECKPOINT_REVIEWS_PER_ROUND = 6;
+// Phases whose prompts run under --driver-turn-timeout; every other prompt is read-only and uses --review-timeout.
+const DRIVER_PHASES: ReadonlySet<string> = new Set(["driving", "feedback_resolution"]);
+
+function emptyPlan(): Plan {
+	return { summary: "", steps: [], risks: [], testSteps: [], filesInScope: [] };
+}
+
 function otherAgent(id: AgentId): AgentId {
 	return id === "A" ? "B" : "A";
 }
@@ -63,7 +154,7 @@ function estimateWrittenBytes(toolName: string, args: unknown): number {
 	return 0;
 }
 
-function contributionTemplate(agent: AgentId): ContributionSummary {
+function contributionTemplate(agent: MemberId): ContributionSummary {
 	return {
 		agent,
 		estimatedWrittenBytes: 0,
@@ -71,9 +162,123 @@ function contributionTemplate(agent: AgentId): ContributionSummary {
 		roundsDriven: 0,
 		checkpointsWhileDriving: 0,
 		roughCodeSharePercent: 0,
+		linesAdded: 0,
+		linesRemoved: 0,
+		filesTouched: [],
+		survivingLines: 0,
+	};
+}
+
+function mergeFileChanges(changes: FileLineChange[]): FileLineChange[] {
+	const merged = new Map<string, FileLineChange>();
+	for (const change of changes) {
+		const existing = merged.get(change.path);
+		if (existing) {
+			existing.linesAdded += change.linesAdded;
+			existing.linesRemoved += change.linesRemoved;
+		} else {
+			merged.set(change.path, { ...change });
+		}
+	}
+	return [...merged.values()];
+}
+
+function latestVerification(result: RoundResult): VerificationResult | undefined {
+	return result.verifications?.at(-1);
+}
+
+function initialExecutionState(driverStartsAs: AgentId, roster: readonly MemberId[]): ExecutionState {
+	const contributions: MemberRecord<ContributionSummary> = {
+		A: contributionTemplate("A"),
+		B: contributionTemplate("B"),
+	};
+	for (const member of roster) {
+		contributions[member] ??= contributionTemplate(member);
+	}
+	return {
+		nextRound: 1,
+		driverId: driverStartsAs,
+		consecutiveRoundsWithDriver: 0,
+		consecutiveCheckpointsWithDriver: 0,
+		swapCount: 0,
+		checkpointCount: 0,
+		contributions,
 	};
 }
 
+function firstLine(value: string, maxChars: number): string {
+	const line = value.trim().split("\n")[0]?.trim() ?? "";
+	return line.length > maxChars ? `${line.slice(0, maxChars - 3)}...` : line;
+}
+
+function buildRoundCommitMessage(result: RoundResult, sessionId: string): string {
+	const navigatorDecision = result.navigatorReview.hasFeedback
+		? `feedback given, recommends ${result.navigatorReview.driverRecommendation}`
+		: `no feedback, recommends ${result.navigatorReview.driverRecommendation}`;
+	return [
+		`pairing-bots round ${result.round} (${result.driver} driving): ${firstLine(result.driverReport.summary, 60) || result.driverReport.status}`,
+		"",
+		`Round: ${result.round}`,
+		`Driver: ${result.driver}`,
+		`Navigator: ${result.navigator}`,
+		`Driver status: ${result.driverReport.status}`,
+		`Navigator decision: ${navigatorDecision}`,
+		...(result.driverDecision ? [`Driver decision: ${result.driverDecision.decision}`] : []),
+		...(result.reverted ? ["Reverted: yes (workspace restored to its pre-round state)"] : []),
+		`Session: ${sessionId}`,
+		"",
+		`Summary: ${result.driverReport.summary}`,
+	].join("\n");
+}
+
+function describeBudgetExhaustion(exhaustion: BudgetExhaustion): string {
+	switch (exhaustion.limit) {
+		case "cost":
+			return `cost $${exhaustion.used.toFixed(4)} of $${exhaustion.cap.toFixed(2)} cap`;
+		case "tokens":
+			return `${exhaustion.used} of ${exhaustion.cap} tokens`;
+		case "wall_time":
+			return `${Math.round(exhaustion.used / 1000)}s of ${Math.round(exhaustion.cap / 1000)}s wall time`;
+	}
+}
+
+/** Files changed after the checkpoint, most likely partial edits from the interrupted round. */
+function describeLeftovers(paths: string[]): string {
+	if (paths.length === 0) {
+		return "";
+	}
+	const shown = paths.slice(0, 20).join(", ");
+	const more = paths.length > 20 ? ` and ${paths.length - 20} more` : "";
+	return `\nThese files changed after the checkpoint, probably in the interrupted round, and were left as they are: ${shown}${more}. Check them before building on them.`;
+}
+
+function budgetSkippedReview(): NavigatorReview {
+	return parseNavigatorReview(
+		"<private_reflection>Skipped: budget exhausted.</private_reflection><public_feedback>NONE</public_feedback>",
+	);
+}
+
+/** Splits final reviews into the pair's two fields and the mob members' map. */
+function finalReviewsByMember(reviews: readonly MobNavigatorReview[]): Pick<FinalReview, "reviewA" | "reviewB" | "mobReviews"> {
+	let reviewA = budgetSkippedReview();
+	let reviewB = budgetSkippedReview();
+	const mobReviews: Partial<Record<MobMemberId, NavigatorReview>> = {};
+	for (const { navigator, review } of reviews) {
+		if (navigator === "A") {
+			reviewA = review;
+		} else if (navigator === "B") {
+			reviewB = review;
+		} else {
+			mobReviews[navigator] = review;
+		}
+	}
+	return { reviewA, reviewB, ...(Object.keys(mobReviews).length > 0 ? { mobReviews } : {}) };
+}
+
+function formatAcceptance(checks: AcceptanceCheck[]): string {
+	return checks.map((check, index) => `${index + 1}. [${check.met ? "met" : "unmet"}] ${check.criterion} (${check.note})`).join("\n");
+}
+
 function roundPercent(value: number): number {
 	return Math.round(value * 10) / 10;
 }
@@ -86,33 +291,127 @@ interface DriverExecutionTracker {
 		checkpointCount: number;
 		editWriteCallCount: number;
 		estimatedWrittenBytes: number;
+		toolErrorCount: number;
+		/** Paths passed to successful edit/write calls, in first-touched order. */
+		touchedFiles: string[];
 	};
 }
 
+/** Lines a successful edit/write changes, from its arguments: an edit's old/new text diff, or every line a write puts down. */
+function estimateChangedLines(toolName: string, args: unknown): number {
+	if (!args || typeof args !== "object") {
+		return 0;
+	}
+
+	if (toolName === "write") {
+		const content = (args as { content?: unknown }).content;
+		return typeof content === "string" && content !== "" ? content.replace(/\n$/, "").split("\n").length : 0;
+	}
+
+	if (toolName === "edit") {
+		const { oldText, newText } = args as { oldText?: unknown; newText?: unknown };
+		if (typeof oldText !== "string" || typeof newText !== "string") {
+			return 0;
+		}
+		return diffLines(oldText.split("\n"), newText.split("\n")).filter((op) => op !== "=").length;
+	}
+
+	return 0;
+}
+
+function pauseTriggers(strategy: PauseStrategy): PauseTrigger[] {
+	if (strategy.mode === "none") {
+		return [];
+	}
+	return strategy.mode === "any_of" ? strategy.strategies : [strategy];
+}
+
 function createDriverExecutionTracker(params: {
 	pauseStrategy: PauseStrategy;
-	onCheckpoint?: (phase: "driving" | "feedback_resolution") => void;
+	onCheckpoint?: (phase: "driving" | "feedback_resolution", reason: string) => void;
+	now?: () => number;
 }): DriverExecutionTracker {
+	const now = params.now ?? Date.now;
+	const triggers = pauseTriggers(params.pauseStrategy);
 	let pauseTriggered = false;
-	let countedEdits = 0;
-	let nextCheckpointAt = params.pauseStrategy.mode === "every_n_file_edits" ? params.pauseStrategy.editsPerPause : Infinity;
 	let checkpointCount = 0;
 	let editWriteCallCount = 0;
 	let estimatedWrittenBytes = 0;
+	let toolErrorCount = 0;
 	const pendingWriteEstimates = new Map<string, number>();
+	const pendingWritePaths = new Map<string, string>();
+	const pendingChangedLines = new Map<string, number>();
+	const touchedFiles = new Set<string>();
 	let currentPhase: "driving" | "feedback_resolution" = "driving";
 
+	// Progress since the last checkpoint; any trigger firing restarts all of them.
+	let editsSinceCheckpoint = 0;
+	let linesSinceCheckpoint = 0;
+	const filesSinceCheckpoint = new Set<string>();
+	let checkpointStartedAt = now();
+
+	const recordWriteEnd = (toolCallId: string, isError: boolean): void => {
+		const path = pendingWritePaths.get(toolCallId);
+		if (!isError) {
+			editWriteCallCount += 1;
+			estimatedWrittenBytes += pendingWriteEstimates.get(toolCallId) ?? 0;
+			linesSinceCheckpoint += pendingChangedLines.get(toolCallId) ?? 0;
+			if (path) {
+				touchedFiles.add(path);
+				filesSinceCheckpoint.add(path);
+			}
+		}
+		pendingWriteEstimates.delete(toolCallId);
+		pendingWritePaths.delete(toolCallId);
+		pendingChangedLines.delete(toolCallId);
+	};
+
+	const firedReason = (trigger: PauseTrigger, bashFailed: boolean): string | undefined => {
+		switch (trigger.mode) {
+			case "every_n_file_edits":
+				return editsSinceCheckpoint >= trigger.editsPerPause ? `${editsSinceCheckpoint} edit/write calls` : undefined;
+			case "every_n_changed_lines":
+				return linesSinceCheckpoint >= trigger.linesPerPause ? `${linesSinceCheckpoint} changed lines` : undefined;
+			case "every_n_distinct_files":
+				return filesSinceCheckpoint.size >= trigger.filesPerPause ? `${filesSinceCheckpoint.size} distinct files edited` : undefined;
+			case "every_n_seconds": {
+				const elapsedSeconds = Math.floor((now() - checkpointStartedAt) / 1000);
+				return elapsedSeconds >= trigger.secondsPerPause ? `${elapsedSeconds} seconds of driving` : undefined;
+			}
+			case "on_bash_failure":
+				return bashFailed ? "a bash command failed" : undefined;
+		}
+	};
+
+	const fire = (reason: string): void => {
+		pauseTriggered = true;
+		checkpointCount += 1;
+		editsSinceCheckpoint = 0;
+		linesSinceCheckpoint = 0;
+		filesSinceCheckpoint.clear();
+		checkpointStartedAt = now();
+		params.onCheckpoint?.(currentPhase, reason);
+	};
+
 	const onEvent = (event: AgentEvent): void => {
 		if (event.type === "tool_execution_start" && (event.toolName === "edit" || event.toolName === "write")) {
 			pendingWriteEstimates.set(event.toolCallId, estimateWrittenBytes(event.toolName, event.args));
+			pendingChangedLines.set(event.toolCallId, estimateChangedLines(event.toolName, event.args));
+			const path = (event.args as { path?: unknown } | undefined)?.path;
+			if (typeof path === "string") {
+				pendingWritePaths.set(event.toolCallId, path);
+			}
 			return;
 		}
 
-		if (params.pauseStrategy.mode !== "every_n_file_edits") {
-			if (event.type === "tool_execution_end" && !event.isError && (event.toolName === "edit" || event.toolName === "write")) {
-				editWriteCallCount += 1;
-				estimatedWrittenBytes += pendingWriteEstimates.get(event.toolCallId) ?? 0;
-				pendingWriteEstimates.delete(event.toolCallId);
+		// Streaming and turn events only check elapsed time, so a turn spent thinking or writing text still pauses.
+		if (event.type === "message_update" || event.type === "message_end" || event.type === "turn_end") {
+			const reason = triggers
+				.filter((trigger) => trigger.mode === "every_n_seconds")
+				.map((trigger) => firedReason(trigger, false))
+				.find((entry) => entry !== undefined);
+			if (reason) {
+				fire(reason);
 			}
 			return;
 		}
@@ -122,29 +421,27 @@ function createDriverExecutionTracker(params: {
 		}
 
 		if (event.toolName === "edit" || event.toolName === "write") {
-			if (!event.isError) {
-				editWriteCallCount += 1;
-				estimatedWrittenBytes += pendingWriteEstimates.get(event.toolCallId) ?? 0;
-			}
-			pendingWriteEstimates.delete(event.toolCallId);
+			recordWriteEnd(event.toolCallId, event.isError);
 		}
-
 		if (event.isError) {
-			return;
+			toolErrorCount += 1;
 		}
-		if (!params.pauseStrategy.countedTools.includes(event.toolName)) {
+		if (triggers.length === 0) {
 			return;
 		}
 
-		countedEdits += 1;
-		if (countedEdits < nextCheckpointAt) {
-			return;
+		if (
+			!event.isError &&
+			triggers.some((trigger) => trigger.mode === "every_n_file_edits" && trigger.countedTools.includes(event.toolName))
+		) {
+			editsSinceCheckpoint += 1;
 		}
 
-		pauseTriggered = true;
-		checkpointCount += 1;
-		nextCheckpointAt += params.pauseStrategy.editsPerPause;
-		params.onCheckpoint?.(currentPhase);
+		const bashFailed = event.isError && event.toolName === "bash";
+		const reason = triggers.map((trigger) => firedReason(trigger, bashFailed)).find((entry) => entry !== undefined);
+		if (reason) {
+			fire(reason);
+		}
 	};
 
 	return {
@@ -157,6 +454,8 @@ function createDriverExecutionTracker(params: {
 			checkpointCount,
 			editWriteCallCount,
 			estimatedWrittenBytes,
+			toolErrorCount,
+			touchedFiles: [...touchedFiles],
 		}),
 	};
 }
@@ -165,34 +464,113 @@ interface ExecutionResult {
 	rounds: RoundResult[];
 	checkpointCount: number;
 	swapCount: number;
-	contributions: Record<AgentId, ContributionSummary>;
+	contributions: MemberRecord<ContributionSummary>;
 	finalReview?: FinalReview;
 }
 
 export class PairProgrammingOrchestrator {
 	private readonly config: PairAgentConfig;
-	private readonly workers: Record<AgentId, ModelWorker>;
+	private readonly workers: MemberRecord<ModelWorker>;
+	/** A and B, plus the mob members in `mob` mode. */
+	private readonly roster: MemberId[];
+	private readonly arbiter: ModelWorker | undefined;
 	private readonly sharedJournal: SharedEntry[] = [];
 	private readonly observer: SessionObserver | undefined;
-
-	constructor(config: PairAgentConfig, options?: { observer?: SessionObserver }) {
+	private readonly sessionStore: SessionStore | undefined;
+	private readonly humanArbiter: ((question: string) => Promise<string>) | undefined;
+	private readonly signal: AbortSignal | undefined;
+	private readonly ledger: ContributionLedger;
+	private readonly checklist = new Checklist();
+	private plan = emptyPlan();
+	private planNegotiation: PlanNegotiation | undefined;
+	private createdAt = Date.now();
+	private committer: GitCommitter | undefined;
+	private readonly spend = emptyTokenUsage();
+	private runStartedAt = Date.now();
+	private budgetStop: BudgetExhaustion | undefined;
+	private navigatorDowngraded = false;
+	private promptsInFlight = 0;
+	// Set when a budget check ran mid-prompt; its announcements are posted once no prompt is running.
+	private deferredBudgetCheck: { round?: number } | undefined;
+	private commitSessionId = "";
+	// Kept for the whole session and refreshed before each round; see `roundSnapshot`.
+	private snapshot: WorkspaceSnapshot | undefined;
+	private providerRetries = 0;
+	private readonly failovers: ModelFailover[] = [];
+	private readonly compactions: ContextCompaction[] = [];
+	private readonly memoryStore: MemoryStore | undefined;
+	// Private notes from this process, written to the memory store when the run ends, however it ends.
+	private readonly pendingMemories: Partial<Record<MemberId, MemoryEntry[]>> = {};
+
+	constructor(
+		config: PairAgentConfig,
+		options?: {
+			observer?: SessionObserver;
+			sessionStore?: SessionStore;
+			/** Persists private notes across runs; `config.memory.mode` "off" ignores it. */
+			memoryStore?: MemoryStore;
+			/** Asks a person to settle a dispute; receives the question and resolves with their answer. */
+			humanArbiter?: (question: string) => Promise<string>;
+			/** Cancels the run: the prompts in flight are aborted and the run rejects with the signal's reason. */
+			signal?: AbortSignal;
+		},
+	) {
 		this.config = config;
 		this.observer = options?.observer;
+		this.sessionStore = options?.sessionStore;
+		this.memoryStore = config.memory.mode === "on" ? options?.memoryStore : undefined;
+		this.humanArbiter = options?.humanArbiter;
+		this.signal = options?.signal;
+		this.ledger = new ContributionLedger(config.cwd);
+		this.roster = mobRoster(config);
 		this.workers = {
-			A: new ModelWorker("A", config.modelA, config.cwd),
-			B: new ModelWorker("B", config.modelB, config.cwd),
+			A: new ModelWorker("A", config.modelA, config.cwd, config.retry, config.compaction),
+			B: new ModelWorker("B", config.modelB, config.cwd, config.retry, config.compaction),
 		};
+		for (const member of this.roster) {
+			this.workers[member] ??= new ModelWorker(member, memberModel(config, member), config.cwd, config.retry, config.compaction);
+		}
+		this.arbiter = config.arbiter ? new ModelWorker("arbiter", config.arbiter, config.cwd, config.retry, config.compaction) : undefined;
+		if (config.executionMode === "mob") {
+			for (const member of this.roster) {
+				this.workerFor(member).joinMob(this.roster);
+			}
+			this.arbiter?.joinMob(this.roster);
+		}
+	}
+
+	private workerFor(id: WorkerId): ModelWorker {
+		if (id !== "arbiter") {
+			const worker = this.workers[id];
+			if (!worker) {
+				throw new Error(`Model ${id} is not in the roster.`);
+			}
+			return worker;
+		}
+		if (!this.arbiter) {
+			throw new Error("No arbiter model is configured.");
+		}
+		return this.arbiter;
+	}
+
+	/** Read-only tools for every member, for prompts where nobody should edit. */
+	private navigateAll(): void {
+		for (const member of this.roster) {
+			this.workerFor(member).setRole("navigator");
+		}
 	}
 
 	private async runPromptWithObservability(params: {
-		actor: AgentId;
+		actor: WorkerId;
 		prompt: string;
 		promptKind: string;
 		phase: string;
 		round?: number;
 		onEvent?: (event: AgentEvent) => void;
 	}): Promise<string> {
-		const worker = this.workers[params.actor];
+		const worker = this.workerFor(params.actor);
+		const timeoutMs = DRIVER_PHASES.has(params.phase) ? this.config.timeouts?.driverTurnMs : this.config.timeouts?.reviewMs;
+		const prompt = this.promptSignal(params, timeoutMs);
 
 		this.observer?.recordPromptStart({
 			actor: params.actor,
@@ -202,17 +580,83 @@ export class PairProgrammingOrchestrator {
 			...(params.round !== undefined ? { round: params.round } : {}),
 		});
 
-		const response = await worker.runPrompt(params.prompt, {
-			onEvent: (event) => {
+		let response: string;
+		this.promptsInFlight += 1;
+		try {
+			response = await worker.runPrompt(params.prompt, {
+				...(prompt.signal ? { signal: prompt.signal } : {}),
+				onEvent: (event) => {
+					if (event.type === "message_end" && event.message.role === "assistant") {
+						addTokenUsage(this.spend, usageFromMessage(event.message as AssistantMessage));
+					}
 					this.observer?.recordAgentEvent({
 						actor: params.actor,
 						phase: params.phase,
 						event,
 						...(params.round !== undefined ? { round: params.round } : {}),
 					});
-				params.onEvent?.(event);
-			},
-		});
+					params.onEvent?.(event);
+				},
+				onRetry: (retry) => {
+					this.providerRetries += 1;
+					this.observer?.record({
+						category: "orchestrator",
+						name: "provider_retry",
+						actor: params.actor,
+						phase: params.phase,
+						...(params.round !== undefined ? { round: params.round } : {}),
+						details: { ...retry },
+					});
+				},
+				onFailover: (failover) => {
+					this.failovers.push(failover);
+					this.observer?.record({
+						category: "orchestrator",
+						name: "model_failover",
+						actor: params.actor,
+						phase: params.phase,
+						...(params.round !== undefined ? { round: params.round } : {}),
+						details: { ...failover },
+					});
+				},
+				onCompaction: (compaction) => {
+					this.compactions.push(compaction);
+					this.observer?.record({
+						category: "orchestrator",
+						name: "context_compaction",
+						actor: params.actor,
+						phase: params.phase,
+						...(params.round !== undefined ? { round: params.round } : {}),
+						details: { ...compaction },
+					});
+				},
+				onCompactionError: (error) => {
+					this.observer?.record({
+						category: "orchestrator",
+						name: "context_compaction_failed",
+						actor: params.actor,
+						phase: params.phase,
+						...(params.round !== undefined ? { round: params.round } : {}),
+						details: { error },
+					});
+				},
+			});
+		} catch (error) {
+			if (prompt.timedOut()) {
+				this.observer?.record({
+					category: "orchestrator",
+					name: "prompt_timeout",
+					actor: params.actor,
+					phase: params.phase,
+					...(params.round !== undefined ? { round: params.round } : {}),
+					details: { promptKind: params.promptKind, timeoutMs },
+				});
+			}
+			throw error;
+		} finally {
+			prompt.dispose();
+			this.promptsInFlight -= 1;
+		}
 
 		this.observer?.recordPromptEnd({
 			actor: params.actor,
@@ -221,11 +665,74 @@ export class PairProgrammingOrchestrator {
 			response,
 			...(params.round !== undefined ? { round: params.round } : {}),
 		});
+		const deferred = this.deferredBudgetCheck;
+		if (deferred && this.promptsInFlight === 0) {
+			this.budgetReached(deferred.round);
+		}
+
+		return response;
+	}
+
+	/**
+	 * Signal for one prompt: aborts when the run is cancelled or, with a timeout, when the prompt runs over. The
+	 * timeout reason names the model and phase so the run's error says which prompt hung.
+	 */
+	private promptSignal(
+		params: { actor: WorkerId; phase: string; promptKind: string },
+		timeoutMs: number | undefined,
+	): { signal: AbortSignal | undefined; timedOut: () => boolean; dispose: () => void } {
+		if (timeoutMs === undefined) {
+			return { signal: this.signal, timedOut: () => false, dispose: () => {} };
+		}
+		const controller = new AbortController();
+		let timedOut = false;
+		const cancel = (): void => controller.abort(this.signal?.reason);
+		const timer = setTimeout(() => {
+			timedOut = true;
+			const label = params.actor === "arbiter" ? "The arbiter" : `Model ${params.actor}`;
+			controller.abort(new Error(`${label} ${params.promptKind} prompt timed out after ${timeoutMs / 1000}s.`));
+		}, timeoutMs);
+		if (this.signal?.aborted) {
+			cancel();
+		}
+		this.signal?.addEventListener("abort", cancel, { once: true });
+		return {
+			signal: controller.signal,
+			timedOut: () => timedOut,
+			dispose: () => {
+				clearTimeout(timer);
+				this.signal?.removeEventListener("abort", cancel);
+			},
+		};
+	}
 
+	/**
+	 * Driver prompts are bracketed by workspace snapshots so only edits made during the prompt are
+	 * attributed to the driver. The edit/write targets are passed on so files git ignores are not missed, by the
+	 * ledger now and by the round snapshot from the next round on.
+	 */
+	private async runDriverPrompt(
+		params: Parameters<PairProgrammingOrchestrator["runPromptWithObservability"]>[0] & { actor: MemberId },
+		fileChanges: FileLineChange[],
+	): Promise<string> {
+		await this.ledger.capture("system");
+		const touchedPaths = new Set<string>();
+		const onEvent = (event: AgentEvent): void => {
+			if (event.type === "tool_execution_start" && (event.toolName === "edit" || event.toolName === "write")) {
+				const path = (event.args as { path?: unknown } | undefined)?.path;
+				if (typeof path === "string") {
+					touchedPaths.add(path);
+				}
+			}
+			params.onEvent?.(event);
+		};
+		const response = await this.runPromptWithObservability({ ...params, onEvent });
+		fileChanges.push(...(await this.ledger.capture(params.actor, touchedPaths)));
+		this.snapshot?.track(touchedPaths);
 		return response;
 	}
 
-	private broadcastShared(stage: string, actor: AgentId | "system", content: string): void {
+	private broadcastShared(stage: string, actor: SharedEntry["actor"], content: string): void {
 		const entry: SharedEntry = {
 			stage,
 			actor,
@@ -234,105 +741,669 @@ export class PairProgrammingOrchestrator {
 		};
 		this.sharedJournal.push(entry);
 		const rendered = formatSharedEntry(entry);
-		this.workers.A.appendSharedContext(rendered);
-		this.workers.B.appendSharedContext(rendered);
+		for (const member of this.roster) {
+			this.workerFor(member).appendSharedContext(rendered);
+		}
 	}
 
-	private async collaborativePlanning(task: string): Promise<string> {
-		// Planning is read-only; no model should modify files during plan negotiation.
-		this.workers.A.setRole("navigator");
-		this.workers.B.setRole("navigator");
-
-		const aDraftRaw = await this.runPromptWithObservability({
-			actor: "A",
-			prompt: buildPlanDraftPrompt(task),
-			promptKind: "plan_draft",
-			phase: "planning",
+	/** Adds a private note to the worker's context and queues it for the memory store. */
+	private rememberPrivately(agent: MemberId, source: MemorySource, content: string): void {
+		this.workerFor(agent).appendPrivateMemory(content);
+		const note = content.trim();
+		if (!this.memoryStore || note === "" || /^none\.?$/i.test(note)) {
+			return;
+		}
+		(this.pendingMemories[agent] ??= []).push({
+			sessionId: this.sessionStore?.sessionId ?? this.commitSessionId,
+			source,
+			content: note,
+			createdAt: new Date().toISOString(),
 		});
-		const aDraft = aDraftRaw.trim();
-		this.broadcastShared("plan_draft", "A", aDraft);
+	}
 
-		const bFeedbackRaw = await this.runPromptWithObservability({
-			actor: "B",
-			prompt: buildPlanCritiquePrompt(task, aDraft),
-			promptKind: "plan_feedback",
-			phase: "planning",
-		});
-		const bFeedback = bFeedbackRaw.trim();
-		this.broadcastShared("plan_feedback", "B", bFeedback);
+	/** Gives each worker the newest notes its model saved in earlier runs of this project. */
+	private async loadLessons(): Promise<void> {
+		if (!this.memoryStore) {
+			return;
+		}
+		for (const agent of this.roster) {
+			const model = memoryModelKey(memberModel(this.config, agent));
+			const entries = await this.memoryStore.load(model);
+			const lessons = formatLessons(entries, this.config.memory.maxLessons);
+			if (!lessons) {
+				continue;
+			}
+			this.workerFor(agent).appendPreviousLessons(lessons);
+			this.observer?.record({
+				category: "orchestrator",
+				name: "memory_loaded",
+				actor: agent,
+				details: { model, lessons: Math.min(entries.length, this.config.memory.maxLessons), stored: entries.length },
+			});
+		}
+	}
 
-		const aFinalRaw = await this.runPromptWithObservability({
-			actor: "A",
-			prompt: buildPlanRevisionPrompt(task, aDraft, bFeedback),
-			promptKind: "plan_revision",
-			phase: "planning",
+	/** Never throws: a memory file that cannot be written must not turn a finished run into a failed one. */
+	private async saveMemories(): Promise<void> {
+		if (!this.memoryStore) {
+			return;
+		}
+		for (const agent of this.roster) {
+			const entries = this.pendingMemories[agent]?.splice(0) ?? [];
+			if (entries.length === 0) {
+				continue;
+			}
+			const model = memoryModelKey(memberModel(this.config, agent));
+			try {
+				await this.memoryStore.append(model, entries);
+				this.observer?.record({
+					category: "orchestrator",
+					name: "memory_saved",
+					actor: agent,
+					details: { model, entries: entries.length, file: this.memoryStore.fileFor(model) },
+				});
+			} catch (error) {
+				this.observer?.record({
+					category: "orchestrator",
+					name: "memory_save_failed",
+					actor: agent,
+					details: { model, message: error instanceof Error ? error.message : String(error) },
+				});
+			}
+		}
+	}
+
+	private async saveCheckpoint(params: {
+		phase: SessionPhase;
+		task: TaskSpec;
+		agreedPlan: string;
+		rounds: RoundResult[];
+		execution: ExecutionState;
+		finalReview?: FinalReview;
+	}): Promise<void> {
+		if (!this.sessionStore) {
+			return;
+		}
+		// Absorb edits since the last driver turn (verification output, say) so a resume only reports later ones.
+		await this.ledger.capture("system");
+		const checkpoint: SessionCheckpoint = {
+			version: CHECKPOINT_VERSION,
+			sessionId: this.sessionStore.sessionId,
+			createdAt: this.createdAt,
+			updatedAt: Date.now(),
+			phase: params.phase,
+			task: params.task.description,
+			taskSpec: params.task,
+			config: this.config,
+			agreedPlan: params.agreedPlan,
+			plan: this.plan,
+			...(this.planNegotiation ? { planNegotiation: this.planNegotiation } : {}),
+			rounds: params.rounds,
+			execution: params.execution,
+			sharedJournal: [...this.sharedJournal],
+			workers: this.snapshotWorkers(),
+			ledger: this.ledger.exportState(),
+			checklist: this.checklist.exportState(),
+			spend: { ...this.spend },
+			elapsedMs: Date.now() - this.runStartedAt,
+			...(this.navigatorDowngraded ? { navigatorDowngraded: true } : {}),
+			...(params.finalReview ? { finalReview: params.finalReview } : {}),
+		};
+		await this.sessionStore.save(checkpoint);
+		this.observer?.record({
+			category: "orchestrator",
+			name: "checkpoint_saved",
+			actor: "system",
+			details: {
+				sessionId: checkpoint.sessionId,
+				phase: checkpoint.phase,
+				nextRound: checkpoint.execution.nextRound,
+				file: this.sessionStore.checkpointFile,
+			},
 		});
-		const agreedPlan = aFinalRaw.trim();
-		this.broadcastShared("plan_agreed", "A", agreedPlan);
+	}
 
-		return agreedPlan;
+	private snapshotWorkers(): MemberRecord<WorkerSnapshot> {
+		const workers: MemberRecord<WorkerSnapshot> = { A: this.workers.A.snapshot(), B: this.workers.B.snapshot() };
+		for (const member of this.roster) {
+			workers[member] ??= this.workerFor(member).snapshot();
+		}
+		return workers;
 	}
 
-	private async soloPlanning(task: string): Promise<string> {
-		this.workers.A.setRole("navigator");
-		this.workers.B.setRole("navigator");
+	private async runVerification(round: number, stage: VerificationStage): Promise<VerificationResult | undefined> {
+		const verification = this.config.verification;
+		if (!verification) {
+			return undefined;
+		}
 
-		const aPlanRaw = await this.runPromptWithObservability({
-			actor: "A",
-			prompt: buildSoloPlanPrompt(task),
-			promptKind: "plan_solo",
-			phase: "planning",
+		this.observer?.record({
+			category: "orchestrator",
+			name: "verification_start",
+			actor: "system",
+			round,
+			details: { stage, command: verification.command },
+		});
+		const result = await runVerificationCommand({
+			config: verification,
+			cwd: this.config.cwd,
+			stage,
+			...(this.signal ? { signal: this.signal } : {}),
+		});
+		this.observer?.record({
+			category: "orchestrator",
+			name: "verification_end",
+			actor: "system",
+			round,
+			details: {
+				stage,
+				exitCode: result.exitCode,
+				passed: result.passed,
+				timedOut: result.timedOut,
+				durationMs: result.durationMs,
+				outputTruncated: result.outputTruncated,
+			},
 		});
-		const agreedPlan = aPlanRaw.trim();
-		this.broadcastShared("plan_agreed", "A", agreedPlan);
-		return agreedPlan;
+		this.broadcastShared("verification", "system", [`Round ${round}`, formatVerificationResult(result)].join("\n"));
+		return result;
 	}
 
-	private synthesizeSoloFinalReview(round: RoundResult): FinalReview {
-		const reviewA = parseNavigatorReview(
-			[
-				"<private_reflection>Skipped extra final review in solo mode.</private_reflection>",
-				round.driverDecision
-					? `<public_feedback>Driver decision: ${round.driverDecision.decision}. ${round.driverDecision.justification}</public_feedback>`
-					: "<public_feedback>NONE</public_feedback>",
-				"<driver_recommendation>continue</driver_recommendation>",
-			].join("\n"),
-		);
-		const reviewB = round.navigatorReview;
-		const accepted = round.driverDecision?.decision === "accept";
-		const jointVerdict = !reviewB.hasFeedback || accepted ? "APPROVED" : "NEEDS_MORE_WORK";
-		const rationale =
-			jointVerdict === "APPROVED"
-				? "Solo mode completed after B's final review and A's integration decision."
-				: "B provided final feedback and A did not fully accept it in solo mode.";
-		const nextSteps = jointVerdict === "APPROVED" ? "NONE" : reviewB.publicFeedback;
+	private budgetExhaustion(): BudgetExhaustion | undefined {
+		const budget = this.config.budget;
+		if (!budget) {
+			return undefined;
+		}
+		if (budget.maxCostUsd !== undefined && this.spend.costUsd >= budget.maxCostUsd) {
+			return { limit: "cost", used: this.spend.costUsd, cap: budget.maxCostUsd };
+		}
+		if (budget.maxTokens !== undefined && this.spend.totalTokens >= budget.maxTokens) {
+			return { limit: "tokens", used: this.spend.totalTokens, cap: budget.maxTokens };
+		}
+		const wallTimeMs = Date.now() - this.runStartedAt;
+		if (budget.maxWallTimeMs !== undefined && wallTimeMs >= budget.maxWallTimeMs) {
+			return { limit: "wall_time", used: wallTimeMs, cap: budget.maxWallTimeMs };
+		}
+		return undefined;
+	}
 
+	/**
+	 * Checked between prompts. The first time a cap is hit the exhaustion is announced; after that the
+	 * remaining round steps are skipped and the loop stops. Checkpoint callbacks also check while a prompt is running;
+	 * then the check only answers, because a journal entry appended to a busy worker can land between a tool call and
+	 * its result. The announcements follow when the last running prompt settles.
+	 */
+	private budgetReached(round?: number): boolean {
+		if (this.budgetStop) {
+			return true;
+		}
+		const exhaustion = this.budgetExhaustion();
+		if (this.promptsInFlight > 0) {
+			this.deferredBudgetCheck = round !== undefined ? { round } : {};
+			return exhaustion !== undefined;
+		}
+		this.deferredBudgetCheck = undefined;
+		if (!exhaustion) {
+			this.applyNavigatorDowngrade(round);
+			return false;
+		}
+		this.budgetStop = exhaustion;
+		this.observer?.record({
+			category: "orchestrator",
+			name: "budget_exhausted",
+			actor: "system",
+			...(round !== undefined ? { round } : {}),
+			details: { ...exhaustion },
+		});
 		this.broadcastShared(
-			"joint_verdict",
+			"budget_exhausted",
 			"system",
-			`Verdict: ${jointVerdict}\nRationale: ${rationale}\nNext steps: ${nextSteps}`,
+			`Budget exhausted: ${describeBudgetExhaustion(exhaustion)}. Remaining round steps are skipped and a single final review follows.`,
 		);
-
-		return {
-			reviewA,
-			reviewB,
-			jointVerdict,
-			rationale,
-			nextSteps,
-			raw: "synthetic_solo_final_review",
-		};
+		return true;
 	}
 
-	private async runRound(task: string, agreedPlan: string, round: number, driverId: AgentId): Promise<RoundResult> {
-		const navigatorId = otherAgent(driverId);
-		const driver = this.workers[driverId];
-		const navigator = this.workers[navigatorId];
+	private applyNavigatorDowngrade(round?: number): void {
+		const budget = this.config.budget;
+		const downgrade = budget?.navigatorDowngrade;
+		if (!budget || !downgrade || this.navigatorDowngraded) {
+			return;
+		}
+		const fractions = [
+			budget.maxCostUsd !== undefined ? this.spend.costUsd / budget.maxCostUsd : 0,
+			budget.maxTokens !== undefined ? this.spend.totalTokens / budget.maxTokens : 0,
+			budget.maxWallTimeMs !== undefined ? (Date.now() - this.runStartedAt) / budget.maxWallTimeMs : 0,
+		];
+		const spentFraction = Math.max(...fractions);
+		if (spentFraction < downgrade.atFraction) {
+			return;
+		}
 
-		driver.setRole("driver");
-		navigator.setRole("navigator");
+		this.navigatorDowngraded = true;
+		for (const member of this.roster) {
+			this.workerFor(member).setNavigatorThinkingLevel(downgrade.thinkingLevel);
+		}
+		this.observer?.record({
+			category: "orchestrator",
+			name: "navigator_thinking_downgraded",
+			actor: "system",
+			...(round !== undefined ? { round } : {}),
+			details: { spentPercent: roundPercent(spentFraction * 100), thinkingLevel: downgrade.thinkingLevel },
+		});
+		this.broadcastShared(
+			"budget_policy",
+			"system",
+			`Spend reached ${roundPercent(spentFraction * 100)}% of the budget. Navigator thinking level lowered to ${downgrade.thinkingLevel}.`,
+		);
+	}
+
+	private budgetLoopStop(where: string): void {
+		const exhaustion = this.budgetStop;
+		this.broadcastShared(
+			"loop_stop",
+			"system",
+			`Stopped ${where}: budget_exhausted${exhaustion ? ` (${describeBudgetExhaustion(exhaustion)})` : ""}.`,
+		);
+	}
+
+	/** `resuming` skips the clean-tree check: leftovers from the interrupted round belong to the session. */
+	private async prepareCommits(resuming: boolean): Promise<void> {
+		const commits = this.config.commits;
+		if (!commits) {
+			return;
+		}
+		this.committer = await GitCommitter.open(this.config.cwd);
+		if (!resuming) {
+			await this.committer.assertClean();
+		}
+		this.commitSessionId = this.sessionStore?.sessionId ?? createSessionId();
+		const branch = commits.sessionBranch ? sessionBranchName(this.commitSessionId) : await this.committer.currentBranch();
+		if (commits.sessionBranch) {
+			await this.committer.checkoutBranch(branch);
+		}
+		this.observer?.record({
+			category: "orchestrator",
+			name: "commit_branch",
+			actor: "system",
+			details: { mode: commits.mode, branch },
+		});
+	}
+
+	private async commitWorkspace(params: {
+		round: number;
+		driver: MemberId;
+		trigger: RoundCommit["trigger"];
+		message: string;
+	}): Promise<RoundCommit | undefined> {
+		if (!this.committer) {
+			return undefined;
+		}
+		const sha = await this.committer.commitAll({
+			author: { agent: params.driver, model: this.workerFor(params.driver).currentModel },
+			message: params.message,
+		});
+		if (!sha) {
+			return undefined;
+		}
+		const subject = params.message.split("\n")[0] ?? "";
+		this.observer?.record({
+			category: "orchestrator",
+			name: "git_commit",
+			actor: "system",
+			round: params.round,
+			details: { sha, trigger: params.trigger, driver: params.driver, subject },
+		});
+		return { sha, trigger: params.trigger, subject };
+	}
+
+	/** Commits whatever the round left in the workspace and attaches every SHA taken during the round. */
+	private async commitRound(result: RoundResult, checkpointCommits: RoundCommit[]): Promise<void> {
+		const commit = await this.commitWorkspace({
+			round: result.round,
+			driver: result.driver,
+			trigger: "round_end",
+			message: buildRoundCommitMessage(result, this.commitSessionId),
+		});
+		const commits = commit ? [...checkpointCommits, commit] : checkpointCommits;
+		if (commits.length > 0) {
+			result.commits = commits;
+		}
+	}
+
+	/**
+	 * Runs a planning prompt and parses the plan out of the reply, re-prompting the same model while it is malformed.
+	 * Returns the plan with its rendered text; a plan that never parses cleanly keeps the model's own text.
+	 */
+	private async requestPlan(params: {
+		actor: AgentId;
+		prompt: string;
+		promptKind: string;
+		tag: "plan_draft" | "agreed_plan";
+	}): Promise<{ plan: Plan; text: string }> {
+		let raw = await this.runPromptWithObservability({
+			actor: params.actor,
+			prompt: params.prompt,
+			promptKind: params.promptKind,
+			phase: "planning",
+		});
+		let parsed = parsePlan(raw, params.tag);
+		for (let attempt = 1; parsed.errors.length > 0 && attempt <= PLAN_REPAIR_ATTEMPTS; attempt += 1) {
+			this.observer?.record({
+				category: "orchestrator",
+				name: "plan_malformed",
+				actor: params.actor,
+				details: { tag: params.tag, attempt, errors: parsed.errors },
+			});
+			raw = await this.runPromptWithObservability({
+				actor: params.actor,
+				prompt: buildPlanRepairPrompt(params.tag, parsed.errors),
+				promptKind: `${params.promptKind}_repair`,
+				phase: "planning",
+			});
+			parsed = parsePlan(raw, params.tag);
+		}
+		if (parsed.errors.length === 0) {
+			return { plan: parsed.plan, text: formatPlan(parsed.plan) };
+		}
+
+		this.observer?.record({
+			category: "orchestrator",
+			name: "plan_parse_fallback",
+			actor: params.actor,
+			details: { tag: params.tag, errors: parsed.errors, steps: parsed.plan.steps.length },
+		});
+		this.broadcastShared(
+			"plan_parse_warning",
+			"system",
+			`Model ${params.actor}'s <${params.tag}> was still malformed after ${PLAN_REPAIR_ATTEMPTS} repair attempts (${parsed.errors.join("; ")}). Continuing with ${parsed.plan.steps.length} parsed steps and the model's own text.`,
+		);
+		return { plan: parsed.plan, text: (extractTag(raw, params.tag) ?? raw).trim() };
+	}
+
+	/**
+	 * Both models draft at once without seeing each other's draft, then A merges the two with every step tagged by
+	 * source. Drafts reach the shared journal only after both are in, so neither can anchor on the other.
+	 */
+	private async independentPlanning(task: TaskSpec): Promise<{ plan: Plan; text: string }> {
+		const draft = (actor: AgentId) =>
+			this.requestPlan({
+				actor,
+				prompt: buildIndependentPlanDraftPrompt(task, actor),
+				promptKind: "plan_draft_independent",
+				tag: "plan_draft",
+			});
+		const [draftA, draftB] = await Promise.all([draft("A"), draft("B")]);
+		this.broadcastShared("plan_draft", "A", draftA.text);
+		this.broadcastShared("plan_draft", "B", draftB.text);
+
+		const merged = await this.requestPlan({
+			actor: "A",
+			prompt: buildPlanMergePrompt(task, draftA.text, draftB.text),
+			promptKind: "plan_merge",
+			tag: "agreed_plan",
+		});
+		const sources = { A: 0, B: 0, both: 0, untagged: 0 };
+		for (const step of merged.plan.steps) {
+			sources[step.source ?? "untagged"] += 1;
+		}
+		this.observer?.record({
+			category: "orchestrator",
+			name: "plan_merged",
+			actor: "A",
+			details: { draftStepsA: draftA.plan.steps.length, draftStepsB: draftB.plan.steps.length, sources },
+		});
+		this.broadcastShared("plan_merged", "A", merged.text);
+		return merged;
+	}
+
+	/**
+	 * A drafts (or, in `independent_then_merge`, merges both drafts), then B reviews and signs off or disagrees;
+	 * every disagreement gets an A revision. B reviews at most `maxPlanIterations` times, and objections left after
+	 * the last review are recorded as open risks.
+	 */
+	private async collaborativePlanning(task: TaskSpec): Promise<{ plan: Plan; text: string; negotiation: PlanNegotiation }> {
+		// Planning is read-only; no model should modify files during plan negotiation.
+		this.navigateAll();
+
+		const mode = this.config.planningMode;
+		const merged = mode === "independent_then_merge";
+		const maxIterations = this.config.maxPlanIterations;
+		let current: { plan: Plan; text: string };
+		if (merged) {
+			current = await this.independentPlanning(task);
+		} else {
+			current = await this.requestPlan({
+				actor: "A",
+				prompt: buildPlanDraftPrompt(task),
+				promptKind: "plan_draft",
+				tag: "plan_draft",
+			});
+			this.broadcastShared("plan_draft", "A", current.text);
+		}
+
+		let iteration = 0;
+		let review: PlanReview | undefined;
+		while (iteration < maxIterations) {
+			iteration += 1;
+			const raw = await this.runPromptWithObservability({
+				actor: "B",
+				prompt: review
+					? buildPlanReReviewPrompt(task, current.text, review.feedback, iteration, maxIterations)
+					: buildPlanCritiquePrompt(task, current.text, iteration, maxIterations, merged),
+				promptKind: iteration === 1 ? "plan_feedback" : "plan_rereview",
+				phase: "planning",
+			});
+			review = parsePlanReview(raw);
+			this.observer?.record({
+				category: "orchestrator",
+				name: "plan_signoff",
+				actor: "B",
+				details: { iteration, maxIterations, signoff: review.signoff, objections: review.objections.length },
+			});
+			this.broadcastShared("plan_feedback", "B", `${review.feedback}\nSign-off: ${review.signoff} (review ${iteration} of ${maxIterations})`);
+			if (review.signoff === "agree") {
+				break;
+			}
+
+			current = await this.requestPlan({
+				actor: "A",
+				prompt: buildPlanRevisionPrompt(task, current.text, review.feedback, merged),
+				promptKind: "plan_revision",
+				tag: "agreed_plan",
+			});
+			this.broadcastShared("plan_revision", "A", current.text);
+		}
+
+		const signedOff = review?.signoff === "agree";
+		const openRisks = signedOff ? [] : (review?.objections ?? []);
+		if (!signedOff) {
+			this.broadcastShared(
+				"plan_open_risks",
+				"B",
+				[
+					`Model B did not sign off on the plan after ${iteration} review${iteration === 1 ? "" : "s"}. Its last objections stay open:`,
+					...openRisks.map((risk) => `- ${risk}`),
+				].join("\n"),
+			);
+		}
+		this.broadcastShared("plan_agreed", "both", current.text);
+
+		return { ...current, negotiation: { mode, iterations: iteration, maxIterations, signedOff, openRisks } };
+	}
+
+	private async soloPlanning(task: TaskSpec): Promise<{ plan: Plan; text: string; negotiation?: PlanNegotiation }> {
+		this.navigateAll();
+
+		const agreed = await this.requestPlan({
+			actor: "A",
+			prompt: buildSoloPlanPrompt(task),
+			promptKind: "plan_solo",
+			tag: "agreed_plan",
+		});
+		this.broadcastShared("plan_agreed", "A", agreed.text);
+		return agreed;
+	}
+
+	private synthesizeSoloFinalReview(round: RoundResult): FinalReview {
+		const reviewA = parseNavigatorReview(
+			[
+				"<private_reflection>Skipped extra final review in solo mode.</private_reflection>",
+				round.driverDecision
+					? `<public_feedback>Driver decision: ${round.driverDecision.decision}. ${round.driverDecision.justification}</public_feedback>`
+					: "<public_feedback>NONE</public_feedback>",
+				"<driver_recommendation>continue</driver_recommendation>",
+			].join("\n"),
+		);
+		const reviewB = round.navigatorReview;
+		const accepted = round.driverDecision?.decision === "accept";
+		const jointVerdict = !reviewB.hasFeedback || accepted ? "APPROVED" : "NEEDS_MORE_WORK";
+		const rationale =
+			jointVerdict === "APPROVED"
+				? "Solo mode completed after B's final review and A's integration decision."
+				: "B provided final feedback and A did not fully accept it in solo mode.";
+		const nextSteps = jointVerdict === "APPROVED" ? "NONE" : reviewB.publicFeedback;
+
+		this.broadcastShared(
+			"joint_verdict",
+			"system",
+			`Verdict: ${jointVerdict}\nRationale: ${rationale}\nNext steps: ${nextSteps}`,
+		);
+
+		return {
+			reviewA,
+			reviewB,
+			jointVerdict,
+			rationale,
+			nextSteps,
+			raw: "synthetic_solo_final_review",
+		};
+	}
+
+	private async runRound(task: TaskSpec, agreedPlan: string, round: number, driverId: AgentId): Promise<RoundResult> {
+		return this.runRoundFromSnapshot(task, agreedPlan, round, driverId, await this.roundSnapshot());
+	}
+
+	/** The workspace as it stands at the start of a round; only files changed since the previous round are copied. */
+	private async roundSnapshot(): Promise<WorkspaceSnapshot> {
+		if (!this.snapshot) {
+			this.snapshot = await WorkspaceSnapshot.capture(this.config.cwd);
+		} else {
+			await this.snapshot.refresh();
+		}
+		return this.snapshot;
+	}
+
+	private checklistPromptParam(): { checklist?: string } {
+		return this.checklist.isEmpty ? {} : { checklist: this.checklist.format() };
+	}
+
+	private createChecklist(task: TaskSpec): void {
+		this.checklist.restore(Checklist.fromPlan(this.plan, task).exportState());
+		if (this.checklist.isEmpty) {
+			return;
+		}
+		const items = this.checklist.exportState();
+		this.observer?.record({
+			category: "orchestrator",
+			name: "checklist_created",
+			actor: "system",
+			details: {
+				steps: items.filter((item) => item.kind === "step").length,
+				criteria: items.filter((item) => item.kind === "criterion").length,
+			},
+		});
+		this.broadcastShared("checklist", "system", this.checklist.format());
+	}
+
+	private updateChecklist(
+		updates: ChecklistUpdate[],
+		context: { actor: MemberId; role: "driver" | "navigator"; driver: MemberId; round: number },
+	): void {
+		if (updates.length === 0 || this.checklist.isEmpty) {
+			return;
+		}
+		const { changes, ignored } = this.checklist.apply(updates, context);
+		this.observer?.record({
+			category: "orchestrator",
+			name: "checklist_updated",
+			actor: context.actor,
+			round: context.round,
+			details: { role: context.role, changes, ...(ignored.length > 0 ? { ignored } : {}) },
+		});
+		if (changes.length > 0) {
+			this.broadcastShared(
+				"checklist_update",
+				context.actor,
+				changes
+					.map((change) => `${change.id}: ${change.from} -> ${change.to}${change.note ? ` (${change.note})` : ""}`)
+					.join("\n"),
+			);
+		}
+	}
+
+	private async revertRound(params: {
+		round: number;
+		driver: MemberId;
+		/** Navigators that asked for the revert: the pair's one navigator, or the mob's majority. */
+		navigators: MemberId[];
+		snapshot: WorkspaceSnapshot;
+		ledgerBefore: LedgerState;
+		checklistBefore: ChecklistItem[];
+		fileChanges: FileLineChange[];
+		driverSummary: string;
+	}): Promise<void> {
+		await params.snapshot.restore();
+		// Reverted lines were never kept, so attribution and checklist progress go back to where they stood before the round.
+		await this.ledger.restore(params.ledgerBefore);
+		this.checklist.restore(params.checklistBefore);
+		const discarded = mergeFileChanges(params.fileChanges);
+
+		this.observer?.record({
+			category: "orchestrator",
+			name: "round_reverted",
+			actor: "system",
+			round: params.round,
+			details: {
+				driver: params.driver,
+				navigator: params.navigators.join(", "),
+				files: discarded.map((change) => change.path),
+				linesAdded: discarded.reduce((total, change) => total + change.linesAdded, 0),
+				linesRemoved: discarded.reduce((total, change) => total + change.linesRemoved, 0),
+			},
+		});
+		this.broadcastShared(
+			"round_reverted",
+			"system",
+			[
+				`Round ${params.round} was reverted: ${params.navigators.length === 1 ? "Model" : "Models"} ${params.navigators.join(", ")} recommended it and Model ${params.driver} agreed.`,
+				"The workspace is back to its state before the round started.",
+				`Discarded driver summary: ${params.driverSummary}`,
+				`Discarded file changes: ${
+					discarded.length > 0
+						? discarded.map((change) => `${change.path} (+${change.linesAdded}/-${change.linesRemoved})`).join(", ")
+						: "none"
+				}`,
+			].join("\n"),
+		);
+	}
+
+	private async runRoundFromSnapshot(
+		task: TaskSpec,
+		agreedPlan: string,
+		round: number,
+		driverId: AgentId,
+		snapshot: WorkspaceSnapshot,
+	): Promise<RoundResult> {
+		const navigatorId = otherAgent(driverId);
+		const driver = this.workers[driverId];
+		const navigator = this.workers[navigatorId];
+
+		driver.setRole("driver");
+		navigator.setRole("navigator");
 
 		const pauseDescription = describePauseStrategy(this.config.pauseStrategy);
 		const turnPolicyDescription = describeTurnPolicy(this.config.turnPolicy);
+		const openStep = this.checklist.nextOpenStep();
+		const focusStep = openStep ? { id: openStep.id, description: openStep.text } : undefined;
 		const driverPrompt = buildDriverTurnPrompt({
 			task,
 			agreedPlan,
@@ -341,28 +1412,144 @@ export class PairProgrammingOrchestrator {
 			navigator: navigatorId,
 			pauseDescription,
 			turnPolicyDescription,
+			...this.checklistPromptParam(),
+			...(focusStep ? { focusStep } : {}),
 		});
 
+		const checkpointCommits: RoundCommit[] = [];
+		let pendingCheckpointCommits: Promise<void> = Promise.resolve();
+		let checkpointCommitError: unknown;
+		const checkpointReviews: CheckpointReview[] = [];
+		// Also called from the checkpoint callback mid-turn, where `budgetReached` defers its journal entries.
+		const canReviewCheckpoint = (): boolean =>
+			checkpointReviews.length < MAX_CHECKPOINT_REVIEWS_PER_ROUND && !this.budgetReached(round);
+		const interimReviews: InterimReview[] = [];
+		let pendingInterimReview: Promise<void> | undefined;
+		let driverWorking = false;
+		const startInterimReview = (phase: "driving" | "feedback_resolution"): void => {
+			const { checkpointCount: checkpoint, touchedFiles: files } = executionTracker.snapshot();
+			// The navigator agent runs one prompt at a time; a checkpoint that lands mid-review is folded into the next one.
+			if (pendingInterimReview || this.budgetReached(round)) {
+				this.observer?.record({
+					category: "orchestrator",
+					name: "interim_review_skipped",
+					actor: navigatorId,
+					round,
+					details: { checkpoint, reason: pendingInterimReview ? "review_in_progress" : "budget_exhausted" },
+				});
+				return;
+			}
+			pendingInterimReview = this.runInterimReview({
+				task,
+				round,
+				driverId,
+				navigatorId,
+				checkpoint,
+				phase,
+				files,
+				...(focusStep ? { focusStep } : {}),
+				isDriverWorking: () => driverWorking,
+			}).then((review) => {
+				interimReviews.push(review);
+				pendingInterimReview = undefined;
+			});
+		};
+		let postedInterimReviews = 0;
+		// Journal entries wait until no prompt is running, because appending shared context to a busy worker would
+		// change its running turn.
+		const settleInterimReviews = async (): Promise<void> => {
+			await pendingInterimReview;
+			for (const review of interimReviews.slice(postedInterimReviews)) {
+				this.broadcastShared(
+					"interim_review",
+					navigatorId,
+					[
+						`Round ${round}, checkpoint ${review.checkpoint} (${review.phase})`,
+						`Files: ${review.files.length > 0 ? review.files.join(", ") : "none recorded"}`,
+						review.error ? `Review failed: ${review.error}` : review.feedback,
+						...(review.hasFeedback && !review.steered ? ["(Arrived after the driver's turn ended.)"] : []),
+					].join("\n"),
+				);
+			}
+			postedInterimReviews = interimReviews.length;
+		};
 		const executionTracker = createDriverExecutionTracker({
 			pauseStrategy: this.config.pauseStrategy,
-			onCheckpoint: (phase) => {
-				driver.agent.steer({
-					role: "user",
-					content: [{ type: "text", text: buildPauseInterruptionPrompt(navigatorId, phase) }],
-					timestamp: Date.now(),
+			onCheckpoint: (phase, reason) => {
+				this.observer?.record({
+					category: "orchestrator",
+					name: "checkpoint_triggered",
+					actor: driverId,
+					round,
+					details: { checkpoint: executionTracker.snapshot().checkpointCount, phase, reason },
 				});
+				if (this.config.parallelReview) {
+					startInterimReview(phase);
+				} else {
+					driver.agent.steer({
+						role: "user",
+						content: [
+							{ type: "text", text: buildPauseInterruptionPrompt(navigatorId, phase, canReviewCheckpoint(), reason) },
+						],
+						timestamp: Date.now(),
+					});
+				}
+				if (this.config.commits?.mode !== "per_checkpoint") {
+					return;
+				}
+				// The tracker callback is synchronous, so checkpoint commits are chained and awaited before the round ends.
+				const checkpoint = executionTracker.snapshot().checkpointCount;
+				pendingCheckpointCommits = pendingCheckpointCommits
+					.then(async () => {
+						const commit = await this.commitWorkspace({
+							round,
+							driver: driverId,
+							trigger: "checkpoint",
+							message: [
+								`pairing-bots round ${round} checkpoint ${checkpoint} (${driverId} driving)`,
+								"",
+								`Round: ${round}`,
+								`Driver: ${driverId}`,
+								`Navigator: ${navigatorId}`,
+								`Phase: ${phase}`,
+								"Navigator decision: pending (checkpoint pause)",
+								`Session: ${this.commitSessionId}`,
+							].join("\n"),
+						});
+						if (commit) {
+							checkpointCommits.push(commit);
+						}
+					})
+					.catch((error: unknown) => {
+						checkpointCommitError ??= error;
+					});
 			},
 		});
 
-		const driverReportRaw = await this.runPromptWithObservability({
-			actor: driverId,
+		const fileChanges: FileLineChange[] = [];
+		await this.ledger.capture("system");
+		const ledgerBefore = this.ledger.exportState();
+		const checklistBefore = this.checklist.exportState();
+		driverWorking = true;
+		const driverReportRaw = await this.runDriverTurnWithCheckpointReviews({
+			task,
+			round,
+			driverId,
+			navigatorId,
+			phase: "driving",
 			prompt: driverPrompt,
 			promptKind: "driver_turn",
-			phase: "driving",
-			round,
-			onEvent: executionTracker.onEvent,
+			tracker: executionTracker,
+			fileChanges,
+			reviews: checkpointReviews,
+			canReview: canReviewCheckpoint,
+			...(focusStep ? { focusStep } : {}),
+		}).finally(() => {
+			driverWorking = false;
 		});
+		await settleInterimReviews();
 		const driverReport = parseDriverReport(driverReportRaw);
+		this.updateChecklist(driverReport.checklistUpdates, { actor: driverId, role: "driver", driver: driverId, round });
 		this.broadcastShared(
 			"driver_report",
 			driverId,
@@ -375,54 +1562,118 @@ export class PairProgrammingOrchestrator {
 			].join("\n"),
 		);
 		const drivingStats = executionTracker.snapshot();
+		const verifications: VerificationResult[] = [];
+		const drivingVerification = await this.runVerification(round, "after_driving");
+		if (drivingVerification) {
+			verifications.push(drivingVerification);
+		}
 
-		const navigatorReviewRaw = await this.runPromptWithObservability({
-			actor: navigatorId,
-			prompt: buildNavigatorReviewPrompt({
-				task,
-				agreedPlan,
+		let navigatorReview: NavigatorReview;
+		if (this.budgetReached(round)) {
+			navigatorReview = budgetSkippedReview();
+		} else {
+			const navigatorReviewRaw = await this.runPromptWithObservability({
+				actor: navigatorId,
+				prompt: buildNavigatorReviewPrompt({
+					task,
+					agreedPlan,
+					round,
+					driver: driverId,
+					driverReport: driverReport.raw,
+					pauseTriggered: drivingStats.pauseTriggered,
+					turnPolicyDescription,
+					...(drivingVerification ? { verification: formatVerificationResult(drivingVerification) } : {}),
+					...this.checklistPromptParam(),
+					...(focusStep ? { focusStep } : {}),
+				}),
+				promptKind: "navigator_review",
+				phase: "navigation",
 				round,
-				driver: driverId,
-				driverReport: driverReport.raw,
-				pauseTriggered: drivingStats.pauseTriggered,
-				turnPolicyDescription,
-			}),
-			promptKind: "navigator_review",
-			phase: "navigation",
-			round,
-		});
-		const navigatorReview = parseNavigatorReview(navigatorReviewRaw);
-		navigator.appendPrivateMemory(navigatorReview.privateReflection);
+			});
+			navigatorReview = parseNavigatorReview(navigatorReviewRaw);
+			this.rememberPrivately(navigatorId, "navigator_reflection", navigatorReview.privateReflection);
+			this.updateChecklist(navigatorReview.checklistUpdates, { actor: navigatorId, role: "navigator", driver: driverId, round });
 
-		if (navigatorReview.hasFeedback) {
-			this.broadcastShared("navigator_feedback", navigatorId, navigatorReview.publicFeedback);
-		} else {
-			this.broadcastShared("navigator_feedback", navigatorId, "NONE");
+			if (navigatorReview.hasFeedback) {
+				this.broadcastShared("navigator_feedback", navigatorId, navigatorReview.publicFeedback);
+			} else {
+				this.broadcastShared("navigator_feedback", navigatorId, "NONE");
+			}
+			this.broadcastShared("navigator_handoff_signal", navigatorId, navigatorReview.driverRecommendation);
 		}
-		this.broadcastShared("navigator_handoff_signal", navigatorId, navigatorReview.driverRecommendation);
 
 		let driverDecision: DriverDecision | undefined;
-		if (navigatorReview.hasFeedback) {
+		let dispute: Dispute | undefined;
+		let reverted = false;
+		const revertRequested = navigatorReview.driverRecommendation === "revert";
+		if ((navigatorReview.hasFeedback || revertRequested) && !this.budgetReached(round)) {
 			executionTracker.setPhase("feedback_resolution");
-			const driverDecisionRaw = await this.runPromptWithObservability({
-				actor: driverId,
-				prompt: buildDriverDecisionPrompt(navigatorReview.publicFeedback),
-				promptKind: "driver_decision",
-				phase: "feedback_resolution",
-				round,
-				onEvent: executionTracker.onEvent,
-			});
+			const runResolutionTurn = async (prompt: string, promptKind: string): Promise<string> => {
+				driverWorking = true;
+				const raw = await this.runDriverTurnWithCheckpointReviews({
+					task,
+					round,
+					driverId,
+					navigatorId,
+					phase: "feedback_resolution",
+					prompt,
+					promptKind,
+					tracker: executionTracker,
+					fileChanges,
+					reviews: checkpointReviews,
+					canReview: canReviewCheckpoint,
+					...(focusStep ? { focusStep } : {}),
+				}).finally(() => {
+					driverWorking = false;
+				});
+				await settleInterimReviews();
+				return raw;
+			};
+			const driverDecisionRaw = await runResolutionTurn(
+				buildDriverDecisionPrompt(navigatorReview.publicFeedback, revertRequested),
+				"driver_decision",
+			);
 			driverDecision = parseDriverDecision(driverDecisionRaw);
 			this.broadcastShared(
 				"driver_decision",
 				driverId,
 				`Decision: ${driverDecision.decision}\nJustification: ${driverDecision.justification}`,
 			);
+			if (driverDecision.decision === "reject" && this.config.disputes.arbiter !== "off" && !this.budgetReached(round)) {
+				const settled = await this.runDispute({
+					round,
+					driverId,
+					navigatorId,
+					subject: revertRequested ? "revert" : "feedback",
+					feedback: navigatorReview.publicFeedback,
+					decision: driverDecision,
+					verification: verifications.at(-1),
+					runResolutionTurn,
+				});
+				dispute = settled.dispute;
+				driverDecision = settled.decision;
+			}
+			if (revertRequested && driverDecision.decision === "accept") {
+				await this.revertRound({
+					round,
+					driver: driverId,
+					navigators: [navigatorId],
+					snapshot,
+					ledgerBefore,
+					checklistBefore,
+					fileChanges,
+					driverSummary: driverReport.summary,
+				});
+				reverted = true;
+			}
+			const resolutionVerification = await this.runVerification(round, "after_feedback_resolution");
+			if (resolutionVerification) {
+				verifications.push(resolutionVerification);
+			}
 		}
 
 		const executionStats = executionTracker.snapshot();
-
-		return {
+		const result: RoundResult = {
 			round,
 			driver: driverId,
 			navigator: navigatorId,
@@ -430,18 +1681,355 @@ export class PairProgrammingOrchestrator {
 			checkpointCount: executionStats.checkpointCount,
 			editWriteCallCount: executionStats.editWriteCallCount,
 			estimatedWrittenBytes: executionStats.estimatedWrittenBytes,
+			toolErrorCount: executionStats.toolErrorCount,
 			driverReport,
 			navigatorReview,
+			...(focusStep ? { focusStep: focusStep.id } : {}),
 			...(driverDecision ? { driverDecision } : {}),
+			...(dispute ? { dispute } : {}),
+			...(checkpointReviews.length > 0 ? { checkpointReviews } : {}),
+			...(interimReviews.length > 0 ? { interimReviews } : {}),
+			...(verifications.length > 0 ? { verifications } : {}),
+			fileChanges: mergeFileChanges(fileChanges),
+			...(reverted ? { reverted } : {}),
+		};
+
+		await pendingCheckpointCommits;
+		if (checkpointCommitError) {
+			throw checkpointCommitError;
+		}
+		await this.commitRound(result, checkpointCommits);
+		return result;
+	}
+
+	/**
+	 * Runs a driver prompt; when a checkpoint paused it, the navigator mini-reviews the diff since the previous
+	 * checkpoint and the driver resumes with that feedback. Returns the output of the final, unpaused segment.
+	 */
+	private async runDriverTurnWithCheckpointReviews(params: {
+		task: TaskSpec;
+		round: number;
+		driverId: AgentId;
+		navigatorId: AgentId;
+		phase: "driving" | "feedback_resolution";
+		prompt: string;
+		promptKind: string;
+		tracker: DriverExecutionTracker;
+		fileChanges: FileLineChange[];
+		reviews: CheckpointReview[];
+		canReview: () => boolean;
+		focusStep?: { id: number; description: string };
+	}): Promise<string> {
+		let prompt = params.prompt;
+		let promptKind = params.promptKind;
+		for (;;) {
+			const checkpointsBefore = params.tracker.snapshot().checkpointCount;
+			const segmentChanges: FileLineChange[] = [];
+			const raw = await this.runDriverPrompt(
+				{
+					actor: params.driverId,
+					prompt,
+					promptKind,
+					phase: params.phase,
+					round: params.round,
+					onEvent: params.tracker.onEvent,
+				},
+				segmentChanges,
+			);
+			params.fileChanges.push(...segmentChanges);
+			const checkpoint = params.tracker.snapshot().checkpointCount;
+			if (checkpoint === checkpointsBefore || this.config.parallelReview || !params.canReview()) {
+				return raw;
+			}
+
+			const reviewRaw = await this.runPromptWithObservability({
+				actor: params.navigatorId,
+				prompt: buildCheckpointReviewPrompt({
+					task: params.task,
+					round: params.round,
+					driver: params.driverId,
+					checkpoint,
+					phase: params.phase,
+					diff: this.ledger.lastCaptureDiff(),
+					driverOutput: raw,
+					...this.checklistPromptParam(),
+					...(params.focusStep ? { focusStep: params.focusStep } : {}),
+				}),
+				promptKind: "navigator_checkpoint_review",
+				phase: "navigation",
+				round: params.round,
+			});
+			const { feedback, hasFeedback } = parseCheckpointFeedback(reviewRaw, "checkpoint_feedback");
+			const review: CheckpointReview = {
+				checkpoint,
+				phase: params.phase,
+				fileChanges: mergeFileChanges(segmentChanges),
+				feedback,
+				hasFeedback,
+			};
+			params.reviews.push(review);
+			this.observer?.record({
+				category: "orchestrator",
+				name: "checkpoint_review",
+				actor: params.navigatorId,
+				round: params.round,
+				details: {
+					checkpoint,
+					phase: params.phase,
+					files: review.fileChanges.map((change) => change.path),
+					hasFeedback,
+				},
+			});
+			this.broadcastShared(
+				"checkpoint_review",
+				params.navigatorId,
+				[
+					`Round ${params.round}, checkpoint ${checkpoint} (${params.phase})`,
+					`Files: ${review.fileChanges.length > 0 ? review.fileChanges.map((change) => change.path).join(", ") : "none"}`,
+					hasFeedback ? feedback : "NONE",
+				].join("\n"),
+			);
+
+			prompt = buildCheckpointResumePrompt({
+				navigator: params.navigatorId,
+				checkpoint,
+				phase: params.phase,
+				feedback,
+				hasFeedback,
+				...this.checklistPromptParam(),
+			});
+			promptKind = `${params.promptKind}_resume`;
+		}
+	}
+
+	/**
+	 * Runs one checkpoint review on the navigator while the driver keeps going, and steers any feedback into the
+	 * driver's running turn. A failed review is recorded and dropped; the navigator's full review still follows.
+	 */
+	private async runInterimReview(params: {
+		task: TaskSpec;
+		round: number;
+		driverId: AgentId;
+		navigatorId: AgentId;
+		checkpoint: number;
+		phase: "driving" | "feedback_resolution";
+		files: string[];
+		focusStep?: { id: number; description: string };
+		isDriverWorking: () => boolean;
+	}): Promise<InterimReview> {
+		const base = { checkpoint: params.checkpoint, phase: params.phase, files: params.files };
+		let raw: string;
+		try {
+			raw = await this.runPromptWithObservability({
+				actor: params.navigatorId,
+				prompt: buildInterimReviewPrompt({
+					task: params.task,
+					round: params.round,
+					driver: params.driverId,
+					checkpoint: params.checkpoint,
+					phase: params.phase,
+					files: params.files,
+					...(params.focusStep ? { focusStep: params.focusStep } : {}),
+				}),
+				promptKind: "navigator_interim_review",
+				phase: "navigation",
+				round: params.round,
+			});
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			this.observer?.record({
+				category: "orchestrator",
+				name: "interim_review_failed",
+				actor: params.navigatorId,
+				round: params.round,
+				details: { checkpoint: params.checkpoint, error: message },
+			});
+			return { ...base, feedback: "NONE", hasFeedback: false, steered: false, error: message };
+		}
+
+		const { feedback, hasFeedback } = parseCheckpointFeedback(raw, "interim_feedback");
+		const steered = hasFeedback && params.isDriverWorking();
+		if (steered) {
+			this.workers[params.driverId].agent.steer({
+				role: "user",
+				content: [{ type: "text", text: buildInterimFeedbackSteer(params.navigatorId, params.checkpoint, feedback) }],
+				timestamp: Date.now(),
+			});
+		}
+		this.observer?.record({
+			category: "orchestrator",
+			name: "interim_review",
+			actor: params.navigatorId,
+			round: params.round,
+			details: { checkpoint: params.checkpoint, phase: params.phase, files: params.files, hasFeedback, steered },
+		});
+		return { ...base, feedback, hasFeedback, steered };
+	}
+
+	/**
+	 * Runs the dispute protocol after the driver rejected feedback: one navigator rebuttal, one driver response, then
+	 * the configured arbiter. Returns the dispute record and the driver decision that stands afterwards.
+	 */
+	private async runDispute(params: {
+		round: number;
+		driverId: AgentId;
+		navigatorId: AgentId;
+		subject: "feedback" | "revert";
+		feedback: string;
+		decision: DriverDecision;
+		verification: VerificationResult | undefined;
+		runResolutionTurn: (prompt: string, promptKind: string) => Promise<string>;
+	}): Promise<{ dispute: Dispute; decision: DriverDecision }> {
+		const { round, driverId, navigatorId, subject } = params;
+		this.observer?.record({
+			category: "orchestrator",
+			name: "dispute_opened",
+			actor: navigatorId,
+			round,
+			details: { driver: driverId, subject },
+		});
+		const rebuttalRaw = await this.runPromptWithObservability({
+			actor: navigatorId,
+			prompt: buildRebuttalPrompt({
+				driver: driverId,
+				subject,
+				feedback: params.feedback,
+				justification: params.decision.justification,
+				arbiterDescription: describeDisputeArbiter(this.config.disputes),
+			}),
+			promptKind: "navigator_rebuttal",
+			phase: "navigation",
+			round,
+		});
+		const { concede, rebuttal } = parseRebuttal(rebuttalRaw);
+		this.broadcastShared("dispute_rebuttal", navigatorId, `${concede ? "Conceded" : "Rebutted"}: ${rebuttal}`);
+		const base = {
+			round,
+			driver: driverId,
+			navigator: navigatorId,
+			subject,
+			feedback: params.feedback,
+			driverJustification: params.decision.justification,
+			rebuttal,
 		};
+		if (concede) {
+			return this.settleDispute({ ...base, outcome: "navigator_conceded", decidedBy: "navigator" }, params.decision);
+		}
+
+		let decision = params.decision;
+		let driverResponse: string | undefined;
+		if (!this.budgetReached(round)) {
+			decision = parseDriverDecision(
+				await params.runResolutionTurn(buildDisputeResponsePrompt(navigatorId, subject, rebuttal), "driver_dispute_response"),
+			);
+			driverResponse = decision.justification;
+			this.broadcastShared("dispute_response", driverId, `Decision: ${decision.decision}\nJustification: ${decision.justification}`);
+			if (decision.decision !== "reject") {
+				return this.settleDispute({ ...base, driverResponse, outcome: "driver_accepted", decidedBy: "driver" }, decision);
+			}
+		}
+
+		const disputed = { ...base, ...(driverResponse ? { driverResponse } : {}) };
+		const ruling = await this.arbitrateDispute(disputed, params.verification);
+		if (ruling.winner === "driver") {
+			return this.settleDispute({ ...disputed, outcome: "upheld_driver", decidedBy: ruling.decidedBy, ruling: ruling.ruling }, decision);
+		}
+		const upheld: Dispute = { ...disputed, outcome: "upheld_navigator", decidedBy: ruling.decidedBy, ruling: ruling.ruling };
+		if (subject === "revert") {
+			// Accepting is what makes the round revert.
+			return this.settleDispute(upheld, { decision: "accept", justification: `Reverted by ruling: ${ruling.ruling}`, raw: "" });
+		}
+		if (this.budgetReached(round)) {
+			return this.settleDispute(upheld, decision);
+		}
+		const applied = parseDriverDecision(
+			await params.runResolutionTurn(buildDisputeRulingPrompt(navigatorId, params.feedback, ruling.ruling), "driver_dispute_ruling"),
+		);
+		this.broadcastShared("driver_decision", driverId, `Decision: ${applied.decision}\nJustification: ${applied.justification}`);
+		return this.settleDispute(upheld, applied);
+	}
+
+	private async arbitrateDispute(
+		dispute: Omit<Dispute, "outcome" | "decidedBy" | "ruling"> & { rebuttal: string },
+		verification: VerificationResult | undefined,
+	): Promise<{ winner: "driver" | "navigator"; decidedBy: "rule" | "human" | "arbiter"; ruling: string }> {
+		const config = this.config.disputes;
+		let fallbackNote = "";
+		if (config.arbiter === "model") {
+			if (this.arbiter && !this.budgetReached(dispute.round)) {
+				const raw = await this.runPromptWithObservability({
+					actor: "arbiter",
+					prompt: buildDisputeArbitrationPrompt({
+						...dispute,
+						...(verification ? { verification: formatVerificationResult(verification) } : {}),
+					}),
+					promptKind: "dispute_arbitration",
+					phase: "navigation",
+					round: dispute.round,
+				});
+				const { winner, ruling } = parseArbiterRuling(raw);
+				if (winner) {
+					return { winner, decidedBy: "arbiter", ruling: ruling || `The arbiter sided with the ${winner}.` };
+				}
+				fallbackNote = "The arbiter named neither side, so the rule decided. ";
+			} else {
+				fallbackNote = this.arbiter ? "The budget is exhausted, so the rule decided. " : "No arbiter model is configured, so the rule decided. ";
+			}
+		}
+		if (config.arbiter === "human") {
+			if (this.humanArbiter) {
+				const { winner, note } = parseHumanRuling(await this.humanArbiter(buildHumanDisputeQuestion(dispute)));
+				if (winner) {
+					return { winner, decidedBy: "human", ruling: note || `The human arbiter sided with the ${winner}.` };
+				}
+				fallbackNote = "The human answer named neither side, so the rule decided. ";
+			} else {
+				fallbackNote = "No human was available to ask, so the rule decided. ";
+			}
+		}
+		if (config.rule === "driver_wins") {
+			return { winner: "driver", decidedBy: "rule", ruling: `${fallbackNote}Rule driver_wins keeps the driver's decision.` };
+		}
+		if (config.rule === "navigator_wins") {
+			return { winner: "navigator", decidedBy: "rule", ruling: `${fallbackNote}Rule navigator_wins sides with the navigator.` };
+		}
+		if (!verification) {
+			return {
+				winner: "driver",
+				decidedBy: "rule",
+				ruling: `${fallbackNote}Rule verification found no verification run, so the driver's decision stands.`,
+			};
+		}
+		return verification.passed
+			? { winner: "driver", decidedBy: "rule", ruling: `${fallbackNote}Rule verification: the latest verification passed.` }
+			: { winner: "navigator", decidedBy: "rule", ruling: `${fallbackNote}Rule verification: the latest verification failed.` };
+	}
+
+	private settleDispute(dispute: Dispute, decision: DriverDecision): { dispute: Dispute; decision: DriverDecision } {
+		this.broadcastShared(
+			"dispute_resolved",
+			"system",
+			[
+				`Round ${dispute.round} dispute over ${dispute.subject === "revert" ? "the revert recommendation" : "navigator feedback"}: ${dispute.outcome} (decided by ${dispute.decidedBy}).`,
+				...(dispute.ruling ? [`Ruling: ${dispute.ruling}`] : []),
+			].join("\n"),
+		);
+		this.observer?.record({
+			category: "orchestrator",
+			name: "dispute_resolved",
+			actor: "system",
+			round: dispute.round,
+			details: { subject: dispute.subject, outcome: dispute.outcome, decidedBy: dispute.decidedBy },
+		});
+		return { dispute, decision };
 	}
 
 	private shouldSwapDriver(
 		result: RoundResult,
-		consecutiveRoundsWithDriver: number,
-		consecutiveCheckpointsWithDriver: number,
-	): { swap: boolean; reason: string } {
-		if (this.config.turnPolicy.mode === "alternate_each_round") {
+		state: ExecutionState,
+	): { swap: boolean; reason: string; stuck?: boolean; tieBreak?: boolean } {
+		const policy = this.config.turnPolicy;
+		if (policy.mode === "alternate_each_round") {
 			return { swap: true, reason: "alternate_each_round" };
 		}
 
@@ -449,53 +2037,479 @@ export class PairProgrammingOrchestrator {
 			return { swap: true, reason: "navigator_requested_handoff" };
 		}
 
-		if (consecutiveRoundsWithDriver >= this.config.turnPolicy.maxConsecutiveRounds) {
+		if (state.consecutiveRoundsWithDriver >= policy.maxConsecutiveRounds) {
+			return {
+				swap: true,
+				reason: `safety_cap_rounds_${policy.maxConsecutiveRounds}`,
+			};
+		}
+
+		if (state.consecutiveCheckpointsWithDriver >= policy.maxConsecutiveCheckpoints) {
 			return {
 				swap: true,
-				reason: `safety_cap_rounds_${this.config.turnPolicy.maxConsecutiveRounds}`,
+				reason: `safety_cap_checkpoints_${policy.maxConsecutiveCheckpoints}`,
 			};
 		}
 
-		if (consecutiveCheckpointsWithDriver >= this.config.turnPolicy.maxConsecutiveCheckpoints) {
-			return {
-				swap: true,
-				reason: `safety_cap_checkpoints_${this.config.turnPolicy.maxConsecutiveCheckpoints}`,
-			};
-		}
+		if (policy.mode === "adaptive" && state.adaptive) {
+			const stuck = stuckReason(state.adaptive.signals[state.driverId], policy);
+			if (stuck) {
+				// Both models stuck in turn: another swap would just trade places, so the navigator breaks the tie.
+				return state.adaptive.stuck.includes(otherAgent(state.driverId))
+					? { swap: false, reason: `driver_stuck: ${stuck}`, tieBreak: true }
+					: { swap: true, reason: `driver_stuck: ${stuck}`, stuck: true };
+			}
+		}
+
+		return { swap: false, reason: "continue_same_driver" };
+	}
+
+	/** Adds this round's stuck signals to the driver's stint under the adaptive turn policy. */
+	private recordDriverSignals(state: ExecutionState, result: RoundResult): void {
+		if (this.config.turnPolicy.mode !== "adaptive") {
+			return;
+		}
+		const adaptive = (state.adaptive ??= emptyAdaptiveTurnState());
+		const signals = adaptive.signals[state.driverId];
+		const review = result.navigatorReview;
+		if (review.hasFeedback) {
+			if (result.driverDecision?.decision === "reject") {
+				signals.rejectedFeedback += 1;
+			}
+			if (isRepeatedFeedback(review.publicFeedback, adaptive.stintFeedback)) {
+				signals.repeatedFeedback += 1;
+			}
+			adaptive.stintFeedback.push(review.publicFeedback);
+		}
+		if (latestVerification(result)?.passed === false) {
+			signals.verificationFailures += 1;
+		}
+		signals.toolErrors += result.toolErrorCount;
+	}
+
+	/** Starts a fresh stint for the new driver; the previous one is remembered as stuck when that caused the swap. */
+	private startDriverStint(state: ExecutionState, previousDriver: AgentId, previousStuck: boolean): void {
+		if (!state.adaptive) {
+			return;
+		}
+		state.adaptive.signals[state.driverId] = emptyDriverSignals();
+		state.adaptive.stintFeedback = [];
+		state.adaptive.stuck = [
+			...state.adaptive.stuck.filter((agent) => agent !== state.driverId && agent !== previousDriver),
+			...(previousStuck ? [previousDriver] : []),
+		];
+	}
+
+	private async runTieBreak(task: TaskSpec, round: number, state: ExecutionState, reason: string): Promise<TieBreak> {
+		const driverId = state.driverId;
+		const navigatorId = otherAgent(driverId);
+		const adaptive = state.adaptive ?? emptyAdaptiveTurnState();
+		const raw = await this.runPromptWithObservability({
+			actor: navigatorId,
+			prompt: buildTieBreakPrompt({
+				task,
+				round,
+				driver: driverId,
+				navigator: navigatorId,
+				reason,
+				signals: { A: formatDriverSignals(adaptive.signals.A), B: formatDriverSignals(adaptive.signals.B) },
+				stintFeedback: adaptive.stintFeedback,
+				...this.checklistPromptParam(),
+			}),
+			promptKind: "navigator_tie_break",
+			phase: "navigation",
+			round,
+		});
+		const tieBreak: TieBreak = { driver: driverId, decidedBy: navigatorId, reason, ...parseTieBreak(raw) };
+		this.broadcastShared(
+			"tie_break",
+			navigatorId,
+			[`Tie-break after round ${round} (${reason}).`, `Decision: ${tieBreak.decision}`, "Resolution:", tieBreak.resolution].join("\n"),
+		);
+		this.observer?.record({
+			category: "orchestrator",
+			name: "tie_break",
+			actor: navigatorId,
+			round,
+			details: { driver: driverId, reason, decision: tieBreak.decision },
+		});
+		return tieBreak;
+	}
+
+	private async runPairedExecution(
+		task: TaskSpec,
+		agreedPlan: string,
+		rounds: RoundResult[],
+		state: ExecutionState,
+	): Promise<ExecutionResult> {
+		for (let round = state.nextRound; round <= this.config.maxRounds; round += 1) {
+			if (this.budgetReached(round)) {
+				this.budgetLoopStop(`before round ${round}`);
+				await this.saveCheckpoint({ phase: "final_review", task, agreedPlan, rounds, execution: state });
+				break;
+			}
+			const driverId = state.driverId;
+			this.observer?.record({
+				category: "orchestrator",
+				name: "round_start",
+				actor: "system",
+				round,
+				details: { driver: driverId, navigator: otherAgent(driverId) },
+			});
+
+			const result = await this.runRound(task, agreedPlan, round, driverId);
+			rounds.push(result);
+			state.checkpointCount += result.checkpointCount;
+			state.consecutiveRoundsWithDriver += 1;
+			state.consecutiveCheckpointsWithDriver += result.checkpointCount;
+			state.contributions[driverId].roundsDriven += 1;
+			state.contributions[driverId].checkpointsWhileDriving += result.checkpointCount;
+			state.contributions[driverId].editWriteCallCount += result.editWriteCallCount;
+			state.contributions[driverId].estimatedWrittenBytes += result.estimatedWrittenBytes;
+			const verification = latestVerification(result);
+			this.recordDriverSignals(state, result);
+
+			this.observer?.record({
+				category: "orchestrator",
+				name: "round_end",
+				actor: "system",
+				round,
+				details: {
+					driverStatus: result.driverReport.status,
+					navigatorHasFeedback: result.navigatorReview.hasFeedback,
+					navigatorRecommendation: result.navigatorReview.driverRecommendation,
+					checkpointCount: result.checkpointCount,
+					editWriteCallCount: result.editWriteCallCount,
+					...(verification ? { verificationPassed: verification.passed } : {}),
+					...(result.reverted ? { reverted: true } : {}),
+				},
+			});
+
+			let finished = false;
+			const pairSignedOff =
+				result.driverReport.status === "done" &&
+				!result.navigatorReview.hasFeedback &&
+				result.navigatorReview.driverRecommendation !== "revert";
+			const verificationFailing = verification?.passed === false;
+			const shouldStop = pairSignedOff && !verificationFailing;
+			const budgetExhausted = this.budgetReached(round);
+			if (pairSignedOff && verificationFailing && !budgetExhausted) {
+				this.broadcastShared(
+					"loop_continue",
+					"system",
+					`Round ${round}: driver signaled done and navigator had no feedback, but verification is failing. Continuing.`,
+				);
+			}
+			if (budgetExhausted) {
+				this.budgetLoopStop(`at round ${round}`);
+				finished = true;
+			} else if (shouldStop) {
+				this.broadcastShared("loop_stop", "system", `Stopped at round ${round} because driver signaled done and navigator had no feedback.`);
+				finished = true;
+			} else if (round === this.config.maxRounds) {
+				this.broadcastShared("loop_stop", "system", `Reached max rounds (${this.config.maxRounds}).`);
+				finished = true;
+			} else {
+				const swapDecision = this.shouldSwapDriver(result, state);
+				let { swap, reason } = swapDecision;
+				if (swapDecision.tieBreak) {
+					const tieBreak = await this.runTieBreak(task, round, state, reason);
+					result.tieBreak = tieBreak;
+					if (tieBreak.decision === "swap") {
+						swap = true;
+						reason = `tie_break_swap after ${reason}`;
+					} else if (tieBreak.decision === "keep") {
+						// The driver gets a clean slate to follow the resolution; neither model counts as stuck any more.
+						this.startDriverStint(state, otherAgent(driverId), false);
+					} else {
+						this.broadcastShared("loop_stop", "system", `Stopped at round ${round} because the tie-break ended the implementation rounds.`);
+						finished = true;
+					}
+				}
+				if (swap) {
+					const previousDriver = driverId;
+					const previousSignals = state.adaptive?.signals[previousDriver];
+					state.driverId = otherAgent(driverId);
+					state.swapCount += 1;
+					state.consecutiveRoundsWithDriver = 0;
+					state.consecutiveCheckpointsWithDriver = 0;
+					this.startDriverStint(state, previousDriver, swapDecision.stuck === true);
+					this.broadcastShared(
+						"driver_swap",
+						"system",
+						`Swapped driver from ${previousDriver} to ${state.driverId}. Reason: ${reason}.`,
+					);
+					this.observer?.record({
+						category: "orchestrator",
+						name: "driver_swap",
+						actor: "system",
+						round,
+						details: { from: previousDriver, to: state.driverId, reason, ...(previousSignals ? { signals: previousSignals } : {}) },
+					});
+				}
+			}
+
+			state.nextRound = round + 1;
+			await this.saveCheckpoint({
+				phase: finished ? "final_review" : "execution",
+				task,
+				agreedPlan,
+				rounds,
+				execution: state,
+			});
+			if (finished) {
+				break;
+			}
+		}
+
+		return {
+			rounds,
+			checkpointCount: state.checkpointCount,
+			swapCount: state.swapCount,
+			contributions: state.contributions,
+		};
+	}
+
+	private async runSoloDriverThenReviewerExecution(
+		task: TaskSpec,
+		agreedPlan: string,
+		state: ExecutionState,
+	): Promise<ExecutionResult> {
+		const round = 1;
+		const driverId: AgentId = "A";
+		const reviewerId: AgentId = "B";
+		const driver = this.workers[driverId];
+		const reviewer = this.workers[reviewerId];
+
+		driver.setRole("driver");
+		reviewer.setRole("navigator");
+
+		this.observer?.record({
+			category: "orchestrator",
+			name: "round_start",
+			actor: "system",
+			round,
+			details: { driver: driverId, navigator: reviewerId, mode: "solo_driver_then_reviewer" },
+		});
+
+		const executionTracker = createDriverExecutionTracker({
+			pauseStrategy: this.config.pauseStrategy,
+		});
+
+		const fileChanges: FileLineChange[] = [];
+		const driverReportRaw = await this.runDriverPrompt(
+			{
+				actor: driverId,
+				prompt: buildSoloDriverTurnPrompt({
+					task,
+					agreedPlan,
+					driver: driverId,
+					reviewer: reviewerId,
+					pauseDescription: describePauseStrategy(this.config.pauseStrategy),
+					...this.checklistPromptParam(),
+				}),
+				promptKind: "driver_turn_solo",
+				phase: "driving",
+				round,
+				onEvent: executionTracker.onEvent,
+			},
+			fileChanges,
+		);
+		const driverReport = parseDriverReport(driverReportRaw);
+		this.updateChecklist(driverReport.checklistUpdates, { actor: driverId, role: "driver", driver: driverId, round });
+		this.broadcastShared(
+			"driver_report",
+			driverId,
+			[
+				`Round ${round}`,
+				`Status: ${driverReport.status}`,
+				`Summary: ${driverReport.summary}`,
+				`Changes: ${driverReport.changes}`,
+				`Navigator questions: ${driverReport.questionsForNavigator}`,
+			].join("\n"),
+		);
+
+		const drivingStats = executionTracker.snapshot();
+		const verifications: VerificationResult[] = [];
+		const drivingVerification = await this.runVerification(round, "after_driving");
+		if (drivingVerification) {
+			verifications.push(drivingVerification);
+		}
+		let navigatorReview: NavigatorReview;
+		if (this.budgetReached(round)) {
+			navigatorReview = budgetSkippedReview();
+		} else {
+			const navigatorReviewRaw = await this.runPromptWithObservability({
+				actor: reviewerId,
+				prompt: buildSoloNavigatorReviewPrompt({
+					task,
+					agreedPlan,
+					driver: driverId,
+					reviewer: reviewerId,
+					driverReport: driverReport.raw,
+					checkpointCount: drivingStats.checkpointCount,
+					...(drivingVerification ? { verification: formatVerificationResult(drivingVerification) } : {}),
+					...this.checklistPromptParam(),
+				}),
+				promptKind: "navigator_review_solo",
+				phase: "navigation",
+				round,
+			});
+			navigatorReview = parseNavigatorReview(navigatorReviewRaw);
+			this.rememberPrivately(reviewerId, "navigator_reflection", navigatorReview.privateReflection);
+			this.updateChecklist(navigatorReview.checklistUpdates, { actor: reviewerId, role: "navigator", driver: driverId, round });
+
+			if (navigatorReview.hasFeedback) {
+				this.broadcastShared("navigator_feedback", reviewerId, navigatorReview.publicFeedback);
+			} else {
+				this.broadcastShared("navigator_feedback", reviewerId, "NONE");
+			}
+			this.broadcastShared("navigator_handoff_signal", reviewerId, navigatorReview.driverRecommendation);
+		}
+
+		let driverDecision: DriverDecision | undefined;
+		if (navigatorReview.hasFeedback && !this.budgetReached(round)) {
+			executionTracker.setPhase("feedback_resolution");
+			const driverDecisionRaw = await this.runDriverPrompt(
+				{
+					actor: driverId,
+					prompt: buildDriverDecisionPrompt(navigatorReview.publicFeedback),
+					promptKind: "driver_decision",
+					phase: "feedback_resolution",
+					round,
+					onEvent: executionTracker.onEvent,
+				},
+				fileChanges,
+			);
+			driverDecision = parseDriverDecision(driverDecisionRaw);
+			this.broadcastShared(
+				"driver_decision",
+				driverId,
+				`Decision: ${driverDecision.decision}\nJustification: ${driverDecision.justification}`,
+			);
+			const resolutionVerification = await this.runVerification(round, "after_feedback_resolution");
+			if (resolutionVerification) {
+				verifications.push(resolutionVerification);
+			}
+		}
+
+		const executionStats = executionTracker.snapshot();
+		const roundResult: RoundResult = {
+			round,
+			driver: driverId,
+			navigator: reviewerId,
+			pauseTriggered: executionStats.pauseTriggered,
+			checkpointCount: executionStats.checkpointCount,
+			editWriteCallCount: executionStats.editWriteCallCount,
+			estimatedWrittenBytes: executionStats.estimatedWrittenBytes,
+			toolErrorCount: executionStats.toolErrorCount,
+			driverReport,
+			navigatorReview,
+			...(driverDecision ? { driverDecision } : {}),
+			...(verifications.length > 0 ? { verifications } : {}),
+			fileChanges: mergeFileChanges(fileChanges),
+		};
+		await this.commitRound(roundResult, []);
+
+		this.observer?.record({
+			category: "orchestrator",
+			name: "round_end",
+			actor: "system",
+			round,
+			details: {
+				driverStatus: roundResult.driverReport.status,
+				navigatorHasFeedback: roundResult.navigatorReview.hasFeedback,
+				navigatorRecommendation: roundResult.navigatorReview.driverRecommendation,
+				checkpointCount: roundResult.checkpointCount,
+				editWriteCallCount: roundResult.editWriteCallCount,
+			},
+		});
+		this.broadcastShared(
+			"loop_stop",
+			"system",
+			"Stopped after solo driver pass plus reviewer feedback/integration cycle.",
+		);
 
-		return { swap: false, reason: "continue_same_driver" };
-	}
+		state.driverId = driverId;
+		state.nextRound = round + 1;
+		state.checkpointCount = roundResult.checkpointCount;
+		state.contributions[driverId].roundsDriven = 1;
+		state.contributions[driverId].checkpointsWhileDriving = roundResult.checkpointCount;
+		state.contributions[driverId].editWriteCallCount = roundResult.editWriteCallCount;
+		state.contributions[driverId].estimatedWrittenBytes = roundResult.estimatedWrittenBytes;
+		await this.saveCheckpoint({
+			phase: "final_review",
+			task,
+			agreedPlan,
+			rounds: [roundResult],
+			execution: state,
+		});
 
-	private async runPairedExecution(task: string, agreedPlan: string): Promise<ExecutionResult> {
-		const rounds: RoundResult[] = [];
-		let driverId = this.config.driverStartsAs;
-		let consecutiveRoundsWithDriver = 0;
-		let consecutiveCheckpointsWithDriver = 0;
-		let swapCount = 0;
-		let checkpointCount = 0;
-		const contributions: Record<AgentId, ContributionSummary> = {
-			A: contributionTemplate("A"),
-			B: contributionTemplate("B"),
+		return {
+			rounds: [roundResult],
+			checkpointCount: state.checkpointCount,
+			swapCount: 0,
+			contributions: state.contributions,
+			finalReview: this.synthesizeSoloFinalReview(roundResult),
 		};
+	}
 
-		for (let round = 1; round <= this.config.maxRounds; round += 1) {
+	/**
+	 * `mob`: the rotation picks each round's driver, every other member reviews the turn in parallel, and the driver
+	 * answers their merged feedback once. The loop stops like `paired_turns`: when the driver is done, no navigator has
+	 * feedback and verification passes, or at the round or budget limit.
+	 */
+	private async runMobExecution(
+		task: TaskSpec,
+		agreedPlan: string,
+		rounds: RoundResult[],
+		state: ExecutionState,
+	): Promise<ExecutionResult> {
+		const rotation = this.config.mob?.rotation ?? "round_robin";
+		for (let round = state.nextRound; round <= this.config.maxRounds; round += 1) {
+			if (this.budgetReached(round)) {
+				this.budgetLoopStop(`before round ${round}`);
+				await this.saveCheckpoint({ phase: "final_review", task, agreedPlan, rounds, execution: state });
+				break;
+			}
+			const driverId = nextMobDriver({
+				roster: this.roster,
+				rotation,
+				round,
+				firstDriver: this.config.driverStartsAs,
+				attribution: this.ledger.attribution(),
+				contributions: state.contributions,
+			});
+			const navigatorIds = mobNavigators(this.roster, driverId);
+			const previousDriver = rounds.at(-1)?.driver;
+			if (previousDriver && previousDriver !== driverId) {
+				state.swapCount += 1;
+				this.broadcastShared("driver_swap", "system", `Rotated driver from ${previousDriver} to ${driverId}. Reason: ${rotation}.`);
+				this.observer?.record({
+					category: "orchestrator",
+					name: "driver_swap",
+					actor: "system",
+					round,
+					details: { from: previousDriver, to: driverId, reason: rotation },
+				});
+			}
 			this.observer?.record({
 				category: "orchestrator",
 				name: "round_start",
 				actor: "system",
 				round,
-				details: { driver: driverId, navigator: otherAgent(driverId) },
+				details: { driver: driverId, navigators: navigatorIds, mode: "mob" },
 			});
 
-			const result = await this.runRound(task, agreedPlan, round, driverId);
+			const result = await this.runMobRound(task, agreedPlan, round, driverId, navigatorIds, await this.roundSnapshot());
 			rounds.push(result);
-			checkpointCount += result.checkpointCount;
-			consecutiveRoundsWithDriver += 1;
-			consecutiveCheckpointsWithDriver += result.checkpointCount;
-			contributions[driverId].roundsDriven += 1;
-			contributions[driverId].checkpointsWhileDriving += result.checkpointCount;
-			contributions[driverId].editWriteCallCount += result.editWriteCallCount;
-			contributions[driverId].estimatedWrittenBytes += result.estimatedWrittenBytes;
+			const contribution = (state.contributions[driverId] ??= contributionTemplate(driverId));
+			state.checkpointCount += result.checkpointCount;
+			contribution.roundsDriven += 1;
+			contribution.checkpointsWhileDriving += result.checkpointCount;
+			contribution.editWriteCallCount += result.editWriteCallCount;
+			contribution.estimatedWrittenBytes += result.estimatedWrittenBytes;
+			const verification = latestVerification(result);
 
 			this.observer?.record({
 				category: "orchestrator",
@@ -508,87 +2522,107 @@ export class PairProgrammingOrchestrator {
 					navigatorRecommendation: result.navigatorReview.driverRecommendation,
 					checkpointCount: result.checkpointCount,
 					editWriteCallCount: result.editWriteCallCount,
+					...(verification ? { verificationPassed: verification.passed } : {}),
+					...(result.reverted ? { reverted: true } : {}),
 				},
 			});
 
-			const shouldStop = result.driverReport.status === "done" && !result.navigatorReview.hasFeedback;
-			if (shouldStop) {
-				this.broadcastShared("loop_stop", "system", `Stopped at round ${round} because driver signaled done and navigator had no feedback.`);
-				break;
+			let finished = false;
+			const mobSignedOff =
+				result.driverReport.status === "done" &&
+				!result.navigatorReview.hasFeedback &&
+				result.navigatorReview.driverRecommendation !== "revert";
+			const verificationFailing = verification?.passed === false;
+			const budgetExhausted = this.budgetReached(round);
+			if (mobSignedOff && verificationFailing && !budgetExhausted) {
+				this.broadcastShared(
+					"loop_continue",
+					"system",
+					`Round ${round}: driver signaled done and no navigator had feedback, but verification is failing. Continuing.`,
+				);
 			}
-
-			if (round === this.config.maxRounds) {
+			if (budgetExhausted) {
+				this.budgetLoopStop(`at round ${round}`);
+				finished = true;
+			} else if (mobSignedOff && !verificationFailing) {
+				this.broadcastShared("loop_stop", "system", `Stopped at round ${round} because driver signaled done and no navigator had feedback.`);
+				finished = true;
+			} else if (round === this.config.maxRounds) {
 				this.broadcastShared("loop_stop", "system", `Reached max rounds (${this.config.maxRounds}).`);
-				break;
+				finished = true;
 			}
 
-			const swapDecision = this.shouldSwapDriver(result, consecutiveRoundsWithDriver, consecutiveCheckpointsWithDriver);
-			if (swapDecision.swap) {
-				const previousDriver = driverId;
-				driverId = otherAgent(driverId);
-				swapCount += 1;
-				consecutiveRoundsWithDriver = 0;
-				consecutiveCheckpointsWithDriver = 0;
-				this.broadcastShared(
-					"driver_swap",
-					"system",
-					`Swapped driver from ${previousDriver} to ${driverId}. Reason: ${swapDecision.reason}.`,
-				);
-				this.observer?.record({
-					category: "orchestrator",
-					name: "driver_swap",
-					actor: "system",
-					round,
-					details: { from: previousDriver, to: driverId, reason: swapDecision.reason },
-				});
+			state.nextRound = round + 1;
+			await this.saveCheckpoint({
+				phase: finished ? "final_review" : "execution",
+				task,
+				agreedPlan,
+				rounds,
+				execution: state,
+			});
+			if (finished) {
+				break;
 			}
 		}
 
 		return {
 			rounds,
-			checkpointCount,
-			swapCount,
-			contributions,
+			checkpointCount: state.checkpointCount,
+			swapCount: state.swapCount,
+			contributions: state.contributions,
 		};
 	}
 
-	private async runSoloDriverThenReviewerExecution(task: string, agreedPlan: string): Promise<ExecutionResult> {
-		const round = 1;
-		const driverId: AgentId = "A";
-		const reviewerId: AgentId = "B";
-		const driver = this.workers[driverId];
-		const reviewer = this.workers[reviewerId];
-
-		driver.setRole("driver");
-		reviewer.setRole("navigator");
-
-		this.observer?.record({
-			category: "orchestrator",
-			name: "round_start",
-			actor: "system",
-			round,
-			details: { driver: driverId, navigator: reviewerId, mode: "solo_driver_then_reviewer" },
-		});
+	/**
+	 * One mob round. The driver is never paused at checkpoints, since several navigators cannot share one mid-turn
+	 * review; checkpoints are still counted. A rejected decision stands: the dispute protocol is for a single navigator.
+	 */
+	private async runMobRound(
+		task: TaskSpec,
+		agreedPlan: string,
+		round: number,
+		driverId: MemberId,
+		navigatorIds: MemberId[],
+		snapshot: WorkspaceSnapshot,
+	): Promise<RoundResult> {
+		this.workerFor(driverId).setRole("driver");
+		for (const navigatorId of navigatorIds) {
+			this.workerFor(navigatorId).setRole("navigator");
+		}
 
+		const rotationDescription = describeMobRotation(this.config.mob?.rotation ?? "round_robin", this.roster);
+		const openStep = this.checklist.nextOpenStep();
+		const focusStep = openStep ? { id: openStep.id, description: openStep.text } : undefined;
 		const executionTracker = createDriverExecutionTracker({
 			pauseStrategy: this.config.pauseStrategy,
 		});
 
-		const driverReportRaw = await this.runPromptWithObservability({
-			actor: driverId,
-			prompt: buildSoloDriverTurnPrompt({
-				task,
-				agreedPlan,
-				driver: driverId,
-				reviewer: reviewerId,
-				pauseDescription: describePauseStrategy(this.config.pauseStrategy),
-			}),
-			promptKind: "driver_turn_solo",
-			phase: "driving",
-			round,
-			onEvent: executionTracker.onEvent,
-		});
+		const fileChanges: FileLineChange[] = [];
+		await this.ledger.capture("system");
+		const ledgerBefore = this.ledger.exportState();
+		const checklistBefore = this.checklist.exportState();
+		const driverReportRaw = await this.runDriverPrompt(
+			{
+				actor: driverId,
+				prompt: buildMobDriverTurnPrompt({
+					task,
+					agreedPlan,
+					round,
+					driver: driverId,
+					navigators: navigatorIds,
+					rotationDescription,
+					...this.checklistPromptParam(),
+					...(focusStep ? { focusStep } : {}),
+				}),
+				promptKind: "driver_turn_mob",
+				phase: "driving",
+				round,
+				onEvent: executionTracker.onEvent,
+			},
+			fileChanges,
+		);
 		const driverReport = parseDriverReport(driverReportRaw);
+		this.updateChecklist(driverReport.checklistUpdates, { actor: driverId, role: "driver", driver: driverId, round });
 		this.broadcastShared(
 			"driver_report",
 			driverId,
@@ -600,238 +2634,510 @@ export class PairProgrammingOrchestrator {
 				`Navigator questions: ${driverReport.questionsForNavigator}`,
 			].join("\n"),
 		);
+		const verifications: VerificationResult[] = [];
+		const drivingVerification = await this.runVerification(round, "after_driving");
+		if (drivingVerification) {
+			verifications.push(drivingVerification);
+		}
 
-		const drivingStats = executionTracker.snapshot();
-		const navigatorReviewRaw = await this.runPromptWithObservability({
-			actor: reviewerId,
-			prompt: buildSoloNavigatorReviewPrompt({
-				task,
-				agreedPlan,
-				driver: driverId,
-				reviewer: reviewerId,
-				driverReport: driverReport.raw,
-				checkpointCount: drivingStats.checkpointCount,
-			}),
-			promptKind: "navigator_review_solo",
-			phase: "navigation",
-			round,
-		});
-		const navigatorReview = parseNavigatorReview(navigatorReviewRaw);
-		reviewer.appendPrivateMemory(navigatorReview.privateReflection);
-
-		if (navigatorReview.hasFeedback) {
-			this.broadcastShared("navigator_feedback", reviewerId, navigatorReview.publicFeedback);
+		let navigatorReviews: MobNavigatorReview[] = [];
+		let navigatorReview: NavigatorReview;
+		if (this.budgetReached(round)) {
+			navigatorReview = budgetSkippedReview();
 		} else {
-			this.broadcastShared("navigator_feedback", reviewerId, "NONE");
+			const checklist = this.checklistPromptParam();
+			// Journal entries wait until every review is back, so no navigator's context changes during its prompt.
+			navigatorReviews = await Promise.all(
+				navigatorIds.map(async (navigatorId): Promise<MobNavigatorReview> => {
+					const raw = await this.runPromptWithObservability({
+						actor: navigatorId,
+						prompt: buildMobNavigatorReviewPrompt({
+							task,
+							agreedPlan,
+							round,
+							driver: driverId,
+							navigator: navigatorId,
+							otherNavigators: navigatorIds.filter((id) => id !== navigatorId),
+							driverReport: driverReport.raw,
+							rotationDescription,
+							...(drivingVerification ? { verification: formatVerificationResult(drivingVerification) } : {}),
+							...checklist,
+							...(focusStep ? { focusStep } : {}),
+						}),
+						promptKind: "navigator_review_mob",
+						phase: "navigation",
+						round,
+					});
+					return { navigator: navigatorId, review: parseNavigatorReview(raw) };
+				}),
+			);
+			for (const { navigator, review } of navigatorReviews) {
+				this.rememberPrivately(navigator, "navigator_reflection", review.privateReflection);
+				this.updateChecklist(review.checklistUpdates, { actor: navigator, role: "navigator", driver: driverId, round });
+				this.broadcastShared("navigator_feedback", navigator, review.hasFeedback ? review.publicFeedback : "NONE");
+			}
+			navigatorReview = mergeNavigatorReviews(navigatorReviews);
+			this.observer?.record({
+				category: "orchestrator",
+				name: "mob_feedback_merged",
+				actor: "system",
+				round,
+				details: {
+					navigators: navigatorIds,
+					withFeedback: navigatorReviews.filter(({ review }) => review.hasFeedback).map(({ navigator }) => navigator),
+					recommendation: navigatorReview.driverRecommendation,
+				},
+			});
 		}
-		this.broadcastShared("navigator_handoff_signal", reviewerId, navigatorReview.driverRecommendation);
 
 		let driverDecision: DriverDecision | undefined;
-		if (navigatorReview.hasFeedback) {
+		let reverted = false;
+		const revertRequested = navigatorReview.driverRecommendation === "revert";
+		if ((navigatorReview.hasFeedback || revertRequested) && !this.budgetReached(round)) {
 			executionTracker.setPhase("feedback_resolution");
-			const driverDecisionRaw = await this.runPromptWithObservability({
-				actor: driverId,
-				prompt: buildDriverDecisionPrompt(navigatorReview.publicFeedback),
-				promptKind: "driver_decision",
-				phase: "feedback_resolution",
-				round,
-				onEvent: executionTracker.onEvent,
-			});
+			const driverDecisionRaw = await this.runDriverPrompt(
+				{
+					actor: driverId,
+					prompt: buildMobDriverDecisionPrompt(navigatorReview.publicFeedback, revertRequested),
+					promptKind: "driver_decision",
+					phase: "feedback_resolution",
+					round,
+					onEvent: executionTracker.onEvent,
+				},
+				fileChanges,
+			);
 			driverDecision = parseDriverDecision(driverDecisionRaw);
 			this.broadcastShared(
 				"driver_decision",
 				driverId,
 				`Decision: ${driverDecision.decision}\nJustification: ${driverDecision.justification}`,
 			);
+			if (revertRequested && driverDecision.decision === "accept") {
+				await this.revertRound({
+					round,
+					driver: driverId,
+					navigators: navigatorReviews
+						.filter(({ review }) => review.driverRecommendation === "revert")
+						.map(({ navigator }) => navigator),
+					snapshot,
+					ledgerBefore,
+					checklistBefore,
+					fileChanges,
+					driverSummary: driverReport.summary,
+				});
+				reverted = true;
+			}
+			const resolutionVerification = await this.runVerification(round, "after_feedback_resolution");
+			if (resolutionVerification) {
+				verifications.push(resolutionVerification);
+			}
 		}
 
 		const executionStats = executionTracker.snapshot();
-		const roundResult: RoundResult = {
+		const result: RoundResult = {
 			round,
 			driver: driverId,
-			navigator: reviewerId,
+			navigator: navigatorIds[0] ?? driverId,
 			pauseTriggered: executionStats.pauseTriggered,
 			checkpointCount: executionStats.checkpointCount,
 			editWriteCallCount: executionStats.editWriteCallCount,
 			estimatedWrittenBytes: executionStats.estimatedWrittenBytes,
+			toolErrorCount: executionStats.toolErrorCount,
 			driverReport,
 			navigatorReview,
+			...(navigatorReviews.length > 0 ? { navigatorReviews } : {}),
+			...(focusStep ? { focusStep: focusStep.id } : {}),
 			...(driverDecision ? { driverDecision } : {}),
+			...(verifications.length > 0 ? { verifications } : {}),
+			fileChanges: mergeFileChanges(fileChanges),
+			...(reverted ? { reverted } : {}),
 		};
-
-		this.observer?.record({
-			category: "orchestrator",
-			name: "round_end",
-			actor: "system",
-			round,
-			details: {
-				driverStatus: roundResult.driverReport.status,
-				navigatorHasFeedback: roundResult.navigatorReview.hasFeedback,
-				navigatorRecommendation: roundResult.navigatorReview.driverRecommendation,
-				checkpointCount: roundResult.checkpointCount,
-				editWriteCallCount: roundResult.editWriteCallCount,
-			},
-		});
-		this.broadcastShared(
-			"loop_stop",
-			"system",
-			"Stopped after solo driver pass plus reviewer feedback/integration cycle.",
-		);
-
-		const contributions: Record<AgentId, ContributionSummary> = {
-			A: contributionTemplate("A"),
-			B: contributionTemplate("B"),
-		};
-		contributions[driverId].roundsDriven = 1;
-		contributions[driverId].checkpointsWhileDriving = roundResult.checkpointCount;
-		contributions[driverId].editWriteCallCount = roundResult.editWriteCallCount;
-		contributions[driverId].estimatedWrittenBytes = roundResult.estimatedWrittenBytes;
-
-		return {
-			rounds: [roundResult],
-			checkpointCount: roundResult.checkpointCount,
-			swapCount: 0,
-			contributions,
-			finalReview: this.synthesizeSoloFinalReview(roundResult),
-		};
+		await this.commitRound(result, []);
+		return result;
 	}
 
+	/** Code share is measured by changed lines, else by written bytes, else by rounds driven, whichever is non-zero first. */
 	private buildSummary(
-		contributions: Record<AgentId, ContributionSummary>,
+		contributions: MemberRecord<ContributionSummary>,
 		checkpointCount: number,
 		swapCount: number,
 	): RunSummary {
-		const totalEstimatedWrittenBytes = contributions.A.estimatedWrittenBytes + contributions.B.estimatedWrittenBytes;
-
-		if (totalEstimatedWrittenBytes > 0) {
-			contributions.A.roughCodeSharePercent = roundPercent((contributions.A.estimatedWrittenBytes / totalEstimatedWrittenBytes) * 100);
-			contributions.B.roughCodeSharePercent = roundPercent((contributions.B.estimatedWrittenBytes / totalEstimatedWrittenBytes) * 100);
-		} else {
-			const totalDrivenRounds = contributions.A.roundsDriven + contributions.B.roundsDriven;
-			if (totalDrivenRounds > 0) {
-				contributions.A.roughCodeSharePercent = roundPercent((contributions.A.roundsDriven / totalDrivenRounds) * 100);
-				contributions.B.roughCodeSharePercent = roundPercent((contributions.B.roundsDriven / totalDrivenRounds) * 100);
-			} else {
-				contributions.A.roughCodeSharePercent = 0;
-				contributions.B.roughCodeSharePercent = 0;
-			}
+		const attribution = this.ledger.attribution();
+		const members = memberEntries(contributions).map(([agent, contribution]) => Object.assign(contribution, attribution[agent]));
+		const total = (measure: (agent: ContributionSummary) => number): number =>
+			members.reduce((sum, contribution) => sum + measure(contribution), 0);
+		const totalEstimatedWrittenBytes = total((agent) => agent.estimatedWrittenBytes);
+		const totalLinesAdded = total((agent) => agent.linesAdded);
+		const totalLinesRemoved = total((agent) => agent.linesRemoved);
+		const churn = (agent: ContributionSummary): number => agent.linesAdded + agent.linesRemoved;
+
+		const share =
+			totalLinesAdded + totalLinesRemoved > 0
+				? churn
+				: totalEstimatedWrittenBytes > 0
+					? (agent: ContributionSummary) => agent.estimatedWrittenBytes
+					: (agent: ContributionSummary) => agent.roundsDriven;
+		const totalShare = total(share);
+		for (const contribution of members) {
+			contribution.roughCodeSharePercent = totalShare > 0 ? roundPercent((share(contribution) / totalShare) * 100) : 0;
 		}
 
 		return {
 			checkpointCount,
 			swapCount,
 			totalEstimatedWrittenBytes,
+			totalLinesAdded,
+			totalLinesRemoved,
 			contributions,
+			...(this.budgetStop ? { budgetExhausted: this.budgetStop } : {}),
+			providerRetries: this.providerRetries,
+			failovers: [...this.failovers],
+			compactions: [...this.compactions],
 		};
 	}
 
-	private async finalReview(task: string, agreedPlan: string): Promise<FinalReview> {
-		this.workers.A.setRole("navigator");
-		this.workers.B.setRole("navigator");
+	/**
+	 * Every member reviews: the pair one after the other, a mob side by side. The arbiter, when configured, writes the
+	 * joint verdict instead of Model A.
+	 */
+	private async finalReview(task: TaskSpec, agreedPlan: string, rounds: RoundResult[]): Promise<FinalReview> {
+		this.navigateAll();
+
+		const review = async (actor: MemberId): Promise<MobNavigatorReview> => {
+			const raw = await this.runPromptWithObservability({
+				actor,
+				prompt: buildFinalReviewPrompt(task, agreedPlan, this.checklistPromptParam().checklist),
+				promptKind: "final_review",
+				phase: "final_review",
+			});
+			return { navigator: actor, review: parseNavigatorReview(raw) };
+		};
+		const reviews: MobNavigatorReview[] = [];
+		if (this.config.executionMode === "mob") {
+			reviews.push(...(await Promise.all(this.roster.map(review))));
+		} else {
+			for (const actor of this.roster) {
+				reviews.push(await review(actor));
+			}
+		}
 
-		const reviewARaw = await this.runPromptWithObservability({
-			actor: "A",
-			prompt: buildFinalReviewPrompt(task, agreedPlan),
-			promptKind: "final_review",
+		for (const { navigator, review: memberReview } of reviews) {
+			this.rememberPrivately(navigator, "final_review", memberReview.privateReflection);
+		}
+		for (const { navigator, review: memberReview } of reviews) {
+			this.broadcastShared(`final_review_${navigator}`, navigator, memberReview.publicFeedback);
+		}
+		const acceptance = this.checkAcceptance(
+			task,
+			reviews.map(({ navigator, review: memberReview }) => ({ actor: navigator, review: memberReview })),
+		);
+
+		const decidedBy: WorkerId = this.arbiter ? "arbiter" : "A";
+		const synthesisRaw = await this.runPromptWithObservability({
+			actor: decidedBy,
+			prompt: buildJointSynthesisPrompt(
+				reviews.map(({ navigator, review: memberReview }) => ({ reviewer: navigator, feedback: memberReview.publicFeedback })),
+				acceptance?.filter((check) => !check.met).map((check) => check.criterion),
+				this.arbiter ? { task, agreedPlan, rounds } : undefined,
+			),
+			promptKind: "joint_synthesis",
 			phase: "final_review",
 		});
-		const reviewBRaw = await this.runPromptWithObservability({
-			actor: "B",
-			prompt: buildFinalReviewPrompt(task, agreedPlan),
-			promptKind: "final_review",
-			phase: "final_review",
+		const synthesis = this.gateVerdictOnAcceptance(parseJointVerdict(synthesisRaw), acceptance);
+		if (this.arbiter) {
+			this.observer?.record({
+				category: "orchestrator",
+				name: "arbiter_verdict",
+				actor: "arbiter",
+				details: {
+					model: `${this.arbiter.modelSpec.provider}/${this.arbiter.modelSpec.modelId}`,
+					jointVerdict: synthesis.jointVerdict,
+				},
+			});
+		}
+		this.broadcastShared(
+			"joint_verdict",
+			decidedBy,
+			`Verdict: ${synthesis.jointVerdict}\nRationale: ${synthesis.rationale}\nNext steps: ${synthesis.nextSteps}`,
+		);
+
+		return {
+			...finalReviewsByMember(reviews),
+			jointVerdict: synthesis.jointVerdict,
+			rationale: synthesis.rationale,
+			nextSteps: synthesis.nextSteps,
+			...(acceptance ? { acceptance } : {}),
+			decidedBy,
+			raw: synthesis.raw,
+		};
+	}
+
+	/** Reads every reviewer's per-criterion verdicts. A criterion only counts as met when all reviewers agree. */
+	private checkAcceptance(
+		task: TaskSpec,
+		reviews: Array<{ actor: MemberId; review: NavigatorReview }>,
+	): AcceptanceCheck[] | undefined {
+		if (task.acceptanceCriteria.length === 0) {
+			return undefined;
+		}
+		for (const { review } of reviews) {
+			review.acceptanceChecks = parseAcceptanceCheck(review.raw, task.acceptanceCriteria);
+		}
+		const combined = task.acceptanceCriteria.map((criterion, index) => {
+			const verdicts = reviews.map(({ actor, review }) => ({ actor, check: review.acceptanceChecks?.[index] }));
+			return {
+				criterion,
+				met: verdicts.every(({ check }) => check?.met === true),
+				note: verdicts
+					.map(({ actor, check }) => `${actor} ${check?.met ? "met" : "unmet"}${check?.note ? `: ${check.note}` : ""}`)
+					.join("; "),
+			};
+		});
+		const metCount = combined.filter((check) => check.met).length;
+		this.observer?.record({
+			category: "orchestrator",
+			name: "acceptance_checked",
+			actor: "system",
+			details: { met: metCount, total: combined.length, reviewers: reviews.map(({ actor }) => actor) },
 		});
+		this.broadcastShared("acceptance_check", "system", formatAcceptance(combined));
+		return combined;
+	}
 
-		const reviewA = parseNavigatorReview(reviewARaw);
-		const reviewB = parseNavigatorReview(reviewBRaw);
-		this.workers.A.appendPrivateMemory(reviewA.privateReflection);
-		this.workers.B.appendPrivateMemory(reviewB.privateReflection);
+	/** An APPROVED verdict cannot stand while an acceptance criterion is unmet, just as `done` cannot while verification fails. */
+	private gateVerdictOnAcceptance<T extends Pick<FinalReview, "jointVerdict" | "rationale" | "nextSteps">>(
+		synthesis: T,
+		acceptance: AcceptanceCheck[] | undefined,
+	): T {
+		const unmet = acceptance?.filter((check) => !check.met) ?? [];
+		if (synthesis.jointVerdict !== "APPROVED" || unmet.length === 0) {
+			return synthesis;
+		}
+		this.observer?.record({
+			category: "orchestrator",
+			name: "verdict_overridden",
+			actor: "system",
+			details: { reason: "acceptance_criteria_unmet", unmet: unmet.map((check) => check.criterion) },
+		});
+		return {
+			...synthesis,
+			jointVerdict: "NEEDS_MORE_WORK",
+			rationale: `${synthesis.rationale}\nOverridden to NEEDS_MORE_WORK: ${unmet.length} acceptance criteria unmet.`,
+			nextSteps: unmet.map((check) => `Meet acceptance criterion: ${check.criterion}`).join("\n"),
+		};
+	}
 
-		this.broadcastShared("final_review_A", "A", reviewA.publicFeedback);
-		this.broadcastShared("final_review_B", "B", reviewB.publicFeedback);
+	/** One combined review-and-verdict prompt instead of two reviews plus a synthesis. */
+	private async budgetFinalReview(task: TaskSpec, agreedPlan: string, reviewerId: MemberId): Promise<FinalReview> {
+		this.navigateAll();
 
-		const synthesisRaw = await this.runPromptWithObservability({
-			actor: "A",
-			prompt: buildJointSynthesisPrompt(reviewA.publicFeedback, reviewB.publicFeedback),
-			promptKind: "joint_synthesis",
+		const exhaustion = this.budgetStop;
+		const raw = await this.runPromptWithObservability({
+			actor: reviewerId,
+			prompt: buildBudgetFinalReviewPrompt(task, agreedPlan, exhaustion ? describeBudgetExhaustion(exhaustion) : "budget cap reached"),
+			promptKind: "final_review_budget",
 			phase: "final_review",
 		});
-		const synthesis = parseJointVerdict(synthesisRaw);
+		const review = parseNavigatorReview(raw);
+		this.rememberPrivately(reviewerId, "final_review", review.privateReflection);
+		this.broadcastShared(`final_review_${reviewerId}`, reviewerId, review.publicFeedback);
+		const acceptance = this.checkAcceptance(task, [{ actor: reviewerId, review }]);
+
+		const synthesis = this.gateVerdictOnAcceptance(parseJointVerdict(raw), acceptance);
 		this.broadcastShared(
 			"joint_verdict",
-			"A",
+			reviewerId,
 			`Verdict: ${synthesis.jointVerdict}\nRationale: ${synthesis.rationale}\nNext steps: ${synthesis.nextSteps}`,
 		);
 
 		return {
-			reviewA,
-			reviewB,
+			...finalReviewsByMember([{ navigator: reviewerId, review }]),
 			jointVerdict: synthesis.jointVerdict,
 			rationale: synthesis.rationale,
 			nextSteps: synthesis.nextSteps,
+			...(acceptance ? { acceptance } : {}),
+			decidedBy: reviewerId,
 			raw: synthesis.raw,
 		};
 	}
 
-	async run(task: string): Promise<PairRunResult> {
-		let status: "completed" | "failed" = "completed";
+	async run(task: string | TaskSpec): Promise<PairRunResult> {
+		return await this.execute(typeof task === "string" ? taskSpecFromText(task) : task);
+	}
+
+	async resume(checkpoint: SessionCheckpoint): Promise<PairRunResult> {
+		if (checkpoint.phase === "completed") {
+			throw new Error(`Session ${checkpoint.sessionId} already completed; nothing to resume.`);
+		}
+		return await this.execute(checkpoint.taskSpec ?? taskSpecFromText(checkpoint.task), checkpoint);
+	}
+
+	/** Returns the workspace paths that changed after the checkpoint was saved. */
+	private async restoreCheckpoint(checkpoint: SessionCheckpoint): Promise<string[]> {
+		this.createdAt = checkpoint.createdAt;
+		this.sharedJournal.push(...checkpoint.sharedJournal);
+		for (const [member, snapshot] of memberEntries(checkpoint.workers)) {
+			this.workers[member]?.restore(snapshot);
+		}
+		const changedPaths = await this.ledger.restore(checkpoint.ledger);
+		// Checkpoints written before typed plans existed only have the plan text.
+		this.plan = checkpoint.plan ?? parsePlan(checkpoint.agreedPlan, "agreed_plan").plan;
+		this.planNegotiation = checkpoint.planNegotiation;
+		if (checkpoint.checklist) {
+			this.checklist.restore(checkpoint.checklist);
+		}
+		if (checkpoint.spend) {
+			addTokenUsage(this.spend, checkpoint.spend);
+		}
+		if (checkpoint.elapsedMs !== undefined) {
+			this.runStartedAt -= checkpoint.elapsedMs;
+		}
+		const downgrade = this.config.budget?.navigatorDowngrade;
+		if (checkpoint.navigatorDowngraded && downgrade) {
+			this.navigatorDowngraded = true;
+			for (const member of this.roster) {
+				this.workerFor(member).setNavigatorThinkingLevel(downgrade.thinkingLevel);
+			}
+		}
+		return changedPaths;
+	}
+
+	private async execute(task: TaskSpec, checkpoint?: SessionCheckpoint): Promise<PairRunResult> {
+		let status: SessionStatus = "completed";
 		let failureMessage: string | undefined;
 		let observabilitySummary: PairRunResult["observability"];
 		let resultCore:
 			| {
 					task: string;
+					taskSpec: TaskSpec;
 					agreedPlan: string;
+					plan: Plan;
 					rounds: RoundResult[];
+					disputes: Dispute[];
 					finalReview: FinalReview;
+					checklist: ChecklistItem[];
 					summary: RunSummary;
 					sharedJournal: SharedEntry[];
 			  }
 			| undefined;
+		const soloMode = this.config.executionMode === "solo_driver_then_reviewer";
+		const mobMode = this.config.executionMode === "mob";
 
 		try {
+			this.runStartedAt = Date.now();
 			this.observer?.record({
 				category: "session",
-				name: "session_start",
+				name: checkpoint ? "session_resume" : "session_start",
 				actor: "system",
 				details: {
-					taskLength: task.length,
+					taskLength: task.description.length,
+					acceptanceCriteria: task.acceptanceCriteria.length,
 					maxRounds: this.config.maxRounds,
 					executionMode: this.config.executionMode,
 					turnPolicy: this.config.turnPolicy.mode,
 					pausePolicy: this.config.pauseStrategy.mode,
+					...(this.sessionStore ? { sessionId: this.sessionStore.sessionId } : {}),
+					...(checkpoint ? { resumedPhase: checkpoint.phase, resumedNextRound: checkpoint.execution.nextRound } : {}),
 				},
 			});
-			this.broadcastShared("task", "system", task);
-
-			const agreedPlan =
-				this.config.executionMode === "solo_driver_then_reviewer"
-					? await this.soloPlanning(task)
-					: await this.collaborativePlanning(task);
-			const execution =
-				this.config.executionMode === "solo_driver_then_reviewer"
-					? await this.runSoloDriverThenReviewerExecution(task, agreedPlan)
-					: await this.runPairedExecution(task, agreedPlan);
-			const finalReview = execution.finalReview ?? (await this.finalReview(task, agreedPlan));
+
+			await this.prepareCommits(checkpoint !== undefined);
+			const rounds: RoundResult[] = checkpoint ? [...checkpoint.rounds] : [];
+			const state = checkpoint
+				? structuredClone(checkpoint.execution)
+				: initialExecutionState(this.config.driverStartsAs, this.roster);
+			if (checkpoint) {
+				const changedPaths = await this.restoreCheckpoint(checkpoint);
+				this.broadcastShared(
+					"session_resumed",
+					"system",
+					(checkpoint.phase !== "execution"
+						? `Session resumed from checkpoint at phase ${checkpoint.phase}.`
+						: mobMode
+							? `Session resumed from checkpoint. Continuing at round ${state.nextRound}.`
+							: `Session resumed from checkpoint. Continuing at round ${state.nextRound} with Model ${state.driverId} driving.`) +
+						describeLeftovers(changedPaths),
+				);
+			} else {
+				await this.loadLessons();
+				this.broadcastShared("task", "system", formatTask(task));
+				await this.saveCheckpoint({ phase: "planning", task, agreedPlan: "", rounds, execution: state });
+			}
+
+			let agreedPlan = checkpoint?.agreedPlan ?? "";
+			if (!checkpoint || checkpoint.phase === "planning") {
+				const agreed = soloMode ? await this.soloPlanning(task) : await this.collaborativePlanning(task);
+				this.plan = agreed.plan;
+				this.planNegotiation = agreed.negotiation;
+				agreedPlan = agreed.text;
+				this.createChecklist(task);
+				await this.saveCheckpoint({ phase: "execution", task, agreedPlan, rounds, execution: state });
+			} else if (!checkpoint.checklist) {
+				// Checkpoints written before checklists existed start tracking from the agreed plan.
+				this.createChecklist(task);
+			}
+
+			let execution: ExecutionResult;
+			if (checkpoint?.phase === "final_review") {
+				execution = {
+					rounds,
+					checkpointCount: state.checkpointCount,
+					swapCount: state.swapCount,
+					contributions: state.contributions,
+				};
+			} else {
+				execution = soloMode
+					? await this.runSoloDriverThenReviewerExecution(task, agreedPlan, state)
+					: mobMode
+						? await this.runMobExecution(task, agreedPlan, rounds, state)
+						: await this.runPairedExecution(task, agreedPlan, rounds, state);
+			}
+
+			const soloRound = execution.rounds[0];
+			let finalReview = execution.finalReview;
+			if (!finalReview && soloMode && soloRound) {
+				finalReview = this.synthesizeSoloFinalReview(soloRound);
+			} else if (!finalReview && this.budgetReached()) {
+				finalReview = await this.budgetFinalReview(task, agreedPlan, execution.rounds.at(-1)?.navigator ?? "B");
+			} else if (!finalReview) {
+				finalReview = await this.finalReview(task, agreedPlan, execution.rounds);
+			}
+			await this.saveCheckpoint({
+				phase: "completed",
+				task,
+				agreedPlan,
+				rounds: execution.rounds,
+				execution: state,
+				finalReview,
+			});
 			const summary = this.buildSummary(execution.contributions, execution.checkpointCount, execution.swapCount);
 			resultCore = {
-				task,
+				task: task.description,
+				taskSpec: task,
 				agreedPlan,
+				plan: this.plan,
+				...(this.planNegotiation ? { planNegotiation: this.planNegotiation } : {}),
 				rounds: execution.rounds,
+				disputes: execution.rounds.flatMap((round) => (round.dispute ? [round.dispute] : [])),
 				finalReview,
+				checklist: this.checklist.exportState(),
 				summary,
 				sharedJournal: [...this.sharedJournal],
 			};
 		} catch (error) {
-			status = "failed";
+			status = this.signal?.aborted ? "cancelled" : "failed";
 			failureMessage = error instanceof Error ? error.message : String(error);
 			this.observer?.record({
 				category: "session",
-				name: "session_error",
+				name: status === "cancelled" ? "session_cancelled" : "session_error",
 				actor: "system",
 				details: { message: failureMessage },
 			});
 			throw error;
 		} finally {
+			await this.snapshot?.discard();
+			this.snapshot = undefined;
+			await this.saveMemories();
 			observabilitySummary = this.observer ? await this.observer.flush(status, failureMessage) : undefined;
 		}
 
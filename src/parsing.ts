@@ -1,4 +1,16 @@
-import type { DriverDecision, DriverReport, FinalReview, NavigatorReview } from "./types.js";
+import type {
+	AcceptanceCheck,
+	ChecklistStatus,
+	ChecklistUpdate,
+	DriverDecision,
+	DriverReport,
+	FinalReview,
+	NavigatorReview,
+	Plan,
+	PlanReview,
+	PlanStepSource,
+	TieBreak,
+} from "./types.js";
 
 export function extractTag(text: string, tag: string): string | undefined {
 	const pattern = new RegExp(`<${tag}>([\\s\\S]*?)<\\/${tag}>`, "i");
@@ -6,6 +18,28 @@ export function extractTag(text: string, tag: string): string | undefined {
 	return match?.[1]?.trim();
 }
 
+const CHECKLIST_STATUSES: Record<string, ChecklistStatus> = {
+	pending: "pending",
+	in_progress: "in_progress",
+	"in progress": "in_progress",
+	done: "done",
+	disputed: "disputed",
+};
+
+/** Reads `N: status - note` lines from <checklist_update>. Lines naming an unknown status are skipped. */
+export function parseChecklistUpdates(raw: string): ChecklistUpdate[] {
+	const updates: ChecklistUpdate[] = [];
+	for (const line of (extractTag(raw, "checklist_update") ?? "").split("\n")) {
+		const match = line.trim().match(/^#?(\d+)[.):]?\s*(in[ _]progress|pending|done|disputed)\b\s*[-\u2013\u2014:]?\s*(.*)$/i);
+		const status = match ? CHECKLIST_STATUSES[(match[2] ?? "").toLowerCase()] : undefined;
+		if (match && status) {
+			const note = match[3]?.trim();
+			updates.push({ id: Number(match[1]), status, ...(note ? { note } : {}) });
+		}
+	}
+	return updates;
+}
+
 export function parseDriverReport(raw: string): DriverReport {
 	const statusRaw = extractTag(raw, "status")?.toLowerCase();
 	const status = statusRaw === "done" ? "done" : "continue";
@@ -18,6 +52,7 @@ export function parseDriverReport(raw: string): DriverReport {
 		summary,
 		changes,
 		questionsForNavigator,
+		checklistUpdates: parseChecklistUpdates(raw),
 		raw,
 	};
 }
@@ -28,17 +63,28 @@ export function parseNavigatorReview(raw: string): NavigatorReview {
 	const normalizedFeedback = publicFeedback.trim().toUpperCase().replace(/[.!]+$/, "");
 	const hasFeedback = normalizedFeedback !== "NONE";
 	const recommendationRaw = extractTag(raw, "driver_recommendation")?.toLowerCase();
-	const driverRecommendation = recommendationRaw === "handoff" ? "handoff" : "continue";
+	const driverRecommendation = recommendationRaw === "handoff" || recommendationRaw === "revert" ? recommendationRaw : "continue";
 
 	return {
 		privateReflection,
 		publicFeedback,
 		hasFeedback,
 		driverRecommendation,
+		checklistUpdates: parseChecklistUpdates(raw),
 		raw,
 	};
 }
 
+/** Reads the short feedback of a checkpoint mini-review (`checkpoint_feedback`) or a parallel review (`interim_feedback`). */
+export function parseCheckpointFeedback(
+	raw: string,
+	tag: "checkpoint_feedback" | "interim_feedback",
+): { feedback: string; hasFeedback: boolean } {
+	const feedback = extractTag(raw, tag) ?? raw.trim();
+	const normalized = feedback.toUpperCase().replace(/[.!]+$/, "");
+	return { feedback, hasFeedback: normalized !== "" && normalized !== "NONE" };
+}
+
 export function parseDriverDecision(raw: string): DriverDecision {
 	const decisionRaw = extractTag(raw, "decision")?.toLowerCase();
 	const decision = decisionRaw === "accept" || decisionRaw === "reject" ? decisionRaw : "partial";
@@ -51,6 +97,37 @@ export function parseDriverDecision(raw: string): DriverDecision {
 	};
 }
 
+/** A rebuttal counts as conceding only when the navigator says so; anything else keeps the dispute open. */
+export function parseRebuttal(raw: string): { concede: boolean; rebuttal: string } {
+	const concede = extractTag(raw, "rebuttal_decision")?.toLowerCase() === "concede";
+	const rebuttal = extractTag(raw, "rebuttal") ?? raw.replace(/<rebuttal_decision>[\s\S]*?<\/rebuttal_decision>/i, "").trim();
+	return { concede, rebuttal };
+}
+
+/** Reads the arbiter model's ruling. Returns no winner when the tag names neither side. */
+export function parseArbiterRuling(raw: string): { winner?: "driver" | "navigator"; ruling: string } {
+	const side = extractTag(raw, "ruling")?.toLowerCase();
+	const ruling = extractTag(raw, "reason") ?? raw.replace(/<ruling>[\s\S]*?<\/ruling>/i, "").trim();
+	return side === "driver" || side === "navigator" ? { winner: side, ruling } : { ruling };
+}
+
+/** Reads a human ruling such as "navigator - the test is needed". Returns no winner when neither side is named first. */
+export function parseHumanRuling(answer: string): { winner?: "driver" | "navigator"; note: string } {
+	const match = answer.trim().match(/^(driver|navigator)\b[\s:,.-]*([\s\S]*)$/i);
+	if (!match) {
+		return { note: answer.trim() };
+	}
+	return { winner: match[1]?.toLowerCase() === "driver" ? "driver" : "navigator", note: match[2]?.trim() ?? "" };
+}
+
+export function parseTieBreak(raw: string): Pick<TieBreak, "decision" | "resolution" | "raw"> {
+	const decisionRaw = extractTag(raw, "tie_break")?.toLowerCase();
+	// An unreadable answer hands the wheel to the model that was asked to decide.
+	const decision = decisionRaw === "keep" || decisionRaw === "stop" ? decisionRaw : "swap";
+	const resolution = extractTag(raw, "resolution") ?? raw.replace(/<tie_break>[\s\S]*?<\/tie_break>/i, "").trim();
+	return { decision, resolution, raw };
+}
+
 export function parseJointVerdict(raw: string): Pick<FinalReview, "jointVerdict" | "rationale" | "nextSteps" | "raw"> {
 	const verdictRaw = extractTag(raw, "joint_verdict")?.toUpperCase();
 	const jointVerdict = verdictRaw === "APPROVED" ? "APPROVED" : "NEEDS_MORE_WORK";
@@ -64,3 +141,93 @@ export function parseJointVerdict(raw: string): Pick<FinalReview, "jointVerdict"
 		raw,
 	};
 }
+
+/** Reads `N. met|unmet - note` lines from <acceptance_check>. Criteria the reviewer skipped count as unmet. */
+export function parseAcceptanceCheck(raw: string, criteria: string[]): AcceptanceCheck[] {
+	const verdicts = new Map<number, { met: boolean; note: string }>();
+	for (const line of (extractTag(raw, "acceptance_check") ?? "").split("\n")) {
+		const match = line.trim().match(/^(\d+)[.):]?\s*(unmet|met)\b\s*[-\u2013\u2014:]?\s*(.*)$/i);
+		if (match) {
+			verdicts.set(Number(match[1]), { met: match[2]?.toLowerCase() === "met", note: match[3]?.trim() ?? "" });
+		}
+	}
+	return criteria.map((criterion, index) => {
+		const verdict = verdicts.get(index + 1);
+		return verdict ? { criterion, ...verdict } : { criterion, met: false, note: "(not assessed)" };
+	});
+}
+
+const PLAN_SECTIONS = ["summary", "steps", "risks", "tests", "files"] as const;
+const TOP_LEVEL_NUMBERED = /^ ?(\d+)[.)]\s+(.+)$/;
+const LIST_ENTRY = /^\s*(?:[-*+]|\d+[.)])\s+(.+)$/;
+const STEP_SOURCE = /^\[(A\s*\+\s*B|both|A|B)\]\s*/i;
+
+/** Splits a merged step's `[A]`, `[B]` or `[A+B]` prefix off its description. */
+function stepWithSource(text: string): { description: string; source?: PlanStepSource } {
+	const match = text.match(STEP_SOURCE);
+	if (!match) {
+		return { description: text };
+	}
+	const tag = (match[1] ?? "").toUpperCase().replace(/\s+/g, "");
+	const source: PlanStepSource = tag === "A" || tag === "B" ? tag : "both";
+	return { description: text.slice(match[0].length).trim(), source };
+}
+
+function listEntries(block: string | undefined): string[] {
+	if (!block || block.trim().toUpperCase() === "NONE") {
+		return [];
+	}
+	return block
+		.split("\n")
+		.map((line) => (line.match(LIST_ENTRY)?.[1] ?? line).trim())
+		.filter((line) => line.length > 0);
+}
+
+/**
+ * Parses a plan response. Always returns a best-effort plan; `errors` lists what made it malformed so the caller
+ * can re-prompt. Steps come from `<steps>`, or from top-level numbered lines when the model left that tag out.
+ */
+export function parsePlan(raw: string, tag: "plan_draft" | "agreed_plan"): { plan: Plan; errors: string[] } {
+	const errors: string[] = [];
+	const body = extractTag(raw, tag);
+	if (body === undefined) {
+		errors.push(`missing <${tag}>...</${tag}> block`);
+	}
+	const text = body ?? raw.trim();
+
+	let stepsText = extractTag(text, "steps");
+	if (stepsText === undefined) {
+		stepsText = PLAN_SECTIONS.reduce(
+			(remaining, section) => remaining.replace(new RegExp(`<${section}>[\\s\\S]*?<\\/${section}>`, "gi"), ""),
+			text,
+		);
+	}
+	const numbered = stepsText.split("\n").flatMap((line) => {
+		const match = line.match(TOP_LEVEL_NUMBERED);
+		return match ? [{ number: Number(match[1]), description: (match[2] ?? "").trim() }] : [];
+	});
+	if (numbered.length === 0) {
+		errors.push("no numbered steps found (expected lines like `1. Do something` inside <steps>)");
+	} else if (numbered.some((step, index) => step.number !== index + 1)) {
+		errors.push(`steps must be numbered 1, 2, 3... in order (found ${numbered.map((step) => step.number).join(", ")})`);
+	}
+
+	return {
+		plan: {
+			summary: extractTag(text, "summary") ?? "",
+			steps: numbered.map((step, index) => ({ id: index + 1, ...stepWithSource(step.description) })),
+			risks: listEntries(extractTag(text, "risks")),
+			testSteps: listEntries(extractTag(text, "tests")),
+			filesInScope: listEntries(extractTag(text, "files")),
+		},
+		errors,
+	};
+}
+
+/** Reads `<plan_feedback>` and `<plan_signoff>`. Anything other than an explicit `agree` is a disagreement. */
+export function parsePlanReview(raw: string): PlanReview {
+	const feedback = extractTag(raw, "plan_feedback") ?? raw.replace(/<plan_signoff>[\s\S]*?<\/plan_signoff>/i, "").trim();
+	const signoff = extractTag(raw, "plan_signoff")?.toLowerCase() === "agree" ? "agree" : "disagree";
+	return { feedback, signoff, objections: signoff === "agree" ? [] : listEntries(feedback), raw };
+}
+
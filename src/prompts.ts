@@ -1,248 +1,903 @@
-import type { AgentId, PauseStrategy, TurnPolicy } from "./types.js";
+import type {
+	AgentId,
+	DisputeConfig,
+	MemberId,
+	MobRotation,
+	PauseStrategy,
+	PauseTrigger,
+	Plan,
+	PlanStep,
+	RoundResult,
+	TaskSpec,
+	TurnPolicy,
+	WorkerId,
+} from "./types.js";
 
-export function buildSystemPrompt(agentId: AgentId): string {
+/** `roster` is set in `mob` mode, where one model drives and every other one navigates. */
+export function buildSystemPrompt(agentId: MemberId, roster?: readonly MemberId[]): string {
 	return [
-		`You are Model ${agentId} in a two-model pair-programming coding workflow.`,
+		roster
+			? `You are Model ${agentId} in a ${roster.length}-model mob-programming coding workflow (Models ${roster.join(", ")}).`
+			: `You are Model ${agentId} in a two-model pair-programming coding workflow.`,
 		"Your primary objective is high-quality, testable, maintainable code.",
 		"Protocol:",
 		"1. Respect the current role (driver or navigator) for each turn.",
-		"2. Driver can edit code; navigator should inspect and critique.",
+		roster
+			? "2. One driver edits code; every other model navigates: it inspects and critiques."
+			: "2. Driver can edit code; navigator should inspect and critique.",
 		"3. If you receive [PRIVATE MEMORY], treat it as your internal notes and do not reveal it unless explicitly requested.",
-		"4. If you receive [SHARED CONTEXT], assume the other model can also see it.",
+		roster
+			? "4. If you receive [SHARED CONTEXT], assume every other model can also see it."
+			: "4. If you receive [SHARED CONTEXT], assume the other model can also see it.",
 		"5. When asked for tagged output, emit every required tag exactly once.",
 		"6. Be concrete: reference files, risks, and testing implications.",
 	].join("\n");
 }
 
+export function buildArbiterSystemPrompt(roster?: readonly MemberId[]): string {
+	return [
+		roster
+			? `You are the arbiter for a ${roster.length}-model mob-programming coding workflow.`
+			: "You are the arbiter for a two-model pair-programming coding workflow.",
+		roster
+			? `Models ${roster.join(", ")} wrote and reviewed the code; you wrote none of it and never edit it.`
+			: "Model A and Model B wrote and reviewed the code; you wrote none of it and never edit it.",
+		"Your job is to decide the final verdict from their reviews, the round history, and the workspace itself.",
+		"You have read-only tools. Use them to check claims the reviews make when they disagree or look thin.",
+		"When asked for tagged output, emit every required tag exactly once.",
+	].join("\n");
+}
+
+export function buildCompactionSystemPrompt(): string {
+	return [
+		"You condense the working history of one model in a two-model pair-programming coding workflow.",
+		"The model will continue the session from your summary alone, so keep every fact it still needs and drop the rest.",
+		"Never invent decisions, files or results that the history does not contain.",
+	].join("\n");
+}
+
+/** `transcript` comes from `formatCompactionTranscript`; "you" in it is the model whose history is being compacted. */
+export function buildCompactionPrompt(worker: WorkerId, transcript: string, hasPrivateMemory: boolean): string {
+	const owner = worker === "arbiter" ? "the arbiter" : `Model ${worker}`;
+	return [
+		`Summarize this earlier part of ${owner}'s session history. Messages labelled "you" are ${owner}'s own.`,
+		"Keep, as concise bullet points:",
+		"- the task, the agreed plan and which plan steps are done",
+		"- decisions made and the reasons given, including accepted or rejected navigator feedback and dispute outcomes",
+		"- files created or changed and their current state",
+		"- the latest verification results and any open failures",
+		"- open questions, risks and unfinished work",
+		...(hasPrivateMemory
+			? ["Put the [PRIVATE MEMORY] notes under a separate \"Private memory\" heading: only this model will see the summary, and the other model must not learn them."]
+			: []),
+		"History:",
+		transcript,
+		"Return exactly:",
+		"<summary>The condensed history.</summary>",
+	].join("\n");
+}
+
+function describePauseTrigger(trigger: PauseTrigger): string {
+	switch (trigger.mode) {
+		case "every_n_file_edits":
+			return `after ${trigger.editsPerPause} edit/write tool calls (counted tools: ${trigger.countedTools.join(", ")})`;
+		case "every_n_changed_lines":
+			return `after ${trigger.linesPerPause} changed lines (added plus removed)`;
+		case "every_n_distinct_files":
+			return `after edits to ${trigger.filesPerPause} distinct files`;
+		case "every_n_seconds":
+			return `after ${trigger.secondsPerPause} seconds of driving (checked when a tool call finishes)`;
+		case "on_bash_failure":
+			return "when a bash command fails";
+	}
+}
+
 export function describePauseStrategy(strategy: PauseStrategy): string {
 	if (strategy.mode === "none") {
 		return "No automatic pause. Driver decides when to hand off.";
 	}
-	return `Automatically pause after ${strategy.editsPerPause} edit/write tool calls (counted tools: ${strategy.countedTools.join(", ")}).`;
+	if (strategy.mode === "any_of") {
+		return `Automatically pause at whichever comes first: ${strategy.strategies.map(describePauseTrigger).join("; ")}. Every counter restarts after a checkpoint.`;
+	}
+	return `Automatically pause ${describePauseTrigger(strategy)}.`;
 }
 
 export function describeTurnPolicy(policy: TurnPolicy): string {
 	if (policy.mode === "alternate_each_round") {
 		return "Driver changes every round.";
 	}
+	if (policy.mode === "adaptive") {
+		return `Driver stays the same until navigator recommends handoff or the driver looks stuck: ${policy.maxRejectedFeedback} rejected reviews, ${policy.maxRepeatedFeedback} repeats of the same feedback, ${policy.maxVerificationFailures} verification failures or ${policy.maxToolErrors} tool errors in one stint. If both models get stuck in turn, the navigator breaks the tie. Safety caps: max ${policy.maxConsecutiveRounds} consecutive rounds or ${policy.maxConsecutiveCheckpoints} consecutive checkpoints before forced swap.`;
+	}
 	return `Driver stays the same until navigator recommends handoff. Safety caps: max ${policy.maxConsecutiveRounds} consecutive rounds or ${policy.maxConsecutiveCheckpoints} consecutive checkpoints before forced swap.`;
 }
 
-export function buildPlanDraftPrompt(task: string): string {
+export function describeMobRotation(rotation: MobRotation, roster: readonly MemberId[]): string {
+	return rotation === "round_robin"
+		? `Driver rotates every round through Models ${roster.join(", ")}; every other model navigates.`
+		: "Each round the model that has changed the fewest lines so far drives; every other model navigates.";
+}
+
+/** Renders the task block every prompt starts with. A plain `--task` string renders as the single `Task:` line. */
+export function taskLines(task: TaskSpec): string[] {
+	return [
+		...(task.title ? [`Task: ${task.title}`, "Task details:", task.description] : [`Task: ${task.description}`]),
+		...(task.acceptanceCriteria.length > 0
+			? ["Acceptance criteria:", ...task.acceptanceCriteria.map((criterion, index) => `${index + 1}. ${criterion}`)]
+			: []),
+		...(task.filesInScope.length > 0 ? ["Files in scope:", ...task.filesInScope.map((file) => `- ${file}`)] : []),
+		...(task.filesOffLimits.length > 0
+			? ["Files off-limits (do not modify):", ...task.filesOffLimits.map((file) => `- ${file}`)]
+			: []),
+	];
+}
+
+export function formatTask(task: TaskSpec): string {
+	return taskLines(task).join("\n");
+}
+
+function planFormatLines(tag: "plan_draft" | "agreed_plan"): string[] {
 	return [
-		`Task: ${task}`,
+		"Return exactly:",
+		`<${tag}>`,
+		"<summary>One or two sentences on the approach.</summary>",
+		"<steps>",
+		"1. First implementation step",
+		"2. Next step (number steps 1, 2, 3... in order; one line each)",
+		"</steps>",
+		"<risks>- One risk per line, or NONE</risks>",
+		"<tests>- One test/validation step per line</tests>",
+		"<files>- One file or directory in scope per line, or NONE</files>",
+		`</${tag}>`,
+	];
+}
+
+function formatStep(step: PlanStep): string {
+	const source = step.source ? `[${step.source === "both" ? "A+B" : step.source}] ` : "";
+	return `${step.id}. ${source}${step.description}`;
+}
+
+/** Renders a parsed plan as the text both models see as "Agreed plan". Step numbers match the checklist ids. */
+export function formatPlan(plan: Plan): string {
+	return [
+		...(plan.summary ? [`Summary: ${plan.summary}`] : []),
+		"Steps:",
+		...plan.steps.map(formatStep),
+		...(plan.risks.length > 0 ? ["Risks:", ...plan.risks.map((risk) => `- ${risk}`)] : []),
+		...(plan.testSteps.length > 0 ? ["Test steps:", ...plan.testSteps.map((test) => `- ${test}`)] : []),
+		...(plan.filesInScope.length > 0 ? ["Files in scope:", ...plan.filesInScope.map((file) => `- ${file}`)] : []),
+	].join("\n");
+}
+
+export function buildPlanDraftPrompt(task: TaskSpec): string {
+	return [
+		...taskLines(task),
 		"You are starting the planning handshake as Model A.",
 		"Create an implementation plan with ordered steps, key risks, and explicit test/validation steps.",
-		"Return exactly:",
-		"<plan_draft>",
-		"...",
-		"</plan_draft>",
+		...planFormatLines("plan_draft"),
 	].join("\n");
 }
 
-export function buildPlanCritiquePrompt(task: string, draft: string): string {
+export function buildIndependentPlanDraftPrompt(task: TaskSpec, agentId: AgentId): string {
 	return [
-		`Task: ${task}`,
-		"Review Model A's draft plan.",
-		"Identify gaps, incorrect assumptions, sequencing issues, and missing tests.",
-		"If plan is strong, keep feedback short.",
-		"Draft plan:",
-		draft,
+		...taskLines(task),
+		`You are Model ${agentId}, drafting a plan independently.`,
+		"The other model is drafting its own plan at the same time. Neither of you sees the other's draft until they are merged.",
+		"Create an implementation plan with ordered steps, key risks, and explicit test/validation steps.",
+		...planFormatLines("plan_draft"),
+	].join("\n");
+}
+
+export function buildPlanMergePrompt(task: TaskSpec, draftA: string, draftB: string): string {
+	return [
+		...taskLines(task),
+		"Merge the two independent drafts below into one plan.",
+		"Keep the strongest steps from each, drop duplicates, and order the result so it can be implemented top to bottom.",
+		"Where the drafts conflict, pick one approach and say why in the summary.",
+		"Prefix every step with the draft it came from: [A], [B], or [A+B] when both drafts had it.",
+		"Model A's draft:",
+		draftA,
+		"Model B's draft:",
+		draftB,
+		...planFormatLines("agreed_plan"),
+	].join("\n");
+}
+
+function planSignoffLines(iteration: number, maxIterations: number): string[] {
+	return [
+		`Review iteration ${iteration} of ${maxIterations}.${iteration === maxIterations ? " This is the last one: objections you still have will be recorded as open risks." : ""}`,
+		"Sign off with agree only if you would implement this plan as written. Otherwise disagree and list what must change, one item per line.",
 		"Return exactly:",
 		"<plan_feedback>",
 		"...",
 		"</plan_feedback>",
+		"<plan_signoff>agree|disagree</plan_signoff>",
+	];
+}
+
+export function buildPlanCritiquePrompt(
+	task: TaskSpec,
+	draft: string,
+	iteration: number,
+	maxIterations: number,
+	merged = false,
+): string {
+	return [
+		...taskLines(task),
+		merged
+			? "Review the plan Model A merged from both independent drafts. Each step is tagged with the draft it came from."
+			: "Review Model A's draft plan.",
+		"Identify gaps, incorrect assumptions, sequencing issues, and missing tests.",
+		"If plan is strong, keep feedback short.",
+		merged ? "Merged plan:" : "Draft plan:",
+		draft,
+		...planSignoffLines(iteration, maxIterations),
+	].join("\n");
+}
+
+export function buildPlanReReviewPrompt(
+	task: TaskSpec,
+	revision: string,
+	previousFeedback: string,
+	iteration: number,
+	maxIterations: number,
+): string {
+	return [
+		...taskLines(task),
+		"Review Model A's revised plan.",
+		"Check whether your previous feedback was addressed. Raise new issues only if they would change the implementation.",
+		"Your previous feedback:",
+		previousFeedback,
+		"Revised plan:",
+		revision,
+		...planSignoffLines(iteration, maxIterations),
 	].join("\n");
 }
 
-export function buildPlanRevisionPrompt(task: string, draft: string, critique: string): string {
+export function buildPlanRevisionPrompt(task: TaskSpec, plan: string, critique: string, merged = false): string {
 	return [
-		`Task: ${task}`,
+		...taskLines(task),
 		"Revise the plan after considering Model B's critique.",
 		"For each major critique, either incorporate it or explain why not.",
-		"Original draft:",
-		draft,
+		...(merged ? ["Keep each step's [A], [B] or [A+B] tag; tag steps added in response to the critique [A+B]."] : []),
+		"Current plan:",
+		plan,
 		"Critique:",
 		critique,
-		"Return exactly:",
-		"<agreed_plan>",
-		"...",
-		"</agreed_plan>",
+		...planFormatLines("agreed_plan"),
 	].join("\n");
 }
 
-export function buildSoloPlanPrompt(task: string): string {
+export function buildSoloPlanPrompt(task: TaskSpec): string {
 	return [
-		`Task: ${task}`,
+		...taskLines(task),
 		"You are Model A and should produce the final implementation plan directly.",
 		"Create an implementation plan with ordered steps, key risks, and explicit test/validation steps.",
-		"Return exactly:",
-		"<agreed_plan>",
-		"...",
-		"</agreed_plan>",
+		...planFormatLines("agreed_plan"),
 	].join("\n");
 }
 
+export function buildPlanRepairPrompt(tag: "plan_draft" | "agreed_plan", errors: string[]): string {
+	return [
+		"Your plan could not be parsed:",
+		...errors.map((error) => `- ${error}`),
+		"Send the same plan again, corrected, with nothing else in the reply.",
+		...planFormatLines(tag),
+	].join("\n");
+}
+
+function checklistLines(checklist: string | undefined): string[] {
+	return checklist ? ["Checklist (id. [status] item):", checklist] : [];
+}
+
+function driverChecklistUpdateLines(checklist: string | undefined): string[] {
+	if (!checklist) {
+		return [];
+	}
+	return [
+		"<checklist_update>One line per checklist item you worked on: `id: in_progress|done`, or NONE.</checklist_update>",
+		"Mark an item done only when it is fully implemented; the navigator confirms or disputes it.",
+	];
+}
+
+function navigatorChecklistUpdateLines(checklist: string | undefined): string[] {
+	if (!checklist) {
+		return [];
+	}
+	return [
+		"<checklist_update>One line per item you checked: `id: done`, `id: disputed - reason` or `id: pending - reason`, or NONE.</checklist_update>",
+		"Dispute a done item when the workspace does not back it up; confirm done items you verified.",
+	];
+}
+
 export function buildDriverTurnPrompt(params: {
-	task: string;
+	task: TaskSpec;
 	agreedPlan: string;
 	round: number;
 	driver: AgentId;
 	navigator: AgentId;
 	pauseDescription: string;
 	turnPolicyDescription: string;
+	checklist?: string;
+	focusStep?: { id: number; description: string };
 }): string {
 	return [
-		`Task: ${params.task}`,
+		...taskLines(params.task),
 		`Round: ${params.round}`,
 		`You are Model ${params.driver} acting as DRIVER. Model ${params.navigator} is NAVIGATOR.`,
-		"Implement the next meaningful chunk of work from the agreed plan.",
+		params.focusStep
+			? `Focus on step ${params.focusStep.id} of the agreed plan: ${params.focusStep.description}`
+			: "Implement the next meaningful chunk of work from the agreed plan.",
 		"Use tools as needed. Keep scope tight and leave a clear handoff.",
 		`Pause policy: ${params.pauseDescription}`,
 		`Turn policy: ${params.turnPolicyDescription}`,
 		"Agreed plan:",
 		params.agreedPlan,
+		...checklistLines(params.checklist),
 		"At the end of this turn, return exactly:",
+		...driverReportFormatLines(params.checklist),
+	].join("\n");
+}
+
+export function buildMobDriverTurnPrompt(params: {
+	task: TaskSpec;
+	agreedPlan: string;
+	round: number;
+	driver: MemberId;
+	navigators: MemberId[];
+	rotationDescription: string;
+	checklist?: string;
+	focusStep?: { id: number; description: string };
+}): string {
+	return [
+		...taskLines(params.task),
+		`Round: ${params.round}`,
+		`You are Model ${params.driver} acting as DRIVER. Models ${params.navigators.join(", ")} are NAVIGATORS and review your turn in parallel when it ends.`,
+		params.focusStep
+			? `Focus on step ${params.focusStep.id} of the agreed plan: ${params.focusStep.description}`
+			: "Implement the next meaningful chunk of work from the agreed plan.",
+		"Use tools as needed. Keep scope tight and leave a clear handoff; the next round may have a different driver.",
+		`Rotation: ${params.rotationDescription}`,
+		"Agreed plan:",
+		params.agreedPlan,
+		...checklistLines(params.checklist),
+		"At the end of this turn, return exactly:",
+		...driverReportFormatLines(params.checklist),
+	].join("\n");
+}
+
+function driverReportFormatLines(checklist: string | undefined): string[] {
+	return [
 		"<status>continue|done</status>",
 		"<summary>Short progress summary.</summary>",
 		"<changes>Files changed and what changed.</changes>",
 		"<questions_for_navigator>Specific review asks, or NONE.</questions_for_navigator>",
-	].join("\n");
+		...driverChecklistUpdateLines(checklist),
+	];
 }
 
 export function buildSoloDriverTurnPrompt(params: {
-	task: string;
+	task: TaskSpec;
 	agreedPlan: string;
 	driver: AgentId;
 	reviewer: AgentId;
 	pauseDescription: string;
+	checklist?: string;
 }): string {
 	return [
-		`Task: ${params.task}`,
+		...taskLines(params.task),
 		`You are Model ${params.driver} acting as DRIVER. Model ${params.reviewer} will review after your implementation pass.`,
 		"Implement the task end-to-end before handing off to reviewer.",
 		"Do not pause to request intermediate navigator feedback.",
 		`Pause policy metric context: ${params.pauseDescription}`,
 		"Agreed plan:",
 		params.agreedPlan,
+		...checklistLines(params.checklist),
 		"At the end of implementation, return exactly:",
 		"<status>continue|done</status>",
 		"<summary>Short progress summary.</summary>",
 		"<changes>Files changed and what changed.</changes>",
 		"<questions_for_navigator>Specific review asks, or NONE.</questions_for_navigator>",
+		...driverChecklistUpdateLines(params.checklist),
 	].join("\n");
 }
 
 export function buildPauseInterruptionPrompt(
 	navigator: AgentId,
 	phase: "driving" | "feedback_resolution" = "driving",
+	reviewFollows = true,
+	reason?: string,
 ): string {
-	if (phase === "feedback_resolution") {
-		return [
-			"Pause now due to checkpoint policy.",
-			`Model ${navigator} is observing this checkpoint.`,
-			"Stop additional edits in this turn and complete your current required output format.",
-		].join("\n");
-	}
+	return [
+		reason ? `Pause now due to checkpoint policy: ${reason}.` : "Pause now due to checkpoint policy.",
+		reviewFollows
+			? `Model ${navigator} will review your changes since the last checkpoint, then you continue with its feedback.`
+			: `Prepare an immediate handoff for Model ${navigator}.`,
+		phase === "feedback_resolution"
+			? "Stop additional edits in this turn and complete your current required output format."
+			: "Stop additional edits in this turn and emit the required tagged report.",
+	].join("\n");
+}
+
+export function buildCheckpointReviewPrompt(params: {
+	task: TaskSpec;
+	round: number;
+	driver: AgentId;
+	checkpoint: number;
+	phase: "driving" | "feedback_resolution";
+	diff: string;
+	driverOutput: string;
+	checklist?: string;
+	focusStep?: { id: number; description: string };
+}): string {
+	return [
+		...taskLines(params.task),
+		`Round: ${params.round}`,
+		`Model ${params.driver} paused at checkpoint ${params.checkpoint} while ${params.phase === "driving" ? "driving" : "resolving your feedback"}. This is a short mid-turn review; your full review comes after the turn.`,
+		...(params.focusStep ? [`The driver was pointed at step ${params.focusStep.id}: ${params.focusStep.description}`] : []),
+		...checklistLines(params.checklist),
+		"Changes since the last checkpoint (added and removed lines only; use read-only tools for context):",
+		params.diff || "(no line changes recorded)",
+		"What the driver said when it paused:",
+		params.driverOutput,
+		"Flag only problems the driver should fix before going further.",
+		"Return exactly:",
+		"<checkpoint_feedback>Short, actionable feedback, or NONE.</checkpoint_feedback>",
+	].join("\n");
+}
+
+export function buildCheckpointResumePrompt(params: {
+	navigator: AgentId;
+	checkpoint: number;
+	phase: "driving" | "feedback_resolution";
+	feedback: string;
+	hasFeedback: boolean;
+	checklist?: string;
+}): string {
+	return [
+		params.hasFeedback
+			? `Model ${params.navigator} reviewed your changes at checkpoint ${params.checkpoint}:\n${params.feedback}`
+			: `Model ${params.navigator} reviewed your changes at checkpoint ${params.checkpoint} and had no concerns.`,
+		params.phase === "driving"
+			? "Continue this turn: address the feedback where you agree, then keep working. When you stop, report on the whole turn, not only the part since the checkpoint."
+			: "Continue resolving the navigator's earlier feedback, taking this checkpoint feedback into account.",
+		"Return exactly:",
+		...(params.phase === "driving"
+			? driverReportFormatLines(params.checklist)
+			: driverDecisionFormatLines()),
+	].join("\n");
+}
 
+export function buildInterimReviewPrompt(params: {
+	task: TaskSpec;
+	round: number;
+	driver: AgentId;
+	checkpoint: number;
+	phase: "driving" | "feedback_resolution";
+	files: string[];
+	focusStep?: { id: number; description: string };
+}): string {
 	return [
-		"Pause now due to checkpoint policy.",
-		`Prepare an immediate handoff for Model ${navigator}.`,
-		"Stop additional edits in this turn and emit the required tagged report.",
+		...taskLines(params.task),
+		`Round: ${params.round}`,
+		`Model ${params.driver} is still ${params.phase === "driving" ? "driving" : "resolving your feedback"} and reached checkpoint ${params.checkpoint}.`,
+		...(params.focusStep ? [`The driver was pointed at step ${params.focusStep.id}: ${params.focusStep.description}`] : []),
+		`Files written so far this round: ${params.files.length > 0 ? params.files.join(", ") : "none recorded"}`,
+		"Inspect those files with read-only tools while the driver keeps working. Files may change under you.",
+		"Only raise issues the driver should fix before finishing this turn. Your full review comes after the turn ends.",
+		"Return exactly:",
+		"<interim_feedback>Short, actionable feedback, or NONE.</interim_feedback>",
 	].join("\n");
 }
 
+export function buildInterimFeedbackSteer(navigator: AgentId, checkpoint: number, feedback: string): string {
+	return [
+		`Model ${navigator} reviewed your changes at checkpoint ${checkpoint} while you kept working:`,
+		feedback,
+		"Take this into account for the rest of this turn. You do not need to stop or reply to it separately.",
+	].join("\n");
+}
+
+function verificationLines(verification: string | undefined): string[] {
+	if (!verification) {
+		return [];
+	}
+	return [
+		"Verification command result (run by the orchestrator after the driver's turn):",
+		verification,
+		"If verification failed, treat it as a blocking issue and do not answer NONE.",
+	];
+}
+
 export function buildNavigatorReviewPrompt(params: {
-	task: string;
+	task: TaskSpec;
 	agreedPlan: string;
 	round: number;
 	driver: AgentId;
 	driverReport: string;
 	pauseTriggered: boolean;
 	turnPolicyDescription: string;
+	verification?: string;
+	checklist?: string;
+	focusStep?: { id: number; description: string };
 }): string {
 	return [
-		`Task: ${params.task}`,
+		...taskLines(params.task),
 		`Round: ${params.round}`,
 		`You are NAVIGATOR reviewing Model ${params.driver}'s driving turn.`,
+		...(params.focusStep ? [`The driver was pointed at step ${params.focusStep.id}: ${params.focusStep.description}`] : []),
 		"Focus on correctness bugs, regressions, weak assumptions, missed edge cases, and refactor opportunities.",
 		"You may use read-only tools to inspect current files.",
 		`Checkpoint pause triggered: ${params.pauseTriggered ? "yes" : "no"}.`,
 		`Turn policy: ${params.turnPolicyDescription}`,
 		"Agreed plan:",
 		params.agreedPlan,
+		...checklistLines(params.checklist),
 		"Driver report:",
 		params.driverReport,
+		...verificationLines(params.verification),
 		"Return exactly:",
 		"<private_reflection>Your private internal notes.</private_reflection>",
 		"<public_feedback>Actionable feedback for driver, or NONE.</public_feedback>",
-		"<driver_recommendation>continue|handoff</driver_recommendation>",
+		"<driver_recommendation>continue|handoff|revert</driver_recommendation>",
 		"Use 'handoff' only if you think roles should swap after this round.",
+		"Use 'revert' only if this round's changes are wrong enough to discard entirely; explain why in public_feedback.",
+		...navigatorChecklistUpdateLines(params.checklist),
 	].join("\n");
 }
 
 export function buildSoloNavigatorReviewPrompt(params: {
-	task: string;
+	task: TaskSpec;
 	agreedPlan: string;
 	driver: AgentId;
 	reviewer: AgentId;
 	driverReport: string;
 	checkpointCount: number;
+	verification?: string;
+	checklist?: string;
 }): string {
 	return [
-		`Task: ${params.task}`,
+		...taskLines(params.task),
 		`You are Model ${params.reviewer} reviewing Model ${params.driver}'s full implementation pass.`,
 		"Focus on bugs, regressions, weak assumptions, missed edge cases, and refactor opportunities.",
 		"You may use read-only tools to inspect current files.",
 		`Checkpoint count during implementation: ${params.checkpointCount}.`,
 		"Agreed plan:",
 		params.agreedPlan,
+		...checklistLines(params.checklist),
 		"Driver report:",
 		params.driverReport,
+		...verificationLines(params.verification),
 		"Return exactly:",
 		"<private_reflection>Your private internal notes.</private_reflection>",
 		"<public_feedback>Actionable feedback for driver, or NONE.</public_feedback>",
 		"<driver_recommendation>continue|handoff</driver_recommendation>",
 		"Use 'handoff' if you believe the other model should drive next in a follow-up session.",
+		"This mode cannot revert the pass: if it went the wrong way, say what to undo in public_feedback.",
+		...navigatorChecklistUpdateLines(params.checklist),
 	].join("\n");
 }
 
-export function buildDriverDecisionPrompt(feedback: string): string {
+export function buildMobNavigatorReviewPrompt(params: {
+	task: TaskSpec;
+	agreedPlan: string;
+	round: number;
+	driver: MemberId;
+	navigator: MemberId;
+	otherNavigators: MemberId[];
+	driverReport: string;
+	rotationDescription: string;
+	verification?: string;
+	checklist?: string;
+	focusStep?: { id: number; description: string };
+}): string {
+	return [
+		...taskLines(params.task),
+		`Round: ${params.round}`,
+		`You are Model ${params.navigator}, one of the NAVIGATORS reviewing Model ${params.driver}'s driving turn.`,
+		`Models ${params.otherNavigators.join(", ")} review the same turn at the same time. Your feedback is merged with theirs before the driver decides, so review independently.`,
+		...(params.focusStep ? [`The driver was pointed at step ${params.focusStep.id}: ${params.focusStep.description}`] : []),
+		"Focus on correctness bugs, regressions, weak assumptions, missed edge cases, and refactor opportunities.",
+		"You may use read-only tools to inspect current files.",
+		`Rotation: ${params.rotationDescription}`,
+		"Agreed plan:",
+		params.agreedPlan,
+		...checklistLines(params.checklist),
+		"Driver report:",
+		params.driverReport,
+		...verificationLines(params.verification),
+		"Return exactly:",
+		"<private_reflection>Your private internal notes.</private_reflection>",
+		"<public_feedback>Actionable feedback for driver, or NONE.</public_feedback>",
+		"<driver_recommendation>continue|revert</driver_recommendation>",
+		"Use 'revert' only if this round's changes are wrong enough to discard entirely; explain why in public_feedback. A revert needs a majority of the navigators.",
+		...navigatorChecklistUpdateLines(params.checklist),
+	].join("\n");
+}
+
+export function buildDriverDecisionPrompt(feedback: string, revertRequested = false): string {
 	return [
 		"Navigator feedback received.",
 		"Decide whether to accept, partially accept, or reject it.",
-		"If accepting/partial, make any required edits before replying.",
+		...(revertRequested
+			? [
+					"The navigator recommends reverting this round.",
+					"If you accept, every change made since the round started is discarded and the workspace is restored; do not edit files.",
+					"Answer partial or reject to keep the changes.",
+				]
+			: ["If accepting/partial, make any required edits before replying."]),
+		"Navigator feedback:",
+		feedback,
+		"Return exactly:",
+		...driverDecisionFormatLines(),
+	].join("\n");
+}
+
+/** `feedback` is already merged and attributed per navigator by `mergeNavigatorReviews`. */
+export function buildMobDriverDecisionPrompt(feedback: string, revertRequested: boolean): string {
+	return [
+		"Feedback from your navigators received.",
+		"Decide whether to accept, partially accept, or reject it as a whole. Where navigators disagree, say whose point you followed.",
+		...(revertRequested
+			? [
+					"A majority of the navigators recommends reverting this round.",
+					"If you accept, every change made since the round started is discarded and the workspace is restored; do not edit files.",
+					"Answer partial or reject to keep the changes.",
+				]
+			: ["If accepting/partial, make any required edits before replying."]),
+		"Navigator feedback:",
+		feedback,
+		"Return exactly:",
+		...driverDecisionFormatLines(),
+	].join("\n");
+}
+
+export function describeDisputeArbiter(config: DisputeConfig): string {
+	if (config.arbiter === "human") {
+		return "a human reviewer";
+	}
+	if (config.arbiter === "model") {
+		return "a third model acting as arbiter";
+	}
+	if (config.rule === "verification") {
+		return "the verification command (passing sides with the driver, failing with the navigator)";
+	}
+	return config.rule === "driver_wins" ? "a fixed rule that keeps the driver's decision" : "a fixed rule that sides with the navigator";
+}
+
+/** The question a human arbiter answers on the terminal. */
+export function buildHumanDisputeQuestion(params: {
+	round: number;
+	driver: AgentId;
+	navigator: AgentId;
+	subject: "feedback" | "revert";
+	feedback: string;
+	driverJustification: string;
+	rebuttal: string;
+	driverResponse?: string;
+}): string {
+	return [
+		`Dispute in round ${params.round}: Model ${params.driver} (driver) rejected Model ${params.navigator}'s ${params.subject === "revert" ? "recommendation to revert the round" : "feedback"}.`,
+		`Navigator ${params.subject === "revert" ? "recommendation" : "feedback"}: ${params.feedback}`,
+		`Driver: ${params.driverJustification}`,
+		`Navigator rebuttal: ${params.rebuttal}`,
+		...(params.driverResponse ? [`Driver response: ${params.driverResponse}`] : []),
+		"Who is right? Answer driver or navigator, optionally followed by a note: ",
+	].join("\n");
+}
+
+/** Sent to the arbiter model, which has no shared journal; it can check the claims with read-only tools. */
+export function buildDisputeArbitrationPrompt(params: {
+	round: number;
+	driver: AgentId;
+	navigator: AgentId;
+	subject: "feedback" | "revert";
+	feedback: string;
+	driverJustification: string;
+	rebuttal: string;
+	driverResponse?: string;
+	verification?: string;
+}): string {
+	return [
+		`Model ${params.driver} (driver) and Model ${params.navigator} (navigator) could not settle a dispute in round ${params.round}.`,
+		`The driver rejected the navigator's ${params.subject === "revert" ? "recommendation to revert the round" : "feedback"} and kept rejecting it after one rebuttal.`,
+		`Navigator ${params.subject === "revert" ? "recommendation" : "feedback"}:`,
+		params.feedback,
+		"Driver's justification:",
+		params.driverJustification,
+		"Navigator's rebuttal:",
+		params.rebuttal,
+		...(params.driverResponse ? ["Driver's response:", params.driverResponse] : []),
+		...(params.verification ? ["Latest verification result:", params.verification] : []),
+		"Inspect the workspace with your read-only tools where the claims can be checked, then decide who is right.",
+		params.subject === "revert"
+			? "Siding with the navigator discards every change made in this round."
+			: "Siding with the navigator makes the driver apply the feedback.",
+		"Return exactly:",
+		"<ruling>driver|navigator</ruling>",
+		"<reason>Why, in a few sentences both models will read.</reason>",
+	].join("\n");
+}
+
+export function buildRebuttalPrompt(params: {
+	driver: AgentId;
+	subject: "feedback" | "revert";
+	feedback: string;
+	justification: string;
+	arbiterDescription: string;
+}): string {
+	return [
+		`Model ${params.driver} rejected your ${params.subject === "revert" ? "recommendation to revert this round" : "feedback"}.`,
+		"Your feedback:",
+		params.feedback,
+		"Driver's justification:",
+		params.justification,
+		"You may rebut once. Concede if the justification convinces you.",
+		`Otherwise explain concretely why the issue still matters. If the driver still disagrees after your rebuttal, ${params.arbiterDescription} decides.`,
+		"Return exactly:",
+		"<rebuttal_decision>concede|rebut</rebuttal_decision>",
+		"<rebuttal>Your rebuttal, or why you concede.</rebuttal>",
+	].join("\n");
+}
+
+export function buildDisputeResponsePrompt(navigator: AgentId, subject: "feedback" | "revert", rebuttal: string): string {
+	return [
+		`Model ${navigator} rebutted your rejection. This is the last exchange before the dispute goes to arbitration.`,
+		"Rebuttal:",
+		rebuttal,
+		"Decide again whether to accept, partially accept, or reject.",
+		subject === "revert"
+			? "If you accept, every change made since the round started is discarded and the workspace is restored; do not edit files."
+			: "If accepting/partial, make any required edits before replying.",
+		"Return exactly:",
+		...driverDecisionFormatLines(),
+	].join("\n");
+}
+
+export function buildDisputeRulingPrompt(navigator: AgentId, feedback: string, ruling: string): string {
+	return [
+		`The dispute over Model ${navigator}'s feedback was decided in the navigator's favour: ${ruling}`,
+		"Apply the feedback now.",
 		"Navigator feedback:",
 		feedback,
 		"Return exactly:",
-		"<decision>accept|partial|reject</decision>",
-		"<justification>Why you made this decision, with technical rationale.</justification>",
+		"<decision>accept</decision>",
+		"<justification>What you changed to apply the feedback.</justification>",
 	].join("\n");
 }
 
-export function buildFinalReviewPrompt(task: string, agreedPlan: string): string {
+function driverDecisionFormatLines(): string[] {
+	return ["<decision>accept|partial|reject</decision>", "<justification>Why you made this decision, with technical rationale.</justification>"];
+}
+
+function acceptanceCheckLines(task: TaskSpec): string[] {
+	if (task.acceptanceCriteria.length === 0) {
+		return [];
+	}
 	return [
-		`Task: ${task}`,
+		"<acceptance_check>",
+		...task.acceptanceCriteria.map((_, index) => `${index + 1}. met|unmet - evidence from the workspace`),
+		"</acceptance_check>",
+		"Check every acceptance criterion against the workspace itself, not the driver's reports. Answer unmet when unsure.",
+	];
+}
+
+export function buildTieBreakPrompt(params: {
+	task: TaskSpec;
+	round: number;
+	driver: AgentId;
+	navigator: AgentId;
+	reason: string;
+	signals: Record<AgentId, string>;
+	stintFeedback: string[];
+	checklist?: string;
+}): string {
+	return [
+		...taskLines(params.task),
+		`Tie-break after round ${params.round}.`,
+		`Model ${params.driver} (driving) looks stuck: ${params.reason}.`,
+		"Your own last driving stint also ended because you looked stuck, so swapping again would only trade places.",
+		"Stuck signals for each model's latest driving stint:",
+		`- Model A: ${params.signals.A}`,
+		`- Model B: ${params.signals.B}`,
+		...(params.stintFeedback.length > 0
+			? ["Your feedback during this stint:", ...params.stintFeedback.map((feedback, index) => `${index + 1}. ${feedback}`)]
+			: []),
+		...checklistLines(params.checklist),
+		"Decide how the pair gets past this. Do not edit files.",
+		"- swap: you take over as driver.",
+		`- keep: Model ${params.driver} keeps driving and follows your resolution.`,
+		"- stop: end the implementation rounds and go to the final review.",
+		"Return exactly:",
+		"<tie_break>swap|keep|stop</tie_break>",
+		"<resolution>The concrete way past the recurring problem. Both models will see it and the next driver must follow it.</resolution>",
+	].join("\n");
+}
+
+export function buildFinalReviewPrompt(task: TaskSpec, agreedPlan: string, checklist?: string): string {
+	return [
+		...taskLines(task),
 		"Perform final quality review of the current workspace state against the agreed plan.",
 		"Call out remaining risk, missing tests, and any last improvements.",
 		"Agreed plan:",
 		agreedPlan,
+		...checklistLines(checklist),
 		"Return exactly:",
 		"<private_reflection>Your private quality notes.</private_reflection>",
 		"<public_feedback>Final public review, or NONE if no issues remain.</public_feedback>",
+		...acceptanceCheckLines(task),
+	].join("\n");
+}
+
+/** One short block per round: who drove, what the navigator asked for, and how it was settled. */
+export function formatRoundHistory(rounds: RoundResult[]): string {
+	if (rounds.length === 0) {
+		return "No implementation rounds ran.";
+	}
+	return rounds
+		.map((round) => {
+			const verification = round.verifications?.at(-1);
+			return [
+				`Round ${round.round} (driver ${round.driver}, ${round.navigatorReviews ? `navigators ${round.navigatorReviews.map(({ navigator }) => navigator).join(", ")}` : `navigator ${round.navigator}`}): ${round.driverReport.summary || "no summary"}`,
+				`- Navigator (${round.navigatorReview.driverRecommendation}): ${round.navigatorReview.hasFeedback ? round.navigatorReview.publicFeedback : "no feedback"}`,
+				...(round.driverDecision ? [`- Driver decision: ${round.driverDecision.decision}. ${round.driverDecision.justification}`] : []),
+				...(round.dispute ? [`- Dispute: ${round.dispute.outcome.replace(/_/g, " ")} (decided by ${round.dispute.decidedBy})`] : []),
+				...(verification ? [`- Verification: ${verification.passed ? "passed" : "failed"} (${verification.command})`] : []),
+				...(round.reverted ? ["- The round was reverted."] : []),
+			].join("\n");
+		})
+		.join("\n");
+}
+
+/**
+ * Without `arbiter` the prompt goes to Model A, which already holds the task and history in its context. An arbiter
+ * starts cold, so it also gets the task, the agreed plan and the round history.
+ */
+export function buildJointSynthesisPrompt(
+	reviews: Array<{ reviewer: MemberId; feedback: string }>,
+	unmetCriteria: string[] = [],
+	arbiter?: { task: TaskSpec; agreedPlan: string; rounds: RoundResult[] },
+): string {
+	const all = reviews.length === 2 ? "both" : `all ${reviews.length}`;
+	return [
+		...(arbiter
+			? [
+					...taskLines(arbiter.task),
+					"Agreed plan:",
+					arbiter.agreedPlan,
+					"Round history:",
+					formatRoundHistory(arbiter.rounds),
+					`As the arbiter, decide the final verdict. Weigh ${all} reviews against the history and the workspace; no model has the final word.`,
+				]
+			: [`Synthesize a joint final decision across ${all} model reviews.`]),
+		...reviews.flatMap(({ reviewer, feedback }) => [`Review from Model ${reviewer}:`, feedback]),
+		...(unmetCriteria.length > 0
+			? [
+					"Acceptance criteria at least one reviewer marked unmet (the verdict cannot be APPROVED while any remain):",
+					...unmetCriteria.map((criterion) => `- ${criterion}`),
+				]
+			: []),
+		"Return exactly:",
+		"<joint_verdict>APPROVED|NEEDS_MORE_WORK</joint_verdict>",
+		"<rationale>Why this verdict is correct.</rationale>",
+		"<next_steps>If NEEDS_MORE_WORK, list exact next actions. If APPROVED, write NONE.</next_steps>",
 	].join("\n");
 }
 
-export function buildJointSynthesisPrompt(reviewA: string, reviewB: string): string {
+export function buildBudgetFinalReviewPrompt(task: TaskSpec, agreedPlan: string, budgetNote: string): string {
 	return [
-		"Synthesize a joint final decision across both model reviews.",
-		"Review from Model A:",
-		reviewA,
-		"Review from Model B:",
-		reviewB,
+		...taskLines(task),
+		`The session budget is exhausted (${budgetNote}), so this single review replaces the usual two reviews and synthesis.`,
+		"Perform a brief final quality review of the current workspace state against the agreed plan.",
+		"Call out remaining risk and what is left unfinished.",
+		"Agreed plan:",
+		agreedPlan,
 		"Return exactly:",
+		"<private_reflection>Your private quality notes.</private_reflection>",
+		"<public_feedback>Final public review, or NONE if no issues remain.</public_feedback>",
 		"<joint_verdict>APPROVED|NEEDS_MORE_WORK</joint_verdict>",
 		"<rationale>Why this verdict is correct.</rationale>",
 		"<next_steps>If NEEDS_MORE_WORK, list exact next actions. If APPROVED, write NONE.</next_steps>",
+		...acceptanceCheckLines(task),
 	].join("\n");
 }
@@ -0,0 +1,37 @@
+import type { RetryConfig } from "./types.js";
+
+// Rate limits, overloads, gateway failures and dropped connections; anything else (bad request, auth) fails at once.
+// Status codes only count where providers put them: at the start of the message ("529 {...}"), after "status", or in
+// a JSON error body. A bare number or "timeout" elsewhere is usually the model's own tool output or a local failure.
+const RETRYABLE_STATUS = "(?:408|429|500|502|503|504|529)";
+const RETRYABLE_ERRORS = [
+	new RegExp(`^(?:[\\w.]*error:\\s*)?${RETRYABLE_STATUS}\\b`, "i"),
+	new RegExp(`\\bstatus(?: code)?:? ${RETRYABLE_STATUS}\\b`, "i"),
+	new RegExp(`"(?:code|status)"\\s*:\\s*"?${RETRYABLE_STATUS}\\b`),
+	/\b(?:rate_limit_error|overloaded_error|api_error|RESOURCE_EXHAUSTED|UNAVAILABLE|DEADLINE_EXCEEDED)\b/,
+	/^(?:rate limit|too many requests|overloaded)\b/i,
+	/\b(?:ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|EPIPE|UND_ERR_SOCKET|UND_ERR_CONNECT_TIMEOUT)\b/,
+	/^(?:fetch failed|socket hang up|connection error|request timed out)\.?$/i,
+];
+
+export function defaultRetryConfig(): RetryConfig {
+	return {
+		maxAttempts: 4,
+		baseDelayMs: 2000,
+		maxDelayMs: 30_000,
+		failoverAfter: 2,
+	};
+}
+
+export function isRetryableProviderError(message: string): boolean {
+	return RETRYABLE_ERRORS.some((pattern) => pattern.test(message));
+}
+
+/**
+ * Exponential backoff with equal jitter: half of the capped delay is fixed and the other half random, so workers
+ * that failed together do not all retry at the same moment.
+ */
+export function retryDelayMs(retry: number, config: RetryConfig, random: () => number = Math.random): number {
+	const capped = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** (retry - 1));
+	return Math.round(capped / 2 + random() * (capped / 2));
+}
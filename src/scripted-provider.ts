@@ -0,0 +1,246 @@
+import { readFileSync } from "node:fs";
+import type { StreamFn } from "@mariozechner/pi-agent-core";
+import {
+	createAssistantMessageEventStream,
+	type AssistantMessage,
+	type Context,
+	type Model,
+	type ToolCall,
+	type Usage,
+} from "@mariozechner/pi-ai";
+
+export const SCRIPTED_PROVIDER = "scripted";
+
+export interface ScriptedToolCall {
+	id?: string;
+	name: string;
+	arguments: Record<string, unknown>;
+}
+
+export interface ScriptedResponse {
+	/** Fails the call when the latest user message does not contain this text; keeps fixtures aligned with prompts. */
+	expectPromptIncludes?: string;
+	text?: string;
+	toolCalls?: ScriptedToolCall[];
+	/** Simulates a provider failure (stopReason "error") with this message. */
+	error?: string;
+	/** Token counts reported for this call; cost is zero because scripted models are free. */
+	usage?: ScriptedUsage;
+}
+
+export interface ScriptedUsage {
+	input: number;
+	output: number;
+	cacheRead?: number;
+	cacheWrite?: number;
+}
+
+export interface ScriptedFixture {
+	responses: ScriptedResponse[];
+}
+
+function scriptedUsage(usage?: ScriptedUsage): Usage {
+	const input = usage?.input ?? 0;
+	const output = usage?.output ?? 0;
+	const cacheRead = usage?.cacheRead ?? 0;
+	const cacheWrite = usage?.cacheWrite ?? 0;
+	return {
+		input,
+		output,
+		cacheRead,
+		cacheWrite,
+		totalTokens: input + output + cacheRead + cacheWrite,
+		cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 },
+	};
+}
+
+function isTokenCount(value: unknown): value is number {
+	return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+export function scriptedModel(modelId: string): Model<any> {
+	return {
+		id: modelId,
+		name: `Scripted ${modelId}`,
+		api: SCRIPTED_PROVIDER,
+		provider: SCRIPTED_PROVIDER,
+		baseUrl: "",
+		reasoning: false,
+		input: ["text"],
+		cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 },
+		contextWindow: 200_000,
+		maxTokens: 32_000,
+	};
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+export function parseScriptedFixture(value: unknown, source = "fixture"): ScriptedFixture {
+	if (!isRecord(value) || !Array.isArray(value.responses)) {
+		throw new Error(`Scripted ${source} must be an object with a "responses" array.`);
+	}
+
+	const responses = value.responses.map((entry, index): ScriptedResponse => {
+		const where = `${source} responses[${index}]`;
+		if (!isRecord(entry)) {
+			throw new Error(`Scripted ${where} must be an object.`);
+		}
+		if (entry.text !== undefined && typeof entry.text !== "string") {
+			throw new Error(`Scripted ${where}.text must be a string.`);
+		}
+		if (entry.error !== undefined && typeof entry.error !== "string") {
+			throw new Error(`Scripted ${where}.error must be a string.`);
+		}
+		if (entry.expectPromptIncludes !== undefined && typeof entry.expectPromptIncludes !== "string") {
+			throw new Error(`Scripted ${where}.expectPromptIncludes must be a string.`);
+		}
+		if (entry.toolCalls !== undefined && !Array.isArray(entry.toolCalls)) {
+			throw new Error(`Scripted ${where}.toolCalls must be an array.`);
+		}
+		const toolCalls = (entry.toolCalls as unknown[] | undefined)?.map((call, callIndex): ScriptedToolCall => {
+			if (!isRecord(call) || typeof call.name !== "string" || !isRecord(call.arguments)) {
+				throw new Error(`Scripted ${where}.toolCalls[${callIndex}] needs a string "name" and object "arguments".`);
+			}
+			return {
+				name: call.name,
+				arguments: call.arguments,
+				...(typeof call.id === "string" ? { id: call.id } : {}),
+			};
+		});
+		let usage: ScriptedUsage | undefined;
+		if (entry.usage !== undefined) {
+			const raw = entry.usage;
+			if (
+				!isRecord(raw) ||
+				!isTokenCount(raw.input) ||
+				!isTokenCount(raw.output) ||
+				(raw.cacheRead !== undefined && !isTokenCount(raw.cacheRead)) ||
+				(raw.cacheWrite !== undefined && !isTokenCount(raw.cacheWrite))
+			) {
+				throw new Error(`Scripted ${where}.usage needs non-negative integer "input" and "output" (and optional cache counts).`);
+			}
+			usage = {
+				input: raw.input,
+				output: raw.output,
+				...(isTokenCount(raw.cacheRead) ? { cacheRead: raw.cacheRead } : {}),
+				...(isTokenCount(raw.cacheWrite) ? { cacheWrite: raw.cacheWrite } : {}),
+			};
+		}
+		if (entry.text === undefined && entry.error === undefined && !toolCalls?.length) {
+			throw new Error(`Scripted ${where} needs "text", "toolCalls" or "error".`);
+		}
+
+		return {
+			...(typeof entry.expectPromptIncludes === "string" ? { expectPromptIncludes: entry.expectPromptIncludes } : {}),
+			...(typeof entry.text === "string" ? { text: entry.text } : {}),
+			...(toolCalls ? { toolCalls } : {}),
+			...(typeof entry.error === "string" ? { error: entry.error } : {}),
+			...(usage ? { usage } : {}),
+		};
+	});
+
+	return { responses };
+}
+
+export function loadScriptedFixture(path: string): ScriptedFixture {
+	let raw: string;
+	try {
+		raw = readFileSync(path, "utf-8");
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		throw new Error(`Failed to read scripted fixture ${path}: ${message}`);
+	}
+	try {
+		return parseScriptedFixture(JSON.parse(raw), path);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		throw new Error(`Invalid scripted fixture ${path}: ${message}`);
+	}
+}
+
+function latestUserText(context: Context): string {
+	for (let i = context.messages.length - 1; i >= 0; i -= 1) {
+		const message = context.messages[i];
+		if (message?.role !== "user") {
+			continue;
+		}
+		if (typeof message.content === "string") {
+			return message.content;
+		}
+		return message.content
+			.map((part) => (part.type === "text" ? part.text : ""))
+			.join("\n");
+	}
+	return "";
+}
+
+/**
+ * Replays fixture responses in order, one per LLM call. Tool calls are executed by the agent loop
+ * exactly as they would be for a real provider, so edits/writes land in the worker's cwd.
+ * Events are emitted on the next macrotask so subscribers (and steering) observe the same ordering
+ * they would with network latency.
+ */
+export function createScriptedStreamFn(fixture: ScriptedFixture): StreamFn {
+	let cursor = 0;
+
+	return (model, context, options) => {
+		const stream = createAssistantMessageEventStream();
+		const index = cursor;
+		const response = fixture.responses[index];
+		cursor += 1;
+
+		const message: AssistantMessage = {
+			role: "assistant",
+			content: [],
+			api: model.api,
+			provider: model.provider,
+			model: model.id,
+			usage: scriptedUsage(response?.usage),
+			stopReason: "stop",
+			timestamp: Date.now(),
+		};
+
+		const fail = (reason: "error" | "aborted", errorMessage: string): typeof stream => {
+			const failed: AssistantMessage = { ...message, stopReason: reason, errorMessage };
+			setImmediate(() => stream.push({ type: "error", reason, error: failed }));
+			return stream;
+		};
+
+		if (options?.signal?.aborted) {
+			return fail("aborted", "Request was aborted");
+		}
+		if (!response) {
+			return fail("error", `Scripted fixture exhausted after ${fixture.responses.length} responses.`);
+		}
+		if (response.expectPromptIncludes !== undefined && !latestUserText(context).includes(response.expectPromptIncludes)) {
+			return fail(
+				"error",
+				`Scripted response ${index} expected the prompt to include ${JSON.stringify(response.expectPromptIncludes)}.`,
+			);
+		}
+		if (response.error !== undefined) {
+			return fail("error", response.error);
+		}
+
+		if (response.text !== undefined) {
+			message.content.push({ type: "text", text: response.text });
+		}
+		const toolCalls: ToolCall[] = (response.toolCalls ?? []).map((call, callIndex) => ({
+			type: "toolCall",
+			id: call.id ?? `scripted-${index}-${callIndex}`,
+			name: call.name,
+			arguments: call.arguments,
+		}));
+		message.content.push(...toolCalls);
+		const reason = toolCalls.length > 0 ? "toolUse" : "stop";
+		message.stopReason = reason;
+
+		setImmediate(() => {
+			stream.push({ type: "start", partial: { ...message, content: [] } });
+			stream.push({ type: "done", reason, message });
+		});
+		return stream;
+	};
+}
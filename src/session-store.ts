@@ -0,0 +1,70 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { randomBytes } from "node:crypto";
+import { join } from "node:path";
+import type { SessionCheckpoint } from "./types.js";
+
+export const CHECKPOINT_VERSION = 1;
+
+export interface SessionStoreOptions {
+	cwd: string;
+	sessionId?: string;
+}
+
+export function createSessionId(now = Date.now()): string {
+	const stamp = new Date(now).toISOString().replace(/[:.]/g, "-");
+	return `${stamp}-${randomBytes(3).toString("hex")}`;
+}
+
+export function sessionsRoot(cwd: string): string {
+	return join(cwd, ".pairing-bots", "sessions");
+}
+
+export class SessionStore {
+	readonly sessionId: string;
+	readonly directory: string;
+	readonly checkpointFile: string;
+
+	constructor(options: SessionStoreOptions) {
+		this.sessionId = options.sessionId ?? createSessionId();
+		if (!/^[A-Za-z0-9._-]+$/.test(this.sessionId)) {
+			throw new Error(`Invalid session id: ${this.sessionId}`);
+		}
+		this.directory = join(sessionsRoot(options.cwd), this.sessionId);
+		this.checkpointFile = join(this.directory, "checkpoint.json");
+	}
+
+	async save(checkpoint: SessionCheckpoint): Promise<void> {
+		await mkdir(this.directory, { recursive: true });
+		// Write-then-rename so a crash mid-write never leaves a truncated checkpoint behind.
+		const pending = `${this.checkpointFile}.tmp`;
+		await writeFile(pending, JSON.stringify(checkpoint, null, 2), "utf-8");
+		await rename(pending, this.checkpointFile);
+	}
+
+	async load(): Promise<SessionCheckpoint> {
+		let raw: string;
+		try {
+			raw = await readFile(this.checkpointFile, "utf-8");
+		} catch {
+			throw new Error(`No checkpoint found for session ${this.sessionId} (expected ${this.checkpointFile}).`);
+		}
+
+		let checkpoint: SessionCheckpoint;
+		try {
+			checkpoint = JSON.parse(raw) as SessionCheckpoint;
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			throw new Error(`Checkpoint for session ${this.sessionId} is not valid JSON: ${message}`);
+		}
+
+		if (checkpoint.version !== CHECKPOINT_VERSION) {
+			throw new Error(
+				`Unsupported checkpoint version for session ${this.sessionId}: ${String(checkpoint.version)} (expected ${CHECKPOINT_VERSION}).`,
+			);
+		}
+		if (checkpoint.sessionId !== this.sessionId) {
+			throw new Error(`Checkpoint session id mismatch: expected ${this.sessionId}, found ${checkpoint.sessionId}.`);
+		}
+		return checkpoint;
+	}
+}
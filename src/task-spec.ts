@@ -0,0 +1,200 @@
+import { readFile } from "node:fs/promises";
+import type { TaskSpec } from "./types.js";
+
+type ListField = "acceptanceCriteria" | "filesInScope" | "filesOffLimits";
+
+const FRONT_MATTER_KEYS: Record<string, "title" | "verifyCommand" | ListField> = {
+	title: "title",
+	acceptance_criteria: "acceptanceCriteria",
+	files_in_scope: "filesInScope",
+	files_off_limits: "filesOffLimits",
+	verify_command: "verifyCommand",
+};
+
+// Issue templates usually carry these as Markdown sections rather than front-matter.
+const SECTION_HEADINGS: Record<string, ListField> = {
+	"acceptance criteria": "acceptanceCriteria",
+	"files in scope": "filesInScope",
+	"files off limits": "filesOffLimits",
+	"files off-limits": "filesOffLimits",
+	"out of scope": "filesOffLimits",
+};
+
+const LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?(.*)$/;
+
+export function taskSpecFromText(text: string): TaskSpec {
+	return { description: text.trim(), acceptanceCriteria: [], filesInScope: [], filesOffLimits: [] };
+}
+
+function unquote(value: string): string {
+	const trimmed = value.trim();
+	if (trimmed.length >= 2 && (trimmed[0] === '"' || trimmed[0] === "'") && trimmed.at(-1) === trimmed[0]) {
+		return trimmed.slice(1, -1);
+	}
+	return trimmed;
+}
+
+/** Reads the small YAML subset tickets need: `key: value`, `key: [a, b]` and `key:` followed by `- item` lines. */
+function parseFrontMatter(lines: string[], source: string): Partial<TaskSpec> {
+	const spec: Partial<TaskSpec> = {};
+	let currentList: ListField | undefined;
+	lines.forEach((line, index) => {
+		const where = `${source}: front-matter line ${index + 2}`;
+		if (line.trim() === "" || line.trim().startsWith("#")) {
+			return;
+		}
+		const item = line.match(/^\s+-\s+(.*)$/) ?? line.match(/^-\s+(.*)$/);
+		if (item) {
+			if (!currentList) {
+				throw new Error(`${where}: list item without a list key above it.`);
+			}
+			(spec[currentList] ??= []).push(unquote(item[1] ?? ""));
+			return;
+		}
+		const pair = line.match(/^([A-Za-z][\w-]*)\s*:\s*(.*)$/);
+		if (!pair) {
+			throw new Error(`${where}: expected "key: value", got "${line.trim()}".`);
+		}
+		const rawKey = (pair[1] ?? "").toLowerCase().replace(/-/g, "_");
+		const field = FRONT_MATTER_KEYS[rawKey];
+		if (!field) {
+			throw new Error(`${where}: unknown key "${pair[1]}". Known keys: ${Object.keys(FRONT_MATTER_KEYS).join(", ")}.`);
+		}
+		const value = (pair[2] ?? "").trim();
+		currentList = undefined;
+		if (field === "title" || field === "verifyCommand") {
+			if (!value) {
+				throw new Error(`${where}: ${rawKey} needs a value.`);
+			}
+			spec[field] = unquote(value);
+			return;
+		}
+		if (value.startsWith("[") && value.endsWith("]")) {
+			spec[field] = value
+				.slice(1, -1)
+				.split(",")
+				.map(unquote)
+				.filter((entry) => entry.length > 0);
+			return;
+		}
+		if (value) {
+			throw new Error(`${where}: ${rawKey} must be a list ("- item" lines or [a, b]).`);
+		}
+		currentList = field;
+		spec[field] = [];
+	});
+	return spec;
+}
+
+function normalizeHeading(heading: string): string {
+	return heading.trim().toLowerCase().replace(/:$/, "");
+}
+
+/**
+ * Parses a Markdown ticket with optional front-matter into a TaskSpec. The list items of recognised sections
+ * (acceptance criteria, files in scope, files off-limits) are lifted out of the description; everything else,
+ * including prose and code under those sections, stays as written. Fenced code blocks are never parsed.
+ */
+export function parseTaskMarkdown(markdown: string, source?: string): TaskSpec {
+	const label = source ?? "task file";
+	let lines = markdown.replace(/\r\n/g, "\n").split("\n");
+	let frontMatter: Partial<TaskSpec> = {};
+	if (lines[0]?.trim() === "---") {
+		const end = lines.findIndex((line, index) => index > 0 && line.trim() === "---");
+		if (end === -1) {
+			throw new Error(`${label}: front-matter starts with --- but is never closed.`);
+		}
+		frontMatter = parseFrontMatter(lines.slice(1, end), label);
+		lines = lines.slice(end + 1);
+	}
+
+	const sections: Record<ListField, string[]> = { acceptanceCriteria: [], filesInScope: [], filesOffLimits: [] };
+	const descriptionLines: string[] = [];
+	let title = frontMatter.title;
+	let section: ListField | undefined;
+	// The recognised heading, until a line that is not a list item makes it go back into the description.
+	let sectionHeading: string | undefined;
+	let lastItemLine = false;
+	let fence: string | undefined;
+	const keepInDescription = (line: string): void => {
+		if (sectionHeading !== undefined) {
+			descriptionLines.push(sectionHeading);
+			sectionHeading = undefined;
+		}
+		descriptionLines.push(line);
+	};
+	for (const line of lines) {
+		const fenceMarker = line.match(/^\s{0,3}(`{3,}|~{3,})/)?.[1];
+		if (fence || fenceMarker) {
+			// Inside a fenced block nothing is a heading or a list item: `# comment` in a shell snippet stays code.
+			if (!fence) {
+				fence = fenceMarker;
+			} else if (fenceMarker && fenceMarker[0] === fence[0] && fenceMarker.length >= fence.length && line.trim() === fenceMarker) {
+				fence = undefined;
+			}
+			lastItemLine = false;
+			keepInDescription(line);
+			continue;
+		}
+		const heading = line.match(/^(#{1,6})\s+(.*)$/);
+		if (heading) {
+			const level = heading[1]?.length ?? 1;
+			const text = heading[2] ?? "";
+			section = SECTION_HEADINGS[normalizeHeading(text)];
+			sectionHeading = section ? line : undefined;
+			lastItemLine = false;
+			if (section) {
+				continue;
+			}
+			if (level === 1 && !title && descriptionLines.every((entry) => entry.trim() === "")) {
+				title = text.trim();
+				continue;
+			}
+		}
+		if (section) {
+			const item = line.match(LIST_ITEM);
+			const items = sections[section];
+			if (item?.[1]?.trim()) {
+				items.push(item[1].trim());
+				lastItemLine = true;
+			} else if (lastItemLine && /^\s+\S/.test(line) && items.length > 0) {
+				// An indented line right under an item continues it.
+				items[items.length - 1] = `${items[items.length - 1]} ${line.trim()}`;
+			} else if (line.trim() === "") {
+				lastItemLine = false;
+				if (sectionHeading === undefined) {
+					descriptionLines.push(line);
+				}
+			} else {
+				lastItemLine = false;
+				keepInDescription(line);
+			}
+			continue;
+		}
+		descriptionLines.push(line);
+	}
+
+	const description = descriptionLines.join("\n").trim();
+	if (!description && !title) {
+		throw new Error(`${label}: the task has no title or description.`);
+	}
+	return {
+		...(title ? { title } : {}),
+		description: description || (title ?? ""),
+		acceptanceCriteria: [...(frontMatter.acceptanceCriteria ?? []), ...sections.acceptanceCriteria],
+		filesInScope: [...(frontMatter.filesInScope ?? []), ...sections.filesInScope],
+		filesOffLimits: [...(frontMatter.filesOffLimits ?? []), ...sections.filesOffLimits],
+		...(frontMatter.verifyCommand ? { verifyCommand: frontMatter.verifyCommand } : {}),
+		...(source ? { sourceFile: source } : {}),
+	};
+}
+
+export async function loadTaskFile(path: string): Promise<TaskSpec> {
+	let text: string;
+	try {
+		text = await readFile(path, "utf-8");
+	} catch {
+		throw new Error(`Task file not found: ${path}`);
+	}
+	return parseTaskMarkdown(text, path);
+}
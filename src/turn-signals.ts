@@ -0,0 +1,61 @@
+import type { AdaptiveTurnState, DriverSignals, TurnPolicy } from "./types.js";
+
+type AdaptivePolicy = Extract<TurnPolicy, { mode: "adaptive" }>;
+
+// Share of distinct words two pieces of feedback must have in common to count as the same issue.
+const REPEATED_FEEDBACK_OVERLAP = 0.5;
+
+const STOP_WORDS = new Set(["this", "that", "with", "from", "have", "should", "would", "could", "there", "still", "please", "into", "when"]);
+
+export function emptyDriverSignals(): DriverSignals {
+	return { rejectedFeedback: 0, repeatedFeedback: 0, verificationFailures: 0, toolErrors: 0 };
+}
+
+export function emptyAdaptiveTurnState(): AdaptiveTurnState {
+	return { signals: { A: emptyDriverSignals(), B: emptyDriverSignals() }, stintFeedback: [], stuck: [] };
+}
+
+function significantWords(text: string): Set<string> {
+	const words = text.toLowerCase().match(/[a-z0-9_.]+/g) ?? [];
+	return new Set(words.filter((word) => word.length >= 4 && !STOP_WORDS.has(word)));
+}
+
+/**
+ * True when the feedback shares most of its significant words with any earlier feedback, measured against the
+ * shorter of the two so a repeat that adds detail still counts.
+ */
+export function isRepeatedFeedback(feedback: string, earlier: string[]): boolean {
+	const words = significantWords(feedback);
+	if (words.size === 0) {
+		return false;
+	}
+	return earlier.some((previous) => {
+		const previousWords = significantWords(previous);
+		if (previousWords.size === 0) {
+			return false;
+		}
+		const shared = [...words].filter((word) => previousWords.has(word)).length;
+		return shared / Math.min(words.size, previousWords.size) >= REPEATED_FEEDBACK_OVERLAP;
+	});
+}
+
+/** Names the first signal that reached its limit, or undefined while the driver still looks productive. */
+export function stuckReason(signals: DriverSignals, policy: AdaptivePolicy): string | undefined {
+	const checks: Array<[number, number, string]> = [
+		[signals.rejectedFeedback, policy.maxRejectedFeedback, "rejected navigator reviews"],
+		[signals.repeatedFeedback, policy.maxRepeatedFeedback, "repeated navigator feedback on the same issue"],
+		[signals.verificationFailures, policy.maxVerificationFailures, "verification failures"],
+		[signals.toolErrors, policy.maxToolErrors, "tool errors"],
+	];
+	const hit = checks.find(([count, limit]) => count >= limit);
+	return hit ? `${hit[0]} ${hit[2]} (limit ${hit[1]})` : undefined;
+}
+
+export function formatDriverSignals(signals: DriverSignals): string {
+	return [
+		`rejected reviews: ${signals.rejectedFeedback}`,
+		`repeated feedback: ${signals.repeatedFeedback}`,
+		`verification failures: ${signals.verificationFailures}`,
+		`tool errors: ${signals.toolErrors}`,
+	].join(", ");
+}
@@ -1,26 +1,169 @@
-import type { ThinkingLevel as AgentThinkingLevel } from "@mariozechner/pi-agent-core";
+import type { AgentMessage, ThinkingLevel as AgentThinkingLevel } from "@mariozechner/pi-agent-core";
 import type { KnownProvider } from "@mariozechner/pi-ai";
 
 export type AgentId = "A" | "B";
+/** Models beyond the pair in `mob` mode, lettered in roster order after A and B. */
+export type MobMemberId = "C" | "D" | "E" | "F";
+/** Any model that can drive: the pair, plus the mob members when `mob` mode runs. */
+export type MemberId = AgentId | MobMemberId;
+/** The driving models plus the optional arbiter, which only ever reviews and never edits code. */
+export type WorkerId = MemberId | "arbiter";
+/** One value per driving model: the pair always has one, mob members only when they are in the roster. */
+export type MemberRecord<T> = Record<AgentId, T> & Partial<Record<MobMemberId, T>>;
 export type PairRole = "driver" | "navigator";
 export type WorkspaceMode = "direct" | "ephemeral_copy";
 export type EventStreamMode = "compact" | "full";
-export type ExecutionMode = "paired_turns" | "solo_driver_then_reviewer";
+export type ExecutionMode = "paired_turns" | "solo_driver_then_reviewer" | "mob";
+/** How `mob` picks each round's driver: in roster order, or whoever has written the least code so far. */
+export type MobRotation = "round_robin" | "least_contributed";
+
+/** How `paired_turns` builds the plan: A drafts and B critiques, or both draft blind and A merges the drafts. */
+export type PlanningMode = "handshake" | "independent_then_merge";
+
+export type ScriptedProvider = "scripted";
 
 export interface ModelSpec {
-	provider: KnownProvider;
+	provider: KnownProvider | ScriptedProvider;
 	modelId: string;
 	thinkingLevel: AgentThinkingLevel;
+	/** Path to a scripted fixture; required when provider is "scripted". */
+	fixtureFile?: string;
+	/** Model the worker switches to after `RetryConfig.failoverAfter` consecutive retryable failures. */
+	fallback?: ModelSpec;
+}
+
+/** Retries for transient provider errors such as rate limits, overloads and dropped connections. */
+export interface RetryConfig {
+	/** Provider calls per failure streak before the prompt fails, the first one included; 1 disables retrying. */
+	maxAttempts: number;
+	baseDelayMs: number;
+	maxDelayMs: number;
+	/** Consecutive retryable failures after which a worker with a fallback model switches to it for the rest of the run. */
+	failoverAfter: number;
+}
+
+/** Wall-clock limits per prompt. A prompt that runs over is aborted and the run fails with a resumable checkpoint. */
+export interface PromptTimeouts {
+	/** Driver turns and feedback resolution. */
+	driverTurnMs?: number;
+	/** Every read-only prompt: planning, navigator reviews, disputes and the final review. */
+	reviewMs?: number;
+}
+
+export type CompactionMode = "auto" | "off";
+
+/** Keeps long runs inside each model's context window by summarizing a worker's older messages between prompts. */
+export interface CompactionConfig {
+	mode: CompactionMode;
+	/** Percentage (1-100) of the model's context window the estimated context may reach before the next prompt compacts it. */
+	thresholdPercent: number;
+	/** Most recent messages kept verbatim; everything before them is replaced by the summary. */
+	keepRecentMessages: number;
+	/** Cheaper model that writes the summaries. Without one, each worker summarizes its own history with its own model. */
+	model?: ModelSpec;
 }
 
+export interface ContextCompaction {
+	worker: WorkerId;
+	/** `provider/model-id` that wrote the summary. */
+	summarizer: string;
+	messagesCompacted: number;
+	/** Private memory entries among the compacted messages; their summary stays in this worker's context only. */
+	privateMemoriesCompacted: number;
+	/** Estimated context tokens, before and after, including the prompt about to be sent. */
+	tokensBefore: number;
+	tokensAfter: number;
+	contextWindow: number;
+}
+
+export type MemoryMode = "on" | "off";
+
+/** Private notes kept per project and model across runs, under `.pairing-bots/memory/`. */
+export interface MemoryConfig {
+	mode: MemoryMode;
+	/** Most recent notes loaded into a worker at session start. */
+	maxLessons: number;
+}
+
+export type MemorySource = "navigator_reflection" | "final_review";
+
+/** The models that join A and B in `mob` mode. */
+export interface MobConfig {
+	/** Models C, D, ... in roster order; one to four of them. */
+	members: ModelSpec[];
+	rotation: MobRotation;
+}
+
+export interface MemoryEntry {
+	sessionId: string;
+	source: MemorySource;
+	content: string;
+	/** ISO timestamp. */
+	createdAt: string;
+}
+
+/** One memory file: the notes of every run in this project by one model, oldest first. */
+export interface ModelMemory {
+	version: number;
+	/** `provider/model-id`; models with the same id share their notes whichever slot (A or B) they ran in. */
+	model: string;
+	entries: MemoryEntry[];
+}
+
+export interface ProviderRetry {
+	worker: WorkerId;
+	/** `provider/model-id` of the call that failed. */
+	model: string;
+	/** 1 for the first retry of a failure streak. */
+	attempt: number;
+	delayMs: number;
+	error: string;
+}
+
+export interface ModelFailover {
+	worker: WorkerId;
+	from: string;
+	to: string;
+	/** Consecutive failures that triggered the switch. */
+	failures: number;
+	error: string;
+}
+
+/** One condition that pauses the driver. Counters restart after every checkpoint, whichever trigger fired it. */
+export type PauseTrigger =
+	| {
+			mode: "every_n_file_edits";
+			editsPerPause: number;
+			countedTools: string[];
+	  }
+	| {
+			/** Lines added plus removed by successful edit/write calls, so one large write counts for its size. */
+			mode: "every_n_changed_lines";
+			linesPerPause: number;
+	  }
+	| {
+			mode: "every_n_distinct_files";
+			filesPerPause: number;
+	  }
+	| {
+			/** Checked whenever a tool call finishes; a driver that is only thinking is not interrupted. */
+			mode: "every_n_seconds";
+			secondsPerPause: number;
+	  }
+	| {
+			mode: "on_bash_failure";
+	  };
+
+export type PauseTriggerMode = PauseTrigger["mode"];
+
 export type PauseStrategy =
 	| {
 			mode: "none";
 	  }
+	| PauseTrigger
 	| {
-			mode: "every_n_file_edits";
-			editsPerPause: number;
-			countedTools: string[];
+			mode: "any_of";
+			strategies: PauseTrigger[];
 	  };
 
 export type TurnPolicy =
@@ -31,22 +174,173 @@ export type TurnPolicy =
 			mode: "same_driver_until_navigator_signoff";
 			maxConsecutiveRounds: number;
 			maxConsecutiveCheckpoints: number;
+	  }
+	| {
+			/**
+			 * Like `same_driver_until_navigator_signoff`, but also swaps a driver whose stuck signals reach a limit during
+			 * its stint. When both agents have looked stuck in turn, the navigator breaks the tie instead.
+			 */
+			mode: "adaptive";
+			maxConsecutiveRounds: number;
+			maxConsecutiveCheckpoints: number;
+			maxRejectedFeedback: number;
+			maxRepeatedFeedback: number;
+			maxVerificationFailures: number;
+			maxToolErrors: number;
 	  };
 
+/** Stuck signals gathered while one agent drives, counted from the round it took the wheel. */
+export interface DriverSignals {
+	/** Navigator reviews with feedback that the driver rejected outright. */
+	rejectedFeedback: number;
+	/** Navigator feedback that raised the same issue as earlier feedback in the stint. */
+	repeatedFeedback: number;
+	verificationFailures: number;
+	/** Failed tool calls of any kind, bash included. */
+	toolErrors: number;
+}
+
+export interface AdaptiveTurnState {
+	/** Signals from each agent's current or most recent driving stint. */
+	signals: Record<AgentId, DriverSignals>;
+	/** Navigator feedback given during the current stint, to spot repeats. */
+	stintFeedback: string[];
+	/** Agents whose latest stint ended because they looked stuck. */
+	stuck: AgentId[];
+}
+
+export interface TieBreak {
+	/** The driver that looked stuck when the tie-break was called. */
+	driver: AgentId;
+	/** The navigator that decided. */
+	decidedBy: AgentId;
+	reason: string;
+	decision: "swap" | "keep" | "stop";
+	/** How to get past the recurring problem; shared with both agents. */
+	resolution: string;
+	raw: string;
+}
+
+/**
+ * Who settles a dispute the navigator's rebuttal did not resolve: a fixed `rule`, a `human` asked on the
+ * terminal, or the arbiter `model` (`PairAgentConfig.arbiter`). `off` keeps the driver's rejection final and skips
+ * the rebuttal.
+ */
+export type DisputeArbiter = "off" | "rule" | "human" | "model";
+
+/** `verification` sides with the driver while the latest verification run passes, and with the navigator otherwise. */
+export type DisputeRule = "driver_wins" | "navigator_wins" | "verification";
+
+export interface DisputeConfig {
+	arbiter: DisputeArbiter;
+	/** Used by the `rule` arbiter, and by `human` or `model` when they give no answer. */
+	rule: DisputeRule;
+}
+
+export type DisputeOutcome = "navigator_conceded" | "driver_accepted" | "upheld_driver" | "upheld_navigator";
+
+export interface Dispute {
+	round: number;
+	driver: AgentId;
+	navigator: AgentId;
+	/** The navigator's feedback, or its recommendation to revert the round. */
+	subject: "feedback" | "revert";
+	feedback: string;
+	driverJustification: string;
+	rebuttal?: string;
+	/** The driver's justification after reading the rebuttal. */
+	driverResponse?: string;
+	outcome: DisputeOutcome;
+	decidedBy: "navigator" | "driver" | "rule" | "human" | "arbiter";
+	/** Why the arbiter ruled the way it did; absent when the models settled it themselves. */
+	ruling?: string;
+}
+
+export type VerificationStage = "after_driving" | "after_feedback_resolution";
+
+export interface VerificationConfig {
+	command: string;
+	timeoutMs: number;
+	maxOutputChars: number;
+}
+
+export interface VerificationResult {
+	stage: VerificationStage;
+	command: string;
+	exitCode: number | null;
+	passed: boolean;
+	timedOut: boolean;
+	durationMs: number;
+	output: string;
+	outputTruncated: boolean;
+}
+
+export type CommitMode = "per_round" | "per_checkpoint";
+
+export interface CommitConfig {
+	mode: CommitMode;
+	/** Commit onto `pairing-bots/<session-id>` instead of the branch that was checked out. */
+	sessionBranch: boolean;
+}
+
+export interface RoundCommit {
+	sha: string;
+	trigger: "checkpoint" | "round_end";
+	subject: string;
+}
+
+export type BudgetLimit = "cost" | "tokens" | "wall_time";
+
+export interface BudgetConfig {
+	maxCostUsd?: number;
+	maxTokens?: number;
+	maxWallTimeMs?: number;
+	/** Once spend reaches `atFraction` (0-1) of any cap, navigators run at this thinking level. */
+	navigatorDowngrade?: {
+		atFraction: number;
+		thinkingLevel: AgentThinkingLevel;
+	};
+}
+
+export interface BudgetExhaustion {
+	limit: BudgetLimit;
+	used: number;
+	cap: number;
+}
+
 export interface PairAgentConfig {
 	modelA: ModelSpec;
 	modelB: ModelSpec;
 	cwd: string;
 	maxRounds: number;
+	/** How many times B reviews the plan in `paired_turns` before it is fixed, signed off or not. */
+	maxPlanIterations: number;
+	planningMode: PlanningMode;
 	driverStartsAs: AgentId;
 	executionMode: ExecutionMode;
 	pauseStrategy: PauseStrategy;
 	turnPolicy: TurnPolicy;
+	verification?: VerificationConfig;
+	commits?: CommitConfig;
+	budget?: BudgetConfig;
+	/** In `paired_turns`, checkpoints start a read-only navigator review alongside the driver instead of pausing it. */
+	parallelReview?: boolean;
+	/** How a driver's rejection of navigator feedback is contested and settled in `paired_turns`. */
+	disputes: DisputeConfig;
+	/** Third model that reads both final reviews and the round history and decides the joint verdict in place of A. */
+	arbiter?: ModelSpec;
+	retry: RetryConfig;
+	timeouts?: PromptTimeouts;
+	compaction: CompactionConfig;
+	memory: MemoryConfig;
+	/** Extra models for `mob` mode; A and B are always the first two members of the roster. */
+	mob?: MobConfig;
 }
 
 export interface SharedEntry {
 	stage: string;
-	actor: AgentId | "system";
+	/** `both` marks content the two models agreed on, such as the signed-off plan. */
+	actor: WorkerId | "both" | "system";
 	content: string;
 	timestamp: number;
 }
@@ -56,6 +350,7 @@ export interface DriverReport {
 	summary: string;
 	changes: string;
 	questionsForNavigator: string;
+	checklistUpdates: ChecklistUpdate[];
 	raw: string;
 }
 
@@ -63,31 +358,177 @@ export interface NavigatorReview {
 	privateReflection: string;
 	publicFeedback: string;
 	hasFeedback: boolean;
-	driverRecommendation: "continue" | "handoff";
+	driverRecommendation: "continue" | "handoff" | "revert";
+	checklistUpdates: ChecklistUpdate[];
+	/** Per-criterion verdicts, only present on final reviews of a task with acceptance criteria. */
+	acceptanceChecks?: AcceptanceCheck[];
+	raw: string;
+}
+
+/** A task as the pair sees it: the free-text description plus the structured parts of a ticket. */
+export interface TaskSpec {
+	title?: string;
+	description: string;
+	acceptanceCriteria: string[];
+	filesInScope: string[];
+	filesOffLimits: string[];
+	verifyCommand?: string;
+	sourceFile?: string;
+}
+
+/** Which draft a merged plan step came from; `both` when the two drafts had it. */
+export type PlanStepSource = AgentId | "both";
+
+export interface PlanStep {
+	id: number;
+	description: string;
+	/** Set on plans merged from independent drafts. */
+	source?: PlanStepSource;
+}
+
+/** The plan as parsed from a `<plan_draft>` or `<agreed_plan>` response. Step ids are the plan's own numbering. */
+export interface Plan {
+	summary: string;
+	steps: PlanStep[];
+	risks: string[];
+	testSteps: string[];
+	filesInScope: string[];
+}
+
+export type PlanSignoff = "agree" | "disagree";
+
+/** Model B's reply to one plan review iteration. A missing or unrecognised sign-off counts as `disagree`. */
+export interface PlanReview {
+	feedback: string;
+	signoff: PlanSignoff;
+	/** One entry per bullet or line of feedback; empty when B agreed. */
+	objections: string[];
 	raw: string;
 }
 
+/** How the planning negotiation ended. `openRisks` holds B's objections when it never signed off. */
+export interface PlanNegotiation {
+	mode: PlanningMode;
+	iterations: number;
+	maxIterations: number;
+	signedOff: boolean;
+	openRisks: string[];
+}
+
+export type ChecklistStatus = "pending" | "in_progress" | "done" | "disputed";
+
+/** One numbered item of the agreed plan (or an acceptance criterion), tracked from round to round. */
+export interface ChecklistItem {
+	id: number;
+	text: string;
+	kind: "step" | "criterion";
+	status: ChecklistStatus;
+	/** Driver of the round in which the item reached `done`. */
+	completedBy?: MemberId;
+	completedRound?: number;
+	/** Latest reason given with a status change, e.g. why the navigator disputes it. */
+	note?: string;
+}
+
+export interface ChecklistUpdate {
+	id: number;
+	status: ChecklistStatus;
+	note?: string;
+}
+
+export interface AcceptanceCheck {
+	criterion: string;
+	met: boolean;
+	note: string;
+}
+
 export interface DriverDecision {
 	decision: "accept" | "partial" | "reject";
 	justification: string;
 	raw: string;
 }
 
+export interface FileLineChange {
+	path: string;
+	linesAdded: number;
+	linesRemoved: number;
+}
+
+export interface LineAttribution {
+	linesAdded: number;
+	linesRemoved: number;
+	filesTouched: string[];
+	survivingLines: number;
+}
+
+export interface LedgerState {
+	files: Record<string, { content: string; owners: [MemberId | null, number][] }>;
+	totals: MemberRecord<Omit<LineAttribution, "survivingLines">>;
+	/** Size and mtime of every tracked file, so a resume can list what changed after the checkpoint. */
+	stamps?: Record<string, [size: number, mtimeMs: number]>;
+}
+
+/** A navigator mini-review run while the driver was paused at a checkpoint; the driver resumed with its feedback. */
+export interface CheckpointReview {
+	checkpoint: number;
+	phase: "driving" | "feedback_resolution";
+	/** Line changes since the previous checkpoint (or the start of the round). */
+	fileChanges: FileLineChange[];
+	feedback: string;
+	hasFeedback: boolean;
+}
+
+/** A navigator review run at a checkpoint while the driver kept working (`parallelReview`). */
+export interface InterimReview {
+	checkpoint: number;
+	phase: "driving" | "feedback_resolution";
+	files: string[];
+	feedback: string;
+	hasFeedback: boolean;
+	/** True when the feedback was steered into the driver's turn; false if the turn had already ended. */
+	steered: boolean;
+	error?: string;
+}
+
+/** One mob navigator's own review; the round's `navigatorReview` holds all of them merged. */
+export interface MobNavigatorReview {
+	navigator: MemberId;
+	review: NavigatorReview;
+}
+
 export interface RoundResult {
 	round: number;
-	driver: AgentId;
-	navigator: AgentId;
+	driver: MemberId;
+	/** In `mob` mode, the first navigator after the driver in roster order; every navigator is in `navigatorReviews`. */
+	navigator: MemberId;
 	pauseTriggered: boolean;
 	checkpointCount: number;
 	editWriteCallCount: number;
 	estimatedWrittenBytes: number;
+	/** Failed tool calls during the driver's turns. */
+	toolErrorCount: number;
 	driverReport: DriverReport;
 	navigatorReview: NavigatorReview;
+	/** Set in `mob` mode: each navigator's review, in roster order. */
+	navigatorReviews?: MobNavigatorReview[];
+	/** Plan step the driver was pointed at this round, if any step was still open. */
+	focusStep?: number;
 	driverDecision?: DriverDecision;
+	checkpointReviews?: CheckpointReview[];
+	interimReviews?: InterimReview[];
+	verifications?: VerificationResult[];
+	fileChanges: FileLineChange[];
+	commits?: RoundCommit[];
+	/** Set when the driver agreed to the navigator's revert and the workspace went back to its pre-round state. */
+	reverted?: boolean;
+	/** Set when the driver rejected the navigator's feedback and the dispute protocol ran. */
+	dispute?: Dispute;
+	/** Set when the adaptive turn policy escalated to a tie-break after this round. */
+	tieBreak?: TieBreak;
 }
 
-export interface ContributionSummary {
-	agent: AgentId;
+export interface ContributionSummary extends LineAttribution {
+	agent: MemberId;
 	estimatedWrittenBytes: number;
 	editWriteCallCount: number;
 	roundsDriven: number;
@@ -99,7 +540,40 @@ export interface RunSummary {
 	checkpointCount: number;
 	swapCount: number;
 	totalEstimatedWrittenBytes: number;
-	contributions: Record<AgentId, ContributionSummary>;
+	totalLinesAdded: number;
+	totalLinesRemoved: number;
+	/** One entry per roster member: A and B, plus C onwards in `mob` mode. */
+	contributions: MemberRecord<ContributionSummary>;
+	/** Set when the run stopped early because a budget cap was reached. */
+	budgetExhausted?: BudgetExhaustion;
+	/** Provider calls retried after a transient error, in this process. */
+	providerRetries: number;
+	/** Workers that switched to their fallback model, in this process. */
+	failovers: ModelFailover[];
+	/** Context compactions, in this process. The shared journal in the result is never compacted. */
+	compactions: ContextCompaction[];
+}
+
+export type UsagePhase = "planning" | "driving" | "navigation" | "feedback_resolution" | "final_review";
+
+export interface TokenUsage {
+	calls: number;
+	input: number;
+	output: number;
+	cacheRead: number;
+	cacheWrite: number;
+	totalTokens: number;
+	costUsd: number;
+}
+
+export interface UsageBreakdown {
+	total: TokenUsage;
+	byAgent: MemberRecord<TokenUsage>;
+	/** Calls made by the arbiter model; absent unless one ran. Counted in `total` but never in `byAgent`. */
+	arbiter?: TokenUsage;
+	byPhase: Partial<Record<UsagePhase, TokenUsage>>;
+	/** Keyed by round number; planning and final review calls are not part of any round. */
+	byRound: Record<string, TokenUsage>;
 }
 
 export interface ObservabilitySummary {
@@ -112,23 +586,86 @@ export interface ObservabilitySummary {
 	toolExecutionCount: number;
 	toolExecutionErrorCount: number;
 	durationMs: number;
+	usage: UsageBreakdown;
 }
 
 export interface FinalReview {
 	reviewA: NavigatorReview;
 	reviewB: NavigatorReview;
+	/** Final reviews from the mob members beyond A and B. */
+	mobReviews?: Partial<Record<MobMemberId, NavigatorReview>>;
 	jointVerdict: "APPROVED" | "NEEDS_MORE_WORK";
 	rationale: string;
 	nextSteps: string;
+	/** Combined reviewer verdict per acceptance criterion; a criterion is met only when every reviewer says so. */
+	acceptance?: AcceptanceCheck[];
+	/** Model that wrote the joint verdict; absent on solo runs, where the reviewer's recommendation decides it. */
+	decidedBy?: WorkerId;
 	raw: string;
 }
 
 export interface PairRunResult {
 	task: string;
+	taskSpec: TaskSpec;
+	/** The agreed plan rendered as text, as shown to both models. */
 	agreedPlan: string;
+	plan: Plan;
+	/** Absent in `solo_driver_then_reviewer`, where A plans alone. */
+	planNegotiation?: PlanNegotiation;
 	rounds: RoundResult[];
+	/** Every dispute from the rounds, in order. */
+	disputes: Dispute[];
 	finalReview: FinalReview;
+	checklist: ChecklistItem[];
 	summary: RunSummary;
 	observability?: ObservabilitySummary;
 	sharedJournal: SharedEntry[];
 }
+
+export type SessionPhase = "planning" | "execution" | "final_review" | "completed";
+
+export interface WorkerSnapshot {
+	messages: AgentMessage[];
+	privateMemory: string[];
+}
+
+export interface ExecutionState {
+	nextRound: number;
+	/** Unused in `mob`, where the rotation picks each round's driver from the rounds so far. */
+	driverId: AgentId;
+	consecutiveRoundsWithDriver: number;
+	consecutiveCheckpointsWithDriver: number;
+	swapCount: number;
+	checkpointCount: number;
+	contributions: MemberRecord<ContributionSummary>;
+	/** Only kept under the `adaptive` turn policy. */
+	adaptive?: AdaptiveTurnState;
+}
+
+export interface SessionCheckpoint {
+	version: 1;
+	sessionId: string;
+	createdAt: number;
+	updatedAt: number;
+	phase: SessionPhase;
+	task: string;
+	/** Absent in checkpoints written before task files existed; `task` is then the whole task. */
+	taskSpec?: TaskSpec;
+	config: PairAgentConfig;
+	agreedPlan: string;
+	plan?: Plan;
+	planNegotiation?: PlanNegotiation;
+	rounds: RoundResult[];
+	execution: ExecutionState;
+	sharedJournal: SharedEntry[];
+	workers: MemberRecord<WorkerSnapshot>;
+	ledger: LedgerState;
+	checklist?: ChecklistItem[];
+	/** Tokens and cost spent so far, so budget caps keep counting across --resume. */
+	spend?: TokenUsage;
+	/** Wall time the session has run so far, for the same reason. */
+	elapsedMs?: number;
+	/** Whether `budget.navigatorDowngrade` already lowered the navigators' thinking level. */
+	navigatorDowngraded?: boolean;
+	finalReview?: FinalReview;
+}
@@ -0,0 +1,61 @@
+import { calculateCost, getModels, type AssistantMessage, type KnownProvider, type Usage } from "@mariozechner/pi-ai";
+import type { TokenUsage, UsageBreakdown, UsagePhase, WorkerId } from "./types.js";
+
+const USAGE_PHASES: readonly string[] = ["planning", "driving", "navigation", "feedback_resolution", "final_review"];
+
+export function emptyTokenUsage(): TokenUsage {
+	return { calls: 0, input: 0, output: 0, cacheRead: 0, cacheWrite: 0, totalTokens: 0, costUsd: 0 };
+}
+
+export function emptyUsageBreakdown(): UsageBreakdown {
+	return { total: emptyTokenUsage(), byAgent: { A: emptyTokenUsage(), B: emptyTokenUsage() }, byPhase: {}, byRound: {} };
+}
+
+export function addTokenUsage(target: TokenUsage, usage: TokenUsage): void {
+	target.calls += usage.calls;
+	target.input += usage.input;
+	target.output += usage.output;
+	target.cacheRead += usage.cacheRead;
+	target.cacheWrite += usage.cacheWrite;
+	target.totalTokens += usage.totalTokens;
+	target.costUsd += usage.costUsd;
+}
+
+/**
+ * Usage for one assistant message. Cost is recomputed from the `getModels` price table so every provider is
+ * priced the same way; models missing from the table keep whatever cost the provider reported.
+ */
+export function usageFromMessage(message: AssistantMessage): TokenUsage {
+	const model = getModels(message.provider as KnownProvider).find((candidate) => candidate.id === message.model);
+	const usage: Usage = { ...message.usage, cost: { ...message.usage.cost } };
+	const costUsd = model ? calculateCost(model, usage).total : message.usage.cost.total;
+	return {
+		calls: 1,
+		input: usage.input,
+		output: usage.output,
+		cacheRead: usage.cacheRead,
+		cacheWrite: usage.cacheWrite,
+		totalTokens: usage.totalTokens || usage.input + usage.output + usage.cacheRead + usage.cacheWrite,
+		costUsd,
+	};
+}
+
+export function recordUsage(
+	breakdown: UsageBreakdown,
+	params: { actor: WorkerId; phase: string; round?: number; usage: TokenUsage },
+): void {
+	addTokenUsage(breakdown.total, params.usage);
+	const actorUsage = params.actor === "arbiter" ? (breakdown.arbiter ??= emptyTokenUsage()) : (breakdown.byAgent[params.actor] ??= emptyTokenUsage());
+	addTokenUsage(actorUsage, params.usage);
+	if (USAGE_PHASES.includes(params.phase)) {
+		const phase = params.phase as UsagePhase;
+		addTokenUsage((breakdown.byPhase[phase] ??= emptyTokenUsage()), params.usage);
+	}
+	if (params.round !== undefined) {
+		addTokenUsage((breakdown.byRound[String(params.round)] ??= emptyTokenUsage()), params.usage);
+	}
+}
+
+export function formatTokenUsage(usage: TokenUsage): string {
+	return `${usage.totalTokens} tokens (in ${usage.input}, out ${usage.output}, cache read ${usage.cacheRead}, cache write ${usage.cacheWrite}), $${usage.costUsd.toFixed(4)}, ${usage.calls} calls`;
+}
@@ -0,0 +1,112 @@
+import { spawn } from "node:child_process";
+import type { VerificationConfig, VerificationResult, VerificationStage } from "./types.js";
+
+export function defaultVerificationConfig(command: string): VerificationConfig {
+	return {
+		command,
+		timeoutMs: 10 * 60 * 1000,
+		maxOutputChars: 4000,
+	};
+}
+
+function truncateTail(value: string, maxChars: number): { text: string; truncated: boolean } {
+	if (value.length <= maxChars) {
+		return { text: value, truncated: false };
+	}
+	// Test runners print the failure summary last, so keep the tail.
+	return { text: `...[truncated ${value.length - maxChars} chars]\n${value.slice(-maxChars)}`, truncated: true };
+}
+
+function abortReason(signal: AbortSignal): Error {
+	return signal.reason instanceof Error ? signal.reason : new Error("Verification command aborted.");
+}
+
+/**
+ * Runs the command in its own process group. Aborting `signal` kills the group at once and rejects with the signal's
+ * reason, so cancelling a run does not wait out `timeoutMs` or leave the command running behind the CLI.
+ */
+export async function runVerificationCommand(params: {
+	config: VerificationConfig;
+	cwd: string;
+	stage: VerificationStage;
+	signal?: AbortSignal;
+}): Promise<VerificationResult> {
+	const signal = params.signal;
+	if (signal?.aborted) {
+		throw abortReason(signal);
+	}
+	const startedAt = Date.now();
+	const chunks: string[] = [];
+
+	const { exitCode, timedOut } = await new Promise<{ exitCode: number | null; timedOut: boolean }>((resolvePromise, rejectPromise) => {
+		const child = spawn(params.config.command, {
+			cwd: params.cwd,
+			shell: true,
+			detached: true,
+			stdio: ["ignore", "pipe", "pipe"],
+		});
+		const killGroup = (): void => {
+			try {
+				// Negative pid targets the whole process group so test runners spawned by the shell die too.
+				if (child.pid !== undefined) {
+					process.kill(-child.pid, "SIGKILL");
+				}
+			} catch {
+				child.kill("SIGKILL");
+			}
+		};
+		let timedOut = false;
+		const timer = setTimeout(() => {
+			timedOut = true;
+			killGroup();
+		}, params.config.timeoutMs);
+		signal?.addEventListener("abort", killGroup, { once: true });
+
+		child.stdout.on("data", (chunk: Buffer) => chunks.push(chunk.toString("utf-8")));
+		child.stderr.on("data", (chunk: Buffer) => chunks.push(chunk.toString("utf-8")));
+		// A spawn failure emits `error`, and not always a later `close`, so whichever comes first settles the run.
+		let settled = false;
+		const settle = (exitCode: number | null): void => {
+			if (settled) {
+				return;
+			}
+			settled = true;
+			clearTimeout(timer);
+			signal?.removeEventListener("abort", killGroup);
+			if (signal?.aborted) {
+				rejectPromise(abortReason(signal));
+				return;
+			}
+			resolvePromise({ exitCode, timedOut });
+		};
+		child.on("error", (error) => {
+			chunks.push(`Failed to start verification command: ${error.message}\n`);
+			settle(null);
+		});
+		child.on("close", (code) => settle(code));
+	});
+
+	const output = truncateTail(chunks.join("").trim(), params.config.maxOutputChars);
+	return {
+		stage: params.stage,
+		command: params.config.command,
+		exitCode,
+		passed: exitCode === 0 && !timedOut,
+		timedOut,
+		durationMs: Date.now() - startedAt,
+		output: output.text,
+		outputTruncated: output.truncated,
+	};
+}
+
+export function formatVerificationResult(result: VerificationResult): string {
+	const status = result.passed ? "PASSED" : result.timedOut ? "TIMED OUT" : "FAILED";
+	return [
+		`Verification (${result.stage}): ${status}`,
+		`Command: ${result.command}`,
+		`Exit code: ${result.exitCode ?? "n/a"}`,
+		`Duration: ${result.durationMs} ms`,
+		"Output:",
+		result.output || "(no output)",
+	].join("\n");
+}
@@ -1,9 +1,69 @@
-import { cp, lstat, mkdir, mkdtemp, rm, symlink } from "node:fs/promises";
-import { join, basename } from "node:path";
+import { execFile } from "node:child_process";
+import { cp, lstat, mkdir, mkdtemp, readdir, rm, symlink } from "node:fs/promises";
+import { join, basename, isAbsolute, relative, resolve, sep } from "node:path";
 import { tmpdir } from "node:os";
+import { promisify } from "node:util";
 import type { WorkspaceMode } from "./types.js";
 
-const EXCLUDED_COPY_ENTRIES = new Set([".git", ".pairing-bots", "node_modules"]);
+export const EXCLUDED_COPY_ENTRIES = new Set([".git", ".pairing-bots", "node_modules"]);
+
+const execFileAsync = promisify(execFile);
+
+/** Tracked and untracked-but-not-ignored files, or undefined when `cwd` is not in a git work tree. */
+async function listGitFiles(cwd: string): Promise<string[] | undefined> {
+	try {
+		const { stdout } = await execFileAsync("git", ["ls-files", "-z", "--cached", "--others", "--exclude-standard"], {
+			cwd,
+			maxBuffer: 64 * 1024 * 1024,
+		});
+		return stdout.split("\0").filter((path) => path !== "");
+	} catch {
+		return undefined;
+	}
+}
+
+async function walkFiles(cwd: string): Promise<string[]> {
+	const paths: string[] = [];
+	const walk = async (directory: string): Promise<void> => {
+		let entries;
+		try {
+			entries = await readdir(directory, { withFileTypes: true });
+		} catch {
+			return;
+		}
+		for (const entry of entries) {
+			if (EXCLUDED_COPY_ENTRIES.has(entry.name)) {
+				continue;
+			}
+			const absolute = join(directory, entry.name);
+			if (entry.isDirectory()) {
+				await walk(absolute);
+			} else {
+				paths.push(relative(cwd, absolute).split(sep).join("/"));
+			}
+		}
+	};
+	await walk(cwd);
+	return paths;
+}
+
+/**
+ * Workspace files as "/"-separated relative paths: the ones git shows, so .gitignore'd build output is skipped, or
+ * every file outside a git work tree. Entries under `EXCLUDED_COPY_ENTRIES` are never listed.
+ */
+export async function listWorkspaceFiles(cwd: string): Promise<string[]> {
+	const paths = (await listGitFiles(cwd)) ?? (await walkFiles(cwd));
+	return paths.filter((path) => !path.split("/").some((segment) => EXCLUDED_COPY_ENTRIES.has(segment)));
+}
+
+/** `path` (absolute, or relative to `cwd`) as a "/"-separated path inside `cwd`, or undefined when it points outside. */
+export function workspaceRelativePath(cwd: string, path: string): string | undefined {
+	const inside = relative(cwd, resolve(cwd, path));
+	if (inside === "" || inside === ".." || inside.startsWith(`..${sep}`) || isAbsolute(inside)) {
+		return undefined;
+	}
+	return inside.split(sep).join("/");
+}
 
 export interface WorkspaceSessionOptions {
 	baseCwd: string;
@@ -0,0 +1,148 @@
+import { cp, lstat, mkdir, mkdtemp, rm, rmdir } from "node:fs/promises";
+import { dirname, join, posix } from "node:path";
+import { tmpdir } from "node:os";
+import { listWorkspaceFiles, workspaceRelativePath } from "./workspace-session.js";
+
+interface FileStamp {
+	size: number;
+	mtimeMs: number;
+	symlink: boolean;
+}
+
+interface WorkspaceListing {
+	files: Map<string, FileStamp>;
+	directories: Set<string>;
+}
+
+/** Stats `paths` and collects their parent directories. Paths that no longer exist, or are directories, are dropped. */
+async function scanWorkspace(root: string, paths: Iterable<string>): Promise<WorkspaceListing> {
+	const listing: WorkspaceListing = { files: new Map(), directories: new Set() };
+	for (const path of paths) {
+		let stats;
+		try {
+			stats = await lstat(join(root, path));
+		} catch {
+			continue;
+		}
+		if (stats.isDirectory()) {
+			continue;
+		}
+		listing.files.set(path, { size: stats.size, mtimeMs: stats.mtimeMs, symlink: stats.isSymbolicLink() });
+		for (let parent = posix.dirname(path); parent !== "."; parent = posix.dirname(parent)) {
+			listing.directories.add(parent);
+		}
+	}
+	return listing;
+}
+
+// Copies keep their timestamps with millisecond precision only, so sub-millisecond digits are ignored.
+function sameStamp(a: FileStamp, b: FileStamp): boolean {
+	return a.size === b.size && Math.trunc(a.mtimeMs) === Math.trunc(b.mtimeMs) && a.symlink === b.symlink;
+}
+
+const COPY_OPTIONS = { force: true, errorOnExist: false, verbatimSymlinks: true, preserveTimestamps: true } as const;
+
+/**
+ * Copy of the workspace as it stood when the current round started, so the round can be discarded when the pair
+ * agrees it went the wrong way. It holds the files git shows (every file outside a git work tree) plus files a
+ * driver edited in an earlier round, so ignored build output is never copied. One snapshot serves a whole session:
+ * `refresh` before each round copies only the files whose size or modification time changed since the previous one.
+ */
+export class WorkspaceSnapshot {
+	readonly cwd: string;
+	private readonly scratchRoot: string;
+	private readonly copyRoot: string;
+	private listing: WorkspaceListing = { files: new Map(), directories: new Set() };
+	// Edited paths git does not show; they join the snapshot at the next refresh.
+	private readonly tracked = new Set<string>();
+
+	private constructor(cwd: string, scratchRoot: string) {
+		this.cwd = cwd;
+		this.scratchRoot = scratchRoot;
+		this.copyRoot = join(scratchRoot, "workspace");
+	}
+
+	static async capture(cwd: string): Promise<WorkspaceSnapshot> {
+		const snapshot = new WorkspaceSnapshot(cwd, await mkdtemp(join(tmpdir(), "pairing-bots-round-")));
+		await snapshot.refresh();
+		return snapshot;
+	}
+
+	/** Keeps `paths` (absolute or workspace-relative) in the snapshot from the next refresh on, even if git ignores them. */
+	track(paths: Iterable<string>): void {
+		for (const path of paths) {
+			const inside = workspaceRelativePath(this.cwd, path);
+			if (inside) {
+				this.tracked.add(inside);
+			}
+		}
+	}
+
+	private async scan(includeTracked: boolean): Promise<WorkspaceListing> {
+		const paths = new Set([...(await listWorkspaceFiles(this.cwd)), ...this.listing.files.keys()]);
+		for (const path of includeTracked ? this.tracked : []) {
+			paths.add(path);
+		}
+		return scanWorkspace(this.cwd, paths);
+	}
+
+	/** Brings the copy up to the workspace's current state. Returns how many files were copied. */
+	async refresh(): Promise<number> {
+		const current = await this.scan(true);
+		for (const path of this.listing.files.keys()) {
+			if (!current.files.has(path)) {
+				await rm(join(this.copyRoot, path), { force: true });
+			}
+		}
+		let copied = 0;
+		for (const [path, stamp] of current.files) {
+			const saved = this.listing.files.get(path);
+			if (saved && sameStamp(saved, stamp)) {
+				continue;
+			}
+			const target = join(this.copyRoot, path);
+			await mkdir(dirname(target), { recursive: true });
+			// A file can turn into a symlink or back, and cp will not replace one with the other.
+			await rm(target, { force: true });
+			await cp(join(this.cwd, path), target, COPY_OPTIONS);
+			copied += 1;
+		}
+		this.listing = current;
+		return copied;
+	}
+
+	/**
+	 * Puts back changed and deleted files, then deletes files and (empty) directories that did not exist when the
+	 * snapshot was refreshed. Files outside the snapshot, such as ignored build output, are left alone.
+	 */
+	async restore(): Promise<void> {
+		// Paths tracked during this round were not in the snapshot when it started, so they are not deleted either.
+		const current = await this.scan(false);
+		for (const [path, stamp] of current.files) {
+			const saved = this.listing.files.get(path);
+			// Symlinks are recreated from the snapshot because cp will not overwrite a link to a directory.
+			if (!saved || !sameStamp(saved, stamp) || stamp.symlink) {
+				await rm(join(this.cwd, path), { force: true });
+			}
+		}
+		for (const [path, saved] of this.listing.files) {
+			const stamp = current.files.get(path);
+			if (stamp && sameStamp(saved, stamp) && !stamp.symlink) {
+				continue;
+			}
+			const target = join(this.cwd, path);
+			await mkdir(dirname(target), { recursive: true });
+			await cp(join(this.copyRoot, path), target, COPY_OPTIONS);
+		}
+		// Deepest first, so a created tree empties from the bottom. A directory that still holds excluded entries
+		// such as node_modules is left in place.
+		const created = [...current.directories].filter((path) => !this.listing.directories.has(path));
+		for (const path of created.sort((a, b) => b.length - a.length)) {
+			await rmdir(join(this.cwd, path)).catch(() => undefined);
+		}
+	}
+
+	async discard(): Promise<void> {
+		await rm(this.scratchRoot, { recursive: true, force: true });
+	}
+}
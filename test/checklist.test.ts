@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { Checklist } from "../src/checklist.js";
+import { taskSpecFromText } from "../src/task-spec.js";
+import type { Plan } from "../src/types.js";
+
+function planWithSteps(...descriptions: string[]): Plan {
+	return {
+		summary: "",
+		steps: descriptions.map((description, index) => ({ id: index + 1, description })),
+		risks: [],
+		testSteps: [],
+		filesInScope: [],
+	};
+}
+
+describe("Checklist", () => {
+	it("keeps plan step ids and numbers acceptance criteria after them", () => {
+		const checklist = Checklist.fromPlan(planWithSteps("Add parser", "Add tests"), {
+			...taskSpecFromText("x"),
+			acceptanceCriteria: ["Empty input works"],
+		});
+
+		expect(checklist.exportState()).toEqual([
+			{ id: 1, text: "Add parser", kind: "step", status: "pending" },
+			{ id: 2, text: "Add tests", kind: "step", status: "pending" },
+			{ id: 3, text: "Empty input works", kind: "criterion", status: "pending" },
+		]);
+		expect(checklist.nextOpenStep()?.id).toBe(1);
+	});
+
+	it("tracks who completed an item and lets the navigator dispute it", () => {
+		const checklist = Checklist.fromPlan(planWithSteps("Add parser", "Add tests"), taskSpecFromText("x"));
+
+		const driverPass = checklist.apply(
+			[
+				{ id: 1, status: "done" },
+				{ id: 2, status: "disputed" },
+				{ id: 9, status: "done" },
+			],
+			{ role: "driver", driver: "A", round: 1 },
+		);
+		expect(driverPass.changes).toEqual([{ id: 1, from: "pending", to: "done" }]);
+		expect(driverPass.ignored.map((update) => update.id)).toEqual([2, 9]);
+		expect(checklist.exportState()[0]).toMatchObject({ status: "done", completedBy: "A", completedRound: 1 });
+		expect(checklist.nextOpenStep()?.id).toBe(2);
+
+		checklist.apply([{ id: 1, status: "disputed", note: "no tests" }], { role: "navigator", driver: "A", round: 1 });
+		const [item] = checklist.exportState();
+		expect(item).toEqual({ id: 1, text: "Add parser", kind: "step", status: "disputed", note: "no tests" });
+		expect(checklist.nextOpenStep()?.id).toBe(1);
+		expect(checklist.format()).toBe("1. [disputed] Add parser - no tests\n2. [pending] Add tests");
+	});
+});
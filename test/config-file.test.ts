@@ -0,0 +1,174 @@
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { afterEach, describe, expect, it } from "vitest";
+import { findConfigFile, loadCliConfig, loadConfigFile, validateConfigFile } from "../src/config-file.js";
+
+const roots: string[] = [];
+
+async function makeRoot(name: string): Promise<string> {
+	const root = join(tmpdir(), `pairing-bots-config-${name}-${Date.now()}`);
+	await mkdir(root, { recursive: true });
+	roots.push(root);
+	return root;
+}
+
+afterEach(async () => {
+	for (const root of roots.splice(0)) {
+		await rm(root, { recursive: true, force: true });
+	}
+});
+
+describe("config file", () => {
+	it("applies defaults < file < profile < CLI flags and reports the sources", async () => {
+		const root = await makeRoot("layers");
+		await writeFile(
+			join(root, "pairing-bots.config.json"),
+			JSON.stringify({
+				maxRounds: 4,
+				modelBThinking: "medium",
+				logFile: "logs/session.json",
+				profiles: {
+					fast: { maxRounds: 2, pauseMode: "none", maxCostUsd: 1.5 },
+				},
+			}),
+		);
+
+		const parsed = await loadCliConfig(["--cwd", root, "--profile", "fast", "--task", "x", "--max-rounds", "6"], root);
+		expect(parsed.pair.maxRounds).toBe(6);
+		expect(parsed.pair.pauseStrategy.mode).toBe("none");
+		expect(parsed.pair.budget?.maxCostUsd).toBe(1.5);
+		expect(parsed.pair.modelB.thinkingLevel).toBe("medium");
+		expect(parsed.pair.modelA.thinkingLevel).toBe("high");
+		// Paths in the file resolve against the file's directory.
+		expect(parsed.logFile).toBe(join(root, "logs/session.json"));
+		expect(parsed.configSources).toEqual({
+			file: join(root, "pairing-bots.config.json"),
+			profile: "fast",
+			fromFile: ["maxRounds", "modelBThinking", "logFile"],
+			fromProfile: ["maxRounds", "pauseMode", "maxCostUsd"],
+			fromCli: ["--cwd", "--task", "--max-rounds"],
+		});
+	});
+
+	it("turns file switches off from a profile or with --no- flags on the command line", async () => {
+		const root = await makeRoot("switches");
+		await writeFile(
+			join(root, "pairing-bots.config.json"),
+			JSON.stringify({
+				keepWorkspace: true,
+				parallelReview: true,
+				compareStrategies: true,
+				profiles: { solo: { compareStrategies: false } },
+			}),
+		);
+
+		const fromFile = await loadCliConfig(["--cwd", root, "--task", "x"], root);
+		expect(fromFile.keepWorkspace).toBe(true);
+		expect(fromFile.compareStrategies).toBe(true);
+		expect(fromFile.pair.parallelReview).toBe(true);
+
+		const overridden = await loadCliConfig(
+			["--cwd", root, "--profile", "solo", "--task", "x", "--no-keep-workspace", "--pause-mode", "none", "--no-parallel-review"],
+			root,
+		);
+		expect(overridden.keepWorkspace).toBe(false);
+		expect(overridden.compareStrategies).toBe(false);
+		expect(overridden.pair.parallelReview).toBeUndefined();
+	});
+
+	it("resolves each mob fixture in a list against the file's directory", async () => {
+		const root = await makeRoot("mob");
+		await writeFile(
+			join(root, "pairing-bots.config.json"),
+			JSON.stringify({
+				executionMode: "mob",
+				mobModels: "scripted/c,scripted/d",
+				mobFixtures: "fixtures/c.json, fixtures/d.json",
+				mobRotation: "least_contributed",
+			}),
+		);
+
+		const parsed = await loadCliConfig(["--cwd", root, "--task", "x"], root);
+		expect(parsed.pair.mob?.members.map((member) => member.fixtureFile)).toEqual([
+			join(root, "fixtures/c.json"),
+			join(root, "fixtures/d.json"),
+		]);
+		expect(parsed.pair.mob?.rotation).toBe("least_contributed");
+	});
+
+	it("parses the command line alone when there is no config file", async () => {
+		const root = await makeRoot("none");
+		const parsed = await loadCliConfig(["--cwd", root, "--task", "x"], root);
+		expect(parsed.configSources).toBeUndefined();
+		expect(parsed.pair.maxRounds).toBe(8);
+		await expect(loadCliConfig(["--cwd", root, "--task", "x", "--profile", "fast"], root)).rejects.toThrow(
+			"--profile fast needs a config file",
+		);
+	});
+
+	it("reports every schema problem with its key path", () => {
+		expect(() =>
+			validateConfigFile(
+				{
+					maxRound: 3,
+					maxRounds: "3",
+					pauseMode: "every_n_seconds,on_timeout",
+					profiles: { cheap: { modelAThinking: "huge", keepWorkspace: "yes" } },
+				},
+				"pairing-bots.config.json",
+			),
+		).toThrow(
+			/maxRound is not a known setting[\s\S]*maxRounds must be a positive integer \(received "3"\)[\s\S]*pauseMode must be a comma-separated list of none, every_n_file_edits[\s\S]*profiles\.cheap\.modelAThinking must be one of off, minimal, low, medium, high, xhigh[\s\S]*profiles\.cheap\.keepWorkspace must be true or false/,
+		);
+	});
+
+	it("lists available profiles when the requested one is missing", async () => {
+		const root = await makeRoot("profile");
+		await writeFile(join(root, "pairing-bots.config.json"), JSON.stringify({ profiles: { fast: {}, thorough: {} } }));
+		await expect(loadCliConfig(["--cwd", root, "--task", "x", "--profile", "slow"], root)).rejects.toThrow(
+			'Unknown profile "slow"',
+		);
+		await expect(loadCliConfig(["--cwd", root, "--task", "x", "--profile", "slow"], root)).rejects.toThrow(
+			"Available profiles: fast, thorough.",
+		);
+	});
+
+	it("loads TypeScript config files and refuses ambiguous discovery", async () => {
+		const root = await makeRoot("ts");
+		await writeFile(join(root, "pairing-bots.config.ts"), "export default { maxRounds: 3, profiles: { thorough: { maxRounds: 12 } } };\n");
+		const loaded = await loadConfigFile(join(root, "pairing-bots.config.ts"));
+		expect(loaded.settings.maxRounds).toBe(3);
+		expect(loaded.profiles.thorough?.maxRounds).toBe(12);
+
+		await writeFile(join(root, "pairing-bots.config.json"), "{}");
+		await expect(findConfigFile(root)).rejects.toThrow("Found more than one config file");
+	});
+
+	it("surfaces JSON syntax errors with the file path", async () => {
+		const root = await makeRoot("json");
+		await writeFile(join(root, "pairing-bots.config.json"), "{ maxRounds: 3 }");
+		await expect(loadCliConfig(["--cwd", root, "--task", "x"], root)).rejects.toThrow(
+			`Config file ${join(root, "pairing-bots.config.json")} is not valid JSON`,
+		);
+	});
+
+	it("reads --task-file and uses its verify command unless one is configured", async () => {
+		const root = await makeRoot("task-file");
+		await writeFile(join(root, "TICKET.md"), "---\nverify_command: npm test\n---\n# Parser fix\n\nFix it.\n");
+
+		const parsed = await loadCliConfig(["--cwd", root, "--task-file", join(root, "TICKET.md")], root);
+		expect(parsed.task).toBe("Parser fix");
+		expect(parsed.taskSpec?.description).toBe("Fix it.");
+		expect(parsed.pair.verification?.command).toBe("npm test");
+
+		const explicit = await loadCliConfig(
+			["--cwd", root, "--task-file", join(root, "TICKET.md"), "--verify-command", "npm run check"],
+			root,
+		);
+		expect(explicit.pair.verification?.command).toBe("npm run check");
+		await expect(loadCliConfig(["--cwd", root, "--task", "x", "--task-file", join(root, "TICKET.md")], root)).rejects.toThrow(
+			"Use either --task or --task-file, not both.",
+		);
+	});
+});
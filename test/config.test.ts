@@ -1,6 +1,6 @@
 import { resolve } from "node:path";
 import { describe, expect, it } from "vitest";
-import { parseCli } from "../src/config.js";
+import { parseCli, parseMemoryCli } from "../src/config.js";
 
 describe("parseCli", () => {
 	it("parses --log-file into resolved logFile", () => {
@@ -46,4 +46,284 @@ describe("parseCli", () => {
 		expect(parsed.pair.executionMode).toBe("paired_turns");
 		expect(parsed.compareStrategies).toBe(false);
 	});
+
+	it("parses planning negotiation options", () => {
+		expect(parseCli(["--task", "x"]).pair.maxPlanIterations).toBe(3);
+		expect(parseCli(["--task", "x", "--max-plan-iterations", "1"]).pair.maxPlanIterations).toBe(1);
+		expect(() => parseCli(["--task", "x", "--max-plan-iterations", "0"])).toThrow("--max-plan-iterations");
+		expect(parseCli(["--task", "x"]).pair.planningMode).toBe("handshake");
+		expect(parseCli(["--task", "x", "--planning-mode", "independent_then_merge"]).pair.planningMode).toBe("independent_then_merge");
+		expect(() => parseCli(["--task", "x", "--planning-mode", "merge"])).toThrow("Invalid --planning-mode: merge");
+	});
+
+	it("parses pause triggers and combines a list into any_of", () => {
+		expect(parseCli(["--task", "x"]).pair.pauseStrategy).toEqual({
+			mode: "every_n_file_edits",
+			editsPerPause: 3,
+			countedTools: ["edit", "write"],
+		});
+		expect(parseCli(["--task", "x", "--lines-per-pause", "80"]).pair.pauseStrategy).toEqual({
+			mode: "every_n_changed_lines",
+			linesPerPause: 80,
+		});
+		expect(
+			parseCli(["--task", "x", "--seconds-per-pause", "90", "--pause-mode", "every_n_seconds, on_bash_failure,every_n_distinct_files"])
+				.pair.pauseStrategy,
+		).toEqual({
+			mode: "any_of",
+			strategies: [
+				{ mode: "every_n_seconds", secondsPerPause: 90 },
+				{ mode: "on_bash_failure" },
+				{ mode: "every_n_distinct_files", filesPerPause: 3 },
+			],
+		});
+		// A threshold flag after --pause-mode none turns that trigger back on; one before it is overridden.
+		expect(parseCli(["--task", "x", "--pause-mode", "none", "--edits-per-pause", "2"]).pair.pauseStrategy.mode).toBe(
+			"every_n_file_edits",
+		);
+		expect(parseCli(["--task", "x", "--edits-per-pause", "2", "--pause-mode", "none"]).pair.pauseStrategy.mode).toBe("none");
+		expect(() => parseCli(["--task", "x", "--pause-mode", "none,on_bash_failure"])).toThrow(
+			"Invalid --pause-mode: none,on_bash_failure",
+		);
+		expect(() => parseCli(["--task", "x", "--files-per-pause", "0"])).toThrow("--files-per-pause");
+	});
+
+	it("parses the adaptive turn policy and keeps earlier safety caps", () => {
+		expect(parseCli(["--task", "x", "--max-consecutive-rounds", "5", "--turn-policy", "adaptive"]).pair.turnPolicy).toEqual({
+			mode: "adaptive",
+			maxConsecutiveRounds: 5,
+			maxConsecutiveCheckpoints: 4,
+			maxRejectedFeedback: 2,
+			maxRepeatedFeedback: 2,
+			maxVerificationFailures: 2,
+			maxToolErrors: 6,
+		});
+		const policy = parseCli(["--task", "x", "--max-tool-errors", "3", "--max-consecutive-checkpoints", "2"]).pair.turnPolicy;
+		expect(policy).toMatchObject({ mode: "adaptive", maxToolErrors: 3, maxConsecutiveCheckpoints: 2 });
+		expect(() => parseCli(["--task", "x", "--max-repeated-feedback", "0"])).toThrow("--max-repeated-feedback");
+	});
+
+	it("parses dispute settings", () => {
+		expect(parseCli(["--task", "x"]).pair.disputes).toEqual({ arbiter: "rule", rule: "verification" });
+		expect(parseCli(["--task", "x", "--dispute-arbiter", "human", "--dispute-rule", "driver_wins"]).pair.disputes).toEqual({
+			arbiter: "human",
+			rule: "driver_wins",
+		});
+		expect(
+			parseCli(["--task", "x", "--dispute-arbiter", "model", "--arbiter-provider", "google", "--arbiter-id", "gemini-2.5-pro"]).pair
+				.disputes.arbiter,
+		).toBe("model");
+		expect(() => parseCli(["--task", "x", "--dispute-arbiter", "model"])).toThrow(
+			"--dispute-arbiter model needs an arbiter model",
+		);
+		expect(() => parseCli(["--task", "x", "--dispute-arbiter", "third"])).toThrow("Invalid --dispute-arbiter: third");
+	});
+
+	it("parses an arbiter model only when provider and id are both given", () => {
+		expect(parseCli(["--task", "x"]).pair.arbiter).toBeUndefined();
+		expect(
+			parseCli(["--task", "x", "--arbiter-provider", "google", "--arbiter-id", "gemini-2.5-pro", "--arbiter-thinking", "low"]).pair
+				.arbiter,
+		).toEqual({ provider: "google", modelId: "gemini-2.5-pro", thinkingLevel: "low" });
+		expect(parseCli(["--task", "x", "--arbiter-provider", "openai", "--arbiter-id", "gpt-5"]).pair.arbiter?.thinkingLevel).toBe("high");
+		expect(() => parseCli(["--task", "x", "--arbiter-provider", "openai"])).toThrow(
+			"An arbiter needs both --arbiter-provider and --arbiter-id.",
+		);
+		expect(() => parseCli(["--task", "x", "--arbiter-provider", "scripted", "--arbiter-id", "judge"])).toThrow(/--arbiter-fixture/);
+	});
+
+	it("parses mob members and rejects mob flags outside mob mode", () => {
+		const parsed = parseCli([
+			"--task",
+			"x",
+			"--execution-mode",
+			"mob",
+			"--mob-models",
+			"google/gemini-2.5-pro, scripted/script-d",
+			"--mob-fixtures",
+			"unused.json,fixtures/d.json",
+			"--mob-thinking",
+			"low",
+			"--mob-rotation",
+			"least_contributed",
+		]);
+		expect(parsed.pair.mob).toEqual({
+			members: [
+				{ provider: "google", modelId: "gemini-2.5-pro", thinkingLevel: "low", fixtureFile: resolve("unused.json") },
+				{ provider: "scripted", modelId: "script-d", thinkingLevel: "low", fixtureFile: resolve("fixtures/d.json") },
+			],
+			rotation: "least_contributed",
+		});
+		expect(parseCli(["--task", "x", "--execution-mode", "mob", "--mob-models", "openai/gpt-5"]).pair.mob).toEqual({
+			members: [{ provider: "openai", modelId: "gpt-5", thinkingLevel: "high" }],
+			rotation: "round_robin",
+		});
+		expect(() => parseCli(["--task", "x", "--execution-mode", "mob"])).toThrow(/requires --mob-models/);
+		expect(() => parseCli(["--task", "x", "--mob-models", "openai/gpt-5"])).toThrow(/require --execution-mode mob/);
+		expect(() => parseCli(["--task", "x", "--execution-mode", "mob", "--mob-models", "a/1,b/2,c/3,d/4,e/5"])).toThrow(
+			"--mob-models takes at most 4 models. Received: 5",
+		);
+		expect(() => parseCli(["--task", "x", "--execution-mode", "mob", "--mob-models", "scripted/c"])).toThrow(/--mob-fixtures/);
+		expect(() => parseCli(["--task", "x", "--execution-mode", "mob", "--mob-models", "openai/gpt-5", "--compare-strategies"])).toThrow(
+			"--compare-strategies cannot be combined with --execution-mode mob.",
+		);
+		expect(() => parseCli(["--task", "x", "--execution-mode", "mob", "--mob-models", "openai/gpt-5", "--mob-rotation", "random"])).toThrow(
+			"Invalid --mob-rotation: random",
+		);
+	});
+
+	it("parses retry settings and per-agent fallback models", () => {
+		expect(parseCli(["--task", "x"]).pair.retry).toEqual({ maxAttempts: 4, baseDelayMs: 2000, maxDelayMs: 30_000, failoverAfter: 2 });
+		const parsed = parseCli([
+			"--task",
+			"x",
+			"--model-a-fallback",
+			"openrouter/anthropic/claude-sonnet-4",
+			"--model-a-thinking",
+			"low",
+			"--max-provider-attempts",
+			"2",
+			"--retry-delay",
+			"0.5",
+			"--retry-max-delay",
+			"10",
+			"--failover-after",
+			"3",
+		]);
+		expect(parsed.pair.modelA.fallback).toEqual({ provider: "openrouter", modelId: "anthropic/claude-sonnet-4", thinkingLevel: "low" });
+		expect(parsed.pair.modelB.fallback).toBeUndefined();
+		expect(parsed.pair.retry).toEqual({ maxAttempts: 2, baseDelayMs: 500, maxDelayMs: 10_000, failoverAfter: 3 });
+		expect(() => parseCli(["--task", "x", "--model-b-fallback", "sonnet"])).toThrow(
+			"--model-b-fallback must look like <provider>/<model-id>. Received: sonnet",
+		);
+		expect(() => parseCli(["--task", "x", "--model-a-fallback", "scripted/backup"])).toThrow(/--model-a-fallback-fixture/);
+		expect(() => parseCli(["--task", "x", "--retry-delay", "60"])).toThrow("--retry-max-delay cannot be shorter than --retry-delay.");
+	});
+
+	it("parses compaction settings and a scripted compaction model", () => {
+		expect(parseCli(["--task", "x"]).pair.compaction).toEqual({ mode: "auto", thresholdPercent: 75, keepRecentMessages: 12 });
+		const parsed = parseCli([
+			"--task",
+			"x",
+			"--compact-at",
+			"60",
+			"--compact-keep-messages",
+			"20",
+			"--compaction-model",
+			"scripted/summary",
+			"--compaction-model-fixture",
+			"summary.json",
+		]);
+		expect(parsed.pair.compaction).toMatchObject({
+			thresholdPercent: 60,
+			keepRecentMessages: 20,
+			model: { provider: "scripted", modelId: "summary", thinkingLevel: "off" },
+		});
+		expect(parseCli(["--task", "x", "--compaction", "off"]).pair.compaction.mode).toBe("off");
+		expect(() => parseCli(["--task", "x", "--compact-at", "120"])).toThrow("--compact-at must be at most 100.");
+		expect(() => parseCli(["--task", "x", "--compaction-model", "scripted/summary"])).toThrow(
+			"--compaction-model scripted/<id> requires --compaction-model-fixture <json-path>.",
+		);
+	});
+
+	it("parses memory settings and the memory subcommand", () => {
+		expect(parseCli(["--task", "x"]).pair.memory).toEqual({ mode: "on", maxLessons: 10 });
+		expect(parseCli(["--task", "x", "--memory", "off", "--memory-lessons", "3"]).pair.memory).toEqual({ mode: "off", maxLessons: 3 });
+		expect(parseMemoryCli(["list", "--model", "openai/gpt-5.2-codex"], "/repo")).toEqual({
+			action: "list",
+			cwd: resolve("/repo"),
+			model: "openai/gpt-5.2-codex",
+		});
+		expect(parseMemoryCli(["prune", "--cwd", "/other", "--keep", "20", "--older-than", "30"], "/repo")).toEqual({
+			action: "prune",
+			cwd: resolve("/other"),
+			keep: 20,
+			olderThanDays: 30,
+		});
+		expect(() => parseMemoryCli(["prune"], "/repo")).toThrow("memory prune needs --keep <n> or --older-than <days>.");
+		expect(() => parseMemoryCli(["clear", "--keep", "2"], "/repo")).toThrow("--keep and --older-than only apply to memory prune.");
+		expect(() => parseMemoryCli(["show"], "/repo")).toThrow("Unknown memory command: show.");
+	});
+
+	it("parses per-prompt timeouts in seconds", () => {
+		expect(parseCli(["--task", "x"]).pair.timeouts).toBeUndefined();
+		expect(parseCli(["--task", "x", "--driver-turn-timeout", "600", "--review-timeout", "90"]).pair.timeouts).toEqual({
+			driverTurnMs: 600_000,
+			reviewMs: 90_000,
+		});
+		expect(() => parseCli(["--task", "x", "--review-timeout", "0"])).toThrow("--review-timeout");
+	});
+
+	it("requires checkpoints for --parallel-review", () => {
+		expect(parseCli(["--task", "x", "--parallel-review"]).pair.parallelReview).toBe(true);
+		expect(parseCli(["--task", "x"]).pair.parallelReview).toBeUndefined();
+		expect(parseCli(["--task", "x", "--parallel-review", "--no-parallel-review"]).pair.parallelReview).toBeUndefined();
+		expect(() => parseCli(["--task", "x", "--pause-mode", "none", "--parallel-review"])).toThrow(
+			"--parallel-review needs checkpoints",
+		);
+	});
+
+	it("allows --resume without --task", () => {
+		const parsed = parseCli(["--resume", "2026-01-01T00-00-00-000Z-abc123"]);
+		expect(parsed.resumeSessionId).toBe("2026-01-01T00-00-00-000Z-abc123");
+		expect(parsed.task).toBe("");
+		expect(() => parseCli(["--resume", "id", "--compare-strategies"])).toThrow(/--compare-strategies/);
+		expect(() => parseCli([])).toThrow(/--task/);
+	});
+
+	it("requires a fixture for scripted providers", () => {
+		expect(() => parseCli(["--task", "x", "--model-a-provider", "scripted"])).toThrow(/--model-a-fixture/);
+		const parsed = parseCli([
+			"--task",
+			"x",
+			"--model-b-provider",
+			"scripted",
+			"--model-b-fixture",
+			"fixtures/b.json",
+		]);
+		expect(parsed.pair.modelB.provider).toBe("scripted");
+		expect(parsed.pair.modelB.fixtureFile).toBe(resolve("fixtures/b.json"));
+	});
+
+	it("parses verification options", () => {
+		const parsed = parseCli(["--task", "x", "--verify-timeout", "30", "--verify-command", "npm test"]);
+		expect(parsed.pair.verification).toEqual({ command: "npm test", timeoutMs: 30_000, maxOutputChars: 4000 });
+		expect(parseCli(["--task", "x"]).pair.verification).toBeUndefined();
+		expect(() => parseCli(["--task", "x", "--verify-timeout", "30"])).toThrow(/--verify-command/);
+	});
+
+	it("parses budget options and the navigator downgrade policy", () => {
+		const parsed = parseCli([
+			"--task",
+			"x",
+			"--max-cost-usd",
+			"2.5",
+			"--max-wall-time",
+			"60",
+			"--downgrade-navigator-at",
+			"75",
+		]);
+		expect(parsed.pair.budget).toEqual({
+			maxCostUsd: 2.5,
+			maxWallTimeMs: 60_000,
+			navigatorDowngrade: { atFraction: 0.75, thinkingLevel: "minimal" },
+		});
+		expect(parseCli(["--task", "x"]).pair.budget).toBeUndefined();
+		expect(() => parseCli(["--task", "x", "--downgrade-navigator-at", "50"])).toThrow(/requires --max-cost-usd/);
+		expect(() => parseCli(["--task", "x", "--max-tokens", "10", "--downgrade-navigator-thinking", "low"])).toThrow(
+			/requires --downgrade-navigator-at/,
+		);
+		expect(() => parseCli(["--task", "x", "--max-cost-usd", "free"])).toThrow(/positive number/);
+	});
+
+	it("parses commit options and rejects them outside direct workspace mode", () => {
+		const parsed = parseCli(["--task", "x", "--commit-mode", "per_checkpoint", "--commit-branch"]);
+		expect(parsed.pair.commits).toEqual({ mode: "per_checkpoint", sessionBranch: true });
+		expect(parseCli(["--task", "x"]).pair.commits).toBeUndefined();
+		expect(() => parseCli(["--task", "x", "--commit-branch"])).toThrow(/--commit-mode/);
+		expect(() => parseCli(["--task", "x", "--commit-mode", "per_round", "--workspace-mode", "ephemeral_copy"])).toThrow(
+			/direct/,
+		);
+		expect(() => parseCli(["--task", "x", "--commit-mode", "always"])).toThrow(/Invalid --commit-mode/);
+	});
 });
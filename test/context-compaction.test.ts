@@ -0,0 +1,79 @@
+import type { AgentMessage } from "@mariozechner/pi-agent-core";
+import type { AssistantMessage } from "@mariozechner/pi-ai";
+import { describe, expect, it } from "vitest";
+import {
+	compactionCutIndex,
+	estimateContextTokens,
+	formatCompactionTranscript,
+	isPrivateMemory,
+} from "../src/context-compaction.js";
+
+function user(text: string): AgentMessage {
+	return { role: "user", content: [{ type: "text", text }], timestamp: 0 };
+}
+
+function assistant(content: AssistantMessage["content"]): AgentMessage {
+	return {
+		role: "assistant",
+		content,
+		api: "openai-responses",
+		provider: "scripted",
+		model: "script",
+		usage: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, totalTokens: 0, cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 } },
+		stopReason: "stop",
+		timestamp: 0,
+	};
+}
+
+function toolResult(text: string): AgentMessage {
+	return { role: "toolResult", toolCallId: "call-1", toolName: "read", content: [{ type: "text", text }], isError: false, timestamp: 0 };
+}
+
+describe("context compaction", () => {
+	it("estimates tokens from the system prompt, text, tool calls and images", () => {
+		expect(estimateContextTokens("x".repeat(40), [])).toBe(10);
+		expect(
+			estimateContextTokens("", [
+				user("y".repeat(400)),
+				assistant([{ type: "toolCall", id: "call-1", name: "read", arguments: { path: "a.ts" } }]),
+				{ role: "user", content: [{ type: "image", data: "z".repeat(100_000), mimeType: "image/png" }], timestamp: 0 },
+			]),
+		).toBe(100 + 5 + 1200);
+	});
+
+	it("cuts at a user message so tool calls stay with their results", () => {
+		const messages = [
+			user("prompt 1"),
+			assistant([{ type: "toolCall", id: "call-1", name: "read", arguments: { path: "a.ts" } }]),
+			toolResult("contents"),
+			assistant([{ type: "text", text: "done" }]),
+			user("prompt 2"),
+			assistant([{ type: "toolCall", id: "call-1", name: "read", arguments: { path: "b.ts" } }]),
+			toolResult("contents"),
+			assistant([{ type: "text", text: "done" }]),
+		];
+		expect(compactionCutIndex(messages, 2)).toBe(4);
+		expect(compactionCutIndex(messages, 4)).toBe(4);
+		expect(compactionCutIndex(messages, 5)).toBe(4);
+		// Keeping everything but the first prompt leaves nothing before a user message, so the cut moves later.
+		expect(compactionCutIndex(messages, 7)).toBe(4);
+		expect(compactionCutIndex(messages.slice(0, 4), 2)).toBe(0);
+	});
+
+	it("labels transcript messages, truncates long ones and spots private memory", () => {
+		const transcript = formatCompactionTranscript([
+			user("[PRIVATE MEMORY - MODEL A ONLY]\nWatch the parser."),
+			assistant([
+				{ type: "text", text: "Reading." },
+				{ type: "toolCall", id: "call-1", name: "read", arguments: { path: "a.ts" } },
+			]),
+			toolResult("a".repeat(5000)),
+		]);
+		expect(transcript).toContain("[user]\n[PRIVATE MEMORY - MODEL A ONLY]");
+		expect(transcript).toContain('[you (calling read)]\nReading.\nread {"path":"a.ts"}');
+		expect(transcript).toContain("[tool result: read]");
+		expect(transcript).toContain("[... 1000 more characters]");
+		expect(isPrivateMemory(user("[PRIVATE MEMORY - MODEL A ONLY]\nnote"))).toBe(true);
+		expect(isPrivateMemory(user("[SHARED CONTEXT]\nnote"))).toBe(false);
+	});
+});
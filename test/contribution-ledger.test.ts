@@ -0,0 +1,87 @@
+import { execFile } from "node:child_process";
+import { mkdir, rm, unlink, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { promisify } from "node:util";
+import { describe, expect, it } from "vitest";
+import { ContributionLedger, diffLines } from "../src/contribution-ledger.js";
+
+const execFileAsync = promisify(execFile);
+
+describe("diffLines", () => {
+	it("produces a minimal edit script", () => {
+		expect(diffLines(["a", "b", "c"], ["a", "x", "c"])).toEqual(["=", "-", "+", "="]);
+		expect(diffLines([], ["a", "b"])).toEqual(["+", "+"]);
+		expect(diffLines(["a", "b"], [])).toEqual(["-", "-"]);
+		expect(diffLines(["a", "b", "c", "d"], ["b", "c", "d", "e"])).toEqual(["-", "=", "=", "=", "+"]);
+	});
+});
+
+describe("ContributionLedger", () => {
+	it("attributes added/removed lines and surviving lines per agent", async () => {
+		const root = join(tmpdir(), `pairing-bots-ledger-${Date.now()}`);
+		await mkdir(join(root, "node_modules"), { recursive: true });
+		await writeFile(join(root, "base.txt"), "one\ntwo\n", "utf-8");
+
+		const ledger = new ContributionLedger(root);
+		expect(await ledger.capture("system")).toEqual([]);
+
+		await writeFile(join(root, "a.ts"), "alpha\nbeta\ngamma\n", "utf-8");
+		await writeFile(join(root, "base.txt"), "one\nTWO\n", "utf-8");
+		await writeFile(join(root, "node_modules", "ignored.js"), "x\n", "utf-8");
+		expect(await ledger.capture("A")).toEqual([
+			{ path: "a.ts", linesAdded: 3, linesRemoved: 0 },
+			{ path: "base.txt", linesAdded: 1, linesRemoved: 1 },
+		]);
+
+		// Changes between turns (e.g. verification output) are not credited to anyone.
+		await writeFile(join(root, "coverage.txt"), "noise\n", "utf-8");
+		await ledger.capture("system");
+
+		await writeFile(join(root, "a.ts"), "alpha\nBETA\ngamma\ndelta\n", "utf-8");
+		expect(await ledger.capture("B")).toEqual([{ path: "a.ts", linesAdded: 2, linesRemoved: 1 }]);
+		expect(ledger.lastCaptureDiff()).toBe("--- a.ts (+2/-1)\n- beta\n+ BETA\n+ delta");
+		expect(ledger.lastCaptureDiff(2)).toBe("--- a.ts (+2/-1)\n- beta\n... 2 more diff lines not shown");
+
+		const attribution = ledger.attribution();
+		expect(attribution.A).toEqual({ linesAdded: 4, linesRemoved: 1, filesTouched: ["a.ts", "base.txt"], survivingLines: 3 });
+		expect(attribution.B).toEqual({ linesAdded: 2, linesRemoved: 1, filesTouched: ["a.ts"], survivingLines: 2 });
+
+		// Restoring after an interrupted turn absorbs unattributed edits without losing ownership.
+		const state = ledger.exportState();
+		await unlink(join(root, "base.txt"));
+		const restored = new ContributionLedger(root);
+		await restored.restore(state);
+		expect(restored.attribution().A).toEqual({ ...attribution.A, survivingLines: 2 });
+		expect(restored.attribution().B).toEqual(attribution.B);
+
+		await rm(root, { recursive: true, force: true });
+	});
+
+	it("skips files git ignores unless the turn edited them", async () => {
+		const root = join(tmpdir(), `pairing-bots-ledger-git-${Date.now()}`);
+		await mkdir(join(root, "dist"), { recursive: true });
+		await execFileAsync("git", ["init", "-q"], { cwd: root });
+		await writeFile(join(root, ".gitignore"), "dist/\n*.log\n", "utf-8");
+		await writeFile(join(root, "src.ts"), "one\n", "utf-8");
+
+		const ledger = new ContributionLedger(root);
+		await ledger.capture("system");
+		await writeFile(join(root, "src.ts"), "one\ntwo\n", "utf-8");
+		await writeFile(join(root, "new.ts"), "fresh\n", "utf-8");
+		await writeFile(join(root, "dist", "bundle.js"), "built\n", "utf-8");
+		await writeFile(join(root, "debug.log"), "noted\n", "utf-8");
+		expect(await ledger.capture("A", [join(root, "debug.log")])).toEqual([
+			{ path: "debug.log", linesAdded: 1, linesRemoved: 0 },
+			{ path: "new.ts", linesAdded: 1, linesRemoved: 0 },
+			{ path: "src.ts", linesAdded: 1, linesRemoved: 0 },
+		]);
+		expect(ledger.attribution().A.filesTouched).toEqual(["debug.log", "new.ts", "src.ts"]);
+
+		// A file picked up once stays tracked, so later edits to it are still seen.
+		await writeFile(join(root, "debug.log"), "noted\nagain\n", "utf-8");
+		expect(await ledger.capture("B")).toEqual([{ path: "debug.log", linesAdded: 1, linesRemoved: 0 }]);
+
+		await rm(root, { recursive: true, force: true });
+	});
+});
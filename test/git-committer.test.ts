@@ -0,0 +1,63 @@
+import { execFile } from "node:child_process";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { promisify } from "node:util";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { GitCommitter, sessionBranchName } from "../src/git-committer.js";
+import type { ModelSpec } from "../src/types.js";
+
+const execFileAsync = promisify(execFile);
+
+const MODEL: ModelSpec = { provider: "scripted", modelId: "script-a", thinkingLevel: "off" };
+
+async function git(cwd: string, args: string[]): Promise<string> {
+	const { stdout } = await execFileAsync("git", args, { cwd });
+	return stdout.trim();
+}
+
+describe("GitCommitter", () => {
+	let root: string;
+
+	beforeEach(async () => {
+		root = join(tmpdir(), `pairing-bots-git-${Date.now()}-${Math.random().toString(16).slice(2)}`);
+		await mkdir(root, { recursive: true });
+	});
+
+	afterEach(async () => {
+		await rm(root, { recursive: true, force: true });
+	});
+
+	it("rejects directories outside a git repository", async () => {
+		await expect(GitCommitter.open(root)).rejects.toThrow(/requires a git repository/);
+	});
+
+	it("commits workspace changes as the driver and skips session files", async () => {
+		await git(root, ["init", "--quiet"]);
+		const committer = await GitCommitter.open(root);
+		await committer.checkoutBranch(sessionBranchName("s1"));
+
+		await writeFile(join(root, "hello.txt"), "hello\n", "utf-8");
+		await mkdir(join(root, ".pairing-bots"), { recursive: true });
+		await writeFile(join(root, ".pairing-bots", "log.json"), "{}", "utf-8");
+		const sha = await committer.commitAll({ author: { agent: "A", model: MODEL }, message: "round 1" });
+
+		expect(sha).toMatch(/^[0-9a-f]{40}$/);
+		expect(await committer.currentBranch()).toBe("pairing-bots/s1");
+		expect(await git(root, ["log", "-1", "--format=%an"])).toBe("Model A (scripted/script-a)");
+		expect(await git(root, ["show", "--name-only", "--format=", "HEAD"])).toBe("hello.txt");
+		expect(await committer.commitAll({ author: { agent: "A", model: MODEL }, message: "no-op" })).toBeUndefined();
+	});
+
+	it("refuses a working tree with uncommitted changes outside session files", async () => {
+		await git(root, ["init", "--quiet"]);
+		const committer = await GitCommitter.open(root);
+		await mkdir(join(root, ".pairing-bots"), { recursive: true });
+		await writeFile(join(root, ".pairing-bots", "log.json"), "{}", "utf-8");
+		await expect(committer.assertClean()).resolves.toBeUndefined();
+
+		await mkdir(join(root, "notes"), { recursive: true });
+		await writeFile(join(root, "notes", "draft.md"), "mine\n", "utf-8");
+		await expect(committer.assertClean()).rejects.toThrow(/has 1 uncommitted path\(s\): notes\/draft\.md\. Commit or stash them first/);
+	});
+});
@@ -0,0 +1,69 @@
+import { mkdir, readFile, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { formatLessons, MemoryStore } from "../src/memory-store.js";
+import type { MemoryEntry } from "../src/types.js";
+
+function note(content: string, createdAt: string, source: MemoryEntry["source"] = "navigator_reflection"): MemoryEntry {
+	return { sessionId: "s1", source, content, createdAt };
+}
+
+describe("MemoryStore", () => {
+	let root: string;
+
+	beforeEach(async () => {
+		root = join(tmpdir(), `pairing-bots-memory-${Date.now()}-${Math.random().toString(16).slice(2)}`);
+		await mkdir(root, { recursive: true });
+	});
+
+	afterEach(async () => {
+		await rm(root, { recursive: true, force: true });
+	});
+
+	it("keeps one file per model and appends across runs", async () => {
+		const store = new MemoryStore({ cwd: root });
+		await store.append("openrouter/anthropic/claude-sonnet", [note("first", "2026-10-01T00:00:00.000Z")]);
+		await store.append("openrouter/anthropic/claude-sonnet", [note("second", "2026-10-02T00:00:00.000Z")]);
+		await store.append("openai/gpt-5.2-codex", [note("other", "2026-10-02T00:00:00.000Z")]);
+
+		expect(store.fileFor("openrouter/anthropic/claude-sonnet")).toBe(
+			join(root, ".pairing-bots", "memory", "openrouter__anthropic__claude-sonnet.json"),
+		);
+		expect((await store.load("openrouter/anthropic/claude-sonnet")).map((entry) => entry.content)).toEqual(["first", "second"]);
+		expect((await store.list()).map((memory) => memory.model)).toEqual(["openai/gpt-5.2-codex", "openrouter/anthropic/claude-sonnet"]);
+		expect(await store.load("anthropic/unknown")).toEqual([]);
+		expect(JSON.parse(await readFile(store.fileFor("openai/gpt-5.2-codex"), "utf-8")).version).toBe(1);
+	});
+
+	it("prunes by count and age and clears per model", async () => {
+		const store = new MemoryStore({ cwd: root });
+		await store.append("a/one", [
+			note("old", "2026-09-01T00:00:00.000Z"),
+			note("recent", "2026-10-15T00:00:00.000Z"),
+			note("newest", "2026-10-17T00:00:00.000Z"),
+		]);
+		await store.append("b/two", [note("old", "2026-09-01T00:00:00.000Z"), note("newest", "2026-10-17T00:00:00.000Z")]);
+
+		expect(await store.prune({ olderThanDays: 30, now: Date.parse("2026-10-18T00:00:00.000Z") })).toBe(2);
+		expect(await store.prune({ model: "a/one", keep: 1 })).toBe(1);
+		expect((await store.load("a/one")).map((entry) => entry.content)).toEqual(["newest"]);
+		expect(await store.clear("b/two")).toBe(1);
+		expect((await store.list()).map((memory) => memory.model)).toEqual(["a/one"]);
+		expect(await store.clear()).toBe(1);
+		expect(await store.list()).toEqual([]);
+	});
+
+	it("formats only the newest lessons and cuts long notes", () => {
+		const entries = [
+			note("oldest", "2026-10-01T00:00:00.000Z"),
+			note("middle", "2026-10-02T00:00:00.000Z", "final_review"),
+			note("x".repeat(700), "2026-10-03T00:00:00.000Z"),
+		];
+		const lessons = formatLessons(entries, 2) ?? "";
+		expect(lessons).not.toContain("] oldest");
+		expect(lessons).toContain("- [2026-10-02, final review] middle");
+		expect(lessons).toContain(`- [2026-10-03, navigator reflection] ${"x".repeat(600)}...`);
+		expect(formatLessons([], 10)).toBeUndefined();
+	});
+});
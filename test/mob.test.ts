@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { defaultPairConfig } from "../src/config.js";
+import { memberEntries, memberModel, mergeNavigatorReviews, mobNavigators, mobRoster, nextMobDriver } from "../src/mob.js";
+import type { ContributionSummary, LineAttribution, MemberId, MobNavigatorReview, NavigatorReview } from "../src/types.js";
+
+function lines(linesAdded: number): LineAttribution {
+	return { linesAdded, linesRemoved: 0, survivingLines: linesAdded, filesTouched: [] };
+}
+
+function driven(roundsDriven: number): ContributionSummary {
+	return {
+		agent: "A",
+		roundsDriven,
+		checkpointsWhileDriving: 0,
+		editWriteCallCount: 0,
+		estimatedWrittenBytes: 0,
+		linesAdded: 0,
+		linesRemoved: 0,
+		survivingLines: 0,
+		filesTouched: [],
+		roughCodeSharePercent: 0,
+	};
+}
+
+function navigatorReview(navigator: MemberId, feedback: string, recommendation: NavigatorReview["driverRecommendation"]): MobNavigatorReview {
+	return {
+		navigator,
+		review: {
+			privateReflection: "private",
+			publicFeedback: feedback,
+			hasFeedback: feedback !== "NONE",
+			driverRecommendation: recommendation,
+			checklistUpdates: [],
+			raw: `raw ${navigator}`,
+		},
+	};
+}
+
+describe("mob", () => {
+	it("builds the roster from the configured members and looks up their models", () => {
+		const config = {
+			...defaultPairConfig("/tmp"),
+			executionMode: "mob" as const,
+			mob: {
+				members: [
+					{ provider: "google" as const, modelId: "gemini-2.5-pro", thinkingLevel: "high" as const },
+					{ provider: "openai" as const, modelId: "gpt-5", thinkingLevel: "high" as const },
+				],
+				rotation: "round_robin" as const,
+			},
+		};
+		expect(mobRoster(config)).toEqual(["A", "B", "C", "D"]);
+		expect(mobRoster({ ...config, executionMode: "paired_turns" })).toEqual(["A", "B"]);
+		expect(memberModel(config, "D").modelId).toBe("gpt-5");
+		expect(memberModel(config, "B")).toBe(config.modelB);
+		expect(() => memberModel(config, "E")).toThrow("Model E is not in the mob roster.");
+		expect(memberEntries({ A: 1, B: 2, D: 4 })).toEqual([
+			["A", 1],
+			["B", 2],
+			["D", 4],
+		]);
+	});
+
+	it("rotates the driver round robin from the first driver or toward the least contributor", () => {
+		const roster: MemberId[] = ["A", "B", "C"];
+		const pick = (round: number, rotation: "round_robin" | "least_contributed", attribution = {}, contributions = {}) =>
+			nextMobDriver({
+				roster,
+				rotation,
+				round,
+				firstDriver: "B",
+				attribution: { A: lines(0), B: lines(0), ...attribution },
+				contributions: { A: driven(0), B: driven(0), ...contributions },
+			});
+		expect([1, 2, 3, 4].map((round) => pick(round, "round_robin"))).toEqual(["B", "C", "A", "B"]);
+		expect(pick(1, "least_contributed")).toBe("B");
+		expect(pick(2, "least_contributed", { A: lines(5), B: lines(12), C: lines(3) })).toBe("C");
+		// Equal churn goes to whoever has driven less, then to rotation order.
+		expect(pick(3, "least_contributed", { A: lines(4), C: lines(4), B: lines(9) }, { A: driven(2), C: driven(1) })).toBe("C");
+		expect(pick(3, "least_contributed", { A: lines(4), C: lines(4), B: lines(9) }, { A: driven(1), C: driven(1) })).toBe("C");
+		expect(mobNavigators(roster, "B")).toEqual(["C", "A"]);
+		expect(mobNavigators(roster, "A")).toEqual(["B", "C"]);
+	});
+
+	it("merges navigator feedback per model and reverts only on a strict majority", () => {
+		const split = mergeNavigatorReviews([
+			navigatorReview("B", "Handle the empty list.", "revert"),
+			navigatorReview("C", "NONE", "continue"),
+		]);
+		expect(split).toMatchObject({
+			hasFeedback: true,
+			publicFeedback: "Model B:\nHandle the empty list.",
+			driverRecommendation: "continue",
+			privateReflection: "",
+		});
+		expect(split.raw).toBe("[Model B]\nraw B\n\n[Model C]\nraw C");
+
+		const majority = mergeNavigatorReviews([
+			navigatorReview("A", "Wrong file.", "revert"),
+			navigatorReview("C", "Start over.", "revert"),
+			navigatorReview("D", "NONE", "handoff"),
+		]);
+		expect(majority.driverRecommendation).toBe("revert");
+		expect(majority.publicFeedback).toBe("Model A:\nWrong file.\n\nModel C:\nStart over.");
+		expect(mergeNavigatorReviews([navigatorReview("B", "NONE", "continue")])).toMatchObject({
+			hasFeedback: false,
+			publicFeedback: "NONE",
+		});
+	});
+});
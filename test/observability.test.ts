@@ -2,6 +2,7 @@ import { mkdir, readFile, rm } from "node:fs/promises";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
 import { describe, expect, it } from "vitest";
+import type { AssistantMessage } from "@mariozechner/pi-ai";
 import { SessionObserver } from "../src/observability.js";
 
 describe("SessionObserver", () => {
@@ -52,4 +53,40 @@ describe("SessionObserver", () => {
 
 		await rm(root, { recursive: true, force: true });
 	});
+
+	it("aggregates assistant usage from message_end events into the summary", async () => {
+		const root = join(tmpdir(), `pairing-bots-observability-usage-${Date.now()}`);
+		await mkdir(root, { recursive: true });
+		const observer = new SessionObserver({ cwd: root, logFile: join(root, "session.json"), disableEventStream: true });
+		const message: AssistantMessage = {
+			role: "assistant",
+			content: [],
+			api: "scripted",
+			provider: "scripted",
+			model: "script-a",
+			usage: {
+				input: 100,
+				output: 20,
+				cacheRead: 5,
+				cacheWrite: 0,
+				totalTokens: 125,
+				cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0.01 },
+			},
+			stopReason: "stop",
+			timestamp: 1,
+		};
+
+		observer.recordAgentEvent({ actor: "A", phase: "driving", round: 1, event: { type: "message_start", message } });
+		observer.recordAgentEvent({ actor: "A", phase: "driving", round: 1, event: { type: "message_end", message } });
+		observer.recordAgentEvent({ actor: "B", phase: "navigation", round: 1, event: { type: "message_end", message } });
+
+		const summary = await observer.flush("completed");
+		expect(summary.usage.total).toMatchObject({ calls: 2, input: 200, output: 40, cacheRead: 10, totalTokens: 250 });
+		expect(summary.usage.total.costUsd).toBeCloseTo(0.02);
+		expect(summary.usage.byAgent.A.calls).toBe(1);
+		expect(summary.usage.byPhase.navigation?.totalTokens).toBe(125);
+		expect(summary.usage.byRound["1"]?.calls).toBe(2);
+
+		await rm(root, { recursive: true, force: true });
+	});
 });
@@ -0,0 +1,1276 @@
+import { execFile } from "node:child_process";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { promisify } from "node:util";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { defaultPairConfig } from "../src/config.js";
+import { MemoryStore } from "../src/memory-store.js";
+import { SessionObserver } from "../src/observability.js";
+import { PairProgrammingOrchestrator } from "../src/pair-orchestrator.js";
+import type { ScriptedResponse } from "../src/scripted-provider.js";
+import { SessionStore } from "../src/session-store.js";
+import type { PairAgentConfig } from "../src/types.js";
+
+const PLAN_DRAFT: ScriptedResponse = {
+	expectPromptIncludes: "planning handshake",
+	text: "<plan_draft>1. Create hello.txt</plan_draft>",
+};
+const PLAN_FEEDBACK: ScriptedResponse = {
+	expectPromptIncludes: "Review Model A's draft plan",
+	text: "<plan_feedback>Add a test step.</plan_feedback><plan_signoff>disagree</plan_signoff>",
+};
+const PLAN_SIGNOFF: ScriptedResponse = {
+	expectPromptIncludes: "Review Model A's revised plan",
+	text: "<plan_feedback>Addressed.</plan_feedback><plan_signoff>agree</plan_signoff>",
+};
+const PLAN_AGREED: ScriptedResponse = {
+	expectPromptIncludes: "Revise the plan",
+	text: "<agreed_plan>1. Create hello.txt</agreed_plan>",
+};
+
+function report(status: "continue" | "done", summary: string): ScriptedResponse {
+	return {
+		text: `<status>${status}</status><summary>${summary}</summary><changes>hello.txt</changes><questions_for_navigator>NONE</questions_for_navigator>`,
+	};
+}
+
+function review(feedback: string, recommendation: "continue" | "handoff" | "revert" = "continue"): ScriptedResponse {
+	return {
+		expectPromptIncludes: "NAVIGATOR reviewing",
+		text: `<private_reflection>noted</private_reflection><public_feedback>${feedback}</public_feedback><driver_recommendation>${recommendation}</driver_recommendation>`,
+	};
+}
+
+function finalReview(feedback: string): ScriptedResponse {
+	return {
+		expectPromptIncludes: "final quality review",
+		text: `<private_reflection>ok</private_reflection><public_feedback>${feedback}</public_feedback>`,
+	};
+}
+
+const JOINT_APPROVED: ScriptedResponse = {
+	expectPromptIncludes: "Synthesize a joint final decision",
+	text: "<joint_verdict>APPROVED</joint_verdict><rationale>Done.</rationale><next_steps>NONE</next_steps>",
+};
+
+describe("PairProgrammingOrchestrator with scripted models", () => {
+	let root: string;
+
+	beforeEach(async () => {
+		root = join(tmpdir(), `pairing-bots-orchestrator-${Date.now()}-${Math.random().toString(16).slice(2)}`);
+		await mkdir(root, { recursive: true });
+	});
+
+	afterEach(async () => {
+		await rm(root, { recursive: true, force: true });
+	});
+
+	async function scriptedConfig(
+		responsesA: ScriptedResponse[],
+		responsesB: ScriptedResponse[],
+		overrides: Partial<PairAgentConfig> = {},
+	): Promise<PairAgentConfig> {
+		const fixtureA = join(root, `fixture-a-${Math.random().toString(16).slice(2)}.json`);
+		const fixtureB = join(root, `fixture-b-${Math.random().toString(16).slice(2)}.json`);
+		await writeFile(fixtureA, JSON.stringify({ responses: responsesA }), "utf-8");
+		await writeFile(fixtureB, JSON.stringify({ responses: responsesB }), "utf-8");
+		const workspace = join(root, "workspace");
+		await mkdir(workspace, { recursive: true });
+		return {
+			...defaultPairConfig(workspace),
+			modelA: { provider: "scripted", modelId: "script-a", thinkingLevel: "off", fixtureFile: fixtureA },
+			modelB: { provider: "scripted", modelId: "script-b", thinkingLevel: "off", fixtureFile: fixtureB },
+			...overrides,
+		};
+	}
+
+	it("runs paired turns with checkpoint steering, feedback resolution and a driver swap", async () => {
+		const config = await scriptedConfig(
+			[
+				PLAN_DRAFT,
+				PLAN_AGREED,
+				{
+					expectPromptIncludes: "acting as DRIVER",
+					toolCalls: [{ name: "write", arguments: { path: "hello.txt", content: "hello\n" } }],
+				},
+				report("continue", "Wrote hello.txt"),
+				{ expectPromptIncludes: "will review your changes since the last checkpoint", ...report("continue", "Wrote hello.txt") },
+				{ expectPromptIncludes: "at checkpoint 1 and had no concerns", ...report("continue", "Wrote hello.txt") },
+				{
+					expectPromptIncludes: "Navigator feedback received",
+					toolCalls: [{ name: "edit", arguments: { path: "hello.txt", oldText: "hello\n", newText: "hello world\n" } }],
+				},
+				{ text: "<decision>accept</decision><justification>Applied.</justification>" },
+				{
+					expectPromptIncludes: "complete your current required output format",
+					text: "<decision>accept</decision><justification>Applied.</justification>",
+				},
+				{
+					expectPromptIncludes: "Keep the greeting lowercase.",
+					text: "<decision>accept</decision><justification>Applied.</justification>",
+				},
+				review("NONE"),
+				finalReview("NONE"),
+				JOINT_APPROVED,
+			],
+			[
+				PLAN_FEEDBACK,
+				PLAN_SIGNOFF,
+				{
+					expectPromptIncludes: "+ hello",
+					text: "<checkpoint_feedback>NONE</checkpoint_feedback>",
+				},
+				review("Say hello world instead."),
+				{
+					expectPromptIncludes: "paused at checkpoint 2 while resolving your feedback",
+					text: "<checkpoint_feedback>Keep the greeting lowercase.</checkpoint_feedback>",
+				},
+				{ expectPromptIncludes: "Round: 2", ...report("done", "Verified file") },
+				finalReview("NONE"),
+			],
+			{
+				turnPolicy: { mode: "alternate_each_round" },
+				pauseStrategy: { mode: "every_n_file_edits", editsPerPause: 1, countedTools: ["edit", "write"] },
+			},
+		);
+
+		const result = await new PairProgrammingOrchestrator(config).run("Create hello.txt");
+
+		expect(await readFile(join(config.cwd, "hello.txt"), "utf-8")).toBe("hello world\n");
+		expect(result.agreedPlan).toContain("Create hello.txt");
+		expect(result.planNegotiation).toEqual({ mode: "handshake", iterations: 2, maxIterations: 3, signedOff: true, openRisks: [] });
+		expect(result.rounds.map((round) => round.driver)).toEqual(["A", "B"]);
+		expect(result.rounds[0]?.checkpointCount).toBe(2);
+		expect(result.rounds[0]?.editWriteCallCount).toBe(2);
+		expect(result.rounds[0]?.driverDecision?.decision).toBe("accept");
+		expect(result.rounds[0]?.checkpointReviews).toEqual([
+			{ checkpoint: 1, phase: "driving", fileChanges: [{ path: "hello.txt", linesAdded: 1, linesRemoved: 0 }], feedback: "NONE", hasFeedback: false },
+			{
+				checkpoint: 2,
+				phase: "feedback_resolution",
+				fileChanges: [{ path: "hello.txt", linesAdded: 1, linesRemoved: 1 }],
+				feedback: "Keep the greeting lowercase.",
+				hasFeedback: true,
+			},
+		]);
+		expect(result.rounds[1]?.driverReport.status).toBe("done");
+		expect(result.summary.swapCount).toBe(1);
+		expect(result.summary.contributions.A.roughCodeSharePercent).toBe(100);
+		expect(result.rounds[0]?.fileChanges).toEqual([{ path: "hello.txt", linesAdded: 2, linesRemoved: 1 }]);
+		expect(result.summary.contributions.A).toMatchObject({
+			linesAdded: 2,
+			linesRemoved: 1,
+			filesTouched: ["hello.txt"],
+			survivingLines: 1,
+		});
+		expect(result.summary.contributions.B.linesAdded).toBe(0);
+		expect(result.finalReview.jointVerdict).toBe("APPROVED");
+		expect(result.sharedJournal.some((entry) => entry.stage === "driver_swap")).toBe(true);
+	});
+
+	it("pauses on whichever any_of trigger fires first", async () => {
+		const config = await scriptedConfig(
+			[
+				PLAN_DRAFT,
+				PLAN_AGREED,
+				{
+					expectPromptIncludes: "whichever comes first: after 4 changed lines (added plus removed); when a bash command fails",
+					toolCalls: [
+						{ name: "write", arguments: { path: "notes.txt", content: "a\nb\nc\n" } },
+						{ name: "bash", arguments: { command: "exit 3" } },
+					],
+				},
+				report("continue", "Wrote notes.txt"),
+				{ expectPromptIncludes: "Pause now due to checkpoint policy: a bash command failed.", ...report("continue", "Wrote notes.txt") },
+				{ expectPromptIncludes: "at checkpoint 1 and had no concerns", ...report("done", "Wrote notes.txt") },
+				finalReview("NONE"),
+				JOINT_APPROVED,
+			],
+			[PLAN_FEEDBACK, PLAN_SIGNOFF, { expectPromptIncludes: "+ c", text: "<checkpoint_feedback>NONE</checkpoint_feedback>" }, review("NONE"), finalReview("NONE")],
+			{
+				pauseStrategy: {
+					mode: "any_of",
+					strategies: [{ mode: "every_n_changed_lines", linesPerPause: 4 }, { mode: "on_bash_failure" }],
+				},
+			},
+		);
+
+		const result = await new PairProgrammingOrchestrator(config).run("Write notes.txt");
+
+		// Three written lines stay under the line threshold; the failed bash call is what pauses the driver.
+		expect(result.rounds[0]?.checkpointCount).toBe(1);
+		expect(result.rounds[0]?.checkpointReviews?.map((entry) => entry.checkpoint)).toEqual([1]);
+		expect(result.finalReview.jointVerdict).toBe("APPROVED");
+	});
+
+	it("pauses a driver turn that only writes text once the time trigger elapses", async () => {
+		const config = await scriptedConfig(
+			[
+				PLAN_DRAFT,
+				PLAN_AGREED,
+				{ expectPromptIncludes: "acting as DRIVER", ...report("continue", "Thought it through") },
+				{ expectPromptIncludes: "Pause now due to checkpoint policy: 6 seconds of driving.", ...report("continue", "Thought it through") },
+				{ expectPromptIncludes: "at checkpoint 1 and had no concerns", ...report("done", "Nothing to change") },
+				finalReview("NONE"),
+				JOINT_APPROVED,
+			],
+			[PLAN_FEEDBACK, PLAN_SIGNOFF, { text: "<checkpoint_feedback>NONE</checkpoint_feedback>" }, review("NONE"), finalReview("NONE")],
+			{ pauseStrategy: { mode: "every_n_seconds", secondsPerPause: 5 } },
+		);
+		const observer = new SessionObserver({ cwd: root, logFile: join(root, "session.json"), disableEventStream: true });
+		// Jump the clock six seconds as the driver's turn starts; the turn itself makes no tool calls.
+		const realNow = Date.now.bind(Date);
+		let skew = 0;
+		const clock = vi.spyOn(Date, "now").mockImplementation(() => realNow() + skew);
+		const recordPromptStart = observer.recordPromptStart.bind(observer);
+		vi.spyOn(observer, "recordPromptStart").mockImplementation((params) => {
+			if (params.promptKind === "driver_turn") {
+				skew = 6000;
+			}
+			recordPromptStart(params);
+		});
+
+		try {
+			const result = await new PairProgrammingOrchestrator(config, { observer }).run("Think first");
+
+			expect(result.rounds[0]?.checkpointCount).toBe(1);
+			expect(result.rounds[0]?.editWriteCallCount).toBe(0);
+			expect(result.finalReview.jointVerdict).toBe("APPROVED");
+		} finally {
+			clock.mockRestore();
+		}
+	});
+
+	it("swaps a stuck driver under the adaptive policy and asks for a tie-break when both get stuck", async () => {
+		const reject: ScriptedResponse = {
+			expectPromptIncludes: "Navigator feedback received",
+			text: "<decision>reject</decision><justification>Out of scope.</justification>",
+		};
+		const config = await scriptedConfig(
+			[
+				PLAN_DRAFT,
+				PLAN_AGREED,
+				report("continue", "Started"),
+				reject,
+				review("Validate the name argument."),
+				{
+					expectPromptIncludes: "Tie-break after round 2",
+					text: "<tie_break>stop</tie_break><resolution>Validation is out of scope; finish as is.</resolution>",
+				},
+				finalReview("NONE"),
+				JOINT_APPROVED,
+			],
+			[PLAN_FEEDBACK, PLAN_SIGNOFF, review("Add tests for the greeting."), report("continue", "Continued"), reject, finalReview("NONE")],
+			{
+				pauseStrategy: { mode: "none" },
+				turnPolicy: {
+					mode: "adaptive",
+					maxConsecutiveRounds: 3,
+					maxConsecutiveCheckpoints: 4,
+					maxRejectedFeedback: 1,
+					maxRepeatedFeedback: 2,
+					maxVerificationFailures: 2,
+					maxToolErrors: 6,
+				},
+				disputes: { arbiter: "off", rule: "verification" },
+			},
+		);
+
+		const result = await new PairProgrammingOrchestrator(config).run("Greet");
+
+		expect(result.rounds.map((round) => round.driver)).toEqual(["A", "B"]);
+		expect(result.summary.swapCount).toBe(1);
+		expect(result.sharedJournal.find((entry) => entry.stage === "driver_swap")?.content).toBe(
+			"Swapped driver from A to B. Reason: driver_stuck: 1 rejected navigator reviews (limit 1).",
+		);
+		expect(result.rounds[1]?.tieBreak).toMatchObject({
+			driver: "B",
+			decidedBy: "A",
+			decision: "stop",
+			resolution: "Validation is out of scope; finish as is.",
+		});
+		expect(result.sharedJournal.some((entry) => entry.stage === "tie_break" && entry.actor === "A")).toBe(true);
+	});
+
+	it("lets the navigator rebut a rejection once and applies the rule's ruling", async () => {
+		const config = await scriptedConfig(
+			[
+				PLAN_DRAFT,
+				PLAN_AGREED,
+				report("done", "Wrote hello.txt"),
+				{
+					expectPromptIncludes: "Navigator feedback received",
+					text: "<decision>reject</decision><justification>Not needed.</justification>",
+				},
+				{
+					expectPromptIncludes: "rebutted your rejection",
+					text: "<decision>reject</decision><justification>Still not needed.</justification>",
+				},
+				{
+					expectPromptIncludes: "decided in the navigator's favour",
+					toolCalls: [{ name: "write", arguments: { path: "notes.txt", content: "notes\n" } }],
+				},
+				{ text: "<decision>accept</decision><justification>Added notes.txt.</justification>" },
+				finalReview("NONE"),
+				JOINT_APPROVED,
+			],
+			[
+				PLAN_FEEDBACK,
+				PLAN_SIGNOFF,
+				review("Add notes.txt."),
+				{
+					expectPromptIncludes: "a fixed rule that sides with the navigator decides",
+					text: "<rebuttal_decision>rebut</rebuttal_decision><rebuttal>Notes are in the plan.</rebuttal>",
+				},
+				finalReview("NONE"),
+			],
+			{ maxRounds: 1, pauseStrategy: { mode: "none" }, disputes: { arbiter: "rule", rule: "navigator_wins" } },
+		);
+
+		const result = await new PairProgrammingOrchestrator(config).run("Create hello.txt");
+
+		expect(await readFile(join(config.cwd, "notes.txt"), "utf-8")).toBe("notes\n");
+		expect(result.disputes).toEqual([
+			{
+				round: 1,
+				driver: "A",
+				navigator: "B",
+				subject: "feedback",
+				feedback: "Add notes.txt.",
+				driverJustification: "Not needed.",
+				rebuttal: "Notes are in the plan.",
+				driverResponse: "Still not needed.",
+				outcome: "upheld_navigator",
+				decidedBy: "rule",
+				ruling: "Rule navigator_wins sides with the navigator.",
+			},
+		]);
+		expect(result.rounds[0]?.driverDecision?.decision).toBe("accept");
+		expect(result.sharedJournal.map((entry) => entry.stage)).toEqual(
+			expect.arrayContaining(["dispute_rebuttal", "dispute_response", "dispute_resolved"]),
+		);
+	});
+
+	it("asks the human arbiter when the driver rejects the rebuttal", async () => {
+		const config = await scriptedConfig(
+			[
+				PLAN_DRAFT,
+				PLAN_AGREED,
+				report("done", "Wrote hello.txt"),
+				{ text: "<decision>reject</decision><justification>Out of scope.</justification>" },
+				{ expectPromptIncludes: "rebutted your rejection", text: "<decision>reject</decision><justification>Still out of scope.</justification>" },
+				finalReview("NONE"),
+				JOINT_APPROVED,
+			],
+			[
+				PLAN_FEEDBACK,
+				PLAN_SIGNOFF,
+				review("Add a README."),
+				{ expectPromptIncludes: "a human reviewer decides", text: "<rebuttal_decision>rebut</rebuttal_decision><rebuttal>Docs matter.</rebuttal>" },
+				finalReview("NONE"),
+			],
+			{ maxRounds: 1, pauseStrategy: { mode: "none" }, disputes: { arbiter: "human", rule: "navigator_wins" } },
+		);
+		const questions: string[] = [];
+
+		const result = await new PairProgrammingOrchestrator(config, {
+			humanArbiter: async (question) => {
+				questions.push(question);
+				return "Driver: the README can wait";
+			},
+		}).run("Create hello.txt");
+
+		expect(questions).toHaveLength(1);
+		expect(questions[0]).toContain("Navigator rebuttal: Docs matter.");
+		expect(result.disputes[0]).toMatchObject({ outcome: "upheld_driver", decidedBy: "human", ruling: "the README can wait" });
+		expect(result.rounds[0]?.driverDecision?.decision).toBe("reject");
+	});
+
+	it("lets the arbiter model settle a dispute and bills its ruling to the arbiter", async () => {
+		const arbiterFixture = join(root, "fixture-arbiter.json");
+		await writeFile(
+			arbiterFixture,
+			JSON.stringify({
+				responses: [
+					{
+						expectPromptIncludes: "could not settle a dispute in round 1",
+						text: "<ruling>navigator</ruling><reason>The task asks for documentation.</reason>",
+						usage: { input: 30, output: 5 },
+					},
+					{ text: "<joint_verdict>APPROVED</joint_verdict><rationale>Done.</rationale><next_steps>NONE</next_steps>" },
+				],
+			}),
+			"utf-8",
+		);
+		const config = await scriptedConfig(
+			[
+				PLAN_DRAFT,
+				PLAN_AGREED,
+				report("done", "Wrote hello.txt"),
+				{ text: "<decision>reject</decision><justification>Out of scope.</justification>" },
+				{ expectPromptIncludes: "rebutted your rejection", text: "<decision>reject</decision><justification>Still out of scope.</justification>" },
+				{
+					expectPromptIncludes: "The task asks for documentation.",
+					toolCalls: [{ name: "write", arguments: { path: "README.md", content: "docs\n" } }],
+				},
+				{ text: "<decision>accept</decision><justification>Added README.md.</justification>" },
+				finalReview("NONE"),
+			],
+			[
+				PLAN_FEEDBACK,
+				PLAN_SIGNOFF,
+				review("Add a README."),
+				{
+					expectPromptIncludes: "a third model acting as arbiter decides",
+					text: "<rebuttal_decision>rebut</rebuttal_decision><rebuttal>Docs matter.</rebuttal>",
+				},
+				finalReview("NONE"),
+			],
+			{
+				maxRounds: 1,
+				pauseStrategy: { mode: "none" },
+				disputes: { arbiter: "model", rule: "driver_wins" },
+				arbiter: { provider: "scripted", modelId: "script-arbiter", thinkingLevel: "off", fixtureFile: arbiterFixture },
+			},
+		);
+		const observer = new SessionObserver({ cwd: root, logFile: join(root, "session.json"), disableEventStream: true });
+
+		const result = await new PairProgrammingOrchestrator(config, { observer }).run("Create hello.txt");
+
+		expect(result.disputes[0]).toMatchObject({
+			outcome: "upheld_navigator",
+			decidedBy: "arbiter",
+			ruling: "The task asks for documentation.",
+		});
+		expect(await readFile(join(config.cwd, "README.md"), "utf-8")).toBe("docs\n");
+		expect(result.observability?.usage.arbiter).toMatchObject({ calls: 2, input: 30, output: 5 });
+	});
+
+	it("runs solo_driver_then_reviewer without a final review prompt", async () => {
+		const config = await scriptedConfig(
+			[
+				{ expectPromptIncludes: "produce the final implementation plan", text: "<agreed_plan>1. Write file</agreed_plan>" },
+				{ toolCalls: [{ name: "write", arguments: { path: "solo.txt", content: "solo\n" } }] },
+				report("done", "Wrote solo.txt"),
+				{ text: "<decision>reject</decision><justification>Out of scope.</justification>" },
+			],
+			[
+				{
+					expectPromptIncludes: "full implementation pass",
+					text: "<private_reflection>-</private_reflection><public_feedback>Add docs.</public_feedback><driver_recommendation>continue</driver_recommendation>",
+				},
+			],
+			{ executionMode: "solo_driver_then_reviewer" },
+		);
+
+		const result = await new PairProgrammingOrchestrator(config).run("Write solo.txt");
+
+		expect(await readFile(join(config.cwd, "solo.txt"), "utf-8")).toBe("solo\n");
+		expect(result.rounds).toHaveLength(1);
+		expect(result.finalReview.raw).toBe("synthetic_solo_final_review");
+		expect(result.finalReview.jointVerdict).toBe("NEEDS_MORE_WORK");
+	});
+
+	it("retries transient provider errors and fails over to the fallback model", async () => {
+		const fallbackFixture = join(root, "fixture-a-fallback.json");
+		await writeFile(
+			fallbackFixture,
+			JSON.stringify({
+				responses: [{ expectPromptIncludes: "acting as DRIVER", ...report("done", "Wrote hello.txt") }, finalReview("NONE"), JOINT_APPROVED],
+			}),
+			"utf-8",
+		);
+		const config = await scriptedConfig(
+			[PLAN_DRAFT, { error: "429 rate limit exceeded" }, PLAN_AGREED, { error: "overloaded" }, { error: "overloaded" }, { error: "overloaded" }],
+			[PLAN_FEEDBACK, PLAN_SIGNOFF, review("NONE"), finalReview("NONE")],
+			{ pauseStrategy: { mode: "none" }, retry: { maxAttempts: 5, baseDelayMs: 1, maxDelayMs: 2, failoverAfter: 3 } },
+		);
+		config.modelA.fallback = { provider: "scripted", modelId: "script-a-fallback", thinkingLevel: "off", fixtureFile: fallbackFixture };
+		const observer = new SessionObserver({ cwd: root, logFile: join(root, "session.json"), disableEventStream: true });
+
+		const result = await new PairProgrammingOrchestrator(config, { observer }).run("Create hello.txt");
+
+		expect(result.plan.steps).toHaveLength(1);
+		expect(result.finalReview.jointVerdict).toBe("APPROVED");
+		expect(result.summary.providerRetries).toBe(3);
+		expect(result.summary.failovers).toEqual([
+			{ worker: "A", from: "scripted/script-a", to: "scripted/script-a-fallback", failures: 3, error: "overloaded" },
+		]);
+		const log = JSON.parse(await readFile(join(root, "session.json"), "utf-8")) as {
+			events: Array<{ name: string; actor?: string; phase?: string; details?: Record<string, unknown> }>;
+		};
+		const retries = log.events.filter((event) => event.name === "provider_retry");
+		expect(retries.map((event) => [event.phase, event.details?.attempt])).toEqual([
+			["planning", 1],
+			["driving", 1],
+			["driving", 2],
+		]);
+		expect(log.events.filter((event) => event.name === "model_failover")).toHaveLength(1);
+	});
+
+	it("compacts older context with the compaction model and keeps the raw journal", async () => {
+		const summaryFixture = join(root, "fixture-summary.json");
+		const summary: ScriptedResponse = { expectPromptIncludes: "Summarize this earlier part", text: "<summary>- Plan: create hello.txt</summary>" };
+		await writeFile(summaryFixture, JSON.stringify({ responses: Array.from({ length: 6 }, () => summary) }), "utf-8");
+		const background = `Background notes. ${"The greeting file must stay plain ASCII. ".repeat(250)}`.trim();
+		const config = await scriptedConfig(
+			[
+				PLAN_DRAFT,
+				PLAN_AGREED,
+				{ expectPromptIncludes: "acting as DRIVER", ...report("done", "Wrote hello.txt") },
+				finalReview("NONE"),
+				JOINT_APPROVED,
+			],
+			[
+				{ ...PLAN_FEEDBACK, text: `<plan_feedback>Add a test step. ${background}</plan_feedback><plan_signoff>disagree</plan_signoff>` },
+				PLAN_SIGNOFF,
+				review("NONE"),
+				finalReview("NONE"),
+			],
+			{
+				pauseStrategy: { mode: "none" },
+				compaction: {
+					mode: "auto",
+					thresholdPercent: 1,
+					keepRecentMessages: 2,
+					model: { provider: "scripted", modelId: "script-summary", thinkingLevel: "off", fixtureFile: summaryFixture },
+				},
+			},
+		);
+		const observer = new SessionObserver({ cwd: root, logFile: join(root, "session.json"), disableEventStream: true });
+
+		const result = await new PairProgrammingOrchestrator(config, { observer }).run("Create hello.txt");
+
+		expect(result.finalReview.jointVerdict).toBe("APPROVED");
+		expect(result.summary.compactions.map((compaction) => compaction.worker)).toEqual(["A", "B", "A", "B"]);
+		for (const compaction of result.summary.compactions) {
+			expect(compaction.summarizer).toBe("scripted/script-summary");
+			expect(compaction.tokensAfter).toBeLessThan(compaction.tokensBefore);
+		}
+		// Once the long feedback falls out of the recent messages, the summary replaces it.
+		expect(result.summary.compactions.at(-1)?.tokensAfter).toBeLessThan(1000);
+		expect(result.sharedJournal.some((entry) => entry.stage === "plan_feedback" && entry.content.includes(background))).toBe(true);
+		const log = JSON.parse(await readFile(join(root, "session.json"), "utf-8")) as {
+			events: Array<{ name: string; actor?: string; phase?: string }>;
+		};
+		expect(log.events.filter((event) => event.name === "context_compaction").map((event) => [event.actor, event.phase])).toEqual([
+			["A", "planning"],
+			["B", "planning"],
+			["A", "driving"],
+			["B", "navigation"],
+		]);
+	});
+
+	it("saves private notes per model and loads them as lessons in the next session", async () => {
+		const memoryStore = new MemoryStore({ cwd: root });
+		const runOnce = async (): Promise<SessionStore> => {
+			const config = await scriptedConfig(
+				[PLAN_DRAFT, PLAN_AGREED, { expectPromptIncludes: "acting as DRIVER", ...report("done", "Wrote hello.txt") }, finalReview("NONE"), JOINT_APPROVED],
+				[PLAN_FEEDBACK, PLAN_SIGNOFF, review("NONE"), finalReview("NONE")],
+				{ pauseStrategy: { mode: "none" } },
+			);
+			const sessionStore = new SessionStore({ cwd: root });
+			await new PairProgrammingOrchestrator(config, { sessionStore, memoryStore }).run("Create hello.txt");
+			return sessionStore;
+		};
+
+		const first = await runOnce();
+		expect((await memoryStore.load("scripted/script-b")).map((entry) => [entry.source, entry.content, entry.sessionId])).toEqual([
+			["navigator_reflection", "noted", first.sessionId],
+			["final_review", "ok", first.sessionId],
+		]);
+		expect((await memoryStore.load("scripted/script-a")).map((entry) => entry.source)).toEqual(["final_review"]);
+
+		const second = await runOnce();
+		const messages = (await second.load()).workers.B.messages;
+		expect(JSON.stringify(messages[0])).toContain("Lessons from your previous sessions");
+		expect(JSON.stringify(messages[0])).toContain("] noted");
+		expect(await memoryStore.load("scripted/script-b")).toHaveLength(4);
+	});
+
+	it("aborts a driver turn that runs past --driver-turn-timeout", async () => {
+		const config = await scriptedConfig(
+			[
+				PLAN_DRAFT,
+				PLAN_AGREED,
+				{ expectPromptIncludes: "acting as DRIVER", toolCalls: [{ name: "bash", arguments: { command: "sleep 5" } }] },
+			],
+			[PLAN_FEEDBACK, PLAN_SIGNOFF],
+			{ pauseStrategy: { mode: "none" }, timeouts: { driverTurnMs: 200 } },
+		);
+		const observer = new SessionObserver({ cwd: root, logFile: join(root, "session.json"), disableEventStream: true });
+
+		const startedAt = Date.now();
+		await expect(new PairProgrammingOrchestrator(config, { observer }).run("Hang")).rejects.toThrow(
+			"Model A driver_turn prompt timed out after 0.2s.",
+		);
+		expect(Date.now() - startedAt).toBeLessThan(4000);
+		const log = JSON.parse(await readFile(join(root, "session.json"), "utf-8")) as {
+			meta: { status: string };
+			events: Array<{ name: string; details?: Record<string, unknown> }>;
+		};
+		expect(log.meta.status).toBe("failed");
+		expect(log.events.find((event) => event.name === "prompt_timeout")?.details).toEqual({ promptKind: "driver_turn", timeoutMs: 200 });
+	});
+
+	it("cancels the run through its abort signal and flushes the log as cancelled", async () => {
+		const config = await scriptedConfig(
+			[
+				PLAN_DRAFT,
+				PLAN_AGREED,
+				{ expectPromptIncludes: "acting as DRIVER", toolCalls: [{ name: "bash", arguments: { command: "sleep 5" } }] },
+			],
+			[PLAN_FEEDBACK, PLAN_SIGNOFF],
+			{ pauseStrategy: { mode: "none" } },
+		);
+		const observer = new SessionObserver({ cwd: root, logFile: join(root, "session.json"), disableEventStream: true });
+		const store = new SessionStore({ cwd: root });
+		const controller = new AbortController();
+		setTimeout(() => controller.abort(new Error("Run cancelled by SIGINT.")), 300);
+
+		await expect(
+			new PairProgrammingOrchestrator(config, { observer, sessionStore: store, signal: controller.signal }).run("Hang"),
+		).rejects.toThrow("Run cancelled by SIGINT.");
+		const log = JSON.parse(await readFile(join(root, "session.json"), "utf-8")) as {
+			meta: { status: string };
+			events: Array<{ name: string }>;
+		};
+		expect(log.meta.status).toBe("cancelled");
+		expect(log.events.some((event) => event.name === "session_cancelled")).toBe(true);
+		expect((await store.load()).phase).toBe("execution");
+	});
+
+	it("resumes a failed session from its last round checkpoint", async () => {
+		const overrides: Partial<PairAgentConfig> = {
+			turnPolicy: { mode: "alternate_each_round" },
+			pauseStrategy: { mode: "none" },
+			// One attempt, so the overload ends the run instead of being retried.
+			retry: { maxAttempts: 1, baseDelayMs: 1, maxDelayMs: 1, failoverAfter: 1 },
+		};
+		const failing = await scriptedConfig(
+			[PLAN_DRAFT, PLAN_AGREED, report("continue", "Round one"), review("NONE")],
+			[PLAN_FEEDBACK, PLAN_SIGNOFF, review("NONE"), { error: "529 overloaded" }],
+			overrides,
+		);
+		const store = new SessionStore({ cwd: root });
+
+		await expect(new PairProgrammingOrchestrator(failing, { sessionStore: store }).run("Two rounds")).rejects.toThrow(
+			/529 overloaded/,
+		);
+		const checkpoint = await store.load();
+		expect(checkpoint.phase).toBe("execution");
+		expect(checkpoint.rounds).toHaveLength(1);
+		expect(checkpoint.execution.nextRound).toBe(2);
+		expect(checkpoint.execution.driverId).toBe("B");
+		expect(checkpoint.elapsedMs).toBeGreaterThanOrEqual(0);
+		// A partial edit from the interrupted round.
+		await writeFile(join(failing.cwd, "half-done.txt"), "partial\n", "utf-8");
+
+		const resumed = await scriptedConfig(
+			[review("NONE"), finalReview("NONE"), JOINT_APPROVED],
+			[
+				{ expectPromptIncludes: "Round: 2", ...report("done", "Round two") },
+				finalReview("NONE"),
+			],
+			overrides,
+		);
+		const result = await new PairProgrammingOrchestrator({ ...resumed, cwd: failing.cwd }, { sessionStore: store }).resume(
+			checkpoint,
+		);
+
+		expect(result.rounds.map((round) => round.round)).toEqual([1, 2]);
+		expect(result.summary.swapCount).toBe(1);
+		expect(result.sharedJournal.find((entry) => entry.stage === "session_resumed")?.content).toContain(
+			"left as they are: half-done.txt.",
+		);
+		expect((await store.load()).phase).toBe("completed");
+	});
+
+	it("keeps driving while the verification command fails", async () => {
+		const config = await scriptedConfig(
+			[
+				PLAN_DRAFT,
+				PLAN_AGREED,
+				report("done", "Claimed done without the marker"),
+				{
+					expectPromptIncludes: "Round: 2",
+					toolCalls: [{ name: "write", arguments: { path: "done.txt", content: "ok\n" } }],
+				},
+				report("done", "Added marker"),
+				finalReview("NONE"),
+				JOINT_APPROVED,
+			],
+			[
+				PLAN_FEEDBACK,
+				PLAN_SIGNOFF,
+				{ expectPromptIncludes: "Verification (after_driving): FAILED", ...review("NONE") },
+				{ expectPromptIncludes: "Verification (after_driving): PASSED", ...review("NONE") },
+				finalReview("NONE"),
+			],
+			{
+				pauseStrategy: { mode: "none" },
+				verification: { command: "test -f done.txt", timeoutMs: 10_000, maxOutputChars: 1000 },
+			},
+		);
+
+		const result = await new PairProgrammingOrchestrator(config).run("Create done.txt");
+
+		expect(result.rounds).toHaveLength(2);
+		expect(result.rounds[0]?.verifications?.[0]?.passed).toBe(false);
+		expect(result.rounds[1]?.verifications?.[0]?.passed).toBe(true);
+		expect(result.sharedJournal.some((entry) => entry.stage === "loop_continue")).toBe(true);
+	});
+
+	it("commits each checkpoint and round on a session branch", async () => {
+		const config = await scriptedConfig(
+			[
+				PLAN_DRAFT,
+				PLAN_AGREED,
+				{
+					expectPromptIncludes: "acting as DRIVER",
+					toolCalls: [{ name: "write", arguments: { path: "hello.txt", content: "hello\n" } }],
+				},
+				report("continue", "Wrote hello.txt"),
+				{ expectPromptIncludes: "Pause now due to checkpoint policy", ...report("done", "Wrote hello.txt") },
+				{ expectPromptIncludes: "had no concerns", ...report("done", "Wrote hello.txt") },
+				finalReview("NONE"),
+				JOINT_APPROVED,
+			],
+			[PLAN_FEEDBACK, PLAN_SIGNOFF, { text: "<checkpoint_feedback>NONE</checkpoint_feedback>" }, review("NONE"), finalReview("NONE")],
+			{
+				pauseStrategy: { mode: "every_n_file_edits", editsPerPause: 1, countedTools: ["write"] },
+				commits: { mode: "per_checkpoint", sessionBranch: true },
+			},
+		);
+		const git = async (args: string[]): Promise<string> =>
+			(await promisify(execFile)("git", args, { cwd: config.cwd })).stdout.trim();
+		await git(["init", "--quiet"]);
+		const store = new SessionStore({ cwd: config.cwd, sessionId: "commit-session" });
+
+		const result = await new PairProgrammingOrchestrator(config, { sessionStore: store }).run("Create hello.txt");
+
+		// The checkpoint commit captures the write; the round end has nothing left to commit.
+		const commits = result.rounds[0]?.commits ?? [];
+		expect(commits.map((commit) => commit.trigger)).toEqual(["checkpoint"]);
+		expect(await git(["rev-parse", "--abbrev-ref", "HEAD"])).toBe("pairing-bots/commit-session");
+		expect(await git(["rev-parse", "HEAD"])).toBe(commits[0]?.sha);
+		expect(await git(["log", "-1", "--format=%B"])).toContain("Navigator decision: pending");
+		expect(await git(["status", "--porcelain", "--untracked-files=all"])).toMatch(/^\?\? \.pairing-bots\//m);
+	});
+
+	it("restores the pre-round workspace when the driver accepts a revert", async () => {
+		const config = await scriptedConfig(
+			[
+				PLAN_DRAFT,
+				PLAN_AGREED,
+				{
+					expectPromptIncludes: "acting as DRIVER",
+					toolCalls: [
+						{ name: "write", arguments: { path: "bad.txt", content: "wrong\n" } },
+						{ name: "edit", arguments: { path: "keep.txt", oldText: "original\n", newText: "broken\n" } },
+					],
+				},
+				report("done", "Rewrote keep.txt"),
+				{
+					expectPromptIncludes: "The navigator recommends reverting this round",
+					text: "<decision>accept</decision><justification>Agreed, wrong file.</justification>",
+				},
+				finalReview("NONE"),
+				JOINT_APPROVED,
+			],
+			[PLAN_FEEDBACK, PLAN_SIGNOFF, review("Wrong file; start over.", "revert"), finalReview("NONE")],
+			{ maxRounds: 1, pauseStrategy: { mode: "none" } },
+		);
+		await writeFile(join(config.cwd, "keep.txt"), "original\n", "utf-8");
+
+		const result = await new PairProgrammingOrchestrator(config).run("Fix keep.txt");
+
+		expect(await readFile(join(config.cwd, "keep.txt"), "utf-8")).toBe("original\n");
+		await expect(readFile(join(config.cwd, "bad.txt"), "utf-8")).rejects.toThrow();
+		expect(result.rounds[0]?.reverted).toBe(true);
+		expect(result.summary.contributions.A).toMatchObject({ linesAdded: 0, linesRemoved: 0, survivingLines: 0 });
+		const notice = result.sharedJournal.find((entry) => entry.stage === "round_reverted");
+		expect(notice?.content).toContain("bad.txt (+1/-0)");
+		expect(notice?.content).toContain("Rewrote keep.txt");
+	});
+
+	it("stops on an exhausted token budget and runs a single final review", async () => {
+		const config = await scriptedConfig(
+			[
+				{ ...PLAN_DRAFT, usage: { input: 10, output: 10 } },
+				{ ...PLAN_AGREED, usage: { input: 10, output: 10 } },
+				{ expectPromptIncludes: "acting as DRIVER", ...report("continue", "Big first step"), usage: { input: 100, output: 100 } },
+			],
+			[
+				{ ...PLAN_FEEDBACK, usage: { input: 10, output: 10 } },
+				PLAN_SIGNOFF,
+				{
+					expectPromptIncludes: "session budget is exhausted (260 of 200 tokens)",
+					text: "<private_reflection>ok</private_reflection><public_feedback>Unfinished.</public_feedback><joint_verdict>NEEDS_MORE_WORK</joint_verdict><rationale>Budget.</rationale><next_steps>Finish.</next_steps>",
+				},
+			],
+			{
+				maxRounds: 4,
+				pauseStrategy: { mode: "none" },
+				budget: { maxTokens: 200, navigatorDowngrade: { atFraction: 0.25, thinkingLevel: "off" } },
+			},
+		);
+
+		const result = await new PairProgrammingOrchestrator(config).run("Do a lot");
+
+		expect(result.rounds).toHaveLength(1);
+		expect(result.rounds[0]?.navigatorReview.privateReflection).toContain("budget exhausted");
+		expect(result.summary.budgetExhausted).toEqual({ limit: "tokens", used: 260, cap: 200 });
+		expect(result.finalReview.jointVerdict).toBe("NEEDS_MORE_WORK");
+		expect(result.finalReview.reviewB.publicFeedback).toBe("Unfinished.");
+		const stages = result.sharedJournal.map((entry) => entry.stage);
+		expect(stages).toContain("budget_policy");
+		expect(stages).toContain("budget_exhausted");
+		expect(result.sharedJournal.find((entry) => entry.stage === "loop_stop")?.content).toContain("budget_exhausted");
+	});
+
+	it("lets a third-model arbiter decide the joint verdict and bills it separately", async () => {
+		const arbiterFixture = join(root, "fixture-arbiter.json");
+		await writeFile(
+			arbiterFixture,
+			JSON.stringify({
+				responses: [
+					{
+						expectPromptIncludes: "Round 1 (driver A, navigator B): Wrote hello.txt",
+						text: "<joint_verdict>NEEDS_MORE_WORK</joint_verdict><rationale>B is right about tests.</rationale><next_steps>Add a test.</next_steps>",
+						usage: { input: 40, output: 10 },
+					},
+				],
+			}),
+			"utf-8",
+		);
+		const config = await scriptedConfig(
+			[PLAN_DRAFT, PLAN_AGREED, { expectPromptIncludes: "acting as DRIVER", ...report("done", "Wrote hello.txt") }, finalReview("NONE")],
+			[PLAN_FEEDBACK, PLAN_SIGNOFF, review("NONE"), finalReview("There is no test for hello.txt.")],
+			{
+				pauseStrategy: { mode: "none" },
+				arbiter: { provider: "scripted", modelId: "script-arbiter", thinkingLevel: "off", fixtureFile: arbiterFixture },
+			},
+		);
+		const observer = new SessionObserver({ cwd: root, logFile: join(root, "session.json"), disableEventStream: true });
+
+		const result = await new PairProgrammingOrchestrator(config, { observer }).run("Create hello.txt");
+
+		expect(result.finalReview).toMatchObject({ jointVerdict: "NEEDS_MORE_WORK", nextSteps: "Add a test.", decidedBy: "arbiter" });
+		expect(result.sharedJournal.find((entry) => entry.stage === "joint_verdict")?.actor).toBe("arbiter");
+		expect(result.observability?.usage.arbiter).toMatchObject({ calls: 1, input: 40, output: 10 });
+		expect(result.observability?.usage.byAgent.A.calls).toBe(4);
+		const log = JSON.parse(await readFile(join(root, "session.json"), "utf-8")) as {
+			events: Array<{ name: string; actor?: string; details?: Record<string, unknown> }>;
+		};
+		expect(log.events.find((event) => event.name === "prompt_start" && event.actor === "arbiter")?.details?.promptKind).toBe(
+			"joint_synthesis",
+		);
+		expect(log.events.find((event) => event.name === "arbiter_verdict")?.details).toEqual({
+			model: "scripted/script-arbiter",
+			jointVerdict: "NEEDS_MORE_WORK",
+		});
+	});
+
+	it("rotates a three-model mob through the driver seat with merged navigator feedback", async () => {
+		const mobReview = (driver: string, feedback: string, recommendation: "continue" | "revert" = "continue"): ScriptedResponse => ({
+			expectPromptIncludes: `one of the NAVIGATORS reviewing Model ${driver}'s driving turn`,
+			text: `<private_reflection>noted</private_reflection><public_feedback>${feedback}</public_feedback><driver_recommendation>${recommendation}</driver_recommendation>`,
+		});
+		const fixtureC = join(root, "fixture-c.json");
+		await writeFile(
+			fixtureC,
+			JSON.stringify({
+				responses: [
+					mobReview("A", "NONE"),
+					mobReview("B", "Rename the file instead.", "revert"),
+					{
+						expectPromptIncludes: "You are Model C acting as DRIVER. Models A, B are NAVIGATORS",
+						toolCalls: [{ name: "write", arguments: { path: "test.txt", content: "checked\n" } }],
+					},
+					report("done", "Added test.txt"),
+					finalReview("NONE"),
+				],
+			}),
+			"utf-8",
+		);
+		const config = await scriptedConfig(
+			[
+				PLAN_DRAFT,
+				PLAN_AGREED,
+				{
+					expectPromptIncludes: "You are Model A acting as DRIVER. Models B, C are NAVIGATORS",
+					toolCalls: [{ name: "write", arguments: { path: "hello.txt", content: "hello\n" } }],
+				},
+				report("continue", "Wrote hello.txt"),
+				{
+					expectPromptIncludes: "Model B:\nAdd a newline.",
+					text: "<decision>accept</decision><justification>Fine.</justification>",
+				},
+				mobReview("B", "NONE"),
+				mobReview("C", "NONE"),
+				finalReview("NONE"),
+				{ ...JOINT_APPROVED, expectPromptIncludes: "across all 3 model reviews" },
+			],
+			[
+				PLAN_FEEDBACK,
+				PLAN_SIGNOFF,
+				mobReview("A", "Add a newline."),
+				{ expectPromptIncludes: "You are Model B acting as DRIVER", ...report("continue", "Reviewed hello.txt") },
+				{
+					expectPromptIncludes: "Model C:\nRename the file instead.",
+					text: "<decision>reject</decision><justification>The name is in the task.</justification>",
+				},
+				mobReview("C", "NONE"),
+				finalReview("NONE"),
+			],
+			{
+				executionMode: "mob",
+				mob: {
+					members: [{ provider: "scripted", modelId: "script-c", thinkingLevel: "off", fixtureFile: fixtureC }],
+					rotation: "round_robin",
+				},
+				maxRounds: 4,
+				pauseStrategy: { mode: "none" },
+			},
+		);
+
+		const observer = new SessionObserver({ cwd: root, logFile: join(root, "session.json"), disableEventStream: true });
+
+		const result = await new PairProgrammingOrchestrator(config, { observer }).run("Create hello.txt with a test");
+
+		expect(result.rounds.map((round) => round.driver)).toEqual(["A", "B", "C"]);
+		expect(result.rounds[1]?.navigatorReviews?.map((review) => review.navigator)).toEqual(["C", "A"]);
+		// One revert vote out of two navigators is not a majority, so the driver only answers the feedback.
+		expect(result.rounds[1]?.navigatorReview.driverRecommendation).toBe("continue");
+		expect(result.rounds[1]?.driverDecision?.decision).toBe("reject");
+		expect(result.rounds[1]?.dispute).toBeUndefined();
+		expect(result.rounds[2]?.driverDecision).toBeUndefined();
+		expect(result.summary.swapCount).toBe(2);
+		expect(result.summary.contributions.C).toMatchObject({ roundsDriven: 1, linesAdded: 1, roughCodeSharePercent: 50 });
+		expect(result.summary.contributions.B).toMatchObject({ roundsDriven: 1, linesAdded: 0 });
+		expect(result.finalReview.jointVerdict).toBe("APPROVED");
+		expect(result.finalReview.mobReviews?.C?.publicFeedback).toBe("NONE");
+		expect(result.sharedJournal.find((entry) => entry.stage === "final_review_C")?.actor).toBe("C");
+		expect(result.observability?.usage.byAgent.C?.calls).toBe(5);
+	});
+
+	it("overrides an APPROVED verdict while a task-file acceptance criterion is unmet", async () => {
+		const acceptedReview = (check: string): ScriptedResponse => ({
+			expectPromptIncludes: "1. Creates hello.txt",
+			text: `<private_reflection>ok</private_reflection><public_feedback>NONE</public_feedback><acceptance_check>${check}</acceptance_check>`,
+		});
+		const config = await scriptedConfig(
+			[
+				{ ...PLAN_DRAFT, expectPromptIncludes: "Acceptance criteria:" },
+				PLAN_AGREED,
+				{ expectPromptIncludes: "Files off-limits (do not modify):", ...report("done", "Wrote hello.txt") },
+				acceptedReview("1. met - hello.txt exists\n2. met - README mentions it"),
+				{ ...JOINT_APPROVED, expectPromptIncludes: "- Documents it in README.md" },
+			],
+			[PLAN_FEEDBACK, PLAN_SIGNOFF, review("NONE"), acceptedReview("1. met - present\n2. unmet - README unchanged")],
+			{ pauseStrategy: { mode: "none" } },
+		);
+
+		const result = await new PairProgrammingOrchestrator(config).run({
+			title: "Greeting file",
+			description: "Add a greeting.",
+			acceptanceCriteria: ["Creates hello.txt", "Documents it in README.md"],
+			filesInScope: ["hello.txt"],
+			filesOffLimits: ["package.json"],
+		});
+
+		expect(result.taskSpec.title).toBe("Greeting file");
+		expect(result.finalReview.jointVerdict).toBe("NEEDS_MORE_WORK");
+		expect(result.finalReview.nextSteps).toBe("Meet acceptance criterion: Documents it in README.md");
+		expect(result.finalReview.acceptance).toEqual([
+			{ criterion: "Creates hello.txt", met: true, note: "A met: hello.txt exists; B met: present" },
+			{ criterion: "Documents it in README.md", met: false, note: "A met: README mentions it; B unmet: README unchanged" },
+		]);
+		expect(result.finalReview.reviewB.acceptanceChecks?.[1]?.met).toBe(false);
+		expect(result.sharedJournal.find((entry) => entry.stage === "acceptance_check")?.content).toContain(
+			"2. [unmet] Documents it in README.md",
+		);
+	});
+
+	it("tracks checklist progress from driver reports and navigator reviews", async () => {
+		const config = await scriptedConfig(
+			[
+				PLAN_DRAFT,
+				{ ...PLAN_AGREED, text: "<agreed_plan>1. Create hello.txt\n2. Add a test</agreed_plan>" },
+				{
+					expectPromptIncludes: "1. [pending] Create hello.txt",
+					text: "<status>continue</status><summary>Wrote hello.txt</summary><changes>hello.txt</changes><questions_for_navigator>NONE</questions_for_navigator><checklist_update>1: done\n2: in_progress</checklist_update>",
+				},
+				{
+					expectPromptIncludes: "2. [done] Add a test - done by B in round 2",
+					text: "<private_reflection>ok</private_reflection><public_feedback>NONE</public_feedback><driver_recommendation>continue</driver_recommendation><checklist_update>2: done</checklist_update>",
+				},
+				finalReview("NONE"),
+				JOINT_APPROVED,
+			],
+			[
+				PLAN_FEEDBACK,
+				PLAN_SIGNOFF,
+				{
+					expectPromptIncludes: "1. [done] Create hello.txt - done by A in round 1",
+					text: "<private_reflection>ok</private_reflection><public_feedback>NONE</public_feedback><driver_recommendation>handoff</driver_recommendation><checklist_update>1: done\n2: disputed - no test file</checklist_update>",
+				},
+				{
+					expectPromptIncludes: "2. [disputed] Add a test - no test file",
+					text: "<status>done</status><summary>Added test</summary><changes>hello.test</changes><questions_for_navigator>NONE</questions_for_navigator><checklist_update>2: done</checklist_update>",
+				},
+				finalReview("NONE"),
+			],
+			{ pauseStrategy: { mode: "none" }, turnPolicy: { mode: "alternate_each_round" } },
+		);
+
+		const result = await new PairProgrammingOrchestrator(config).run("Create hello.txt");
+
+		expect(result.checklist).toEqual([
+			{ id: 1, text: "Create hello.txt", kind: "step", status: "done", completedBy: "A", completedRound: 1 },
+			{ id: 2, text: "Add a test", kind: "step", status: "done", completedBy: "B", completedRound: 2 },
+		]);
+		const stages = result.sharedJournal.map((entry) => entry.stage);
+		expect(stages).toContain("checklist");
+		expect(result.sharedJournal.filter((entry) => entry.stage === "checklist_update")).toHaveLength(3);
+	});
+
+	it("re-prompts a malformed plan and points each driver turn at the next open step", async () => {
+		const config = await scriptedConfig(
+			[
+				PLAN_DRAFT,
+				{ expectPromptIncludes: "Revise the plan", text: "<agreed_plan>Create the files</agreed_plan>" },
+				{
+					expectPromptIncludes: "no numbered steps found",
+					text: "<agreed_plan><summary>Two files.</summary><steps>1. Create a.txt\n2. Create b.txt</steps></agreed_plan>",
+				},
+				{
+					expectPromptIncludes: "Focus on step 1 of the agreed plan: Create a.txt",
+					text: "<status>continue</status><summary>a</summary><changes>a.txt</changes><questions_for_navigator>NONE</questions_for_navigator><checklist_update>1: done</checklist_update>",
+				},
+				{
+					expectPromptIncludes: "Focus on step 2 of the agreed plan: Create b.txt",
+					...report("done", "b"),
+				},
+				finalReview("NONE"),
+				JOINT_APPROVED,
+			],
+			[PLAN_FEEDBACK, PLAN_SIGNOFF, { ...review("NONE"), expectPromptIncludes: "The driver was pointed at step 1: Create a.txt" }, review("NONE"), finalReview("NONE")],
+			{ pauseStrategy: { mode: "none" }, turnPolicy: { mode: "same_driver_until_navigator_signoff", maxConsecutiveRounds: 3, maxConsecutiveCheckpoints: 4 } },
+		);
+
+		const result = await new PairProgrammingOrchestrator(config).run("Create two files");
+
+		expect(result.plan.summary).toBe("Two files.");
+		expect(result.plan.steps.map((step) => step.id)).toEqual([1, 2]);
+		expect(result.agreedPlan).toBe("Summary: Two files.\nSteps:\n1. Create a.txt\n2. Create b.txt");
+		expect(result.rounds.map((round) => round.focusStep)).toEqual([1, 2]);
+		expect(result.sharedJournal.find((entry) => entry.stage === "plan_agreed")?.content).toBe(result.agreedPlan);
+	});
+
+	it("records B's remaining objections as open risks when the plan is never signed off", async () => {
+		const config = await scriptedConfig(
+			[
+				PLAN_DRAFT,
+				{ ...PLAN_AGREED, expectPromptIncludes: "Critique:\n- Add a rollback step" },
+				{ ...PLAN_AGREED, expectPromptIncludes: "Critique:\n- Still no rollback" },
+				report("done", "Created"),
+				finalReview("NONE"),
+				JOINT_APPROVED,
+			],
+			[
+				{ ...PLAN_FEEDBACK, text: "<plan_feedback>- Add a rollback step</plan_feedback><plan_signoff>disagree</plan_signoff>" },
+				{
+					expectPromptIncludes: "Review iteration 2 of 2. This is the last one",
+					text: "<plan_feedback>- Still no rollback\n- Tests are vague</plan_feedback><plan_signoff>disagree</plan_signoff>",
+				},
+				review("NONE"),
+				finalReview("NONE"),
+			],
+			{ maxPlanIterations: 2, pauseStrategy: { mode: "none" } },
+		);
+
+		const result = await new PairProgrammingOrchestrator(config).run("Create hello.txt");
+
+		expect(result.planNegotiation).toEqual({
+			mode: "handshake",
+			iterations: 2,
+			maxIterations: 2,
+			signedOff: false,
+			openRisks: ["Still no rollback", "Tests are vague"],
+		});
+		const stages = result.sharedJournal.map((entry) => entry.stage);
+		expect(stages.filter((stage) => stage === "plan_revision")).toHaveLength(2);
+		expect(result.sharedJournal.find((entry) => entry.stage === "plan_open_risks")?.content).toContain("- Tests are vague");
+		expect(result.sharedJournal.find((entry) => entry.stage === "plan_agreed")?.actor).toBe("both");
+	});
+
+	it("drafts independently, merges with attribution and has B sign off on the merge", async () => {
+		const config = await scriptedConfig(
+			[
+				{ expectPromptIncludes: "You are Model A, drafting a plan independently", text: "<plan_draft>1. Create hello.txt</plan_draft>" },
+				{
+					expectPromptIncludes: "Model B's draft:\nSteps:\n1. Create hello.txt\n2. Add a test for hello.txt",
+					text: "<agreed_plan><steps>1. [A+B] Create hello.txt\n2. [B] Add a test for hello.txt</steps></agreed_plan>",
+				},
+				report("done", "Created"),
+				finalReview("NONE"),
+				JOINT_APPROVED,
+			],
+			[
+				{
+					expectPromptIncludes: "You are Model B, drafting a plan independently",
+					text: "<plan_draft>1. Create hello.txt\n2. Add a test for hello.txt</plan_draft>",
+				},
+				{
+					expectPromptIncludes: "Review the plan Model A merged",
+					text: "<plan_feedback>Good merge.</plan_feedback><plan_signoff>agree</plan_signoff>",
+				},
+				review("NONE"),
+				finalReview("NONE"),
+			],
+			{ planningMode: "independent_then_merge", pauseStrategy: { mode: "none" } },
+		);
+
+		const result = await new PairProgrammingOrchestrator(config).run("Create hello.txt");
+
+		expect(result.plan.steps.map((step) => step.source)).toEqual(["both", "B"]);
+		expect(result.agreedPlan).toBe("Steps:\n1. [A+B] Create hello.txt\n2. [B] Add a test for hello.txt");
+		expect(result.checklist.map((item) => item.text)).toEqual(["Create hello.txt", "Add a test for hello.txt"]);
+		expect(result.planNegotiation).toMatchObject({ mode: "independent_then_merge", iterations: 1, signedOff: true });
+		expect(result.sharedJournal.filter((entry) => entry.stage === "plan_draft").map((entry) => entry.actor)).toEqual(["A", "B"]);
+		expect(result.sharedJournal.some((entry) => entry.stage === "plan_merged")).toBe(true);
+	});
+
+	it("reviews checkpoints in parallel and steers the feedback into the running driver turn", async () => {
+		const config = await scriptedConfig(
+			[
+				PLAN_DRAFT,
+				PLAN_AGREED,
+				{
+					expectPromptIncludes: "acting as DRIVER",
+					toolCalls: [{ name: "write", arguments: { path: "hello.txt", content: "hello\n" } }],
+				},
+				// Keeps the driver busy long enough for the interim review to land mid-turn.
+				{ toolCalls: [{ name: "bash", arguments: { command: "sleep 0.3" } }] },
+				{ expectPromptIncludes: "reviewed your changes at checkpoint 1", ...report("done", "Wrote hello.txt") },
+				finalReview("NONE"),
+				JOINT_APPROVED,
+			],
+			[
+				PLAN_FEEDBACK,
+				PLAN_SIGNOFF,
+				{
+					expectPromptIncludes: "Files written so far this round: hello.txt",
+					text: "<interim_feedback>Greet the world, not just hello.</interim_feedback>",
+				},
+				review("NONE"),
+				finalReview("NONE"),
+			],
+			{
+				parallelReview: true,
+				pauseStrategy: { mode: "every_n_file_edits", editsPerPause: 1, countedTools: ["edit", "write"] },
+			},
+		);
+
+		const result = await new PairProgrammingOrchestrator(config).run("Create hello.txt");
+
+		expect(result.rounds[0]?.interimReviews).toEqual([
+			{
+				checkpoint: 1,
+				phase: "driving",
+				files: ["hello.txt"],
+				feedback: "Greet the world, not just hello.",
+				hasFeedback: true,
+				steered: true,
+			},
+		]);
+		const stages = result.sharedJournal.map((entry) => entry.stage);
+		expect(stages.indexOf("interim_review")).toBeLessThan(stages.indexOf("driver_report"));
+	});
+
+	it("announces a budget hit at a checkpoint only after the driver's turn settles", async () => {
+		const config = await scriptedConfig(
+			[
+				PLAN_DRAFT,
+				PLAN_AGREED,
+				{
+					expectPromptIncludes: "acting as DRIVER",
+					toolCalls: [{ name: "write", arguments: { path: "hello.txt", content: "hello\n" } }],
+					usage: { input: 200, output: 100 },
+				},
+				report("continue", "Wrote hello.txt"),
+			],
+			[
+				PLAN_FEEDBACK,
+				PLAN_SIGNOFF,
+				{
+					expectPromptIncludes: "session budget is exhausted",
+					text: "<private_reflection>ok</private_reflection><public_feedback>Unfinished.</public_feedback><joint_verdict>NEEDS_MORE_WORK</joint_verdict><rationale>Budget.</rationale><next_steps>Finish.</next_steps>",
+				},
+			],
+			{
+				parallelReview: true,
+				pauseStrategy: { mode: "every_n_file_edits", editsPerPause: 1, countedTools: ["edit", "write"] },
+				budget: { maxTokens: 200 },
+			},
+		);
+		const observer = new SessionObserver({ cwd: root, logFile: join(root, "session.json"), disableEventStream: true });
+
+		const result = await new PairProgrammingOrchestrator(config, { observer }).run("Create hello.txt");
+
+		expect(result.rounds[0]?.interimReviews).toBeUndefined();
+		expect(result.summary.budgetExhausted?.limit).toBe("tokens");
+		const log = JSON.parse(await readFile(join(root, "session.json"), "utf-8")) as {
+			events: Array<{ name: string; details?: Record<string, unknown> }>;
+		};
+		const names = log.events.map((event) => event.name);
+		const driverTurnEnd = log.events.findIndex((event) => event.name === "prompt_end" && event.details?.promptKind === "driver_turn");
+		expect(log.events.find((event) => event.name === "interim_review_skipped")?.details?.reason).toBe("budget_exhausted");
+		expect(names.indexOf("budget_exhausted")).toBeGreaterThan(driverTurnEnd);
+		expect(result.sharedJournal.filter((entry) => entry.stage === "budget_exhausted")).toHaveLength(1);
+	});
+
+	it("skips a sequential checkpoint review on a budget hit without posting mid-turn", async () => {
+		const config = await scriptedConfig(
+			[
+				PLAN_DRAFT,
+				PLAN_AGREED,
+				{
+					expectPromptIncludes: "acting as DRIVER",
+					toolCalls: [{ name: "write", arguments: { path: "hello.txt", content: "hello\n" } }],
+					usage: { input: 200, output: 100 },
+				},
+				report("continue", "Wrote hello.txt"),
+				{ expectPromptIncludes: "Prepare an immediate handoff for Model B", ...report("continue", "Wrote hello.txt") },
+			],
+			[
+				PLAN_FEEDBACK,
+				PLAN_SIGNOFF,
+				{
+					expectPromptIncludes: "session budget is exhausted",
+					text: "<private_reflection>ok</private_reflection><public_feedback>Unfinished.</public_feedback><joint_verdict>NEEDS_MORE_WORK</joint_verdict><rationale>Budget.</rationale><next_steps>Finish.</next_steps>",
+				},
+			],
+			{
+				pauseStrategy: { mode: "every_n_file_edits", editsPerPause: 1, countedTools: ["edit", "write"] },
+				budget: { maxTokens: 200 },
+			},
+		);
+		const observer = new SessionObserver({ cwd: root, logFile: join(root, "session.json"), disableEventStream: true });
+
+		const result = await new PairProgrammingOrchestrator(config, { observer }).run("Create hello.txt");
+
+		expect(result.rounds[0]?.checkpointCount).toBe(1);
+		expect(result.rounds[0]?.checkpointReviews).toBeUndefined();
+		const log = JSON.parse(await readFile(join(root, "session.json"), "utf-8")) as {
+			events: Array<{ name: string; details?: Record<string, unknown> }>;
+		};
+		const names = log.events.map((event) => event.name);
+		const driverTurnEnd = log.events.findIndex((event) => event.name === "prompt_end" && event.details?.promptKind === "driver_turn");
+		expect(names.indexOf("budget_exhausted")).toBeGreaterThan(driverTurnEnd);
+		expect(names).not.toContain("checkpoint_review");
+	});
+});
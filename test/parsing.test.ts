@@ -1,5 +1,17 @@
 import { describe, expect, it } from "vitest";
-import { parseDriverDecision, parseDriverReport, parseJointVerdict, parseNavigatorReview } from "../src/parsing.js";
+import {
+	parseAcceptanceCheck,
+	parseArbiterRuling,
+	parseChecklistUpdates,
+	parseDriverDecision,
+	parseDriverReport,
+	parseHumanRuling,
+	parseJointVerdict,
+	parseNavigatorReview,
+	parsePlan,
+	parsePlanReview,
+	parseRebuttal,
+} from "../src/parsing.js";
 
 describe("parsing", () => {
 	it("parses driver report tags", () => {
@@ -28,6 +40,16 @@ describe("parsing", () => {
 		expect(parsed.driverRecommendation).toBe("handoff");
 	});
 
+	it("parses a revert recommendation", () => {
+		const parsed = parseNavigatorReview(`
+<private_reflection>Wrong approach.</private_reflection>
+<public_feedback>This rewrites the wrong module.</public_feedback>
+<driver_recommendation>REVERT</driver_recommendation>
+`);
+
+		expect(parsed.driverRecommendation).toBe("revert");
+	});
+
 	it("treats NONE feedback as no feedback", () => {
 		const parsed = parseNavigatorReview(`
 <private_reflection>Looks stable.</private_reflection>
@@ -64,4 +86,118 @@ describe("parsing", () => {
 		expect(parsed.decision).toBe("partial");
 		expect(parsed.justification).toContain("unstructured output");
 	});
+
+	it("parses acceptance check lines and treats skipped criteria as unmet", () => {
+		const checks = parseAcceptanceCheck(
+			`<acceptance_check>
+1. met - parser handles empty input
+2) UNMET: no regression test yet
+</acceptance_check>`,
+			["Handles empty input", "Has a regression test", "Docs updated"],
+		);
+
+		expect(checks).toEqual([
+			{ criterion: "Handles empty input", met: true, note: "parser handles empty input" },
+			{ criterion: "Has a regression test", met: false, note: "no regression test yet" },
+			{ criterion: "Docs updated", met: false, note: "(not assessed)" },
+		]);
+	});
+
+	it("parses checklist updates from driver and navigator output", () => {
+		const updates = parseChecklistUpdates(
+			"<checklist_update>\n1: done\n#2 in progress\n3: disputed - tests fail\n4: shipped\n</checklist_update>",
+		);
+
+		expect(updates).toEqual([
+			{ id: 1, status: "done" },
+			{ id: 2, status: "in_progress" },
+			{ id: 3, status: "disputed", note: "tests fail" },
+		]);
+		expect(parseDriverReport("<status>done</status>").checklistUpdates).toEqual([]);
+	});
+
+	it("parses a structured plan into typed steps, risks, tests and files", () => {
+		const { plan, errors } = parsePlan(
+			`<agreed_plan>
+<summary>Guard the parser.</summary>
+<steps>
+1. Add empty-input guard
+2. Add regression test
+</steps>
+<risks>NONE</risks>
+<tests>- npm test</tests>
+<files>
+- src/parser.ts
+</files>
+</agreed_plan>`,
+			"agreed_plan",
+		);
+
+		expect(errors).toEqual([]);
+		expect(plan).toEqual({
+			summary: "Guard the parser.",
+			steps: [
+				{ id: 1, description: "Add empty-input guard" },
+				{ id: 2, description: "Add regression test" },
+			],
+			risks: [],
+			testSteps: ["npm test"],
+			filesInScope: ["src/parser.ts"],
+		});
+	});
+
+	it("reads the source tags of merged plan steps", () => {
+		const { plan } = parsePlan("<agreed_plan><steps>1. [A] Guard input\n2. [A+B] Add test\n3. [b] Update docs\n4. Ship</steps></agreed_plan>", "agreed_plan");
+		expect(plan.steps).toEqual([
+			{ id: 1, description: "Guard input", source: "A" },
+			{ id: 2, description: "Add test", source: "both" },
+			{ id: 3, description: "Update docs", source: "B" },
+			{ id: 4, description: "Ship" },
+		]);
+	});
+
+	it("reports malformed plans while keeping a best-effort parse", () => {
+		expect(parsePlan("<plan_draft>1. Only step</plan_draft>", "plan_draft")).toEqual({
+			plan: { summary: "", steps: [{ id: 1, description: "Only step" }], risks: [], testSteps: [], filesInScope: [] },
+			errors: [],
+		});
+		expect(parsePlan("Just do it", "agreed_plan").errors).toEqual([
+			"missing <agreed_plan>...</agreed_plan> block",
+			"no numbered steps found (expected lines like `1. Do something` inside <steps>)",
+		]);
+		expect(parsePlan("<agreed_plan><steps>1. a\n3. b</steps></agreed_plan>", "agreed_plan").errors).toEqual([
+			"steps must be numbered 1, 2, 3... in order (found 1, 3)",
+		]);
+	});
+
+	it("reads plan sign-off and treats anything but agree as a disagreement", () => {
+		expect(parsePlanReview("<plan_feedback>Good.</plan_feedback><plan_signoff>Agree</plan_signoff>")).toMatchObject({
+			feedback: "Good.",
+			signoff: "agree",
+			objections: [],
+		});
+		expect(
+			parsePlanReview("<plan_feedback>- Missing rollback\n- No test for empty input</plan_feedback><plan_signoff>disagree</plan_signoff>"),
+		).toMatchObject({ signoff: "disagree", objections: ["Missing rollback", "No test for empty input"] });
+		expect(parsePlanReview("<plan_feedback>Looks fine.</plan_feedback>")).toMatchObject({
+			signoff: "disagree",
+			objections: ["Looks fine."],
+		});
+	});
+
+	it("reads rebuttals and human dispute rulings", () => {
+		expect(parseRebuttal("<rebuttal_decision>Concede</rebuttal_decision><rebuttal>Fair point.</rebuttal>")).toEqual({
+			concede: true,
+			rebuttal: "Fair point.",
+		});
+		expect(parseRebuttal("The test is still missing.")).toEqual({ concede: false, rebuttal: "The test is still missing." });
+		expect(parseHumanRuling("navigator - tests first")).toEqual({ winner: "navigator", note: "tests first" });
+		expect(parseHumanRuling("DRIVER")).toEqual({ winner: "driver", note: "" });
+		expect(parseHumanRuling("not sure")).toEqual({ note: "not sure" });
+		expect(parseArbiterRuling("<ruling>Driver</ruling><reason>The test already covers it.</reason>")).toEqual({
+			winner: "driver",
+			ruling: "The test already covers it.",
+		});
+		expect(parseArbiterRuling("<ruling>both</ruling> Split the difference.")).toEqual({ ruling: "Split the difference." });
+	});
 });
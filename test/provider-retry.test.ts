@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { defaultRetryConfig, isRetryableProviderError, retryDelayMs } from "../src/provider-retry.js";
+
+describe("provider retry policy", () => {
+	it("retries rate limits, overloads and dropped connections but not request errors", () => {
+		for (const message of [
+			"429 Too Many Requests",
+			"529 overloaded_error",
+			"Rate limit reached for requests",
+			"503 Service Unavailable",
+			"fetch failed",
+			"read ECONNRESET",
+			"Request timed out.",
+			'529 {"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}',
+			'{"error":{"code":429,"message":"Resource has been exhausted","status":"RESOURCE_EXHAUSTED"}}',
+			"got status: 502 Bad Gateway",
+		]) {
+			expect(isRetryableProviderError(message), message).toBe(true);
+		}
+		for (const message of [
+			"400 invalid_request_error: prompt is too long",
+			"401 invalid x-api-key",
+			"Scripted fixture exhausted after 4 responses.",
+			// Numbers and "timeout" outside a status position are not provider failures.
+			"400 invalid_request_error: max_tokens: 500000 > 64000, which is the maximum allowed",
+			"Tool output mentions 503 pending jobs",
+			"Prompt timeout must be a positive number of seconds.",
+		]) {
+			expect(isRetryableProviderError(message), message).toBe(false);
+		}
+	});
+
+	it("doubles the delay per retry up to the cap and jitters the upper half", () => {
+		const config = { ...defaultRetryConfig(), baseDelayMs: 1000, maxDelayMs: 5000 };
+		expect([1, 2, 3, 4].map((retry) => retryDelayMs(retry, config, () => 0))).toEqual([500, 1000, 2000, 2500]);
+		expect([1, 2, 3, 4].map((retry) => retryDelayMs(retry, config, () => 1))).toEqual([1000, 2000, 4000, 5000]);
+	});
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import type { Context } from "@mariozechner/pi-ai";
+import { createScriptedStreamFn, parseScriptedFixture, scriptedModel } from "../src/scripted-provider.js";
+
+function contextWithPrompt(prompt: string): Context {
+	return { messages: [{ role: "user", content: prompt, timestamp: 1 }] };
+}
+
+describe("scripted provider", () => {
+	it("replays text and tool call responses in order", async () => {
+		const streamFn = createScriptedStreamFn(
+			parseScriptedFixture({
+				responses: [
+					{ toolCalls: [{ name: "write", arguments: { path: "a.txt", content: "hi" } }] },
+					{ text: "<status>done</status>", expectPromptIncludes: "Round: 1" },
+				],
+			}),
+		);
+		const model = scriptedModel("script");
+
+		const first = await (await streamFn(model, contextWithPrompt("Round: 1"))).result();
+		expect(first.stopReason).toBe("toolUse");
+		expect(first.content[0]).toMatchObject({ type: "toolCall", name: "write", id: "scripted-0-0" });
+
+		const second = await (await streamFn(model, contextWithPrompt("Round: 1"))).result();
+		expect(second.stopReason).toBe("stop");
+		expect(second.content).toEqual([{ type: "text", text: "<status>done</status>" }]);
+
+		const counted = await (
+			await createScriptedStreamFn({ responses: [{ text: "x", usage: { input: 10, output: 5, cacheRead: 2 } }] })(
+				model,
+				contextWithPrompt("anything"),
+			)
+		).result();
+		expect(counted.usage).toMatchObject({ input: 10, output: 5, cacheRead: 2, cacheWrite: 0, totalTokens: 17 });
+
+		const exhausted = await (await streamFn(model, contextWithPrompt("Round: 2"))).result();
+		expect(exhausted.stopReason).toBe("error");
+		expect(exhausted.errorMessage).toContain("exhausted");
+	});
+
+	it("fails on prompt mismatch and simulated errors", async () => {
+		const streamFn = createScriptedStreamFn({
+			responses: [{ text: "x", expectPromptIncludes: "plan" }, { error: "529 overloaded" }],
+		});
+		const model = scriptedModel("script");
+
+		const mismatch = await (await streamFn(model, contextWithPrompt("review"))).result();
+		expect(mismatch.stopReason).toBe("error");
+		expect(mismatch.errorMessage).toContain("\"plan\"");
+
+		const failure = await (await streamFn(model, contextWithPrompt("anything"))).result();
+		expect(failure.errorMessage).toBe("529 overloaded");
+	});
+
+	it("validates fixture shape", () => {
+		expect(() => parseScriptedFixture({})).toThrow(/responses/);
+		expect(() => parseScriptedFixture({ responses: [{}] })).toThrow(/needs "text"/);
+		expect(() => parseScriptedFixture({ responses: [{ toolCalls: [{ name: "write" }] }] })).toThrow(/arguments/);
+		expect(() => parseScriptedFixture({ responses: [{ text: "x", usage: { input: -1, output: 2 } }] })).toThrow(/usage/);
+	});
+});
@@ -0,0 +1,105 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { describe, expect, it } from "vitest";
+import { defaultPairConfig } from "../src/config.js";
+import { CHECKPOINT_VERSION, SessionStore } from "../src/session-store.js";
+import type { SessionCheckpoint } from "../src/types.js";
+
+function checkpointFor(sessionId: string, cwd: string): SessionCheckpoint {
+	return {
+		version: CHECKPOINT_VERSION,
+		sessionId,
+		createdAt: 1,
+		updatedAt: 2,
+		phase: "execution",
+		task: "x",
+		config: defaultPairConfig(cwd),
+		agreedPlan: "plan",
+		rounds: [],
+		execution: {
+			nextRound: 3,
+			driverId: "B",
+			consecutiveRoundsWithDriver: 1,
+			consecutiveCheckpointsWithDriver: 2,
+			swapCount: 1,
+			checkpointCount: 2,
+			contributions: {
+				A: {
+					agent: "A",
+					estimatedWrittenBytes: 10,
+					editWriteCallCount: 1,
+					roundsDriven: 1,
+					checkpointsWhileDriving: 0,
+					roughCodeSharePercent: 0,
+					linesAdded: 0,
+					linesRemoved: 0,
+					filesTouched: [],
+					survivingLines: 0,
+				},
+				B: {
+					agent: "B",
+					estimatedWrittenBytes: 0,
+					editWriteCallCount: 0,
+					roundsDriven: 1,
+					checkpointsWhileDriving: 2,
+					roughCodeSharePercent: 0,
+					linesAdded: 0,
+					linesRemoved: 0,
+					filesTouched: [],
+					survivingLines: 0,
+				},
+			},
+		},
+		sharedJournal: [{ stage: "task", actor: "system", content: "x", timestamp: 1 }],
+		workers: {
+			A: { messages: [{ role: "user", content: "hello", timestamp: 1 }], privateMemory: ["note"] },
+			B: { messages: [], privateMemory: [] },
+		},
+		ledger: {
+			files: { "a.ts": { content: "x\n", owners: [["A", 1]] } },
+			totals: {
+				A: { linesAdded: 1, linesRemoved: 0, filesTouched: ["a.ts"] },
+				B: { linesAdded: 0, linesRemoved: 0, filesTouched: [] },
+			},
+		},
+	};
+}
+
+describe("SessionStore", () => {
+	it("round-trips checkpoints under .pairing-bots/sessions/<id>", async () => {
+		const root = join(tmpdir(), `pairing-bots-session-${Date.now()}`);
+		await mkdir(root, { recursive: true });
+
+		const store = new SessionStore({ cwd: root });
+		expect(store.checkpointFile).toBe(join(root, ".pairing-bots", "sessions", store.sessionId, "checkpoint.json"));
+
+		const checkpoint = checkpointFor(store.sessionId, root);
+		await store.save(checkpoint);
+
+		const reopened = new SessionStore({ cwd: root, sessionId: store.sessionId });
+		const loaded = await reopened.load();
+		expect(loaded).toEqual(checkpoint);
+
+		await rm(root, { recursive: true, force: true });
+	});
+
+	it("rejects missing, malformed and unsafe sessions", async () => {
+		const root = join(tmpdir(), `pairing-bots-session-bad-${Date.now()}`);
+		await mkdir(root, { recursive: true });
+
+		expect(() => new SessionStore({ cwd: root, sessionId: "../escape" })).toThrow(/Invalid session id/);
+		await expect(new SessionStore({ cwd: root, sessionId: "missing" }).load()).rejects.toThrow(/No checkpoint found/);
+
+		const store = new SessionStore({ cwd: root, sessionId: "broken" });
+		await mkdir(store.directory, { recursive: true });
+		await writeFile(store.checkpointFile, "{not json", "utf-8");
+		await expect(store.load()).rejects.toThrow(/not valid JSON/);
+
+		await writeFile(store.checkpointFile, JSON.stringify({ ...checkpointFor("broken", root), version: 99 }), "utf-8");
+		await expect(store.load()).rejects.toThrow(/Unsupported checkpoint version/);
+		expect(await readFile(store.checkpointFile, "utf-8")).toContain("\"version\":99");
+
+		await rm(root, { recursive: true, force: true });
+	});
+});
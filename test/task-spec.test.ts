@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { parseTaskMarkdown, taskSpecFromText } from "../src/task-spec.js";
+
+describe("parseTaskMarkdown", () => {
+	it("reads front-matter and lifts issue-template sections out of the description", () => {
+		const spec = parseTaskMarkdown(
+			[
+				"---",
+				"title: Fix empty input crash",
+				"verify_command: npm test -- parser",
+				"files-in-scope: [src/parser.ts, test/parser.test.ts]",
+				"acceptance_criteria:",
+				"  - Empty input returns an empty AST",
+				"---",
+				"The parser throws on an empty string.",
+				"",
+				"## Acceptance criteria",
+				"- [ ] A regression test covers the empty case",
+				"",
+				"## Files off-limits",
+				"- src/generated/",
+				"",
+				"## Notes",
+				"See the stack trace in the ticket.",
+			].join("\n"),
+			"TICKET.md",
+		);
+
+		expect(spec).toEqual({
+			title: "Fix empty input crash",
+			description: "The parser throws on an empty string.\n\n## Notes\nSee the stack trace in the ticket.",
+			acceptanceCriteria: ["Empty input returns an empty AST", "A regression test covers the empty case"],
+			filesInScope: ["src/parser.ts", "test/parser.test.ts"],
+			filesOffLimits: ["src/generated/"],
+			verifyCommand: "npm test -- parser",
+			sourceFile: "TICKET.md",
+		});
+	});
+
+	it("takes the title from a leading H1 when there is no front-matter", () => {
+		const spec = parseTaskMarkdown("# Add a --json flag\n\nPrint results as JSON.\n");
+		expect(spec.title).toBe("Add a --json flag");
+		expect(spec.description).toBe("Print results as JSON.");
+		expect(taskSpecFromText("  Create hello.txt ")).toEqual({
+			description: "Create hello.txt",
+			acceptanceCriteria: [],
+			filesInScope: [],
+			filesOffLimits: [],
+		});
+	});
+
+	it("leaves fenced code alone and keeps prose under recognised sections in the description", () => {
+		const spec = parseTaskMarkdown(
+			[
+				"# Clean up the deploy script",
+				"",
+				"Run it like this:",
+				"```bash",
+				"# Files in scope",
+				"- secret",
+				"```",
+				"",
+				"## Files in scope",
+				"- scripts/deploy.sh",
+				"  and its helpers",
+				"",
+				"Anything under scripts/ is fair game.",
+				"~~~",
+				"## Acceptance criteria",
+				"~~~",
+			].join("\n"),
+		);
+
+		expect(spec.filesInScope).toEqual(["scripts/deploy.sh and its helpers"]);
+		expect(spec.acceptanceCriteria).toEqual([]);
+		expect(spec.description).toBe(
+			[
+				"Run it like this:",
+				"```bash",
+				"# Files in scope",
+				"- secret",
+				"```",
+				"",
+				"## Files in scope",
+				"Anything under scripts/ is fair game.",
+				"~~~",
+				"## Acceptance criteria",
+				"~~~",
+			].join("\n"),
+		);
+	});
+
+	it("rejects unknown front-matter keys and unclosed front-matter with the line number", () => {
+		expect(() => parseTaskMarkdown("---\ntitle: x\nowner: me\n---\nbody", "TICKET.md")).toThrow(
+			'TICKET.md: front-matter line 3: unknown key "owner"',
+		);
+		expect(() => parseTaskMarkdown("---\ntitle: x\nbody")).toThrow("front-matter starts with --- but is never closed");
+	});
+});
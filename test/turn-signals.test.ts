@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { emptyDriverSignals, isRepeatedFeedback, stuckReason } from "../src/turn-signals.js";
+import type { TurnPolicy } from "../src/types.js";
+
+const POLICY: Extract<TurnPolicy, { mode: "adaptive" }> = {
+	mode: "adaptive",
+	maxConsecutiveRounds: 3,
+	maxConsecutiveCheckpoints: 4,
+	maxRejectedFeedback: 2,
+	maxRepeatedFeedback: 2,
+	maxVerificationFailures: 2,
+	maxToolErrors: 6,
+};
+
+describe("turn signals", () => {
+	it("spots feedback that raises the same issue again", () => {
+		const earlier = ["The parser still drops trailing commas in arrays; add a regression test."];
+		expect(isRepeatedFeedback("Trailing commas in arrays are still dropped by the parser.", earlier)).toBe(true);
+		expect(isRepeatedFeedback("Rename the config loader for clarity.", earlier)).toBe(false);
+		expect(isRepeatedFeedback("Fix it.", earlier)).toBe(false);
+		expect(isRepeatedFeedback("Trailing commas again.", [])).toBe(false);
+	});
+
+	it("names the first signal that reached its limit", () => {
+		expect(stuckReason(emptyDriverSignals(), POLICY)).toBeUndefined();
+		expect(stuckReason({ ...emptyDriverSignals(), toolErrors: 5, verificationFailures: 2 }, POLICY)).toBe(
+			"2 verification failures (limit 2)",
+		);
+		expect(stuckReason({ ...emptyDriverSignals(), toolErrors: 7 }, POLICY)).toBe("7 tool errors (limit 6)");
+	});
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import type { AssistantMessage } from "@mariozechner/pi-ai";
+import { emptyUsageBreakdown, recordUsage, usageFromMessage } from "../src/usage.js";
+
+function assistant(provider: string, model: string, reportedCost: number): AssistantMessage {
+	return {
+		role: "assistant",
+		content: [],
+		api: "anthropic-messages",
+		provider,
+		model,
+		usage: {
+			input: 1_000_000,
+			output: 100_000,
+			cacheRead: 0,
+			cacheWrite: 0,
+			totalTokens: 1_100_000,
+			cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: reportedCost },
+		},
+		stopReason: "stop",
+		timestamp: 1,
+	};
+}
+
+describe("usage accounting", () => {
+	it("prices known models from the model table and falls back to the reported cost", () => {
+		const priced = usageFromMessage(assistant("anthropic", "claude-3-5-sonnet-20240620", 0));
+		expect(priced).toMatchObject({ calls: 1, input: 1_000_000, output: 100_000, totalTokens: 1_100_000 });
+		expect(priced.costUsd).toBeCloseTo(3 + 1.5);
+
+		expect(usageFromMessage(assistant("scripted", "script-a", 0.25)).costUsd).toBe(0.25);
+	});
+
+	it("aggregates per agent, known phase and round", () => {
+		const breakdown = emptyUsageBreakdown();
+		const usage = usageFromMessage(assistant("scripted", "script-a", 0.5));
+		recordUsage(breakdown, { actor: "A", phase: "planning", usage });
+		recordUsage(breakdown, { actor: "B", phase: "driving", round: 1, usage });
+		recordUsage(breakdown, { actor: "B", phase: "driving", round: 1, usage });
+		recordUsage(breakdown, { actor: "A", phase: "something_else", round: 2, usage });
+
+		expect(breakdown.total.calls).toBe(4);
+		expect(breakdown.total.costUsd).toBe(2);
+		expect(breakdown.byAgent.B.calls).toBe(2);
+		expect(Object.keys(breakdown.byPhase).sort()).toEqual(["driving", "planning"]);
+		expect(breakdown.byPhase.driving?.input).toBe(2_000_000);
+		expect(breakdown.byRound["1"]?.calls).toBe(2);
+		expect(breakdown.byRound["2"]?.calls).toBe(1);
+		expect(breakdown.arbiter).toBeUndefined();
+	});
+
+	it("keeps arbiter calls out of the per-agent totals", () => {
+		const breakdown = emptyUsageBreakdown();
+		const usage = usageFromMessage(assistant("scripted", "script-arbiter", 0.5));
+		recordUsage(breakdown, { actor: "arbiter", phase: "final_review", usage });
+
+		expect(breakdown.arbiter?.calls).toBe(1);
+		expect(breakdown.total.costUsd).toBe(0.5);
+		expect(breakdown.byPhase.final_review?.calls).toBe(1);
+		expect(breakdown.byAgent.A.calls + breakdown.byAgent.B.calls).toBe(0);
+	});
+});
@@ -0,0 +1,79 @@
+import { access } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { describe, expect, it } from "vitest";
+import { defaultVerificationConfig, formatVerificationResult, runVerificationCommand } from "../src/verification.js";
+
+describe("runVerificationCommand", () => {
+	it("captures exit code and output", async () => {
+		const passed = await runVerificationCommand({
+			config: defaultVerificationConfig("echo ok"),
+			cwd: process.cwd(),
+			stage: "after_driving",
+		});
+		expect(passed.passed).toBe(true);
+		expect(passed.exitCode).toBe(0);
+		expect(passed.output).toBe("ok");
+
+		const failed = await runVerificationCommand({
+			config: defaultVerificationConfig("echo broken 1>&2; exit 3"),
+			cwd: process.cwd(),
+			stage: "after_feedback_resolution",
+		});
+		expect(failed.passed).toBe(false);
+		expect(failed.exitCode).toBe(3);
+		expect(failed.output).toContain("broken");
+		expect(formatVerificationResult(failed)).toContain("FAILED");
+	});
+
+	it("keeps the tail of long output and enforces the timeout", async () => {
+		const truncated = await runVerificationCommand({
+			config: { ...defaultVerificationConfig("seq 1 2000"), maxOutputChars: 20 },
+			cwd: process.cwd(),
+			stage: "after_driving",
+		});
+		expect(truncated.outputTruncated).toBe(true);
+		expect(truncated.output.endsWith("2000")).toBe(true);
+
+		const timedOut = await runVerificationCommand({
+			config: { ...defaultVerificationConfig("sleep 5"), timeoutMs: 100 },
+			cwd: process.cwd(),
+			stage: "after_driving",
+		});
+		expect(timedOut.timedOut).toBe(true);
+		expect(timedOut.passed).toBe(false);
+		expect(timedOut.durationMs).toBeLessThan(5000);
+	});
+
+	it("fails instead of hanging when the command cannot be spawned", async () => {
+		const missing = join(tmpdir(), `pairing-bots-verify-missing-${Date.now()}-${Math.random().toString(16).slice(2)}`);
+		const result = await runVerificationCommand({ config: defaultVerificationConfig("echo ok"), cwd: missing, stage: "after_driving" });
+		expect(result.passed).toBe(false);
+		expect(result.exitCode).toBeNull();
+		expect(result.output).toContain("Failed to start verification command");
+		expect(formatVerificationResult(result)).toContain("Exit code: n/a");
+	});
+
+	it("kills the command's process group when the signal aborts", async () => {
+		const controller = new AbortController();
+		const marker = join(tmpdir(), `pairing-bots-verify-${Date.now()}-${Math.random().toString(16).slice(2)}`);
+		setTimeout(() => controller.abort(new Error("Run cancelled by SIGINT.")), 100);
+		const startedAt = Date.now();
+
+		// The grandchild would create the marker if it outlived the abort.
+		await expect(
+			runVerificationCommand({
+				config: defaultVerificationConfig(`(sleep 1; touch ${marker}) & sleep 5`),
+				cwd: process.cwd(),
+				stage: "after_driving",
+				signal: controller.signal,
+			}),
+		).rejects.toThrow("Run cancelled by SIGINT.");
+		expect(Date.now() - startedAt).toBeLessThan(3000);
+		await new Promise((resolveWait) => setTimeout(resolveWait, 1200));
+		await expect(access(marker)).rejects.toThrow();
+		await expect(
+			runVerificationCommand({ config: defaultVerificationConfig("echo ok"), cwd: process.cwd(), stage: "after_driving", signal: controller.signal }),
+		).rejects.toThrow("Run cancelled by SIGINT.");
+	});
+});
@@ -0,0 +1,107 @@
+import { execFile } from "node:child_process";
+import { access, mkdir, readFile, readlink, rm, symlink, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { promisify } from "node:util";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { WorkspaceSnapshot } from "../src/workspace-snapshot.js";
+
+const execFileAsync = promisify(execFile);
+
+async function pathExists(path: string): Promise<boolean> {
+	try {
+		await access(path);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+describe("WorkspaceSnapshot", () => {
+	let root: string;
+
+	beforeEach(async () => {
+		root = join(tmpdir(), `pairing-bots-snapshot-${Date.now()}-${Math.random().toString(16).slice(2)}`);
+		await mkdir(join(root, "src"), { recursive: true });
+	});
+
+	afterEach(async () => {
+		await rm(root, { recursive: true, force: true });
+	});
+
+	it("restores edited, deleted and added files but leaves excluded entries alone", async () => {
+		await writeFile(join(root, "src", "a.txt"), "original\n", "utf-8");
+		await writeFile(join(root, "src", "b.txt"), "keep me\n", "utf-8");
+		await symlink("src", join(root, "linked-src"));
+		await mkdir(join(root, ".pairing-bots"), { recursive: true });
+
+		const snapshot = await WorkspaceSnapshot.capture(root);
+		await writeFile(join(root, "src", "a.txt"), "changed\n", "utf-8");
+		await rm(join(root, "src", "b.txt"));
+		await writeFile(join(root, "src", "new.txt"), "added\n", "utf-8");
+		await writeFile(join(root, ".pairing-bots", "log.json"), "{}", "utf-8");
+
+		await snapshot.restore();
+		await snapshot.discard();
+
+		expect(await readFile(join(root, "src", "a.txt"), "utf-8")).toBe("original\n");
+		expect(await readFile(join(root, "src", "b.txt"), "utf-8")).toBe("keep me\n");
+		expect(await pathExists(join(root, "src", "new.txt"))).toBe(false);
+		expect(await readlink(join(root, "linked-src"))).toBe("src");
+		expect(await pathExists(join(root, ".pairing-bots", "log.json"))).toBe(true);
+	});
+
+	it("refreshes only changed files and removes directories the round created", async () => {
+		await writeFile(join(root, "src", "a.txt"), "round one\n", "utf-8");
+		await writeFile(join(root, "src", "b.txt"), "untouched\n", "utf-8");
+		const snapshot = await WorkspaceSnapshot.capture(root);
+
+		await writeFile(join(root, "src", "a.txt"), "round two edit\n", "utf-8");
+		await rm(join(root, "src", "b.txt"));
+		expect(await snapshot.refresh()).toBe(1);
+		expect(await snapshot.refresh()).toBe(0);
+
+		await writeFile(join(root, "src", "a.txt"), "discarded\n", "utf-8");
+		await mkdir(join(root, "generated", "deep"), { recursive: true });
+		await writeFile(join(root, "generated", "deep", "out.txt"), "x", "utf-8");
+		await mkdir(join(root, "pkg", "node_modules"), { recursive: true });
+
+		await snapshot.restore();
+		await snapshot.discard();
+
+		expect(await readFile(join(root, "src", "a.txt"), "utf-8")).toBe("round two edit\n");
+		expect(await pathExists(join(root, "src", "b.txt"))).toBe(false);
+		expect(await pathExists(join(root, "generated"))).toBe(false);
+		expect(await pathExists(join(root, "pkg", "node_modules"))).toBe(true);
+	});
+
+	it("leaves files git ignores alone unless a driver edited them in an earlier round", async () => {
+		await execFileAsync("git", ["init", "-q"], { cwd: root });
+		await writeFile(join(root, ".gitignore"), "dist/\n.env\n", "utf-8");
+		await writeFile(join(root, "src", "a.txt"), "original\n", "utf-8");
+		await mkdir(join(root, "dist"));
+		await writeFile(join(root, "dist", "bundle.js"), "old build\n", "utf-8");
+		await writeFile(join(root, ".env"), "KEY=1\n", "utf-8");
+
+		const snapshot = await WorkspaceSnapshot.capture(root);
+		await writeFile(join(root, "dist", "bundle.js"), "new build\n", "utf-8");
+		await writeFile(join(root, ".env"), "KEY=22\n", "utf-8");
+		snapshot.track([join(root, ".env")]);
+		await snapshot.restore();
+
+		// Neither ignored file was in the snapshot when the round started, so both keep the round's content.
+		expect(await readFile(join(root, "dist", "bundle.js"), "utf-8")).toBe("new build\n");
+		expect(await readFile(join(root, ".env"), "utf-8")).toBe("KEY=22\n");
+
+		// From the next round on, the edited .env is part of the snapshot; the build output still is not.
+		expect(await snapshot.refresh()).toBe(1);
+		await writeFile(join(root, ".env"), "KEY=333\n", "utf-8");
+		await writeFile(join(root, "src", "a.txt"), "changed\n", "utf-8");
+		await snapshot.restore();
+		await snapshot.discard();
+
+		expect(await readFile(join(root, ".env"), "utf-8")).toBe("KEY=22\n");
+		expect(await readFile(join(root, "src", "a.txt"), "utf-8")).toBe("original\n");
+		expect(await readFile(join(root, "dist", "bundle.js"), "utf-8")).toBe("new build\n");
+	});
+});